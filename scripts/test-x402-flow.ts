@@ -15,6 +15,7 @@
 import 'dotenv/config';
 import { config } from '../src/config.js';
 import { RealPaymentService } from '../src/services/payment/real.js';
+import { encodePaymentHeader, X402_VERSION } from '../src/services/x402-verifier.js';
 
 async function main() {
   console.log('='.repeat(60));
@@ -23,7 +24,7 @@ async function main() {
   console.log();
 
   console.log('Network:', config.x402.network);
-  console.log('Facilitator:', config.x402.facilitatorUrl);
+  console.log('Facilitator:', config.x402.facilitatorUrl || '(none, local verification only)');
   console.log('USDC Contract:', config.x402.usdcAddress);
   console.log();
 
@@ -97,18 +98,37 @@ async function main() {
   console.log('  1. Client receives 402 with X-Payment-Required header');
   console.log('  2. Client wallet signs payment payload');
   console.log('  3. Client retries request with X-Payment header');
-  console.log('  4. Server verifies payment via facilitator');
+  console.log('  4. Server verifies the signed authorization (and asks the facilitator, if set)');
   console.log('  5. Server processes request and returns 200');
   console.log();
 
-  // Step 5: Test payment verification (mock)
+  // Step 5: A forged payment must be rejected
   console.log('Step 5: Test Payment Verification');
   console.log('-'.repeat(40));
 
-  const mockSignature = 'mock_signature_' + Date.now();
-  const isValid = await paymentService.verifyPayment(mockSignature);
-  console.log(`  Mock signature verification: ${isValid ? 'PASSED (fallback)' : 'FAILED'}`);
-  console.log('  Note: Real verification requires x402 facilitator');
+  const now = Math.floor(Date.now() / 1000);
+  const forgedHeader = encodePaymentHeader({
+    x402Version: X402_VERSION,
+    scheme: 'exact',
+    network: config.x402.network,
+    payload: {
+      signature: `0x${'11'.repeat(65)}`,
+      authorization: {
+        from: '0x000000000000000000000000000000000000dEaD',
+        to: health.address,
+        value: '10000',
+        validAfter: String(now - 60),
+        validBefore: String(now + 120),
+        nonce: `0x${'22'.repeat(32)}`,
+      },
+    },
+  });
+  const verification = await paymentService.verifyPayment(forgedHeader, {
+    ...mockPaymentRequired.paymentRequirement,
+    scheme: 'exact',
+    resource: 'http://localhost/solve',
+  });
+  console.log(`  Forged payment: ${verification.valid ? 'ACCEPTED (verification is broken!)' : `rejected (${verification.reason})`}`);
   console.log();
 
   // Summary
@@ -1,29 +1,54 @@
 import express, { type Request, type Response } from 'express';
-import type { AgentConfig, Issue, Solution } from '../types/index.js';
+import { config } from '../config.js';
+import type { AgentConfig, AgentRegistration, CallPrices, Issue, Solution } from '../types/index.js';
 import type { ILLMService } from '../types/services.js';
 import { CodingAgent } from './coding-agent.js';
+import { EarningsLedger } from './earnings-ledger.js';
+import { createX402Logger, createX402Middleware, isX402Configured } from './x402-middleware.js';
 
 interface SolveRequestBody {
   issue: Issue;
+  codeContext?: string; // Retrieved code, already fitted to this agent's context window
+}
+
+interface ReviewRequestBody {
+  issue: Issue;
+  code: string; // The proposed fix (diff + explanation), as in Solution.code
 }
 
 interface EvaluateRequestBody {
   issue: Issue;
-  bountyAmount: number;
+  bountyAmount: number; // Price currently offered (the ceiling, or this round's reverse Dutch offer)
+}
+
+export interface AgentServerOptions {
+  registryUrl?: string; // Registry (WS server) to announce this agent to
+  publicUrl?: string; // Base URL the registry reaches this agent at (default http://localhost:<port>)
+  announceIntervalMs?: number; // Re-announce period, so the agent rejoins after being evicted
+  announceSecret?: string; // Shared secret the registry requires on announcements
 }
 
 /**
  * Agent Server - Express server that exposes agent capabilities via HTTP
- * Each agent runs on its own port and can solve GitHub issues
+ * Each agent runs on its own port and can solve GitHub issues.
+ * With a registryUrl it announces itself (URL, wallet, languages, pricing) and
+ * is then health-checked by the registry through GET /health.
+ * An agent with a wallet charges its callPrices for /solve and /review through
+ * the x402 paywall, and keeps the payments that were settled in an earnings ledger.
  */
 export class AgentServer {
   private app: express.Application;
   private agent: CodingAgent;
   private server: ReturnType<typeof express.application.listen> | null = null;
+  private announceTimer: NodeJS.Timeout | null = null;
+  private announced = false;
+  private earnings: EarningsLedger;
+  private prices: Required<CallPrices>;
 
   constructor(
     private agentConfig: AgentConfig,
-    llmService: ILLMService
+    llmService: ILLMService,
+    private options: AgentServerOptions = {}
   ) {
     this.app = express();
     this.agent = new CodingAgent(
@@ -38,6 +63,12 @@ export class AgentServer {
       }
     );
 
+    this.earnings = new EarningsLedger(agentConfig.id);
+    this.prices = {
+      solve: agentConfig.callPrices?.solve ?? config.agentEconomics.callPrices.solve,
+      review: agentConfig.callPrices?.review ?? config.agentEconomics.callPrices.review,
+    };
+
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -50,16 +81,55 @@ export class AgentServer {
       console.log(`[${this.agentConfig.id}] ${req.method} ${req.path}`);
       next();
     });
+
+    // Paywall: only with a wallet to be paid into, and only for priced routes
+    if (this.paywallEnabled()) {
+      this.app.use(
+        createX402Middleware({
+          recipientAddress: this.agentConfig.walletAddress!,
+          routePrices: {
+            'POST /solve': this.prices.solve,
+            'POST /review': this.prices.review,
+          },
+          onPayment: (payment) => {
+            // An authorization nobody has submitted yet is not money earned
+            if (!payment.transaction) {
+              console.warn(`[${this.agentConfig.id}] ${payment.route} payment from ${payment.payer} is not settled, not counted as earned`);
+              return;
+            }
+            this.earnings.record({
+              route: payment.route,
+              amount: payment.amount,
+              payer: payment.payer,
+              nonce: payment.nonce,
+              transaction: payment.transaction,
+              at: Date.now(),
+            });
+          },
+        })
+      );
+      this.app.use(createX402Logger());
+      console.log(
+        `[${this.agentConfig.id}] Charging $${this.prices.solve} per /solve, $${this.prices.review} per /review to ${this.agentConfig.walletAddress}`
+      );
+    }
+  }
+
+  private paywallEnabled(): boolean {
+    return isX402Configured(this.agentConfig) && (this.prices.solve > 0 || this.prices.review > 0);
   }
 
   private setupRoutes(): void {
-    // Health check endpoint
+    // Health check endpoint; degraded while the LLM provider's circuit is open (the registry then skips this agent)
     this.app.get('/health', (_req: Request, res: Response) => {
+      const provider = this.agent.providerStatus();
       res.json({
-        status: 'healthy',
+        status: provider?.circuit === 'open' ? 'degraded' : 'healthy',
         agentId: this.agentConfig.id,
         agentName: this.agentConfig.name,
         model: this.agentConfig.model,
+        languages: this.agentConfig.languages ?? null,
+        provider,
         timestamp: Date.now(),
       });
     });
@@ -78,7 +148,7 @@ export class AgentServer {
           return;
         }
 
-        const { issue } = body;
+        const { issue, codeContext } = body;
 
         // Validate issue structure
         if (!issue.title || issue.number === undefined) {
@@ -90,10 +160,11 @@ export class AgentServer {
 
         console.log(`[${this.agentConfig.id}] Solving issue #${issue.number}: ${issue.title}`);
 
-        const solution: Solution = await this.agent.solve(issue);
+        const solution: Solution = await this.agent.solve(issue, codeContext, abortOnClose(res));
 
         console.log(
-          `[${this.agentConfig.id}] Solution ${solution.success ? 'completed' : 'failed'} in ${solution.timeMs}ms`
+          `[${this.agentConfig.id}] Solution ${solution.success ? 'completed' : `failed (${solution.error ?? 'unknown error'})`} in ${solution.timeMs}ms` +
+          (solution.usage ? `, ${solution.usage.totalTokens} tokens ($${solution.cost?.toFixed(4)})` : '')
         );
 
         res.json(solution);
@@ -107,7 +178,29 @@ export class AgentServer {
           timeMs: Date.now() - startTime,
           success: false,
           error: errorMessage,
-        } as Solution & { error: string });
+        } as Solution);
+      }
+    });
+
+    // Review endpoint - score someone else's fix for an issue
+    this.app.post('/review', async (req: Request, res: Response) => {
+      try {
+        const body = req.body as ReviewRequestBody;
+
+        if (!body.issue || typeof body.code !== 'string') {
+          res.status(400).json({
+            error: 'Missing required fields: issue, code',
+          });
+          return;
+        }
+
+        console.log(`[${this.agentConfig.id}] Reviewing a fix for issue #${body.issue.number}`);
+        const review = await this.agent.review(body.issue, body.code, abortOnClose(res));
+        res.json(review);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[${this.agentConfig.id}] Error in /review:`, errorMessage);
+        res.status(500).json({ error: errorMessage });
       }
     });
 
@@ -147,11 +240,24 @@ export class AgentServer {
         name: this.agentConfig.name,
         model: this.agentConfig.model,
         port: this.agentConfig.port,
+        languages: this.agentConfig.languages ?? null,
         economics: {
           costPerToken: this.agentConfig.costPerToken,
           avgTokensPerSolution: this.agentConfig.avgTokensPerSolution,
           minimumMargin: this.agentConfig.minimumMargin,
+          measured: this.agent.costSummary(),
+        },
+        pricing: {
+          paywall: this.paywallEnabled(),
+          walletAddress: this.agentConfig.walletAddress ?? null,
+          currency: 'USDC',
+          routes: {
+            'POST /solve': this.prices.solve,
+            'POST /review': this.prices.review,
+            'POST /evaluate': 0,
+          },
         },
+        earnings: this.earnings.summary(),
       });
     });
   }
@@ -166,6 +272,7 @@ export class AgentServer {
           console.log(
             `[${this.agentConfig.id}] Agent server running on http://localhost:${this.agentConfig.port}`
           );
+          this.startAnnouncing();
           resolve();
         });
 
@@ -186,6 +293,11 @@ export class AgentServer {
    * Stop the agent server
    */
   stop(): Promise<void> {
+    if (this.announceTimer) {
+      clearInterval(this.announceTimer);
+      this.announceTimer = null;
+    }
+
     return new Promise((resolve, reject) => {
       if (!this.server) {
         resolve();
@@ -203,7 +315,78 @@ export class AgentServer {
     });
   }
 
+  /**
+   * Announce this agent to the registry now and every announceIntervalMs.
+   * Failures are logged and retried on the next tick - the registry may start later.
+   */
+  private startAnnouncing(): void {
+    const { registryUrl, announceIntervalMs = 60000 } = this.options;
+    if (!registryUrl) return;
+
+    const announce = () => {
+      this.announce(registryUrl).catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[${this.agentConfig.id}] Could not announce to registry at ${registryUrl}: ${errorMessage}`);
+      });
+    };
+
+    announce();
+    this.announceTimer = setInterval(announce, announceIntervalMs);
+    this.announceTimer.unref();
+  }
+
+  private async announce(registryUrl: string): Promise<void> {
+    const { id, name, model, provider, walletAddress, languages, contextWindow, costPerToken, avgTokensPerSolution, minimumMargin } =
+      this.agentConfig;
+    const announcement: AgentRegistration = {
+      id,
+      name,
+      url: this.options.publicUrl ?? `http://localhost:${this.agentConfig.port}`,
+      model,
+      provider,
+      walletAddress,
+      languages,
+      contextWindow,
+      costPerToken,
+      avgTokensPerSolution,
+      minimumMargin,
+      // Without the paywall every call is free, whatever the configured prices
+      ...(this.paywallEnabled() ? { callPrices: this.prices } : {}),
+    };
+
+    const response = await fetch(`${registryUrl.replace(/\/+$/, '')}/agents/announce`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.announceSecret ? { Authorization: `Bearer ${this.options.announceSecret}` } : {}),
+      },
+      body: JSON.stringify(announcement),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(body.error ?? `${response.status} ${response.statusText}`);
+    }
+
+    if (!this.announced) {
+      console.log(`[${this.agentConfig.id}] Registered with ${registryUrl} as ${announcement.url}`);
+      this.announced = true;
+    }
+  }
+
   getAgentConfig(): AgentConfig {
     return this.agentConfig;
   }
 }
+
+/**
+ * Aborted when the caller hangs up before the response is sent (its solve timed out, or
+ * the competition was cancelled), so the LLM call stops instead of running to completion
+ */
+function abortOnClose(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort(new Error('Caller disconnected'));
+  });
+  return controller.signal;
+}
@@ -1,20 +1,41 @@
 import type { ILLMService } from '../types/services.js';
-import type { Issue, Solution, AgentConfig, TaskEvaluation, LLMProvider } from '../types/index.js';
+import type { Issue, Solution, SolutionReview, AgentConfig, TaskEvaluation, LLMProvider, ProviderStatus } from '../types/index.js';
+import { parseSolutionPatch, PatchFormatError, PATCH_FORMAT_INSTRUCTIONS } from '../utils/patch.js';
+import { CostModel } from './cost-model.js';
+
+// Rough generation speed used for ETA estimates, plus fixed request/response overhead
+const TOKENS_PER_SECOND = 60;
+const ETA_OVERHEAD_MS = 5000;
+
+/**
+ * Estimated time to produce a solution of the usual size
+ */
+export function estimateSolveTimeMs(avgTokensPerSolution: number): number {
+  return Math.round(ETA_OVERHEAD_MS + (avgTokensPerSolution / TOKENS_PER_SECOND) * 1000);
+}
 
 export class CodingAgent {
+  private costModel: CostModel;
+
   constructor(
     private agentId: string,
     private model: string,
     private provider: LLMProvider,
     private llmService: ILLMService,
     private economics: Pick<AgentConfig, 'costPerToken' | 'avgTokensPerSolution' | 'minimumMargin'>
-  ) {}
+  ) {
+    this.costModel = new CostModel(agentId, economics);
+  }
 
   /**
-   * Evaluate whether this task is worth accepting at the given bounty
+   * Evaluate whether this task is worth accepting at the given bounty.
+   * Cost comes from the tokens similar past solutions used (see CostModel).
+   * The bid is the agent's minimum price (cost plus margin): truthful bidding
+   * is optimal under Vickrey pricing and keeps sealed bids competitive.
    */
   evaluateTask(issue: Issue, bountyAmount: number): TaskEvaluation {
-    const estimatedCost = this.economics.avgTokensPerSolution * this.economics.costPerToken;
+    const estimate = this.costModel.estimate(issue);
+    const estimatedCost = estimate.cost;
     const minPrice = estimatedCost * (1 + this.economics.minimumMargin);
     const accept = bountyAmount >= minPrice;
 
@@ -24,13 +45,33 @@ export class CodingAgent {
       accept,
       minPrice,
       estimatedCost,
+      bidPrice: minPrice,
+      etaMs: estimateSolveTimeMs(estimate.tokens),
       reason: accept
-        ? `Accepting: $${bountyAmount.toFixed(4)} bounty, $${estimatedCost.toFixed(4)} cost, ${marginIfAccepted.toFixed(0)}% margin`
-        : `Declining: Need $${minPrice.toFixed(4)} min, offered $${bountyAmount.toFixed(4)} (${this.economics.minimumMargin * 100}% margin required)`,
+        ? `Accepting: $${bountyAmount.toFixed(4)} bounty, $${estimatedCost.toFixed(4)} cost (${estimate.basis}), ${marginIfAccepted.toFixed(0)}% margin`
+        : `Declining: Need $${minPrice.toFixed(4)} min, offered $${bountyAmount.toFixed(4)} (${estimate.basis}, ${this.economics.minimumMargin * 100}% margin required)`,
     };
   }
 
-  async solve(issue: Issue): Promise<Solution> {
+  /**
+   * Measured cost history, for /info
+   */
+  costSummary(): ReturnType<CostModel['summary']> {
+    return this.costModel.summary();
+  }
+
+  /**
+   * Rate limit and circuit breaker state of this agent's provider, for /health (null if not tracked)
+   */
+  providerStatus(): ProviderStatus | null {
+    return this.llmService.providerStatus?.(this.provider) ?? null;
+  }
+
+  /**
+   * Solve an issue, optionally with retrieved code context (see assembleContext).
+   * Aborting the signal stops the LLM call; the solution then fails with the abort reason.
+   */
+  async solve(issue: Issue, codeContext?: string, signal?: AbortSignal): Promise<Solution> {
     const startTime = Date.now();
 
     const prompt = `Fix this GitHub issue:
@@ -39,29 +80,109 @@ Description: ${issue.body}
 
 Repository: ${issue.repoUrl}
 Labels: ${issue.labels.join(', ')}
+${codeContext ? `\n${codeContext}` : ''}
+Provide a code change that fixes this issue.
 
-Provide a complete code solution that fixes this issue. Include:
-1. The file(s) that need to be modified
-2. The complete code changes
-3. A brief explanation of the fix`;
+${PATCH_FORMAT_INSTRUCTIONS}`;
 
     try {
-      const code = await this.llmService.generateSolution(prompt, this.model, this.provider);
+      const { text: code, usage } = await this.llmService.generateSolution(prompt, this.model, this.provider, signal);
+      // Malformed answers cost the same tokens, so they count toward the cost model too
+      const cost = this.costModel.record(issue, usage);
+
+      try {
+        return {
+          agentId: this.agentId,
+          code,
+          patch: parseSolutionPatch(code),
+          timeMs: Date.now() - startTime,
+          success: true,
+          usage,
+          cost,
+        };
+      } catch (error) {
+        if (!(error instanceof PatchFormatError)) throw error;
+        console.error(`[${this.agentId}] Rejected malformed patch: ${error.message}`);
+
+        return {
+          agentId: this.agentId,
+          code,
+          timeMs: Date.now() - startTime,
+          success: false,
+          error: `Malformed patch: ${error.message}`,
+          usage,
+          cost,
+        };
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[${this.agentId}] Failed to solve issue:`, errorMessage);
+
       return {
         agentId: this.agentId,
-        code,
+        code: '',
+        timeMs: Date.now() - startTime,
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Review a proposed fix for an issue: a 0-100 score and feedback.
+   * Reviews are much shorter than solutions, so they stay out of the cost model.
+   */
+  async review(issue: Issue, code: string, signal?: AbortSignal): Promise<SolutionReview> {
+    const startTime = Date.now();
+
+    const prompt = `Review this proposed fix for a GitHub issue.
+Title: ${issue.title}
+Description: ${issue.body}
+
+Proposed fix:
+${code}
+
+Judge whether it fixes the issue, and its correctness and code quality.
+Respond with only a JSON object: {"score": <0-100>, "feedback": "<a few sentences>"}`;
+
+    try {
+      const { text, usage } = await this.llmService.generateSolution(prompt, this.model, this.provider, signal);
+      const cost = usage.totalTokens * this.economics.costPerToken;
+      const match = text.match(/\{[\s\S]*\}/);
+      const parsed = match ? (JSON.parse(match[0]) as { score?: unknown; feedback?: unknown }) : null;
+      if (!parsed || typeof parsed.score !== 'number') {
+        return {
+          agentId: this.agentId,
+          score: 0,
+          feedback: text,
+          timeMs: Date.now() - startTime,
+          success: false,
+          error: 'Review had no score',
+          usage,
+          cost,
+        };
+      }
+
+      return {
+        agentId: this.agentId,
+        score: Math.max(0, Math.min(100, Math.round(parsed.score))),
+        feedback: typeof parsed.feedback === 'string' ? parsed.feedback : '',
         timeMs: Date.now() - startTime,
         success: true,
+        usage,
+        cost,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[${this.agentId}] Failed to solve issue:`, errorMessage);
+      console.error(`[${this.agentId}] Failed to review solution:`, errorMessage);
 
       return {
         agentId: this.agentId,
-        code: '',
+        score: 0,
+        feedback: '',
         timeMs: Date.now() - startTime,
         success: false,
+        error: errorMessage,
       };
     }
   }
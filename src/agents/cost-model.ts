@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config.js';
+import type { AgentConfig, Issue, TokenUsage } from '../types/index.js';
+
+export type IssueSize = 'small' | 'medium' | 'large';
+
+// One measured solution
+export interface CostSample {
+  repoUrl: string;
+  size: IssueSize;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  at: number;
+}
+
+export interface CostEstimate {
+  tokens: number;             // Expected total tokens for the next solution
+  cost: number;               // tokens at costPerToken
+  samples: number;            // Measured solutions the estimate rests on (0 = configured average only)
+  basis: string;              // Which history was used, for bid explanations
+}
+
+/**
+ * Rolling cost model for one agent.
+ * Keeps the token usage of the agent's most recent solutions and predicts the
+ * next one from the closest matching history: same repo and issue size, then
+ * same size, then same repo, then everything. Measurements are blended with
+ * the configured avgTokensPerSolution, which dominates until a few exist.
+ * History is saved to a JSON file per agent so it survives restarts.
+ */
+export class CostModel {
+  private samples: CostSample[] | null = null;
+  private readonly filePath: string | null;
+
+  constructor(
+    agentId: string,
+    private economics: Pick<AgentConfig, 'costPerToken' | 'avgTokensPerSolution'>
+  ) {
+    const dir = config.agentEconomics.historyDir;
+    this.filePath = dir ? path.join(dir, `${agentId}.json`) : null;
+  }
+
+  /**
+   * Record what a solution actually used; returns its cost
+   */
+  record(issue: Issue, usage: TokenUsage): number {
+    const cost = usage.totalTokens * this.economics.costPerToken;
+    const samples = this.load();
+    samples.push({
+      repoUrl: issue.repoUrl,
+      size: issueSize(issue),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost,
+      at: Date.now(),
+    });
+    samples.splice(0, Math.max(0, samples.length - config.agentEconomics.historyWindow));
+    this.save();
+    return cost;
+  }
+
+  estimate(issue: Issue): CostEstimate {
+    const samples = this.load();
+    const size = issueSize(issue);
+    const sameRepo = (s: CostSample) => s.repoUrl === issue.repoUrl;
+    const sameSize = (s: CostSample) => s.size === size;
+
+    const groups: Array<[string, CostSample[]]> = [
+      [`this repo, ${size} issues`, samples.filter((s) => sameRepo(s) && sameSize(s))],
+      [`${size} issues`, samples.filter(sameSize)],
+      ['this repo', samples.filter(sameRepo)],
+      ['all issues', samples],
+    ];
+    const match = groups.find(([, group]) => group.length > 0);
+
+    const prior = this.economics.avgTokensPerSolution;
+    if (!match) {
+      return { tokens: prior, cost: prior * this.economics.costPerToken, samples: 0, basis: 'configured average' };
+    }
+
+    const [label, group] = match;
+    const measured = group.reduce((sum, s) => sum + s.totalTokens, 0);
+    const weight = config.agentEconomics.priorWeight;
+    const tokens = Math.round((measured + prior * weight) / (group.length + weight));
+    return {
+      tokens,
+      cost: tokens * this.economics.costPerToken,
+      samples: group.length,
+      basis: `${group.length} past solution${group.length === 1 ? '' : 's'} on ${label}`,
+    };
+  }
+
+  /**
+   * Totals for /info
+   */
+  summary(): { samples: number; avgTokens: number | null; avgCost: number | null; totalCost: number } {
+    const samples = this.load();
+    const totalCost = samples.reduce((sum, s) => sum + s.cost, 0);
+    if (samples.length === 0) {
+      return { samples: 0, avgTokens: null, avgCost: null, totalCost };
+    }
+    return {
+      samples: samples.length,
+      avgTokens: Math.round(samples.reduce((sum, s) => sum + s.totalTokens, 0) / samples.length),
+      avgCost: totalCost / samples.length,
+      totalCost,
+    };
+  }
+
+  private load(): CostSample[] {
+    if (this.samples) {
+      return this.samples;
+    }
+
+    this.samples = [];
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      try {
+        this.samples = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CostSample[];
+      } catch (error) {
+        console.warn(`[CostModel] Ignoring unreadable history ${this.filePath}:`, error);
+      }
+    }
+    return this.samples;
+  }
+
+  private save(): void {
+    if (!this.filePath || !this.samples) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.samples));
+      fs.renameSync(tmpFile, this.filePath);
+    } catch (error) {
+      // Losing history only makes bids fall back to the configured average
+      console.warn(`[CostModel] Failed to save history ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Bucket an issue by how much the reporter wrote
+ */
+export function issueSize(issue: Pick<Issue, 'title' | 'body'>): IssueSize {
+  const length = issue.title.length + (issue.body?.length ?? 0);
+  if (length < 400) return 'small';
+  if (length < 1500) return 'medium';
+  return 'large';
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config.js';
+
+// One settled call payment
+export interface EarningEntry {
+  route: string;                // e.g. "POST /solve"
+  amount: number;               // USDC
+  payer: string;
+  nonce: string;
+  transaction: string;          // Settlement transaction hash
+  at: number;
+}
+
+export interface EarningsSummary {
+  total: number;
+  calls: number;
+  byRoute: Record<string, { calls: number; total: number }>;
+  recent: EarningEntry[];       // Newest first
+}
+
+// Only the latest payments are kept in full; totals cover all of them
+const RECENT_LIMIT = 20;
+
+/**
+ * Call fees one agent has been paid through x402.
+ * Every payment the paywall settles is added here; totals per route and the
+ * most recent payments are saved to a JSON file per agent and shown on /info.
+ */
+export class EarningsLedger {
+  private earnings: EarningsSummary | null = null;
+  private readonly filePath: string | null;
+
+  constructor(agentId: string) {
+    const dir = config.agentEconomics.earningsDir;
+    this.filePath = dir ? path.join(dir, `${agentId}.json`) : null;
+  }
+
+  record(entry: EarningEntry): void {
+    const earnings = this.load();
+    const route = (earnings.byRoute[entry.route] ??= { calls: 0, total: 0 });
+    route.calls += 1;
+    route.total = roundAmount(route.total + entry.amount);
+    earnings.calls += 1;
+    earnings.total = roundAmount(earnings.total + entry.amount);
+    earnings.recent = [entry, ...earnings.recent].slice(0, RECENT_LIMIT);
+    this.save();
+  }
+
+  summary(): EarningsSummary {
+    return this.load();
+  }
+
+  private load(): EarningsSummary {
+    if (this.earnings) {
+      return this.earnings;
+    }
+
+    this.earnings = { total: 0, calls: 0, byRoute: {}, recent: [] };
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      try {
+        this.earnings = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as EarningsSummary;
+      } catch (error) {
+        console.warn(`[EarningsLedger] Ignoring unreadable ledger ${this.filePath}:`, error);
+      }
+    }
+    return this.earnings;
+  }
+
+  private save(): void {
+    if (!this.filePath || !this.earnings) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(this.earnings));
+      fs.renameSync(tmpFile, this.filePath);
+    } catch (error) {
+      // The payment itself was settled; only the bookkeeping is lost
+      console.warn(`[EarningsLedger] Failed to save ledger ${this.filePath}:`, error);
+    }
+  }
+}
+
+// USDC has 6 decimals
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
@@ -6,31 +6,37 @@
 
 import type { Request, Response, NextFunction } from 'express';
 import { config } from '../config.js';
+import type { PaymentRequirement } from '../types/index.js';
+import { NonceStore } from '../services/nonce-store.js';
+import { X402Verifier } from '../services/x402-verifier.js';
+
+export type { PaymentRequirement };
 
 export interface X402Config {
-  /** Price per call in USDC */
-  pricePerCall: number;
+  /** Price per call in USDC, for protectedRoutes */
+  pricePerCall?: number;
   /** Wallet address to receive payments */
   recipientAddress: string;
   /** Routes to protect (e.g., ['POST /solve']) */
   protectedRoutes?: string[];
+  /** Price per route in USDC (e.g., { 'POST /solve': 0.01, 'POST /review': 0.002 }); 0 = free. Checked before protectedRoutes */
+  routePrices?: Record<string, number>;
   /** Whether to enable the paywall (default: true) */
   enabled?: boolean;
+  /** Payment verification (default: local EIP-3009 checks with nonces in config.x402.nonceDir) */
+  verifier?: X402Verifier;
+  /** Called for every verified payment, before the route runs */
+  onPayment?: (payment: X402Payment) => void;
 }
 
-export interface PaymentRequirement {
-  scheme: 'exact';
-  network: string;
-  asset: {
-    address: string;
-    decimals: number;
-    symbol: string;
-  };
-  payee: string;
-  maxAmountRequired: string;
-  description: string;
-  resource: string;
-  facilitator?: string;
+/** What a verified payment paid for, as attached to req.x402Payment */
+export interface X402Payment {
+  verified: true;
+  route: string;
+  amount: number;
+  payer: string;
+  nonce: string;
+  transaction?: string; // Settlement; absent when it was left for the payee to submit
 }
 
 /**
@@ -39,11 +45,14 @@ export interface PaymentRequirement {
  */
 export function createX402Middleware(x402Config: X402Config) {
   const {
-    pricePerCall,
+    pricePerCall = 0,
     recipientAddress,
     protectedRoutes = ['POST /solve'],
+    routePrices = {},
     enabled = true,
+    onPayment,
   } = x402Config;
+  const verifier = x402Config.verifier ?? new X402Verifier(new NonceStore(config.x402.nonceDir));
 
   return async (req: Request, res: Response, next: NextFunction) => {
     // Skip if middleware is disabled
@@ -51,41 +60,41 @@ export function createX402Middleware(x402Config: X402Config) {
       return next();
     }
 
-    // Check if this route is protected
+    // Check if this route is protected, and at what price
     const routeKey = `${req.method} ${req.path}`;
-    const isProtected = protectedRoutes.some((route) => {
-      if (route === routeKey) return true;
-      // Support wildcards like "POST /solve*"
-      if (route.endsWith('*')) {
-        const prefix = route.slice(0, -1);
-        return routeKey.startsWith(prefix);
-      }
-      return false;
-    });
+    const pricedRoute = Object.keys(routePrices).find((route) => matchesRoute(route, routeKey));
+    const price = pricedRoute !== undefined
+      ? routePrices[pricedRoute]
+      : protectedRoutes.some((route) => matchesRoute(route, routeKey)) ? pricePerCall : 0;
 
-    if (!isProtected) {
+    if (!(price > 0)) {
       return next();
     }
 
     // Check for payment header
     const paymentHeader = req.headers['x-payment'] as string | undefined;
+    const paymentRequirement: PaymentRequirement = {
+      scheme: 'exact',
+      network: config.x402.network,
+      asset: {
+        address: config.x402.usdcAddress,
+        decimals: 6,
+        symbol: 'USDC',
+      },
+      payee: recipientAddress,
+      maxAmountRequired: Math.round(price * 1e6).toString(), // Convert to 6 decimals
+      description: `AI Agent API Call - ${req.path}`,
+      resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      maxTimeoutSeconds: config.x402.maxTimeoutSeconds,
+      facilitator: config.x402.facilitatorUrl || undefined,
+      extra: {
+        name: config.x402.usdcName,
+        version: config.x402.usdcVersion,
+      },
+    };
 
     if (!paymentHeader) {
       // Return 402 Payment Required with payment requirements
-      const paymentRequirement: PaymentRequirement = {
-        scheme: 'exact',
-        network: config.x402.network,
-        asset: {
-          address: config.x402.usdcAddress,
-          decimals: 6,
-          symbol: 'USDC',
-        },
-        payee: recipientAddress,
-        maxAmountRequired: (pricePerCall * 1e6).toString(), // Convert to 6 decimals
-        description: `AI Agent API Call - ${req.path}`,
-        resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
-        facilitator: config.x402.facilitatorUrl,
-      };
 
       // Encode payment requirement as base64 for header
       const paymentRequiredHeader = Buffer.from(
@@ -97,9 +106,9 @@ export function createX402Middleware(x402Config: X402Config) {
       res.json({
         status: 402,
         error: 'Payment Required',
-        message: `This endpoint requires payment of ${pricePerCall} USDC`,
+        message: `This endpoint requires payment of ${price} USDC`,
         paymentDetails: {
-          amount: pricePerCall,
+          amount: price,
           currency: 'USDC',
           recipient: recipientAddress,
           network: config.x402.network,
@@ -111,25 +120,35 @@ export function createX402Middleware(x402Config: X402Config) {
 
     // Verify the payment
     try {
-      const isValid = await verifyPayment(paymentHeader);
+      const verification = await verifier.verify(paymentHeader, paymentRequirement);
 
-      if (!isValid) {
+      if (!verification.valid) {
+        console.warn(`[X402] Payment rejected for ${routeKey}: ${verification.reason}`);
         res.status(402).json({
           status: 402,
           error: 'Payment Invalid',
-          message: 'The provided payment signature could not be verified',
+          message: verification.reason,
+          paymentRequirement,
         });
         return;
       }
 
       // Payment verified - add info to request for logging
-      (req as any).x402Payment = {
+      const payment: X402Payment = {
         verified: true,
-        amount: pricePerCall,
-        header: paymentHeader.slice(0, 50) + '...',
+        route: routeKey,
+        amount: verification.amount,
+        payer: verification.payer,
+        nonce: verification.nonce,
+        transaction: verification.transaction,
       };
+      (req as any).x402Payment = payment;
+      if (payment.transaction) {
+        res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+      }
 
-      console.log(`[X402] Payment verified for ${routeKey}: ${pricePerCall} USDC`);
+      console.log(`[X402] Payment verified for ${routeKey}: ${verification.amount} USDC from ${verification.payer}`);
+      onPayment?.(payment);
       next();
     } catch (error) {
       console.error('[X402] Payment verification error:', error);
@@ -143,42 +162,22 @@ export function createX402Middleware(x402Config: X402Config) {
 }
 
 /**
- * Verify payment with the x402 facilitator
+ * X-PAYMENT-RESPONSE header: the settlement, base64 JSON as in the x402 spec
  */
-async function verifyPayment(paymentHeader: string): Promise<boolean> {
-  try {
-    // Try to verify with the facilitator
-    const response = await fetch(`${config.x402.facilitatorUrl}/verify`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ payment: paymentHeader }),
-    });
-
-    if (response.ok) {
-      const result = await response.json();
-      return result.valid === true;
-    }
-
-    return false;
-  } catch (error) {
-    // If facilitator is unavailable, do basic validation
-    // This allows testing without full infrastructure
-    console.warn('[X402] Facilitator unavailable, using basic validation');
+function encodePaymentResponse(payment: X402Payment): string {
+  const settlement = { success: true, transaction: payment.transaction, network: config.x402.network, payer: payment.payer };
+  return Buffer.from(JSON.stringify(settlement)).toString('base64');
+}
 
-    try {
-      // Basic check: decode and verify structure
-      const decoded = JSON.parse(
-        Buffer.from(paymentHeader, 'base64').toString('utf-8')
-      );
-      return (
-        decoded &&
-        typeof decoded.signature === 'string' &&
-        decoded.signature.length > 20
-      );
-    } catch {
-      return paymentHeader.length > 50; // Very basic fallback
-    }
+/**
+ * Exact match, or a wildcard like "POST /solve*"
+ */
+function matchesRoute(route: string, routeKey: string): boolean {
+  if (route === routeKey) return true;
+  if (route.endsWith('*')) {
+    return routeKey.startsWith(route.slice(0, -1));
   }
+  return false;
 }
 
 /**
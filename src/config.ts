@@ -1,5 +1,19 @@
 import 'dotenv/config';
-import type { AgentConfig } from './types/index.js';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { AgentConfig, AuctionMode, EscalationStrategy, PayoutPolicyKind } from './types/index.js';
+
+// JSON-valued env vars (e.g. per-repo settings); a malformed value falls back to the default
+function jsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    console.warn(`[Config] Ignoring ${name}: not valid JSON`);
+    return fallback;
+  }
+}
 
 export const config = {
   useMocks: {
@@ -9,6 +23,7 @@ export const config = {
     payment: process.env.MOCK_PAYMENT !== 'false',
     agents: process.env.MOCK_AGENTS !== 'false',
     reviewer: process.env.MOCK_REVIEWER !== 'false',
+    verifier: process.env.MOCK_VERIFIER !== 'false',
     rag: process.env.MOCK_RAG !== 'false',
   },
 
@@ -21,6 +36,7 @@ export const config = {
       provider: 'fireworks',
       port: 3001,
       walletAddress: process.env.AGENT_LLAMA_WALLET,
+      contextWindow: 131072,
       costPerToken: 0.000025,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.25,
@@ -32,6 +48,7 @@ export const config = {
       provider: 'fireworks',
       port: 3002,
       walletAddress: process.env.AGENT_QWEN_WALLET,
+      contextWindow: 262144,
       costPerToken: 0.000015,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.20,
@@ -43,6 +60,7 @@ export const config = {
       provider: 'fireworks',
       port: 3003,
       walletAddress: process.env.AGENT_DEEPSEEK_WALLET,
+      contextWindow: 163840,
       costPerToken: 0.00004,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.30,
@@ -55,6 +73,7 @@ export const config = {
       provider: 'openai',
       port: 3004,
       walletAddress: process.env.AGENT_GPT_WALLET,
+      contextWindow: 128000,
       costPerToken: 0.00001,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.25,
@@ -67,6 +86,7 @@ export const config = {
       provider: 'anthropic',
       port: 3005,
       walletAddress: process.env.AGENT_OPUS_WALLET,
+      contextWindow: 200000,
       costPerToken: 0.000015,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.25,
@@ -79,6 +99,7 @@ export const config = {
       provider: 'google',
       port: 3006,
       walletAddress: process.env.AGENT_GEMINI_WALLET,
+      contextWindow: 1048576,
       costPerToken: 0.000001,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.20,
@@ -91,6 +112,7 @@ export const config = {
       provider: 'xai',
       port: 3007,
       walletAddress: process.env.AGENT_GROK_WALLET,
+      contextWindow: 131072,
       costPerToken: 0.00001,
       avgTokensPerSolution: 2000,
       minimumMargin: 0.25,
@@ -109,9 +131,21 @@ export const config = {
   // X402 Protocol Configuration - TESTNET BY DEFAULT
   x402: {
     network: (process.env.X402_NETWORK || 'base-sepolia') as 'base' | 'base-sepolia',
-    facilitatorUrl: process.env.X402_FACILITATOR_URL || 'https://x402.coinbase.com',
+    // Optional second opinion on incoming payments (they are always verified locally), and settles them
+    facilitatorUrl: process.env.X402_FACILITATOR_URL || '',
+    // Without a facilitator, incoming authorizations are submitted from this wallet (it pays the gas)
+    settlerPrivateKey: process.env.X402_SETTLER_PRIVATE_KEY || '',
     // Base Sepolia testnet USDC by default
     usdcAddress: process.env.USDC_CONTRACT_ADDRESS || '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    // EIP-712 domain the USDC contract signs authorizations under ("USD Coin" on Base mainnet)
+    usdcName: process.env.USDC_EIP712_NAME || (process.env.X402_NETWORK === 'base' ? 'USD Coin' : 'USDC'),
+    usdcVersion: process.env.USDC_EIP712_VERSION || '2',
+    // How long a payment authorization may be valid for, in seconds
+    maxTimeoutSeconds: parseInt(process.env.X402_MAX_TIMEOUT_SECONDS || '300', 10),
+    // Most one competition pays agents in per-call fees (USDC), on top of the bounty
+    callSpendCap: parseFloat(process.env.X402_CALL_SPEND_CAP || '0.05'),
+    // Used authorization nonces, one JSON file per payee, so a payment can't be replayed after a restart
+    nonceDir: process.env.X402_NONCE_DIR ?? join(homedir(), '.codebounty', 'x402-nonces'),
   },
 
   // CDP (Coinbase Developer Platform) Configuration
@@ -121,10 +155,181 @@ export const config = {
     walletSecret: process.env.CDP_WALLET_SECRET || '',
   },
 
+  // Solution verification (sandboxed build + test before judging)
+  verification: {
+    // Repo the solutions are applied to (defaults to the current working directory)
+    repoPath: process.env.VERIFY_REPO_PATH || process.cwd(),
+    // Leave empty to use the base commit's package.json scripts (typecheck/build, test)
+    buildCommand: process.env.VERIFY_BUILD_CMD || '',
+    testCommand: process.env.VERIFY_TEST_CMD || '',
+    timeoutMs: parseInt(process.env.VERIFY_TIMEOUT_MS || '300000', 10),
+    // Memory cap for each process the build and test commands start (ulimit -d), and Node's heap cap
+    maxMemoryMb: parseInt(process.env.VERIFY_MAX_MEMORY_MB || '2048', 10),
+  },
+
+  // Suggested bounty (see BountyPricer): base price scaled by issue difficulty, blended with past outcomes
+  pricing: {
+    basePrice: parseFloat(process.env.BOUNTY_BASE_PRICE || '0.05'),
+    minPrice: parseFloat(process.env.BOUNTY_MIN_PRICE || '0.01'),
+    maxPrice: parseFloat(process.env.BOUNTY_MAX_PRICE || '0.25'),
+    // Per-repo limits, e.g. {"owner/repo": {"min": 0.02, "max": 0.5}}
+    repoLimits: jsonEnv<Record<string, { min?: number; max?: number }>>('BOUNTY_REPO_LIMITS', {}),
+    // Lower-case label -> price multiplier; BOUNTY_LABEL_MULTIPLIERS entries are merged over these
+    labelMultipliers: {
+      'bounty-high': 3,
+      'bounty-medium': 2,
+      'high-priority': 2,
+      security: 2,
+      enhancement: 1.5,
+      feature: 1.5,
+      performance: 1.5,
+      bug: 1.3,
+      refactor: 1.2,
+      'good first issue': 0.6,
+      documentation: 0.5,
+      docs: 0.5,
+      ...jsonEnv<Record<string, number>>('BOUNTY_LABEL_MULTIPLIERS', {}),
+    } as Record<string, number>,
+    // Past competitions scanned for similar issues
+    historyLimit: parseInt(process.env.BOUNTY_HISTORY_LIMIT || '200', 10),
+  },
+
+  // Bidding phase (see AuctionMode); the suggested bounty is the price ceiling
+  auction: {
+    mode: (process.env.AUCTION_MODE || 'sealed-bid') as AuctionMode,
+    maxParticipants: parseInt(process.env.AUCTION_MAX_PARTICIPANTS || '3', 10),
+    // Reverse Dutch: first offer as a share of the ceiling, raise per round, stop once this many accept
+    dutchStartShare: parseFloat(process.env.AUCTION_DUTCH_START_SHARE || '0.25'),
+    dutchStepPercent: parseFloat(process.env.AUCTION_DUTCH_STEP || '0.2'),
+    dutchMinParticipants: parseInt(process.env.AUCTION_DUTCH_MIN_PARTICIPANTS || '2', 10),
+  },
+
+  // When every agent declines, raise the ceiling and re-run the auction (see EscalationStrategy)
+  escalation: {
+    strategy: (process.env.ESCALATION_STRATEGY || 'highest-min-price') as EscalationStrategy,
+    maxRounds: parseInt(process.env.ESCALATION_MAX_ROUNDS || '3', 10), // 0 = never escalate
+    stepPercent: parseFloat(process.env.ESCALATION_STEP || '0.5'),
+    // Cap as a multiple of the starting bounty; a "bounty-cap:<usd>" issue label overrides it
+    capMultiplier: parseFloat(process.env.ESCALATION_CAP_MULTIPLIER || '3'),
+  },
+
+  // How the bounty is split between solutions once they are scored (see PayoutPolicyKind)
+  payout: {
+    policy: (process.env.PAYOUT_POLICY || 'winner-take-all') as PayoutPolicyKind,
+    topN: parseInt(process.env.PAYOUT_TOP_N || '2', 10),
+    consolationAmount: parseFloat(process.env.PAYOUT_CONSOLATION || '0.005'),
+  },
+
+  // Escrow: bounties are reserved against the orchestrator wallet when a competition is created
+  escrow: {
+    // Balance of the simulated wallet used with mock payments (USDC)
+    mockBalance: parseFloat(process.env.ESCROW_MOCK_BALANCE || '10'),
+  },
+
+  // Payment worker: follows sent payouts to a receipt and retries failed ones
+  paymentWorker: {
+    pollIntervalMs: parseInt(process.env.PAYMENT_POLL_INTERVAL_MS || '15000', 10),
+    maxAttempts: parseInt(process.env.PAYMENT_MAX_ATTEMPTS || '5', 10),
+    // Backoff between attempts: retryBaseMs, doubling, at most retryMaxMs
+    retryBaseMs: parseInt(process.env.PAYMENT_RETRY_BASE_MS || '30000', 10),
+    retryMaxMs: parseInt(process.env.PAYMENT_RETRY_MAX_MS || '1800000', 10),
+    // A transaction the node has never heard of for this long was dropped
+    droppedAfterMs: parseInt(process.env.PAYMENT_DROPPED_AFTER_MS || '600000', 10),
+  },
+
+  // Crash recovery: competitions a process stopped running are resumed from their last checkpoint
+  recovery: {
+    // A running competition's lease is renewed well within this; an expired one means its process is gone
+    leaseMs: parseInt(process.env.COMPETITION_LEASE_MS || '60000', 10),
+    // A competition that keeps getting interrupted is given up (and its bounty refunded) after this many resumes
+    maxResumes: parseInt(process.env.COMPETITION_MAX_RESUMES || '2', 10),
+  },
+
+  // Competitions started through the queue (POST /run): at most maxConcurrent run at once, and at most
+  // perProvider of them with agents on the same LLM provider (providerLimits overrides it per provider)
+  queue: {
+    maxConcurrent: parseInt(process.env.QUEUE_MAX_CONCURRENT || '2', 10),
+    perProvider: parseInt(process.env.QUEUE_PER_PROVIDER || '2', 10),
+    providerLimits: jsonEnv<Record<string, number>>('QUEUE_PROVIDER_LIMITS', {}),
+    // Also picks up slots freed by other processes
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '5000', 10),
+  },
+
+  // LLM provider calls (RealLLMService): retries on 429/5xx with jittered backoff or Retry-After,
+  // a request rate per provider, and a circuit breaker that fails calls fast while a provider is down
+  llmResilience: {
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+    retryBaseMs: parseInt(process.env.LLM_RETRY_BASE_MS || '1000', 10),
+    retryMaxMs: parseInt(process.env.LLM_RETRY_MAX_MS || '30000', 10),
+    // Requests per provider; LLM_PROVIDER_RATE_LIMITS entries override it for one provider
+    rateLimit: {
+      burst: parseInt(process.env.LLM_RATE_BURST || '10', 10),
+      perMinute: parseInt(process.env.LLM_RATE_PER_MINUTE || '60', 10),
+    },
+    providerRateLimits: jsonEnv<Record<string, { burst?: number; perMinute?: number }>>('LLM_PROVIDER_RATE_LIMITS', {}),
+    breakerThreshold: parseInt(process.env.LLM_BREAKER_THRESHOLD || '5', 10),
+    breakerCooldownMs: parseInt(process.env.LLM_BREAKER_COOLDOWN_MS || '30000', 10),
+  },
+
+  // Time limits: a competition still running past its deadline is cancelled (bounty refunded),
+  // an agent that hasn't answered its solve call in time is dropped as timed out, and a
+  // reviewer that hasn't answered in time is replaced by the fallback scoring
+  timeouts: {
+    competitionMs: parseInt(process.env.COMPETITION_TIMEOUT_MS || '1800000', 10),
+    solveMs: parseInt(process.env.AGENT_SOLVE_TIMEOUT_MS || '300000', 10),
+    reviewMs: parseInt(process.env.REVIEW_TIMEOUT_MS || '120000', 10),
+  },
+
+  // Agent cost models: each agent prices bids from the tokens its recent solutions actually used
+  agentEconomics: {
+    // One JSON file per agent; empty = keep history in memory only
+    historyDir: process.env.AGENT_COST_HISTORY_DIR ?? join(homedir(), '.codebounty', 'agent-costs'),
+    historyWindow: parseInt(process.env.AGENT_COST_HISTORY_WINDOW || '50', 10), // Most recent solutions kept
+    // Weight of the configured avgTokensPerSolution, in solutions, when blending it with measurements
+    priorWeight: parseFloat(process.env.AGENT_COST_PRIOR_WEIGHT || '2'),
+    // Per-call fees (USDC) for agents with a wallet, unless an agent sets its own callPrices; 0 = free
+    callPrices: {
+      solve: parseFloat(process.env.AGENT_SOLVE_PRICE || '0'),
+      review: parseFloat(process.env.AGENT_REVIEW_PRICE || '0'),
+    },
+    // Call fees each agent was paid, one JSON file per agent; empty = in memory only
+    earningsDir: process.env.AGENT_EARNINGS_DIR ?? join(homedir(), '.codebounty', 'agent-earnings'),
+  },
+
+  // Agent registry: remote agents announce themselves and are health-checked via /health
+  agentRegistry: {
+    // Registry (WS server) that agent servers announce themselves to; empty = don't announce
+    url: process.env.AGENT_REGISTRY_URL || '',
+    // Shared secret agent servers present to announce themselves; empty = announcements are refused
+    announceSecret: process.env.AGENT_ANNOUNCE_SECRET || '',
+    // Secret the operator (and the web app) present to register, update or remove agents; empty = no secret asked
+    adminSecret: process.env.AGENT_REGISTRY_ADMIN_SECRET || '',
+    // Base URL other hosts reach this machine's agents at (the agent's port is appended)
+    publicHost: process.env.AGENT_PUBLIC_HOST || 'http://localhost',
+    heartbeatIntervalMs: parseInt(process.env.AGENT_HEARTBEAT_INTERVAL_MS || '15000', 10),
+    healthTimeoutMs: parseInt(process.env.AGENT_HEALTH_TIMEOUT_MS || '3000', 10),
+    // Not seen for this long = offline (not invited to bid)
+    staleAfterMs: parseInt(process.env.AGENT_STALE_AFTER_MS || '45000', 10),
+    // Self-registered agents not seen for this long are removed from the registry
+    evictAfterMs: parseInt(process.env.AGENT_EVICT_AFTER_MS || '600000', 10),
+    // How often agent servers re-announce (so an evicted agent rejoins when it comes back)
+    announceIntervalMs: parseInt(process.env.AGENT_ANNOUNCE_INTERVAL_MS || '60000', 10),
+  },
+
   // RAG (Retrieval-Augmented Generation) Configuration
   rag: {
     indexMode: process.env.INDEX_MODE || 'ast',
     chunkLimit: parseInt(process.env.RAG_CHUNK_LIMIT || '10', 10),
+    // Upper bound on code context per prompt, even for models with huge context windows
+    maxContextTokens: parseInt(process.env.RAG_MAX_CONTEXT_TOKENS || '32000', 10),
+    // 'voyage' needs VOYAGE_API_KEY; 'local' hashes tokens into vectors offline
+    embeddingProvider: (process.env.RAG_EMBEDDINGS || 'voyage') as 'voyage' | 'local',
+    localDimensions: parseInt(process.env.RAG_LOCAL_DIMENSIONS || '512', 10),
+    // 'atlas' needs MONGODB_URI; 'memory' lasts for the process, 'file' persists to storePath
+    vectorStore: (process.env.RAG_VECTOR_STORE || 'atlas') as 'atlas' | 'memory' | 'file',
+    // numDimensions of the Atlas vector_index; the embedding provider must produce vectors of this length
+    atlasDimensions: parseInt(process.env.RAG_ATLAS_DIMENSIONS || '1536', 10),
+    storePath: process.env.RAG_STORE_PATH || join(homedir(), '.codebounty', 'rag-index.json'),
   },
 
   // Voyage AI Configuration
@@ -140,6 +345,7 @@ export const config = {
     dbName: 'codebounty',
     collections: {
       chunks: 'code_chunks',
+      indexedCommits: 'indexed_commits',
       competitions: 'competitions',
       payments: 'payments',
     },
@@ -1,11 +1,12 @@
 import { config } from './config.js';
 import { AgentServer } from './agents/agent-server.js';
-import { MockLLMService, FireworksLLMService } from './services/llm.js';
+import { MockLLMService } from './services/llm.js';
+import { RealLLMService } from './services/llm/real.js';
 import type { ILLMService } from './types/services.js';
 
 /**
  * Launch all agent servers
- * Uses MockLLMService by default, or FireworksLLMService if MOCK_LLM=false
+ * Uses MockLLMService by default, or RealLLMService (each agent's own provider) if MOCK_LLM=false
  */
 async function launchAgents(): Promise<void> {
   console.log('='.repeat(60));
@@ -24,8 +25,9 @@ async function launchAgents(): Promise<void> {
       console.error('[launcher] ERROR: FIREWORKS_API_KEY is required when MOCK_LLM=false');
       process.exit(1);
     }
-    console.log('[launcher] Using FireworksLLMService');
-    llmService = new FireworksLLMService(config.fireworks.apiKey);
+    // One service for all agents, so agents on the same provider share its rate limit and circuit breaker
+    console.log('[launcher] Using RealLLMService');
+    llmService = new RealLLMService();
   }
 
   console.log(`[launcher] Starting ${config.agents.length} agents...`);
@@ -35,7 +37,12 @@ async function launchAgents(): Promise<void> {
   const servers: AgentServer[] = [];
 
   for (const agentConfig of config.agents) {
-    const server = new AgentServer(agentConfig, llmService);
+    const server = new AgentServer(agentConfig, llmService, {
+      registryUrl: config.agentRegistry.url || undefined,
+      publicUrl: `${config.agentRegistry.publicHost}:${agentConfig.port}`,
+      announceIntervalMs: config.agentRegistry.announceIntervalMs,
+      announceSecret: config.agentRegistry.announceSecret || undefined,
+    });
     servers.push(server);
 
     try {
@@ -67,6 +74,11 @@ async function launchAgents(): Promise<void> {
     console.log();
   }
 
+  if (config.agentRegistry.url) {
+    console.log(`Announcing to agent registry at ${config.agentRegistry.url} as ${config.agentRegistry.publicHost}:<port>`);
+    console.log();
+  }
+
   // Handle graceful shutdown
   const shutdown = async (signal: string) => {
     console.log();
@@ -0,0 +1,264 @@
+/**
+ * Bidding phase auctions.
+ * Agents quote a price (and ETA) through /evaluate; the auction rules decide
+ * which agents get to solve the issue and what the winner is paid.
+ */
+
+import { config } from '../config.js';
+import type { IAgentClient } from '../types/services.js';
+import type { Issue, RegisteredAgent, AuctionBid, AuctionConfig, AuctionMode, AuctionResult, EscalationPolicy } from '../types/index.js';
+
+// Reverse Dutch never runs more rounds than this, whatever the step size
+const MAX_DUTCH_ROUNDS = 20;
+
+/**
+ * Auction settings for a competition: defaults from config.auction, the bounty as price ceiling
+ */
+export function auctionConfig(maxPrice: number, overrides: Partial<AuctionConfig> = {}): AuctionConfig {
+  const mode: AuctionMode = overrides.mode ?? config.auction.mode;
+  const base: AuctionConfig = {
+    mode,
+    maxPrice,
+    maxParticipants: config.auction.maxParticipants,
+  };
+  if (mode === 'reverse-dutch') {
+    base.startPrice = roundPrice(maxPrice * config.auction.dutchStartShare);
+    base.stepPercent = config.auction.dutchStepPercent;
+    base.minParticipants = config.auction.dutchMinParticipants;
+  }
+  return { ...base, ...overrides, mode };
+}
+
+/**
+ * Escalation policy for an issue: defaults from config.escalation, capped at a
+ * multiple of the starting bounty unless a "bounty-cap:<usd>" label sets the cap
+ */
+export function escalationPolicy(issue: Issue, bounty: number, overrides: Partial<EscalationPolicy> = {}): EscalationPolicy {
+  const capLabel = issue.labels
+    .map((l) => l.toLowerCase().match(/^bounty-cap[:=-]\$?(\d+(?:\.\d+)?)$/))
+    .find((m) => m !== null);
+  const cap = capLabel ? parseFloat(capLabel[1]) : roundPrice(bounty * config.escalation.capMultiplier);
+
+  return {
+    strategy: config.escalation.strategy,
+    stepPercent: config.escalation.stepPercent,
+    maxRounds: config.escalation.maxRounds,
+    cap,
+    ...overrides,
+  };
+}
+
+/**
+ * Ceiling for the next escalation round after an auction nobody won, or null
+ * once the cap is reached. Asks above the ceiling (declining agents' minimums,
+ * or bids over it) tell the highest-min-price strategy what it takes to get
+ * every agent on board; without any, it falls back to a step.
+ */
+export function nextEscalationPrice(result: AuctionResult, policy: EscalationPolicy): { price: number; reason: string } | null {
+  const current = result.config.maxPrice;
+  if (current >= policy.cap) {
+    return null;
+  }
+
+  let target = roundPrice(current * (1 + policy.stepPercent));
+  let reason = `+${Math.round(policy.stepPercent * 100)}% step`;
+  if (policy.strategy === 'highest-min-price') {
+    const asks = result.bids
+      .map((b) => ({ agentId: b.agentId, ask: b.accepted ? b.bidPrice : b.minPrice }))
+      .filter((a): a is { agentId: string; ask: number } => typeof a.ask === 'number' && a.ask > current)
+      .sort((a, b) => b.ask - a.ask);
+    if (asks.length > 0) {
+      target = roundPrice(asks[0].ask);
+      reason = `highest minimum price (${asks[0].agentId})`;
+    } else {
+      reason = `no agent quoted a price above $${formatPrice(current)}, ${reason}`;
+    }
+  }
+
+  if (target > policy.cap) {
+    return { price: policy.cap, reason: `${reason}, capped at $${formatPrice(policy.cap)}` };
+  }
+  return { price: target, reason };
+}
+
+/**
+ * Run the auction over these agents and settle it. Aborting the signal stops it with signal.reason.
+ */
+export async function runAuction(
+  agents: RegisteredAgent[],
+  issue: Issue,
+  auction: AuctionConfig,
+  agentClient: IAgentClient,
+  signal?: AbortSignal
+): Promise<AuctionResult> {
+  if (auction.mode === 'reverse-dutch') {
+    return runReverseDutch(agents, issue, auction, agentClient, signal);
+  }
+
+  // Sealed modes: one round, every agent quotes against the ceiling
+  const bids = await requestBids(agents, issue, auction.maxPrice, 1, agentClient, signal);
+  return auction.mode === 'vickrey' ? settleVickrey(bids, auction) : settleSealedBid(bids, auction);
+}
+
+/**
+ * Lowest valid bids win; each participant is paid its own bid
+ */
+export function settleSealedBid(bids: AuctionBid[], auction: AuctionConfig): AuctionResult {
+  const ranked = rankBids(bids, auction.maxPrice);
+  const winners = ranked.slice(0, auction.maxParticipants);
+  const payouts = Object.fromEntries(winners.map((b) => [b.agentId, b.bidPrice!]));
+
+  return {
+    config: auction,
+    bids,
+    participants: winners.map((b) => b.agentId),
+    payouts,
+    clearingPrice: winners[0]?.bidPrice ?? null,
+    rounds: 1,
+    summary: winners.length > 0
+      ? `${winners.length} lowest of ${ranked.length} valid bids win, each paid its own bid ($${formatPrice(winners[0].bidPrice!)}-$${formatPrice(winners[winners.length - 1].bidPrice!)})`
+      : `No bids at or below $${formatPrice(auction.maxPrice)}`,
+  };
+}
+
+/**
+ * Lowest valid bids win; every participant is paid the lowest losing bid
+ * (or the ceiling if nobody lost), so bidding one's true cost is the best strategy
+ */
+export function settleVickrey(bids: AuctionBid[], auction: AuctionConfig): AuctionResult {
+  const ranked = rankBids(bids, auction.maxPrice);
+  const winners = ranked.slice(0, auction.maxParticipants);
+  const firstLoser = ranked[auction.maxParticipants];
+  const price = firstLoser ? firstLoser.bidPrice! : auction.maxPrice;
+  const payouts = Object.fromEntries(winners.map((b) => [b.agentId, price]));
+
+  return {
+    config: auction,
+    bids,
+    participants: winners.map((b) => b.agentId),
+    payouts,
+    clearingPrice: winners.length > 0 ? price : null,
+    rounds: 1,
+    summary: winners.length > 0
+      ? `${winners.length} lowest of ${ranked.length} valid bids win, paid the ${firstLoser ? `lowest losing bid of ${firstLoser.agentId}` : 'ceiling'} ($${formatPrice(price)})`
+      : `No bids at or below $${formatPrice(auction.maxPrice)}`,
+  };
+}
+
+/**
+ * Offer a rising price until enough agents accept (or the ceiling is reached).
+ * Agents that accepted keep their place; only the rest are asked again.
+ * Everyone who accepted is paid the final price.
+ */
+async function runReverseDutch(
+  agents: RegisteredAgent[],
+  issue: Issue,
+  auction: AuctionConfig,
+  agentClient: IAgentClient,
+  signal?: AbortSignal
+): Promise<AuctionResult> {
+  const step = auction.stepPercent ?? config.auction.dutchStepPercent;
+  const wanted = Math.min(auction.minParticipants ?? config.auction.dutchMinParticipants, auction.maxParticipants, agents.length);
+  let price = Math.min(auction.startPrice ?? roundPrice(auction.maxPrice * config.auction.dutchStartShare), auction.maxPrice);
+
+  const bids: AuctionBid[] = [];
+  const accepted: AuctionBid[] = [];
+  let round = 0;
+
+  while (round < MAX_DUTCH_ROUNDS) {
+    round++;
+    const pending = agents.filter((a) => !accepted.some((b) => b.agentId === a.id));
+    const roundBids = await requestBids(pending, issue, price, round, agentClient, signal);
+    bids.push(...roundBids);
+    accepted.push(...roundBids.filter((b) => b.accepted));
+
+    if (accepted.length >= wanted || price >= auction.maxPrice || accepted.length === agents.length) {
+      break;
+    }
+    price = Math.min(auction.maxPrice, roundPrice(price * (1 + step)));
+  }
+
+  // First to accept, then fastest
+  const winners = accepted
+    .sort((a, b) => a.round - b.round || (a.etaMs ?? Infinity) - (b.etaMs ?? Infinity))
+    .slice(0, auction.maxParticipants);
+  const payouts = Object.fromEntries(winners.map((b) => [b.agentId, price]));
+
+  return {
+    config: auction,
+    bids,
+    participants: winners.map((b) => b.agentId),
+    payouts,
+    clearingPrice: winners.length > 0 ? price : null,
+    rounds: round,
+    summary: winners.length > 0
+      ? `${winners.length} agents accepted by round ${round}, all paid $${formatPrice(price)}`
+      : `No agent accepted up to $${formatPrice(price)} after ${round} rounds`,
+  };
+}
+
+/**
+ * Ask every agent for a quote at this price. Agents that fail to answer are
+ * recorded as declined so the bid book shows who was asked.
+ */
+async function requestBids(
+  agents: RegisteredAgent[],
+  issue: Issue,
+  offeredPrice: number,
+  round: number,
+  agentClient: IAgentClient,
+  signal?: AbortSignal
+): Promise<AuctionBid[]> {
+  signal?.throwIfAborted();
+  return Promise.all(
+    agents.map(async (agent): Promise<AuctionBid> => {
+      try {
+        const evaluation = await agentClient.evaluateAgent(`${agent.url}/solve`, issue, offeredPrice, signal);
+        return {
+          agentId: agent.id,
+          round,
+          offeredPrice,
+          // Agents that don't quote a price ask for their minimum
+          bidPrice: evaluation.accept ? roundPrice(evaluation.bidPrice ?? evaluation.minPrice) : null,
+          minPrice: evaluation.minPrice,
+          estimatedCost: evaluation.estimatedCost,
+          etaMs: evaluation.etaMs,
+          accepted: evaluation.accept,
+          reason: evaluation.reason,
+          at: Date.now(),
+        };
+      } catch (error) {
+        // The auction itself was stopped, not just this agent
+        if (signal?.aborted) throw signal.reason;
+        console.error(`[Auction] Failed to get bid from ${agent.id}:`, error);
+        return {
+          agentId: agent.id,
+          round,
+          offeredPrice,
+          bidPrice: null,
+          accepted: false,
+          reason: `Failed to evaluate: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          at: Date.now(),
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Valid bids (accepted, priced at or below the ceiling), cheapest first, then fastest
+ */
+function rankBids(bids: AuctionBid[], maxPrice: number): AuctionBid[] {
+  return bids
+    .filter((b) => b.accepted && b.bidPrice !== null && b.bidPrice <= maxPrice)
+    .sort((a, b) => a.bidPrice! - b.bidPrice! || (a.etaMs ?? Infinity) - (b.etaMs ?? Infinity));
+}
+
+// USDC has 6 decimals
+function roundPrice(price: number): number {
+  return Math.round(price * 1e6) / 1e6;
+}
+
+function formatPrice(price: number): string {
+  return price.toFixed(4);
+}
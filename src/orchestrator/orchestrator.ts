@@ -1,351 +1,839 @@
+import { hostname } from 'os';
 import { nanoid } from 'nanoid';
 import type { Services } from '../types/services.js';
-import type { Competition, Issue, AgentStatus, SolveTask, Solution, PaymentRecord, TaskEvaluation } from '../types/index.js';
-import type { CodeChunk } from '../types/services.js';
+import type { Competition, AgentStatus, Issue, SolveTask, Solution, VerificationResult, RegisteredAgent, AuctionConfig, AuctionResult, BountyEscalation, BountyEstimate, PayoutPolicy, ReviewResult, CompetitionOptions, CompetitionPhase, CompetitionCheckpoint } from '../types/index.js';
+import type { CompetitionEvent } from '../types/events.js';
+import type { CodeChunk, RAGProgressCallback } from '../types/services.js';
 import { config } from '../config.js';
+import { assembleContext, contextBudget, listRepoFiles } from '../services/rag/context-assembler.js';
+import { parseSolutionPatch, checkPatchApplies, resolveCommit, PatchFormatError } from '../utils/patch.js';
+import { auctionConfig, runAuction, escalationPolicy, nextEscalationPrice } from './auction.js';
+import { payoutPolicy, planPayouts, passingAgents, sendPayouts } from './payouts.js';
+import { EscrowError } from '../services/escrow-ledger.js';
+
+export type StartCompetitionOptions = CompetitionOptions;
+
+// Phases of a run in order; a competition's checkpoint names the last one it finished
+export const PHASES: CompetitionPhase[] = ['index', 'retrieve', 'bid', 'solve', 'verify', 'judge', 'pay'];
+
+// Statuses of a competition that has started and not finished
+export const ACTIVE_STATUSES: Competition['status'][] = ['pending', 'running', 'verifying', 'judging', 'paying'];
+
+// Statuses of a competition that hasn't finished
+const UNFINISHED: Competition['status'][] = ['queued', ...ACTIVE_STATUSES];
+
+/**
+ * Why a run was stopped before paying out: cancelled on request, past its deadline, or
+ * its lease was taken over by another process (which resumes it).
+ * It is the abort reason of the run's signal, so it is what aborted calls reject with.
+ */
+export class CompetitionCancelledError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'cancelled' | 'deadline' | 'lease_lost'
+  ) {
+    super(message);
+    this.name = 'CompetitionCancelledError';
+  }
+}
+
+export type CancelCompetitionErrorCode = 'not_found' | 'finished' | 'paying';
+
+/**
+ * Thrown when a competition can't be cancelled
+ */
+export class CancelCompetitionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CancelCompetitionErrorCode
+  ) {
+    super(message);
+    this.name = 'CancelCompetitionError';
+  }
+}
+
+// A run in progress in this process
+interface ActiveRun {
+  competition: Competition;
+  controller: AbortController; // Aborted to cancel the run
+}
 
-interface AgentBid {
-  agentId: string;
-  evaluation: TaskEvaluation & { agentId: string };
-  accepted: boolean;
+// What the index and retrieve phases hand on to the rest of the run
+interface Workspace {
+  repoPath: string;
+  commitId: string;           // Commit the repo was indexed at
+  baseCommit: string | null;  // The same commit, if the checkout has it; patches must apply to it
+  chunksIndexed: number;
+  chunks: CodeChunk[];
+  repoFiles: string[];
 }
 
+/**
+ * The competition engine, driven by both the TUI and the WebSocket server.
+ * A competition runs through fixed phases - index, retrieve, bid, solve,
+ * verify, judge, pay - and every phase saves its progress to the state store
+ * and emits CompetitionEvents. Agents are only ever reached through IAgentClient.
+ *
+ * Each finished phase is checkpointed on the competition, and the process
+ * running it holds a lease. If the process dies, another one finds the expired
+ * lease on startup (resumeInterrupted) and carries on after the checkpoint.
+ *
+ * Until it starts paying out, a run can be cancelled (cancel) and is cancelled
+ * at its deadline; either way the bounty is refunded. Each agent's solve call
+ * is aborted if it takes longer than the solve timeout.
+ */
 export class Orchestrator {
+  // Owner of the leases this instance takes
+  private readonly owner = `${hostname()}:${process.pid}:${nanoid(6)}`;
+  private readonly runs = new Map<string, ActiveRun>();
+
   constructor(private services: Services) {}
 
   /**
-   * Start a new competition for a GitHub issue
-   * Fetches issue, indexes repo, creates competition, runs agents, picks winner, pays them
+   * Fetch a GitHub issue, then create and run a competition for it
    */
-  async startCompetition(repoUrl: string, issueNumber: number): Promise<Competition> {
-    console.log('[Orchestrator] ========================================');
-    console.log('[Orchestrator] START COMPETITION CALLED');
-    console.log('[Orchestrator] Repo:', repoUrl);
-    console.log('[Orchestrator] Issue #:', issueNumber);
-    console.log('[Orchestrator] ========================================');
-
-    // 1. Fetch issue from GitHub
-    console.log('[Orchestrator] Fetching issue from GitHub...');
+  async startCompetition(repoUrl: string, issueNumber: number, options: StartCompetitionOptions = {}): Promise<Competition> {
+    console.log(`[Orchestrator] Fetching issue ${repoUrl}#${issueNumber}...`);
     const issue = await this.services.github.getIssue(repoUrl, issueNumber);
     console.log('[Orchestrator] Issue fetched:', issue.title);
 
-    // 2. Index repository FIRST (fail fast pattern - if indexing fails, no competition is created)
-    const currentDir = process.cwd();
-    console.log(`[Orchestrator] Indexing repository at ${currentDir}`);
-
-    const { commitId, chunksIndexed } = await this.services.rag.indexRepo(currentDir, repoUrl);
-    console.log(`[Orchestrator] Repository indexed: ${chunksIndexed} chunks (commit: ${commitId})`);
+    const competition = await this.createCompetition(issue, options);
+    return this.run(competition, options);
+  }
 
-    // 3. Query relevant code context
-    console.log(`[Orchestrator] Querying relevant code for issue...`);
-    const relevantChunks = await this.services.rag.queryRelevantCode(issue, config.rag.chunkLimit);
-    const codeContext = this.formatCodeContext(relevantChunks);
-    console.log(`[Orchestrator] Retrieved ${relevantChunks.length} relevant code chunks`);
+  /**
+   * Invite every enabled agent that answers its health check, price the issue
+   * (unless the bounty is given) and reserve the bounty against the wallet.
+   * With queue, it is created queued (see CompetitionQueue) instead of ready to run.
+   * Throws EscrowError if the wallet can't cover it.
+   */
+  async createCompetition(
+    issue: Issue,
+    options: StartCompetitionOptions = {},
+    queue?: { priority: number }
+  ): Promise<Competition> {
+    await this.services.agents.checkHealth();
+    const registeredAgents = await this.services.agents.list({ enabledOnly: true, liveOnly: true });
+    if (registeredAgents.length === 0) {
+      throw new Error('No enabled agents are online');
+    }
+    console.log(`[Orchestrator] Inviting ${registeredAgents.length} online agents: ${registeredAgents.map(a => a.id).join(', ')}`);
+
+    // A given bounty is used as is; otherwise the suggested one is the auction ceiling until the winner is known
+    let bountyAmount = options.bountyAmount;
+    let bountyEstimate: BountyEstimate | undefined;
+    if (bountyAmount === undefined) {
+      bountyEstimate = await this.services.pricing.estimate(issue);
+      bountyAmount = bountyEstimate.amount;
+      console.log(`[Orchestrator] Suggested bounty $${bountyEstimate.amount} ($${bountyEstimate.low}-$${bountyEstimate.high}): ${bountyEstimate.explanation}`);
+    }
 
-    // 4. Create initial competition state (only after successful indexing)
     const competition: Competition = {
       id: nanoid(),
       issue,
-      bountyAmount: this.calculateBounty(issue),
-      status: 'pending',
-      agents: this.initializeAgentStatuses(),
+      bountyAmount,
+      ...(bountyEstimate ? { bountyEstimate } : {}),
+      status: queue ? 'queued' : 'pending',
+      agents: this.initializeAgentStatuses(registeredAgents),
+      ...(Object.keys(options).length > 0 ? { options } : {}),
+      // A queued competition is leased by whichever process starts it
+      lease: queue ? null : { owner: this.owner, expiresAt: Date.now() + config.recovery.leaseMs },
+      ...(queue ? { priority: queue.priority, queuedAt: Date.now() } : {}),
       createdAt: Date.now(),
     };
 
-    // 5. Save competition to state store
+    await this.services.escrow.reserve(competition.id, competition.bountyAmount);
     await this.services.state.saveCompetition(competition);
+    await this.emit(competition.id, 'competition:created', { competition });
 
-    // 6. Collect bids from agents - they decide if bounty is acceptable
-    console.log(`[Orchestrator] Requesting bids from agents for $${competition.bountyAmount} bounty...`);
-    const bids = await this.collectAgentBids(competition.issue, competition.bountyAmount);
+    return competition;
+  }
 
-    const acceptingAgents = bids.filter(b => b.accepted);
-    const decliningAgents = bids.filter(b => !b.accepted);
+  /**
+   * Run a created competition through every phase and return its final state
+   * (status cancelled if it was cancelled or ran past its deadline)
+   */
+  async run(competition: Competition, options: StartCompetitionOptions = {}): Promise<Competition> {
+    const run: ActiveRun = { competition, controller: new AbortController() };
+    this.runs.set(competition.id, run);
+    const renewal = this.holdLease(run);
+    const deadline = await this.startDeadline(run, options);
+
+    // Whatever happens from here, the reserved bounty is released to the winner or refunded,
+    // unless another process took the competition over
+    let failure: string | undefined;
+    let leaseLost = false;
+    try {
+      return await this.runPhases(competition, options, run.controller.signal);
+    } catch (error) {
+      const { signal } = run.controller;
+      if (signal.reason instanceof CompetitionCancelledError && signal.reason.code === 'lease_lost') {
+        // Its new owner resumes it from the last checkpoint; nothing here is written back
+        leaseLost = true;
+        console.warn(`[Orchestrator] Stopped ${competition.id}: ${signal.reason.message}`);
+        return competition;
+      }
+      if (signal.aborted) {
+        failure = signal.reason instanceof Error ? signal.reason.message : 'Cancelled';
+        return await this.cancelled(competition, failure);
+      }
+      failure = `Competition failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      await this.fail(competition, failure);
+      throw error;
+    } finally {
+      clearInterval(renewal);
+      clearTimeout(deadline);
+      this.runs.delete(competition.id);
+      if (!leaseLost) {
+        await this.services.escrow.settle(competition, failure);
+        await this.releaseLease(competition);
+      }
+    }
+  }
 
-    console.log(`[Orchestrator] ${acceptingAgents.length} agents accepted, ${decliningAgents.length} declined`);
+  /**
+   * Take a queued competition's lease so this process can run it. False if
+   * another process took it first (or it is no longer queued).
+   */
+  async claim(competition: Competition): Promise<boolean> {
+    if (this.runs.has(competition.id)) return false;
+    const expiresAt = Date.now() + config.recovery.leaseMs;
+    if (!(await this.services.state.claimCompetition(competition.id, this.owner, expiresAt))) {
+      return false;
+    }
+    const latest = await this.services.state.getCompetition(competition.id);
+    if (latest?.status !== 'queued') {
+      await this.releaseLease(competition);
+      return false;
+    }
+    competition.lease = { owner: this.owner, expiresAt };
+    return true;
+  }
 
-    for (const bid of bids) {
-      console.log(`[Orchestrator] ${bid.agentId}: ${bid.accepted ? 'ACCEPT' : 'DECLINE'} - ${bid.evaluation.reason}`);
+  /**
+   * Stop a competition before it pays out, and refund its bounty. A run in this
+   * process is aborted right away; one held by another process is stopped when
+   * that process next renews its lease; one nobody is running (interrupted) is
+   * ended here. Throws CancelCompetitionError if it doesn't exist, already
+   * finished, or is paying out.
+   */
+  async cancel(competitionId: string, reason = 'Cancelled by request'): Promise<void> {
+    const competition = await this.services.state.getCompetition(competitionId);
+    if (!competition) {
+      throw new CancelCompetitionError(`Competition not found: ${competitionId}`, 'not_found');
+    }
+    if (!UNFINISHED.includes(competition.status)) {
+      throw new CancelCompetitionError(`Competition ${competitionId} is already ${competition.status}`, 'finished');
     }
 
-    // Store bid info on agent statuses
-    for (const agentStatus of competition.agents) {
-      const bid = bids.find(b => b.agentId === agentStatus.id);
-      if (bid) {
-        agentStatus.evaluation = bid.evaluation;
-        if (!bid.accepted) {
-          agentStatus.status = 'declined';
-          agentStatus.declineReason = bid.evaluation.reason;
-        }
+    const run = this.runs.get(competitionId);
+    if (run) {
+      if (!this.stop(run, new CompetitionCancelledError(reason, 'cancelled'))) {
+        throw new CancelCompetitionError(`Competition ${competitionId} is already paying out`, 'paying');
       }
+      return;
+    }
+    if (competition.status === 'paying') {
+      throw new CancelCompetitionError(`Competition ${competitionId} is already paying out`, 'paying');
     }
-    await this.services.state.updateCompetition(competition.id, { agents: competition.agents });
 
-    // If no agents accept, we could raise bounty - for now just proceed with whoever accepted
-    if (acceptingAgents.length === 0) {
-      console.log(`[Orchestrator] No agents accepted the bounty. Consider raising to $${Math.max(...bids.map(b => b.evaluation.minPrice)).toFixed(4)}`);
-      // Mark competition as completed with no participants
-      await this.services.state.updateCompetition(competition.id, {
-        status: 'completed',
-        completedAt: Date.now(),
+    if (await this.services.state.claimCompetition(competitionId, this.owner, Date.now() + config.recovery.leaseMs)) {
+      await this.cancelled(competition, reason);
+      await this.services.escrow.settle(competition, reason);
+      await this.releaseLease(competition);
+      return;
+    }
+    console.log(`[Orchestrator] Asking the process running ${competitionId} to cancel it`);
+    await this.services.state.updateCompetition(competitionId, { cancelRequested: reason });
+  }
+
+  /**
+   * Resume every started competition whose lease expired (its process died),
+   * in the background, from the phase after its checkpoint. Competitions that
+   * finished but never settled their bounty are settled. Queued competitions
+   * are left to the queue. Run this on startup.
+   * Returns the competitions being resumed.
+   */
+  async resumeInterrupted(): Promise<Competition[]> {
+    const unfinished = (await Promise.all(ACTIVE_STATUSES.map((status) => this.services.state.getCompetitionsByStatus(status)))).flat();
+    const resumed: Competition[] = [];
+
+    for (const competition of unfinished) {
+      if (competition.lease && competition.lease.expiresAt > Date.now()) continue; // Still running somewhere
+      if (!(await this.services.state.claimCompetition(competition.id, this.owner, Date.now() + config.recovery.leaseMs))) continue;
+
+      if (competition.cancelRequested) {
+        await this.cancelled(competition, competition.cancelRequested);
+        await this.services.escrow.settle(competition, competition.cancelRequested);
+        await this.releaseLease(competition);
+        continue;
+      }
+
+      const hold = await this.services.state.getEscrowHold(competition.id);
+      const resumes = (competition.resumes ?? 0) + 1;
+      const problem = hold?.status !== 'reserved'
+        ? 'Interrupted, and its bounty is no longer reserved'
+        : resumes > config.recovery.maxResumes
+          ? `Interrupted ${resumes} times, giving up`
+          : null;
+      if (problem) {
+        console.warn(`[Orchestrator] Not resuming ${competition.id}: ${problem}`);
+        await this.fail(competition, problem);
+        await this.services.escrow.settle(competition, problem);
+        await this.releaseLease(competition);
+        continue;
+      }
+
+      const phase = competition.checkpoint?.phase ?? null;
+      console.log(`[Orchestrator] Resuming ${competition.id} (${competition.status}) after ${phase ?? 'no finished phase'}, attempt ${resumes}`);
+      competition.resumes = resumes;
+      await this.services.state.updateCompetition(competition.id, { resumes });
+      await this.emit(competition.id, 'competition:resumed', { phase, resumes });
+
+      this.run(competition, competition.options ?? {}).catch((error) => {
+        console.error(`[Orchestrator] Resumed competition ${competition.id} failed:`, error);
       });
-      competition.status = 'completed';
-      competition.completedAt = Date.now();
-      return competition;
+      resumed.push(competition);
     }
 
-    // 7. Update status to running and execute agents (only those who accepted)
-    await this.services.state.updateCompetition(competition.id, { status: 'running' });
-    competition.status = 'running';
+    // Stopped between completing and letting go of the bounty
+    for (const hold of await this.services.state.listEscrowHolds('reserved')) {
+      const competition = await this.services.state.getCompetition(hold.competitionId);
+      if (competition?.status === 'completed' || competition?.status === 'cancelled') {
+        await this.services.escrow.settle(competition, competition.status === 'cancelled' ? competition.error : undefined);
+      }
+    }
 
-    // 8. Run only accepting agents in parallel (with code context)
-    await this.runAgents(competition, codeContext, acceptingAgents.map(b => b.agentId));
+    return resumed;
+  }
 
-    // 6. Review solutions and pick winner
-    await this.services.state.updateCompetition(competition.id, { status: 'judging' });
-    competition.status = 'judging';
+  private async runPhases(competition: Competition, options: StartCompetitionOptions, signal: AbortSignal): Promise<Competition> {
+    signal.throwIfAborted();
+    if (competition.status === 'queued' || competition.status === 'pending') {
+      console.log(`[Orchestrator] Running competition ${competition.id}`);
+      await this.setStatus(competition, 'running', competition.status === 'queued' ? { queuePosition: null } : {});
+      await this.emit(competition.id, 'competition:started', { competition });
+    }
 
-    const reviewResult = await this.reviewAndPickWinner(competition);
-    competition.reviewResult = reviewResult;
-    competition.winner = reviewResult.winnerId ?? undefined;
+    // Indexing and retrieval only read the repo, so a resumed run repeats them while it still needs the context
+    let workspace: Workspace | null = null;
+    if (!this.passed(competition, 'solve')) {
+      workspace = await this.index(competition, signal);
+      signal.throwIfAborted();
+      await this.retrieve(competition, workspace, signal);
+      signal.throwIfAborted();
+    }
 
-    await this.services.state.updateCompetition(competition.id, {
-      reviewResult,
-      winner: reviewResult.winnerId ?? undefined,
-    });
+    const participants = this.passed(competition, 'bid')
+      ? competition.auction?.participants ?? []
+      : await this.bid(competition, options, signal);
+    if (participants.length === 0) {
+      return this.complete(competition);
+    }
 
-    if (reviewResult.winnerId) {
-      await this.payWinner(competition);
+    if (workspace) {
+      await this.solve(competition, participants, workspace, options, signal);
+    }
+    if (!this.passed(competition, 'verify')) {
+      await this.verify(competition, signal);
+    }
+    if (!this.passed(competition, 'judge')) {
+      signal.throwIfAborted();
+      await this.judge(competition, signal);
+    }
+    // Last chance to stop: once paying has started, the run always finishes
+    signal.throwIfAborted();
+    if (competition.winner) {
+      await this.pay(competition, competition.payoutPolicy ?? payoutPolicy(options.payout));
     }
 
-    // 7. Mark competition as completed
-    const completedAt = Date.now();
-    await this.services.state.updateCompetition(competition.id, {
-      status: 'completed',
-      completedAt,
-    });
-    competition.status = 'completed';
-    competition.completedAt = completedAt;
+    return this.complete(competition);
+  }
 
-    return competition;
+  /**
+   * Index phase: (re-)index the checkout the issue's repo is at. Fails the competition if it can't.
+   */
+  private async index(competition: Competition, signal: AbortSignal): Promise<Workspace> {
+    const repoPath = config.verification.repoPath;
+    const { repoUrl } = competition.issue;
+    console.log(`[Orchestrator] Indexing repository at ${repoPath}`);
+    await this.emit(competition.id, 'rag:indexing', { repoUrl, message: `Indexing ${repoUrl}...` });
+
+    const { commitId, chunksIndexed, chunksReused, chunksEmbedded } = await this.services.rag.indexRepo(
+      repoPath,
+      repoUrl,
+      this.ragProgress(competition.id),
+      signal
+    );
+    console.log(
+      `[Orchestrator] Repository indexed: ${chunksIndexed} chunks (commit: ${commitId})` +
+      (chunksReused !== undefined ? `, ${chunksReused} reused, ${chunksEmbedded ?? 0} re-embedded` : '')
+    );
+
+    // Patches are checked against the indexed commit when the checkout has it
+    const baseCommit = await resolveCommit(repoPath, commitId);
+    if (!baseCommit) {
+      console.warn(`[Orchestrator] Indexed commit ${commitId} not found in ${repoPath}, patches will only be syntax-checked`);
+    }
+
+    await this.checkpoint(competition, 'index', { commitId });
+    return { repoPath, commitId, baseCommit, chunksIndexed, chunks: [], repoFiles: await listRepoFiles(repoPath) };
   }
 
   /**
-   * Collect bids from all agents - each agent evaluates if the bounty is acceptable
+   * Retrieve phase: find the code relevant to the issue. Agents solve without context if this fails.
    */
-  private async collectAgentBids(issue: Issue, bountyAmount: number): Promise<AgentBid[]> {
-    const bidPromises = config.agents.map(async (agentConfig) => {
-      const agentUrl = `http://localhost:${agentConfig.port}/solve`;
+  private async retrieve(competition: Competition, workspace: Workspace, signal: AbortSignal): Promise<void> {
+    try {
+      workspace.chunks = await this.services.rag.queryRelevantCode(
+        competition.issue,
+        config.rag.chunkLimit,
+        this.ragProgress(competition.id),
+        workspace.commitId,
+        signal
+      );
+      console.log(`[Orchestrator] Retrieved ${workspace.chunks.length} relevant code chunks`);
+      await this.emit(competition.id, 'rag:complete', {
+        chunksIndexed: workspace.chunksIndexed,
+        chunksFound: workspace.chunks.length,
+        chunks: workspace.chunks.map(({ filePath, chunkType, chunkName, score, match }) => ({ filePath, chunkType, chunkName, score, match })),
+        message: `Found ${workspace.chunks.length} relevant code chunks`,
+      });
+    } catch (error) {
+      if (signal.aborted) throw signal.reason;
+      console.warn('[Orchestrator] Code retrieval failed, agents get no context:', error);
+      await this.emit(competition.id, 'rag:complete', {
+        chunksIndexed: workspace.chunksIndexed,
+        chunksFound: 0,
+        message: `RAG query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+
+    // Only before bidding: once agents have bid on the bounty it stays
+    if (competition.bountyEstimate && workspace.chunks.length > 0 && !this.passed(competition, 'bid')) {
+      await this.reprice(competition, workspace.chunks);
+    }
+    await this.checkpoint(competition, 'retrieve');
+  }
 
+  /**
+   * A bounty we priced from the issue alone is priced again with its code in view
+   */
+  private async reprice(competition: Competition, chunks: CodeChunk[]): Promise<void> {
+    const estimate = await this.services.pricing.estimate(competition.issue, chunks);
+    if (estimate.amount !== competition.bountyAmount) {
       try {
-        const evaluation = await this.services.agentClient.evaluateAgent(
-          agentUrl,
-          issue,
-          bountyAmount
-        );
+        await this.services.escrow.adjust(competition.id, estimate.amount);
+      } catch (error) {
+        if (!(error instanceof EscrowError)) throw error;
+        console.log(`[Orchestrator] Keeping the $${competition.bountyAmount} bounty: ${error.message}`);
+        return;
+      }
+    }
 
-        return {
-          agentId: agentConfig.id,
-          evaluation,
-          accepted: evaluation.accept,
-        };
+    console.log(`[Orchestrator] Bounty priced with code context: $${estimate.amount} ($${estimate.low}-$${estimate.high}): ${estimate.explanation}`);
+    competition.bountyAmount = estimate.amount;
+    competition.bountyEstimate = estimate;
+    await this.services.state.updateCompetition(competition.id, { bountyAmount: estimate.amount, bountyEstimate: estimate });
+  }
+
+  /**
+   * Bid phase: auction the work - the rules pick who solves it and what the winner is paid.
+   * Returns the ids of the agents that will solve.
+   */
+  private async bid(competition: Competition, options: StartCompetitionOptions, signal: AbortSignal): Promise<string[]> {
+    const { issue } = competition;
+    // Agents can drop out between creation and bidding (a queued competition may wait a while):
+    // those offline now, or whose LLM provider's circuit is open, are not asked to bid
+    await this.services.agents.checkHealth();
+    const invited = await this.invitedAgents(competition);
+    const registeredAgents = invited.filter(a => a.online);
+    for (const agent of invited.filter(a => !a.online)) {
+      const agentStatus = competition.agents.find(s => s.id === agent.id);
+      if (!agentStatus || agentStatus.status === 'declined') continue;
+      agentStatus.status = 'declined';
+      agentStatus.declineReason = agent.providerStatus?.circuit === 'open'
+        ? `${agent.provider} is unavailable (circuit open)`
+        : 'Offline when bidding started';
+      console.log(`[Orchestrator] Skipping ${agent.id}: ${agentStatus.declineReason}`);
+    }
+
+    const auction = auctionConfig(competition.bountyAmount, options.auction);
+    console.log(`[Orchestrator] Running ${auction.mode} auction, ceiling $${auction.maxPrice}, up to ${auction.maxParticipants} participants...`);
+    let result = await this.runBidding(competition, registeredAgents, auction, signal);
+
+    // Nobody bid: raise the ceiling and re-offer, until someone accepts or the cap is reached
+    const policy = escalationPolicy(issue, competition.bountyAmount, options.escalation);
+    competition.escalations = [];
+    while (registeredAgents.length > 0 && result.participants.length === 0 && competition.escalations.length < policy.maxRounds) {
+      const next = nextEscalationPrice(result, policy);
+      if (!next) break;
+      signal.throwIfAborted();
+
+      const fromPrice = competition.bountyAmount;
+      try {
+        await this.services.escrow.adjust(competition.id, next.price);
       } catch (error) {
-        console.error(`[Orchestrator] Failed to get bid from ${agentConfig.id}:`, error);
-        return {
-          agentId: agentConfig.id,
-          evaluation: {
-            agentId: agentConfig.id,
-            accept: false,
-            minPrice: 0,
-            estimatedCost: 0,
-            reason: `Failed to evaluate: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          },
-          accepted: false,
-        };
+        if (!(error instanceof EscrowError)) throw error;
+        console.log(`[Orchestrator] Not escalating beyond $${fromPrice}: ${error.message}`);
+        break;
       }
-    });
+      console.log(`[Orchestrator] No agent bid within $${fromPrice}, escalating to $${next.price} (${next.reason})`);
+      competition.bountyAmount = next.price;
+      result = await this.runBidding(competition, registeredAgents, auctionConfig(next.price, { ...options.auction, maxPrice: next.price }), signal);
+
+      const escalation: BountyEscalation = {
+        round: competition.escalations.length + 1,
+        fromPrice,
+        toPrice: next.price,
+        strategy: policy.strategy,
+        reason: next.reason,
+        participants: result.participants.length,
+        summary: result.summary,
+        at: Date.now(),
+      };
+      competition.escalations.push(escalation);
+      await this.services.state.updateCompetition(competition.id, {
+        bountyAmount: competition.bountyAmount,
+        escalations: competition.escalations,
+      });
+      await this.emit(competition.id, 'bounty:escalated', { escalation, cap: policy.cap, roundsLeft: policy.maxRounds - escalation.round });
+    }
 
-    return Promise.all(bidPromises);
+    if (result.participants.length === 0) {
+      console.log(
+        `[Orchestrator] No agent bid within the $${competition.bountyAmount} ceiling` +
+        (competition.escalations.length > 0 ? ` after ${competition.escalations.length} escalations (cap $${policy.cap})` : '')
+      );
+    }
+    await this.checkpoint(competition, 'bid');
+    return result.participants;
   }
 
   /**
-   * Run agents in parallel and update their statuses as they complete
-   * @param acceptingAgentIds - Only run agents in this list (those who accepted the bounty)
+   * Run one auction, log the bid book and record it on the competition
    */
-  private async runAgents(competition: Competition, codeContext?: string, acceptingAgentIds?: string[]): Promise<void> {
-    const agentsToRun = config.agents.filter(a =>
-      !acceptingAgentIds || acceptingAgentIds.includes(a.id)
+  private async runBidding(
+    competition: Competition,
+    agents: RegisteredAgent[],
+    auction: AuctionConfig,
+    signal: AbortSignal
+  ): Promise<AuctionResult> {
+    const result = await runAuction(agents, competition.issue, auction, this.services.agentClient, signal);
+
+    console.log(`[Orchestrator] Auction settled: ${result.summary}`);
+    for (const bid of result.bids) {
+      console.log(
+        `[Orchestrator] round ${bid.round} ${bid.agentId} @ $${bid.offeredPrice.toFixed(4)}: ` +
+        `${bid.accepted ? `BID $${bid.bidPrice?.toFixed(4)}` : 'DECLINE'} - ${bid.reason}`
+      );
+    }
+
+    this.applyAuctionResult(competition, result);
+    competition.auction = result;
+    await this.services.state.updateCompetition(competition.id, { agents: competition.agents, auction: result });
+    await this.emit(competition.id, 'auction:settled', { auction: result, agents: competition.agents, bountyAmount: competition.bountyAmount });
+    return result;
+  }
+
+  /**
+   * Record each agent's last bid on its status; agents that won't solve are marked declined
+   */
+  private applyAuctionResult(competition: Competition, result: AuctionResult): void {
+    for (const agentStatus of competition.agents) {
+      const bid = [...result.bids].reverse().find(b => b.agentId === agentStatus.id);
+      if (!bid) continue;
+
+      agentStatus.evaluation = {
+        accept: bid.accepted,
+        minPrice: bid.minPrice ?? 0,
+        estimatedCost: bid.estimatedCost ?? 0,
+        bidPrice: bid.bidPrice ?? undefined,
+        etaMs: bid.etaMs,
+        reason: bid.reason,
+      };
+      if (!result.participants.includes(agentStatus.id)) {
+        agentStatus.status = 'declined';
+        agentStatus.declineReason = bid.accepted
+          ? `Outbid: $${bid.bidPrice?.toFixed(4)} lost the ${result.config.mode} auction`
+          : bid.reason;
+      }
+    }
+  }
+
+  /**
+   * Solve phase: call the winning bidders in parallel, each with the retrieved
+   * code fitted to its context window, and check the patches they return.
+   * An agent that doesn't answer within the solve timeout is dropped as timed out.
+   */
+  private async solve(
+    competition: Competition,
+    participants: string[],
+    workspace: Workspace,
+    options: StartCompetitionOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    const timeoutMs = options.solveTimeoutMs ?? config.timeouts.solveMs;
+    // A resumed run only calls the agents that hadn't answered yet
+    const answered = new Set(
+      competition.agents.filter((a) => a.status === 'done' || a.status === 'failed' || a.status === 'timed_out').map((a) => a.id)
     );
+    const agentsToRun = (await this.invitedAgents(competition)).filter(a => participants.includes(a.id) && !answered.has(a.id));
 
-    const agentPromises = agentsToRun.map(async (agentConfig) => {
+    await Promise.all(agentsToRun.map(async (agentConfig) => {
       const agentStatus = competition.agents.find((a) => a.id === agentConfig.id);
       if (!agentStatus) return;
 
-      // Mark agent as solving
       agentStatus.status = 'solving';
       agentStatus.startedAt = Date.now();
       await this.services.state.updateAgentStatus(competition.id, agentStatus);
+      await this.emit(competition.id, 'agent:solving', { agentId: agentConfig.id, agentName: agentConfig.name });
 
+      const agentSignal = AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]);
       try {
-        // Build the agent URL
-        const agentUrl = `http://localhost:${agentConfig.port}/solve`;
+        const codeContext = workspace.chunks.length > 0
+          ? assembleContext(workspace.chunks, {
+              issue: competition.issue,
+              budget: contextBudget(agentConfig, competition.issue),
+              repoFiles: workspace.repoFiles,
+            })
+          : null;
+        if (codeContext && (codeContext.trimmed.length > 0 || codeContext.dropped.length > 0)) {
+          console.log(
+            `[Orchestrator] ${agentConfig.id}: context ${codeContext.tokens}/${codeContext.budget} tokens, ` +
+            `${codeContext.trimmed.length} chunks trimmed, ${codeContext.dropped.length} dropped`
+          );
+        }
 
-        // Create the solve task with code context
         const task: SolveTask = {
           agentId: agentConfig.id,
           issue: competition.issue,
-          codeContext, // Include RAG-retrieved context
+          codeContext: codeContext?.text,
+          competitionId: competition.id,
         };
+        const solution = await this.services.agentClient.callAgent(`${agentConfig.url}/solve`, task, agentSignal);
+        // The agent's answer names it, but only the id it was invited under is trusted
+        solution.agentId = agentConfig.id;
+        if (solution.success) {
+          await this.validatePatch(solution, workspace);
+        }
 
-        // Call the agent
-        const solution = await this.services.agentClient.callAgent(agentUrl, task);
-
-        // Update agent status with solution
         agentStatus.status = solution.success ? 'done' : 'failed';
         agentStatus.solution = solution;
+        agentStatus.error = solution.error;
         agentStatus.completedAt = Date.now();
         await this.services.state.updateAgentStatus(competition.id, agentStatus);
+
+        if (solution.success) {
+          await this.emit(competition.id, 'agent:done', { agentId: agentConfig.id, agentName: agentConfig.name, solution });
+        } else {
+          await this.emit(competition.id, 'agent:failed', { agentId: agentConfig.id, agentName: agentConfig.name, error: solution.error ?? 'Solution rejected' });
+        }
       } catch (error) {
-        // Handle agent failure
-        agentStatus.status = 'failed';
+        // The whole run was stopped, not just this agent
+        if (signal.aborted) throw signal.reason;
+
         agentStatus.completedAt = Date.now();
-        await this.services.state.updateAgentStatus(competition.id, agentStatus);
+        if (agentSignal.aborted) {
+          console.warn(`[Orchestrator] Agent ${agentConfig.id} timed out after ${timeoutMs}ms`);
+          agentStatus.status = 'timed_out';
+          agentStatus.error = `No solution within ${Math.round(timeoutMs / 1000)}s`;
+          await this.services.state.updateAgentStatus(competition.id, agentStatus);
+          await this.emit(competition.id, 'agent:timed_out', { agentId: agentConfig.id, agentName: agentConfig.name, timeoutMs });
+          return;
+        }
 
-        console.error(`Agent ${agentConfig.id} failed:`, error);
+        console.error(`[Orchestrator] Agent ${agentConfig.id} failed:`, error);
+        agentStatus.status = 'failed';
+        agentStatus.error = error instanceof Error ? error.message : 'Unknown error';
+        await this.services.state.updateAgentStatus(competition.id, agentStatus);
+        await this.emit(competition.id, 'agent:failed', { agentId: agentConfig.id, agentName: agentConfig.name, error: agentStatus.error });
       }
-    });
-
-    // Wait for all agents to complete
-    await Promise.all(agentPromises);
+    }));
+    await this.checkpoint(competition, 'solve');
   }
 
   /**
-   * Review all solutions and pick the winner using the reviewer service
+   * Make sure a solution carries a well-formed patch that applies to the base commit.
+   * Rejected solutions are flipped to failed with the reason in solution.error.
    */
-  private async reviewAndPickWinner(competition: Competition) {
-    // Collect all solutions from agents
-    const solutions: Solution[] = competition.agents
-      .filter((agent) => agent.solution)
-      .map((agent) => agent.solution!);
+  private async validatePatch(solution: Solution, workspace: Workspace): Promise<void> {
+    try {
+      // Parsed here from the raw response: a patch object the agent sent could carry
+      // unchecked paths or a base commit of its choosing
+      solution.patch = parseSolutionPatch(solution.code);
 
-    console.log(`[Orchestrator] Reviewing ${solutions.length} solutions...`);
+      if (workspace.baseCommit) {
+        await checkPatchApplies(workspace.repoPath, solution.patch.diff, workspace.baseCommit);
+        solution.patch.baseCommit = workspace.baseCommit;
+      }
+    } catch (error) {
+      if (!(error instanceof PatchFormatError)) throw error;
 
-    // Use the reviewer service to evaluate solutions
-    const reviewResult = await this.services.reviewer.reviewSolutions(
-      competition.issue,
-      solutions
-    );
+      console.warn(`[Orchestrator] Rejected patch from ${solution.agentId}: ${error.message}`);
+      solution.success = false;
+      solution.patch = undefined;
+      solution.error = `Malformed patch: ${error.message}`;
+    }
+  }
 
-    console.log(`[Orchestrator] Review complete. Winner: ${reviewResult.winnerId ?? 'none'}`);
-    console.log(`[Orchestrator] Summary: ${reviewResult.summary}`);
+  /**
+   * Verify phase: build and test each solution in a scratch checkout, one at a time
+   * (builds are heavy, running them in parallel would starve the machine)
+   */
+  private async verify(competition: Competition, signal: AbortSignal): Promise<void> {
+    await this.setStatus(competition, 'verifying');
+    await this.emit(competition.id, 'competition:verifying', {});
+
+    // Solutions verified before an interruption keep their results
+    const agentsWithSolutions = competition.agents.filter((agent) => agent.solution?.success && !agent.verification);
+    console.log(`[Orchestrator] Verifying ${agentsWithSolutions.length} solutions...`);
+
+    for (const agentStatus of agentsWithSolutions) {
+      signal.throwIfAborted();
+      const verification = await this.services.verifier.verifySolution(config.verification.repoPath, agentStatus.solution!, signal);
+      signal.throwIfAborted();
+      agentStatus.verification = verification;
+      await this.services.state.updateAgentStatus(competition.id, agentStatus);
+      await this.emit(competition.id, 'agent:verified', { agentId: agentStatus.id, agentName: agentStatus.name, verification });
 
-    return reviewResult;
+      console.log(
+        `[Orchestrator] ${agentStatus.id}: build ${verification.buildPassed ? 'PASSED' : 'FAILED'}, ` +
+        `tests ${verification.testsPassed === null ? 'n/a' : verification.testsPassed ? 'PASSED' : 'FAILED'} ` +
+        `(${verification.durationMs}ms)`
+      );
+    }
+    await this.checkpoint(competition, 'verify');
   }
 
   /**
-   * Pay the winner their bonus with full payment tracking
+   * Judge phase: the reviewer scores the solutions, with build/test results as evidence, and picks the winner
    */
-  private async payWinner(competition: Competition): Promise<void> {
-    if (!competition.winner) return;
-
-    // Find the winning agent's wallet address
-    const agentConfig = config.agents.find((a) => a.id === competition.winner);
-    if (!agentConfig?.walletAddress) {
-      console.error(`[Orchestrator] No wallet address found for winner: ${competition.winner}`);
+  private async judge(competition: Competition, signal: AbortSignal): Promise<void> {
+    await this.setStatus(competition, 'judging');
+    await this.emit(competition.id, 'competition:judging', {});
+
+    // A solution that failed to build can't win, so the reviewer never sees it
+    const solved = competition.agents.filter((agent) => agent.solution?.success);
+    const built = solved.filter((agent) => agent.verification?.buildPassed !== false);
+    if (built.length < solved.length) {
+      console.log(`[Orchestrator] Not reviewing ${solved.filter((agent) => !built.includes(agent)).map((agent) => agent.id).join(', ')}: build failed`);
+    }
+    const solutions: Solution[] = built.map((agent) => agent.solution!);
+    if (solutions.length === 0) {
+      console.log('[Orchestrator] No solutions to review');
+      await this.checkpoint(competition, 'judge');
       return;
     }
 
-    // Create payment record
-    const paymentRecord: PaymentRecord = {
-      id: nanoid(),
-      competitionId: competition.id,
-      agentId: competition.winner,
-      walletAddress: agentConfig.walletAddress,
-      amount: competition.bountyAmount,
-      txHash: '',
-      status: 'pending',
-      network: config.x402.network,
-      createdAt: Date.now(),
-    };
-
-    try {
-      // Check balance before sending (if supported)
-      if (this.services.payment.getBalance) {
-        const balance = await this.services.payment.getBalance();
-        console.log(`[Orchestrator] Current wallet balance: ${balance} USDC`);
-
-        if (balance < competition.bountyAmount) {
-          paymentRecord.status = 'failed';
-          paymentRecord.error = `Insufficient balance: ${balance} < ${competition.bountyAmount}`;
-          console.error(`[Orchestrator] ${paymentRecord.error}`);
-
-          // Save failed payment record
-          await this.savePaymentRecord(paymentRecord);
-          throw new Error(paymentRecord.error);
-        }
+    const verifications: Record<string, VerificationResult> = {};
+    for (const agent of competition.agents) {
+      if (agent.verification) {
+        verifications[agent.id] = agent.verification;
       }
+    }
 
-      console.log(`[Orchestrator] Sending ${competition.bountyAmount} USDC to ${competition.winner}...`);
-
-      // Send bonus payment to winner
-      const txHash = await this.services.payment.sendBonus(
-        agentConfig.walletAddress,
-        competition.bountyAmount
+    console.log(`[Orchestrator] Reviewing ${solutions.length} solutions...`);
+    const { reviewer } = this.services;
+    let reviewResult: ReviewResult;
+    if (reviewer.reviewSolutionsStreaming) {
+      reviewResult = await reviewer.reviewSolutionsStreaming(
+        competition.issue,
+        solutions,
+        (chunk, accumulated) => void this.emit(competition.id, 'judging:streaming', { chunk, accumulated }),
+        verifications,
+        signal
       );
+    } else {
+      reviewResult = await reviewer.reviewSolutions(competition.issue, solutions, verifications, signal);
+    }
+    signal.throwIfAborted();
 
-      // Update payment record with success
-      paymentRecord.txHash = txHash;
-      paymentRecord.status = 'confirmed';
-      paymentRecord.confirmedAt = Date.now();
-
-      console.log(`[Orchestrator] Payment successful!`);
-      console.log(`[Orchestrator] TX Hash: ${txHash}`);
-      console.log(`[Orchestrator] Explorer: https://${config.x402.network === 'base' ? '' : 'sepolia.'}basescan.org/tx/${txHash}`);
-
-      // Save successful payment record
-      await this.savePaymentRecord(paymentRecord);
-
-      // Update competition with payment record
-      competition.paymentRecord = paymentRecord;
-      await this.services.state.updateCompetition(competition.id, {
-        paymentRecord,
-      });
+    console.log(`[Orchestrator] Review complete. Winner: ${reviewResult.winnerId ?? 'none'}`);
+    console.log(`[Orchestrator] Summary: ${reviewResult.summary}`);
 
-    } catch (error) {
-      // Update payment record with failure
-      if (paymentRecord.status !== 'failed') {
-        paymentRecord.status = 'failed';
-        paymentRecord.error = error instanceof Error ? error.message : 'Unknown error';
-      }
+    competition.reviewResult = reviewResult;
+    competition.winner = reviewResult.winnerId ?? undefined;
+    // The winner is paid what the auction settled for it, not the ceiling
+    if (competition.winner && competition.auction?.payouts[competition.winner] !== undefined) {
+      competition.bountyAmount = competition.auction.payouts[competition.winner];
+    }
+    await this.services.state.updateCompetition(competition.id, {
+      reviewResult,
+      winner: competition.winner,
+      bountyAmount: competition.bountyAmount,
+    });
+    await this.checkpoint(competition, 'judge');
+  }
 
-      console.error(`[Orchestrator] Payment failed for ${competition.winner}:`, error);
+  /**
+   * Pay phase: split the bounty per the payout policy and pay every share
+   */
+  private async pay(competition: Competition, policy: PayoutPolicy): Promise<void> {
+    if (!competition.reviewResult || !competition.winner) return;
+
+    await this.setStatus(competition, 'paying', { payoutPolicy: policy });
+    await this.emit(competition.id, 'competition:paying', { winner: competition.winner, reviewResult: competition.reviewResult });
+
+    // Never pay for a solution that failed to build (or its tests). The winner gets its settled
+    // price (bountyAmount since judging); other shares come out of the rest of the escrow hold.
+    const hold = competition.checkpoint?.payoutPlan ? null : await this.services.state.getEscrowHold(competition.id);
+    const shares = competition.checkpoint?.payoutPlan
+      ?? planPayouts(
+        competition.reviewResult,
+        passingAgents(competition.agents),
+        competition.bountyAmount,
+        hold?.amount ?? competition.bountyAmount,
+        policy
+      );
+    if (shares.length === 0) {
+      console.error(`[Orchestrator] Refusing to pay ${competition.winner}: solution failed verification`);
+      competition.paymentError = 'Winning solution did not pass verification';
+      await this.services.state.updateCompetition(competition.id, { paymentError: competition.paymentError });
+      await this.checkpoint(competition, 'pay');
+      return;
+    }
+    // The plan is saved before anything is sent: a resumed run pays exactly these shares,
+    // and sendPayouts skips every share that already has a payment record
+    if (!competition.checkpoint?.payoutPlan) {
+      await this.checkpoint(competition, 'judge', { payoutPlan: shares });
+    }
+    console.log(
+      `[Orchestrator] ${policy.kind} payout: ` +
+      shares.map((s) => `${s.agentId} $${s.amount} (${s.role})`).join(', ')
+    );
 
-      // Save failed payment record
-      await this.savePaymentRecord(paymentRecord);
+    const records = await sendPayouts(this.services, competition.id, shares);
+    const winnerRecord = records.find((r) => r.role === 'winner');
+    competition.paymentRecords = records;
+    competition.paymentRecord = winnerRecord;
+    competition.paymentTxHash = winnerRecord?.txHash || undefined;
+    competition.paymentError = winnerRecord?.error;
+    await this.services.state.updateCompetition(competition.id, {
+      paymentRecords: records,
+      paymentRecord: winnerRecord,
+      paymentTxHash: competition.paymentTxHash,
+      paymentError: competition.paymentError,
+    });
 
-      // Still update competition with failed payment info
-      competition.paymentRecord = paymentRecord;
-      await this.services.state.updateCompetition(competition.id, {
-        paymentRecord,
-      });
-    }
+    const failed = records.filter((r) => r.status === 'failed').length;
+    console.log(`[Orchestrator] Paid ${records.length - failed}/${records.length} recipients`);
+    await this.checkpoint(competition, 'pay');
   }
 
   /**
-   * Save a payment record to the state store (if supported)
+   * Mark the competition completed and announce its final state
    */
-  private async savePaymentRecord(record: PaymentRecord): Promise<void> {
-    try {
-      // Check if state store supports payment records
-      const stateStore = this.services.state as any;
-      if (typeof stateStore.savePaymentRecord === 'function') {
-        await stateStore.savePaymentRecord(record);
-        console.log(`[Orchestrator] Payment record saved: ${record.id}`);
-      }
-    } catch (error) {
-      // Don't fail the payment if we can't save the record
-      console.warn('[Orchestrator] Failed to save payment record:', error);
-    }
+  private async complete(competition: Competition): Promise<Competition> {
+    await this.setStatus(competition, 'completed', { completedAt: Date.now() });
+    await this.emit(competition.id, 'competition:completed', {
+      competition,
+      winner: competition.winner,
+      txHash: competition.paymentTxHash,
+      error: competition.paymentError,
+    });
+    console.log(`[Orchestrator] Competition ${competition.id} completed, winner: ${competition.winner ?? 'none'}`);
+    return competition;
   }
 
   /**
@@ -391,66 +879,162 @@ export class Orchestrator {
   }
 
   /**
-   * Initialize agent statuses from config
+   * The competition's invited agents, as currently registered
    */
-  private initializeAgentStatuses(): AgentStatus[] {
-    return config.agents.map((agent) => ({
-      id: agent.id,
-      name: agent.name,
-      status: 'idle' as const,
-    }));
+  private async invitedAgents(competition: Competition): Promise<RegisteredAgent[]> {
+    return (await this.services.agents.list()).filter(a => competition.agents.some((s) => s.id === a.id));
   }
 
   /**
-   * Calculate bounty amount based on issue labels/complexity
-   * Default: $0.05 USDC, scales based on complexity
+   * End a competition that was cancelled or ran past its deadline, so it is never resumed.
+   * Agents still at work are marked failed.
    */
-  private calculateBounty(issue: Issue): number {
-    const baseBounty = 0.05; // 5 cents base
-
-    // Check for bounty-related labels
-    const labels = issue.labels.map((l) => l.toLowerCase());
-
-    if (labels.includes('bounty-high') || labels.includes('high-priority')) {
-      return 0.15; // 15 cents - all agents can profit
+  private async cancelled(competition: Competition, reason: string): Promise<Competition> {
+    const now = Date.now();
+    for (const agent of competition.agents) {
+      if (agent.status === 'evaluating' || agent.status === 'solving') {
+        Object.assign(agent, { status: 'failed', error: reason, completedAt: now });
+      }
     }
-    if (labels.includes('bounty-medium') || labels.includes('enhancement')) {
-      return 0.10; // 10 cents - DeepSeek will decline (needs $0.104)
+    await this.setStatus(competition, 'cancelled', { agents: competition.agents, error: reason, completedAt: now });
+    await this.emit(competition.id, 'competition:cancelled', { competition, reason });
+    console.log(`[Orchestrator] Competition ${competition.id} cancelled: ${reason}`);
+    return competition;
+  }
+
+  /**
+   * Abort a run, unless it has started paying out (payouts are never interrupted)
+   */
+  private stop(run: ActiveRun, reason: CompetitionCancelledError): boolean {
+    if (run.competition.status === 'paying' || run.competition.status === 'completed') {
+      return false;
     }
-    if (labels.includes('bug')) {
-      return 0.08; // 8 cents - Llama borderline, DeepSeek declines
+    run.controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * Give the run a deadline (kept across resumes) and stop it when the deadline passes
+   */
+  private async startDeadline(run: ActiveRun, options: StartCompetitionOptions): Promise<NodeJS.Timeout> {
+    const { competition } = run;
+    if (competition.deadline === undefined) {
+      competition.deadline = Date.now() + (options.timeoutMs ?? config.timeouts.competitionMs);
+      await this.services.state.updateCompetition(competition.id, { deadline: competition.deadline });
     }
 
-    return baseBounty; // 5 cents - only Qwen accepts
+    const reason = `Did not finish by its deadline (${new Date(competition.deadline).toISOString()})`;
+    const timer = setTimeout(() => {
+      if (this.stop(run, new CompetitionCancelledError(reason, 'deadline'))) {
+        console.warn(`[Orchestrator] Competition ${competition.id} ran past its deadline, cancelling`);
+      }
+    }, Math.max(0, competition.deadline - Date.now()));
+    timer.unref();
+    return timer;
   }
 
   /**
-   * Format code chunks into context string for agents
+   * End a competition that can't finish, so it is never resumed
    */
-  private formatCodeContext(chunks: CodeChunk[]): string {
-    if (chunks.length === 0) {
-      return 'No relevant code context found.';
+  private async fail(competition: Competition, reason: string): Promise<void> {
+    try {
+      await this.setStatus(competition, 'completed', { error: reason, completedAt: Date.now() });
+      await this.emit(competition.id, 'competition:completed', { competition });
+    } catch (error) {
+      console.error(`[Orchestrator] Could not mark ${competition.id} as failed:`, error);
     }
+  }
 
-    let context = '# Relevant Code Context\n\n';
-    context += `Found ${chunks.length} relevant code sections:\n\n`;
+  /**
+   * Record that a phase finished (never moving the checkpoint back), with what later phases need from it
+   */
+  private async checkpoint(
+    competition: Competition,
+    phase: CompetitionPhase,
+    updates: Partial<Omit<CompetitionCheckpoint, 'phase' | 'updatedAt'>> = {}
+  ): Promise<void> {
+    const reached = this.passed(competition, phase) ? competition.checkpoint!.phase : phase;
+    competition.checkpoint = { ...competition.checkpoint, ...updates, phase: reached, updatedAt: Date.now() };
+    await this.services.state.updateCompetition(competition.id, { checkpoint: competition.checkpoint });
+  }
+
+  /**
+   * Whether the competition's checkpoint is at or after this phase
+   */
+  private passed(competition: Competition, phase: CompetitionPhase): boolean {
+    return !!competition.checkpoint && PHASES.indexOf(competition.checkpoint.phase) >= PHASES.indexOf(phase);
+  }
+
+  /**
+   * Keep renewing the competition's lease while it runs, and stop the run if
+   * another process asked for it to be cancelled or took the lease over
+   */
+  private holdLease(run: ActiveRun): NodeJS.Timeout {
+    const { competition } = run;
+    const timer = setInterval(() => {
+      this.services.state.claimCompetition(competition.id, this.owner, Date.now() + config.recovery.leaseMs)
+        .then(async (held) => {
+          if (!held) {
+            clearInterval(timer);
+            run.controller.abort(new CompetitionCancelledError(`Lost the lease on ${competition.id} to another process`, 'lease_lost'));
+            return;
+          }
+          const { cancelRequested } = (await this.services.state.getCompetition(competition.id)) ?? {};
+          if (cancelRequested) {
+            this.stop(run, new CompetitionCancelledError(cancelRequested, 'cancelled'));
+          }
+        })
+        .catch((error) => console.warn(`[Orchestrator] Failed to renew the lease on ${competition.id}:`, error));
+    }, config.recovery.leaseMs / 3);
+    timer.unref();
+    return timer;
+  }
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      context += `## ${i + 1}. ${chunk.chunkName} (${chunk.chunkType})\n`;
-      context += `**File**: ${chunk.filePath}\n`;
-      if (chunk.score) {
-        context += `**Relevance**: ${(chunk.score * 100).toFixed(1)}%\n`;
+  /**
+   * Let go of the competition's lease, unless another process has taken it over since
+   */
+  private async releaseLease(competition: Competition): Promise<void> {
+    try {
+      if (await this.services.state.releaseCompetition(competition.id, this.owner)) {
+        competition.lease = null;
+      } else {
+        console.warn(`[Orchestrator] Not releasing the lease on ${competition.id}: another process holds it`);
       }
-      context += `\`\`\`typescript\n${chunk.code}\n\`\`\`\n\n`;
+    } catch (error) {
+      console.warn(`[Orchestrator] Failed to release the lease on ${competition.id}:`, error);
     }
+  }
 
-    // Safety: Truncate if context is too large
-    const MAX_CONTEXT_CHARS = 50000;
-    if (context.length > MAX_CONTEXT_CHARS) {
-      context = context.slice(0, MAX_CONTEXT_CHARS) + '\n\n... (truncated for size)';
-    }
+  private async setStatus(competition: Competition, status: Competition['status'], updates: Partial<Competition> = {}): Promise<void> {
+    Object.assign(competition, updates, { status });
+    await this.services.state.updateCompetition(competition.id, { ...updates, status });
+  }
+
+  /**
+   * Forward indexing/retrieval progress as rag:progress events
+   */
+  private ragProgress(competitionId: string): RAGProgressCallback {
+    return (stage, message, current, total) => {
+      void this.emit(competitionId, 'rag:progress', { stage, message, current, total });
+    };
+  }
 
-    return context;
+  private async emit<T extends CompetitionEvent['type']>(
+    competitionId: string,
+    type: T,
+    payload: Extract<CompetitionEvent, { type: T }>['payload']
+  ): Promise<void> {
+    await this.services.events.emit({ type, competitionId, timestamp: Date.now(), payload } as CompetitionEvent);
+  }
+
+  /**
+   * Initialize agent statuses for the invited agents
+   */
+  private initializeAgentStatuses(agents: RegisteredAgent[]): AgentStatus[] {
+    return agents.map((agent) => ({
+      id: agent.id,
+      name: agent.name,
+      status: 'idle' as const,
+    }));
   }
 }
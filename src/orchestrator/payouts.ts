@@ -0,0 +1,202 @@
+/**
+ * Payout phase.
+ * The payout policy splits the bounty between the scored solutions; each share
+ * is then sent through the payment service as its own payment, so one failed
+ * transfer doesn't hold up (or undo) the others. Confirmation and retries are
+ * left to the PaymentWorker.
+ */
+
+import { nanoid } from 'nanoid';
+import { config } from '../config.js';
+import type { Services } from '../types/services.js';
+import type { AgentStatus, PaymentRecord, PayoutPolicy, PayoutShare, ReviewResult } from '../types/index.js';
+import { retryAt } from '../services/payment-worker.js';
+
+/**
+ * Payout policy for a competition: defaults from config.payout
+ */
+export function payoutPolicy(overrides: Partial<PayoutPolicy> = {}): PayoutPolicy {
+  return {
+    kind: config.payout.policy,
+    topN: config.payout.topN,
+    consolationAmount: config.payout.consolationAmount,
+    ...overrides,
+  };
+}
+
+/**
+ * Agents whose solutions may be paid: solved, built, and didn't fail tests
+ */
+export function passingAgents(agents: AgentStatus[]): string[] {
+  return agents
+    .filter((a) => a.status === 'done' && a.verification?.buildPassed !== false && a.verification?.testsPassed !== false)
+    .map((a) => a.id);
+}
+
+/**
+ * Split the bounty between passing solutions according to the policy.
+ * The winner always comes first and is paid its settled price in full; other shares
+ * come out of what is left of the reserved bounty after that price, so together they
+ * never exceed the escrow hold. Without a passing winner nobody is paid.
+ */
+export function planPayouts(
+  review: ReviewResult,
+  passing: string[],
+  price: number,
+  bounty: number,
+  policy: PayoutPolicy
+): PayoutShare[] {
+  const winnerId = review.winnerId;
+  if (!winnerId || !passing.includes(winnerId)) {
+    return [];
+  }
+
+  const scoreOf = (agentId: string) => review.scores.find((s) => s.agentId === agentId)?.score ?? 0;
+  // Other passing solutions, best first
+  const runnersUp = passing
+    .filter((id) => id !== winnerId)
+    .sort((a, b) => scoreOf(b) - scoreOf(a));
+  const leftover = Math.max(0, roundAmount(bounty - price));
+  const winner = (reason: string): PayoutShare => ({ agentId: winnerId, role: 'winner', amount: roundAmount(price), score: scoreOf(winnerId), reason });
+
+  if (policy.kind === 'top-n' && policy.topN > 1 && runnersUp.length > 0 && leftover > 0) {
+    const sharing = runnersUp.slice(0, policy.topN - 1);
+    const total = sharing.reduce((sum, id) => sum + scoreOf(id), 0);
+    const shares = sharing.map((agentId): PayoutShare => {
+      // All-zero scores split evenly
+      const fraction = total > 0 ? scoreOf(agentId) / total : 1 / sharing.length;
+      return {
+        agentId,
+        role: 'contributor',
+        amount: roundAmount(leftover * fraction),
+        score: scoreOf(agentId),
+        reason: `${Math.round(fraction * 100)}% of the $${formatAmount(leftover)} left after the winner (score ${scoreOf(agentId)} of ${total} among the next ${sharing.length})`,
+      };
+    });
+    return [
+      winner(`Settled price; ${sharing.length} runner${sharing.length === 1 ? '' : 's'}-up share the rest of the bounty`),
+      ...settleRounding(shares, leftover),
+    ];
+  }
+
+  if (policy.kind === 'consolation' && policy.consolationAmount > 0 && runnersUp.length > 0 && leftover > 0) {
+    // Rounded down so the consolations fit in what is left
+    const amount = Math.min(policy.consolationAmount, Math.floor((leftover * 1e6) / runnersUp.length) / 1e6);
+    if (amount > 0) {
+      const consolations = runnersUp.map((agentId): PayoutShare => ({
+        agentId,
+        role: 'consolation',
+        amount,
+        score: scoreOf(agentId),
+        reason: amount < policy.consolationAmount
+          ? `Consolation for a passing solution (reduced from $${formatAmount(policy.consolationAmount)} to fit the $${formatAmount(leftover)} left after the winner)`
+          : 'Consolation for a passing solution',
+      }));
+      return [
+        winner(`Settled price; ${runnersUp.length} consolation${runnersUp.length === 1 ? '' : 's'} paid from the rest of the bounty`),
+        ...consolations,
+      ];
+    }
+  }
+
+  return [winner('Winner takes all')];
+}
+
+/**
+ * Send each share through the payment service, one after another, with a
+ * payment record per recipient. Transfers are left pending for the payment
+ * worker to confirm; failures are recorded (and queued for retry), never thrown.
+ * A share that already has a record for this competition is not sent again.
+ */
+export async function sendPayouts(
+  services: Pick<Services, 'agents' | 'payment' | 'state'>,
+  competitionId: string,
+  shares: PayoutShare[]
+): Promise<PaymentRecord[]> {
+  const records: PaymentRecord[] = [];
+  const tracked = typeof services.payment.getTransactionStatus === 'function';
+
+  for (const share of shares) {
+    const idempotencyKey = `${competitionId}:${share.agentId}`;
+    const existing = await services.state.getPaymentByIdempotencyKey(idempotencyKey);
+    if (existing) {
+      console.log(`[Payouts] ${share.agentId} already has a ${existing.status} payout for this competition, not sending again`);
+      records.push(existing);
+      continue;
+    }
+
+    const agent = await services.agents.get(share.agentId);
+    const record: PaymentRecord = {
+      id: nanoid(),
+      competitionId,
+      agentId: share.agentId,
+      walletAddress: agent?.walletAddress ?? '',
+      amount: share.amount,
+      txHash: '',
+      status: 'pending',
+      network: config.x402.network,
+      createdAt: Date.now(),
+      role: share.role,
+      reason: share.reason,
+      idempotencyKey,
+      attempts: 1,
+    };
+
+    if (!agent?.walletAddress) {
+      record.status = 'failed';
+      record.error = 'No wallet address configured';
+      record.nextAttemptAt = retryAt(record.attempts!);
+      console.error(`[Payouts] No wallet address for ${share.agentId}, $${formatAmount(share.amount)} ${share.role} payout queued for retry`);
+      await services.state.savePaymentRecord(record);
+      records.push(record);
+      continue;
+    }
+
+    // Saved before sending: a crash mid-transfer leaves a record, not a second payment
+    await services.state.savePaymentRecord(record);
+    let updates: Partial<PaymentRecord>;
+    try {
+      console.log(`[Payouts] Sending $${formatAmount(share.amount)} to ${share.agentId} (${share.role})...`);
+      const txHash = await services.payment.sendBonus(agent.walletAddress, share.amount, {
+        // Saved before broadcasting, so a retry replaces this transfer instead of adding another
+        onNonce: async (nonce) => {
+          record.nonce = nonce;
+          await services.state.updatePaymentRecord(record.id, { nonce });
+        },
+      });
+      updates = tracked
+        ? { txHash, submittedAt: Date.now() }
+        : { txHash, submittedAt: Date.now(), status: 'confirmed', confirmedAt: Date.now() };
+      console.log(`[Payouts] Sent to ${share.agentId}: ${txHash}${tracked ? ' (awaiting confirmation)' : ''}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Payment failed';
+      updates = { status: 'failed', error: message, nextAttemptAt: retryAt(record.attempts!) };
+      // Thrown after the nonce was taken: the transfer may have gone out all the same
+      if (typeof record.nonce === 'number') updates.unknownTx = true;
+      console.error(`[Payouts] Payment to ${share.agentId} failed:`, message);
+    }
+
+    Object.assign(record, updates);
+    await services.state.updatePaymentRecord(record.id, updates);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Give the first share whatever rounding left over, so the shares add up to the total
+ */
+function settleRounding(shares: PayoutShare[], total: number): PayoutShare[] {
+  const others = shares.slice(1).reduce((sum, s) => sum + s.amount, 0);
+  return [{ ...shares[0], amount: roundAmount(total - others) }, ...shares.slice(1)];
+}
+
+// USDC has 6 decimals
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(4);
+}
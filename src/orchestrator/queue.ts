@@ -0,0 +1,222 @@
+import type { Services } from '../types/services.js';
+import type { Competition, Issue, LLMProvider, RegisteredAgent } from '../types/index.js';
+import { config } from '../config.js';
+import { ACTIVE_STATUSES, PHASES, type Orchestrator, type StartCompetitionOptions } from './orchestrator.js';
+
+// A queued competition and where it stands
+export interface QueueEntry {
+  competitionId: string;
+  position: number;             // 1 = next to start
+  priority: number;
+  queuedAt: number;
+  providers: LLMProvider[];     // Providers its agents run on; each needs a free slot
+  blockedBy?: string;           // Why it can't start yet, when a slot is free overall
+}
+
+export interface QueueSnapshot {
+  limits: { maxConcurrent: number; perProvider: number; providerLimits: Record<string, number> };
+  running: number;
+  providerLoad: Record<string, number>; // Running competitions per provider
+  queued: QueueEntry[];
+}
+
+/**
+ * Competition queue, persisted in the state store: a queued competition is
+ * just a competition with status 'queued'. Each pass starts the queued
+ * competitions that fit within the concurrency limits - at most
+ * config.queue.maxConcurrent running at once, and per LLM provider at most
+ * perProvider (or its providerLimits entry) running with agents on it -
+ * highest priority first, then oldest first. One that doesn't fit its
+ * providers' slots doesn't hold up those behind it.
+ *
+ * Running competitions are counted from the state store (anything started
+ * whose lease is live), so the limits hold across processes sharing it.
+ * Passes run when a competition is queued or finishes, and on a timer.
+ */
+export class CompetitionQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private again = false;
+
+  constructor(
+    private services: Pick<Services, 'state' | 'agents' | 'events'>,
+    private orchestrator: Orchestrator
+  ) {}
+
+  /**
+   * Create a queued competition (see Orchestrator.createCompetition) and start it if a slot is free.
+   * Throws EscrowError if the wallet can't cover its bounty.
+   */
+  async enqueue(issue: Issue, options: StartCompetitionOptions = {}, priority = 0): Promise<Competition> {
+    const competition = await this.orchestrator.createCompetition(issue, options, { priority });
+    console.log(`[Queue] Queued ${competition.id} (priority ${priority})`);
+    await this.process();
+    return (await this.services.state.getCompetition(competition.id)) ?? competition;
+  }
+
+  /**
+   * Start every queued competition that fits, and announce the new positions of the rest
+   */
+  process(): Promise<void> {
+    // A request during a pass (a competition queued or finished) gets a pass of its own after it
+    if (this.running) {
+      this.again = true;
+      return this.running;
+    }
+    this.running = (async () => {
+      do {
+        this.again = false;
+        await this.pass();
+      } while (this.again);
+    })().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Queued competitions in start order, with what is running now
+   */
+  async snapshot(): Promise<QueueSnapshot> {
+    const [{ queued, active }, agents] = await Promise.all([this.load(), this.services.agents.list()]);
+    const load = providerLoad(active, agents);
+    const running = active.length;
+
+    const entries: QueueEntry[] = queued.map((competition, index) => {
+      const providers = providersOf(competition, agents);
+      const blocked = providers.find((p) => (load.get(p) ?? 0) >= providerLimit(p));
+      return {
+        competitionId: competition.id,
+        position: index + 1,
+        priority: competition.priority ?? 0,
+        queuedAt: competition.queuedAt ?? competition.createdAt,
+        providers,
+        ...(running < config.queue.maxConcurrent && blocked ? { blockedBy: `${blocked} is at its limit of ${providerLimit(blocked)}` } : {}),
+      };
+    });
+
+    return {
+      limits: { maxConcurrent: config.queue.maxConcurrent, perProvider: config.queue.perProvider, providerLimits: config.queue.providerLimits },
+      running,
+      providerLoad: Object.fromEntries(load),
+      queued: entries,
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+    const { pollIntervalMs } = config.queue;
+    this.timer = setInterval(() => {
+      this.process().catch((error) => {
+        console.error('[Queue] Pass failed:', error);
+      });
+    }, pollIntervalMs);
+    this.timer.unref();
+    console.log(
+      `[Queue] Running up to ${config.queue.maxConcurrent} competitions at once, ` +
+      `${config.queue.perProvider} per provider, checking every ${pollIntervalMs / 1000}s`
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async pass(): Promise<void> {
+    const [{ queued, active }, agents] = await Promise.all([this.load(), this.services.agents.list()]);
+    const load = providerLoad(active, agents);
+    let running = active.length;
+    const waiting: Competition[] = [];
+
+    for (const competition of queued) {
+      const providers = providersOf(competition, agents);
+      const fits = running < config.queue.maxConcurrent && providers.every((p) => (load.get(p) ?? 0) < providerLimit(p));
+      if (!fits) {
+        waiting.push(competition);
+        continue;
+      }
+      if (!(await this.orchestrator.claim(competition))) {
+        continue; // Started (or cancelled) elsewhere
+      }
+
+      running++;
+      for (const provider of providers) {
+        load.set(provider, (load.get(provider) ?? 0) + 1);
+      }
+      console.log(`[Queue] Starting ${competition.id} (${running}/${config.queue.maxConcurrent} running)`);
+      this.orchestrator.run(competition, competition.options ?? {})
+        .catch((error) => console.error(`[Queue] Competition ${competition.id} failed:`, error))
+        .finally(() => {
+          // Its slot is free
+          this.process().catch((error) => console.error('[Queue] Pass failed:', error));
+        });
+    }
+
+    // Only competitions whose place changed hear about it
+    for (const [index, competition] of waiting.entries()) {
+      const position = index + 1;
+      if (competition.queuePosition === position) continue;
+      await this.services.state.updateCompetition(competition.id, { queuePosition: position });
+      await this.services.events.emit({
+        type: 'competition:queued',
+        competitionId: competition.id,
+        timestamp: Date.now(),
+        payload: { position, priority: competition.priority ?? 0, running },
+      });
+    }
+  }
+
+  /**
+   * Competitions waiting for a slot, highest priority first, then oldest first, and those
+   * holding one: a live lease means some process is running it (or just took it off the queue).
+   * A started competition whose lease expired is waiting to be resumed and holds no slot.
+   */
+  private async load(): Promise<{ queued: Competition[]; active: Competition[] }> {
+    const now = Date.now();
+    const competitions = (await Promise.all(
+      ['queued' as const, ...ACTIVE_STATUSES].map((status) => this.services.state.getCompetitionsByStatus(status))
+    )).flat();
+    const leased = (c: Competition) => !!c.lease && c.lease.expiresAt > now;
+
+    const queued = competitions
+      .filter((c) => c.status === 'queued' && !leased(c))
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0) || (a.queuedAt ?? a.createdAt) - (b.queuedAt ?? b.createdAt));
+    return { queued, active: competitions.filter(leased) };
+  }
+}
+
+function providerLimit(provider: LLMProvider): number {
+  return config.queue.providerLimits[provider] ?? config.queue.perProvider;
+}
+
+/**
+ * Providers of a competition's agents: until bidding is done every invited agent that hasn't
+ * declined may solve, after it only the auction's participants do
+ */
+function providersOf(competition: Competition, agents: RegisteredAgent[]): LLMProvider[] {
+  const { checkpoint } = competition;
+  const bidDone = !!checkpoint && PHASES.indexOf(checkpoint.phase) >= PHASES.indexOf('bid');
+  const ids = bidDone
+    ? competition.auction?.participants ?? []
+    : competition.agents.filter((status) => status.status !== 'declined').map((status) => status.id);
+
+  const providers = new Set<LLMProvider>();
+  for (const id of ids) {
+    const agent = agents.find((a) => a.id === id);
+    if (agent) providers.add(agent.provider);
+  }
+  return [...providers];
+}
+
+function providerLoad(active: Competition[], agents: RegisteredAgent[]): Map<LLMProvider, number> {
+  const load = new Map<LLMProvider, number>();
+  for (const competition of active) {
+    for (const provider of providersOf(competition, agents)) {
+      load.set(provider, (load.get(provider) ?? 0) + 1);
+    }
+  }
+  return load;
+}
@@ -1,19 +1,28 @@
-import type { IAgentClient } from '../../types/services.js';
-import type { Solution, SolveTask, Issue, TaskEvaluation } from '../../types/index.js';
+import type { IAgentClient, IAgentRegistry } from '../../types/services.js';
+import type { Solution, SolveTask, Issue, TaskEvaluation, AgentHealth } from '../../types/index.js';
 import { config } from '../../config.js';
+import { formatNewFilePatch, parseSolutionPatch } from '../../utils/patch.js';
+import { estimateSolveTimeMs } from '../../agents/coding-agent.js';
 
 export class MockAgentClient implements IAgentClient {
   // 80% success rate
   private readonly successRate = 0.8;
 
+  constructor(private registry?: IAgentRegistry) {}
+
   async evaluateAgent(
     agentUrl: string,
     issue: Issue,
-    bountyAmount: number
+    bountyAmount: number,
+    signal?: AbortSignal
   ): Promise<TaskEvaluation & { agentId: string }> {
-    // Extract agent ID from URL (e.g., http://localhost:3001 -> find agent on port 3001)
+    signal?.throwIfAborted();
+    // Look the agent up by URL in the registry, else by port in config
+    // (e.g., http://localhost:3001 -> find agent on port 3001)
+    const baseUrl = agentUrl.replace(/\/(solve|evaluate)$/, '');
+    const registered = (await this.registry?.list())?.find(a => a.url === baseUrl);
     const port = parseInt(agentUrl.split(':').pop()?.split('/')[0] || '0');
-    const agentConfig = config.agents.find(a => a.port === port);
+    const agentConfig = registered ?? config.agents.find(a => a.port === port);
 
     if (!agentConfig) {
       return {
@@ -37,13 +46,15 @@ export class MockAgentClient implements IAgentClient {
       accept,
       minPrice,
       estimatedCost,
+      bidPrice: minPrice,
+      etaMs: estimateSolveTimeMs(agentConfig.avgTokensPerSolution),
       reason: accept
         ? `Accepting: $${bountyAmount.toFixed(4)} bounty, $${estimatedCost.toFixed(4)} cost, ${marginIfAccepted.toFixed(0)}% margin`
         : `Declining: Need $${minPrice.toFixed(4)} min, offered $${bountyAmount.toFixed(4)}`,
     };
   }
 
-  async callAgent(agentUrl: string, task: SolveTask): Promise<Solution> {
+  async callAgent(agentUrl: string, task: SolveTask, signal?: AbortSignal): Promise<Solution> {
     const startTime = Date.now();
 
     console.log(`[MockAgentClient] Calling agent at ${agentUrl}`);
@@ -52,7 +63,7 @@ export class MockAgentClient implements IAgentClient {
 
     // Wait 3-8 seconds to simulate agent work
     const workTime = 3000 + Math.random() * 5000;
-    await this.delay(workTime);
+    await this.delay(workTime, signal);
 
     const timeMs = Date.now() - startTime;
     const success = Math.random() < this.successRate;
@@ -61,9 +72,11 @@ export class MockAgentClient implements IAgentClient {
     console.log(`[MockAgentClient] Success: ${success}`);
 
     if (success) {
+      const code = this.generateFakeCode(task);
       return {
         agentId: task.agentId,
-        code: this.generateFakeCode(task),
+        code,
+        patch: parseSolutionPatch(code),
         timeMs,
         success: true,
       };
@@ -73,18 +86,20 @@ export class MockAgentClient implements IAgentClient {
         code: '',
         timeMs,
         success: false,
+        error: 'Simulated agent failure',
       };
     }
   }
 
   private generateFakeCode(task: SolveTask): string {
     const templates = [
-      this.generateFixTemplate1(task),
-      this.generateFixTemplate2(task),
-      this.generateFixTemplate3(task),
+      { path: 'src/auth/sanitize.ts', code: this.generateFixTemplate1(task) },
+      { path: 'src/auth/password-hash.ts', code: this.generateFixTemplate2(task) },
+      { path: 'src/services/auth-service.ts', code: this.generateFixTemplate3(task) },
     ];
 
-    return templates[Math.floor(Math.random() * templates.length)];
+    const { path, code } = templates[Math.floor(Math.random() * templates.length)];
+    return `\`\`\`diff\n${formatNewFilePatch(path, code)}\`\`\`\n\nAdded ${path} with the fix.`;
   }
 
   private generateFixTemplate1(task: SolveTask): string {
@@ -180,7 +195,19 @@ export default new AuthService();
 `;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  // Mock agents are always up
+  async checkHealth(_agentUrl: string): Promise<AgentHealth> {
+    return { reachable: true };
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
   }
 }
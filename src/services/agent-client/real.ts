@@ -1,11 +1,19 @@
-import type { IAgentClient } from '../../types/services.js';
-import type { Solution, SolveTask, Issue, TaskEvaluation } from '../../types/index.js';
+import type { IAgentClient, IX402Payer } from '../../types/services.js';
+import type { Solution, SolveTask, Issue, TaskEvaluation, AgentHealth, ProviderStatus } from '../../types/index.js';
+import { config } from '../../config.js';
+import { readPaymentRequirement } from '../x402-payer.js';
 
 export class RealAgentClient implements IAgentClient {
+  /**
+   * @param payer - Pays agents that answer 402; without one, paywalled agents can't be called
+   */
+  constructor(private payer?: IX402Payer) {}
+
   async evaluateAgent(
     agentUrl: string,
     issue: Issue,
-    bountyAmount: number
+    bountyAmount: number,
+    signal?: AbortSignal
   ): Promise<TaskEvaluation & { agentId: string }> {
     // Replace /solve with /evaluate in the URL
     const evaluateUrl = agentUrl.replace('/solve', '/evaluate');
@@ -14,6 +22,7 @@ export class RealAgentClient implements IAgentClient {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ issue, bountyAmount }),
+      signal,
     });
 
     if (!response.ok) {
@@ -23,12 +32,20 @@ export class RealAgentClient implements IAgentClient {
     return response.json();
   }
 
-  async callAgent(agentUrl: string, task: SolveTask): Promise<Solution> {
-    const response = await fetch(agentUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ issue: task.issue }),
-    });
+  async callAgent(agentUrl: string, task: SolveTask, signal?: AbortSignal): Promise<Solution> {
+    const body = JSON.stringify({ issue: task.issue, codeContext: task.codeContext });
+    const post = (headers: Record<string, string> = {}) =>
+      fetch(agentUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal,
+      });
+
+    let response = await post();
+    if (response.status === 402) {
+      response = await this.payAndRetry(response, task, post);
+    }
 
     if (!response.ok) {
       throw new Error(`Agent call failed: ${response.statusText}`);
@@ -36,4 +53,59 @@ export class RealAgentClient implements IAgentClient {
 
     return response.json();
   }
+
+  /**
+   * The agent charges per call: pay what its 402 asks (within the competition's
+   * call budget) and send the request again with the payment attached
+   */
+  private async payAndRetry(
+    paymentRequired: Response,
+    task: SolveTask,
+    post: (headers?: Record<string, string>) => Promise<Response>
+  ): Promise<Response> {
+    if (!this.payer) {
+      throw new Error(`Agent ${task.agentId} charges per call, but there is no wallet to pay it with`);
+    }
+    if (!task.competitionId) {
+      throw new Error(`Agent ${task.agentId} charges per call; only calls for a competition can be paid`);
+    }
+
+    const requirement = await readPaymentRequirement(paymentRequired);
+    const payment = await this.payer.authorize(requirement, {
+      competitionId: task.competitionId,
+      agentId: task.agentId,
+      cap: task.callSpendCap ?? config.x402.callSpendCap,
+    });
+
+    let response: Response;
+    try {
+      response = await post({ 'X-Payment': payment.header });
+    } catch (error) {
+      await this.payer.complete(payment, { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+
+    const refusal = response.status === 402
+      ? ((await response.clone().json().catch(() => null)) as { message?: string } | null)?.message
+      : undefined;
+    await this.payer.complete(payment, {
+      status: response.status,
+      paymentResponse: response.headers.get('x-payment-response') ?? undefined,
+      error: refusal,
+    });
+    return response;
+  }
+
+  async checkHealth(agentUrl: string): Promise<AgentHealth> {
+    try {
+      const response = await fetch(`${agentUrl}/health`, {
+        signal: AbortSignal.timeout(config.agentRegistry.healthTimeoutMs),
+      });
+      if (!response.ok) return { reachable: false };
+      const body = await response.json().catch(() => ({})) as { provider?: ProviderStatus | null };
+      return { reachable: true, ...(body.provider ? { provider: body.provider } : {}) };
+    } catch {
+      return { reachable: false };
+    }
+  }
 }
@@ -0,0 +1,334 @@
+/**
+ * Agent Registry
+ * Runtime list of competing agents, persisted through the state store.
+ * On first use an empty registry is seeded from config.agents, so a fresh
+ * install behaves exactly like the hard-coded setup (agents on localhost ports).
+ * Agents on other hosts announce themselves; every agent is health-checked via
+ * its /health route, and only agents seen recently count as online - unless
+ * they report their LLM provider's circuit open, which keeps them offline until
+ * the provider recovers.
+ */
+
+import { config } from '../config.js';
+import type { IAgentRegistry, IStateStore } from '../types/services.js';
+import type { RegisteredAgent, AgentRegistration, LLMProvider, AgentHealth } from '../types/index.js';
+
+const PROVIDERS: LLMProvider[] = ['fireworks', 'openai', 'anthropic', 'google', 'xai'];
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+export type AgentRegistryErrorCode = 'not_found' | 'conflict' | 'invalid';
+
+/**
+ * Thrown for registry requests that cannot be applied (mapped to 404/409/400 by the API)
+ */
+export class AgentRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AgentRegistryErrorCode
+  ) {
+    super(message);
+    this.name = 'AgentRegistryError';
+  }
+}
+
+export class AgentRegistry implements IAgentRegistry {
+  private seeded: Promise<void> | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private checking: Promise<RegisteredAgent[]> | null = null;
+
+  /**
+   * @param probe - Probes an agent's base URL (GET /health)
+   */
+  constructor(
+    private state: IStateStore,
+    private probe: (agentUrl: string) => Promise<AgentHealth>
+  ) {}
+
+  async list(options: { enabledOnly?: boolean; liveOnly?: boolean } = {}): Promise<RegisteredAgent[]> {
+    await this.ensureSeeded();
+    const agents = (await this.state.listAgents()).map(withLiveness);
+    return agents.filter((a) => (!options.enabledOnly || a.enabled) && (!options.liveOnly || a.online));
+  }
+
+  async get(id: string): Promise<RegisteredAgent | null> {
+    await this.ensureSeeded();
+    const agent = await this.state.getAgent(id);
+    return agent ? withLiveness(agent) : null;
+  }
+
+  async register(input: AgentRegistration): Promise<RegisteredAgent> {
+    await this.ensureSeeded();
+    if (await this.state.getAgent(input.id)) {
+      throw new AgentRegistryError(`Agent already registered: ${input.id}`, 'conflict');
+    }
+
+    const now = Date.now();
+    const agent = this.validate({
+      ...input,
+      url: input.url?.replace(/\/+$/, ''),
+      port: input.port ?? portFromUrl(input.url),
+      contextWindow: input.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+      enabled: input.enabled ?? true,
+      // Online once the next health check reaches it
+      selfRegistered: false,
+      lastSeenAt: undefined,
+      providerStatus: undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.state.saveAgent(agent);
+    console.log(`[AgentRegistry] Registered ${agent.id} (${agent.provider}/${agent.model}) at ${agent.url}`);
+    return withLiveness(agent);
+  }
+
+  async update(id: string, updates: Partial<AgentRegistration>): Promise<RegisteredAgent> {
+    await this.ensureSeeded();
+    const existing = await this.state.getAgent(id);
+    if (!existing) {
+      throw new AgentRegistryError(`Agent not found: ${id}`, 'not_found');
+    }
+    if (updates.id !== undefined && updates.id !== id) {
+      throw new AgentRegistryError('Agent id cannot be changed', 'invalid');
+    }
+
+    const url = updates.url !== undefined ? updates.url.replace(/\/+$/, '') : existing.url;
+    const agent = this.validate({
+      ...existing,
+      ...updates,
+      url,
+      port: updates.port ?? (updates.url !== undefined ? portFromUrl(url) : existing.port),
+      id,
+      selfRegistered: existing.selfRegistered,
+      lastSeenAt: existing.lastSeenAt,
+      providerStatus: existing.providerStatus,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now(),
+    });
+
+    await this.state.saveAgent(agent);
+    console.log(`[AgentRegistry] Updated ${id}${updates.enabled !== undefined ? ` (${agent.enabled ? 'enabled' : 'disabled'})` : ''}`);
+    return withLiveness(agent);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ensureSeeded();
+    if (!(await this.state.deleteAgent(id))) {
+      throw new AgentRegistryError(`Agent not found: ${id}`, 'not_found');
+    }
+    console.log(`[AgentRegistry] Removed ${id}`);
+  }
+
+  async announce(input: AgentRegistration): Promise<RegisteredAgent> {
+    await this.ensureSeeded();
+    const existing = input.id ? await this.state.getAgent(input.id) : null;
+    const now = Date.now();
+    const url = input.url?.replace(/\/+$/, '');
+
+    // Where an operator registered an agent, its URL and wallet (where solve traffic and payouts go)
+    // only change through the operator API; an announcement can't redirect them
+    if (existing && !existing.selfRegistered) {
+      if (url !== existing.url) {
+        throw new AgentRegistryError(`Agent ${existing.id} is registered at ${existing.url}; update it through the registry API to move it`, 'conflict');
+      }
+      if ((input.walletAddress ?? null) !== (existing.walletAddress ?? null)) {
+        throw new AgentRegistryError(`Agent ${existing.id} has a registered wallet; update it through the registry API to change it`, 'conflict');
+      }
+    } else if (existing && (url !== existing.url || input.walletAddress !== existing.walletAddress)) {
+      console.log(
+        `[AgentRegistry] ${existing.id} re-announced with a new ` +
+        `${url !== existing.url ? `url (${existing.url} -> ${url})` : `wallet (${existing.walletAddress ?? 'none'} -> ${input.walletAddress ?? 'none'})`}`
+      );
+    }
+
+    const agent = this.validate({
+      ...existing,
+      ...input,
+      url,
+      port: input.port ?? portFromUrl(url),
+      contextWindow: input.contextWindow ?? existing?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+      // The agent states its current prices every time; none means it stopped charging
+      callPrices: input.callPrices,
+      // An operator's decision to disable an agent survives re-announcements
+      enabled: existing?.enabled ?? true,
+      selfRegistered: existing ? existing.selfRegistered : true,
+      lastSeenAt: now,
+      // Only health checks report the provider's state
+      providerStatus: existing?.providerStatus,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+
+    await this.state.saveAgent(agent);
+    if (!existing) {
+      console.log(`[AgentRegistry] ${agent.id} announced itself at ${agent.url} (${agent.provider}/${agent.model})`);
+    }
+    return withLiveness(agent);
+  }
+
+  checkHealth(): Promise<RegisteredAgent[]> {
+    // Overlapping callers (heartbeat + a competition starting) share one sweep
+    if (!this.checking) {
+      this.checking = this.sweep().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  startHeartbeat(): void {
+    if (this.heartbeat) return;
+    const { heartbeatIntervalMs } = config.agentRegistry;
+    this.heartbeat = setInterval(() => {
+      this.checkHealth().catch((error) => {
+        console.error('[AgentRegistry] Health check failed:', error);
+      });
+    }, heartbeatIntervalMs);
+    this.heartbeat.unref();
+    console.log(`[AgentRegistry] Heartbeat every ${heartbeatIntervalMs / 1000}s`);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private async sweep(): Promise<RegisteredAgent[]> {
+    await this.ensureSeeded();
+    const agents = await this.state.listAgents();
+    const now = Date.now();
+
+    const results = await Promise.all(
+      agents.map(async (agent) => ({ agent, health: await this.probe(agent.url).catch((): AgentHealth => ({ reachable: false })) }))
+    );
+
+    for (const { agent, health } of results) {
+      const wasOnline = withLiveness(agent).online;
+      if (health.reachable) {
+        // Re-read so a concurrent update isn't overwritten
+        const current = await this.state.getAgent(agent.id);
+        if (current) {
+          const { providerStatus: _previous, ...rest } = current;
+          await this.state.saveAgent({ ...rest, lastSeenAt: now, ...(health.provider ? { providerStatus: health.provider } : {}) });
+        }
+        const providerDown = health.provider?.circuit === 'open';
+        if (providerDown && wasOnline) {
+          console.log(`[AgentRegistry] ${agent.id} is offline: ${health.provider!.provider} circuit open after ${health.provider!.failures} failures`);
+        } else if (!providerDown && !wasOnline) {
+          console.log(`[AgentRegistry] ${agent.id} is online`);
+        }
+        continue;
+      }
+
+      const lastSeen = agent.lastSeenAt ?? agent.createdAt;
+      if (agent.selfRegistered && now - lastSeen > config.agentRegistry.evictAfterMs) {
+        await this.state.deleteAgent(agent.id);
+        console.log(`[AgentRegistry] Evicted ${agent.id}: not seen for ${Math.round((now - lastSeen) / 1000)}s`);
+      } else if (wasOnline) {
+        console.log(`[AgentRegistry] ${agent.id} did not answer /health`);
+      }
+    }
+
+    return this.list({ liveOnly: true });
+  }
+
+  /**
+   * Seed the registry from config.agents the first time it is found empty
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeded) {
+      this.seeded = (async () => {
+        const existing = await this.state.listAgents();
+        if (existing.length > 0) return;
+
+        const now = Date.now();
+        for (const agent of config.agents) {
+          await this.state.saveAgent({
+            ...agent,
+            url: `http://localhost:${agent.port}`,
+            enabled: true,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+        console.log(`[AgentRegistry] Seeded ${config.agents.length} agents from config`);
+      })().catch((error) => {
+        this.seeded = null;
+        throw error;
+      });
+    }
+    return this.seeded;
+  }
+
+  private validate(agent: RegisteredAgent): RegisteredAgent {
+    const problems: string[] = [];
+    if (!agent.id || !/^[\w.-]+$/.test(agent.id)) problems.push('id must be non-empty and contain only letters, digits, "_", "-" or "."');
+    if (!agent.name) problems.push('name is required');
+    if (!agent.model) problems.push('model is required');
+    if (!PROVIDERS.includes(agent.provider)) problems.push(`provider must be one of ${PROVIDERS.join(', ')}`);
+    if (!agent.url || !/^https?:\/\/[^/]+/.test(agent.url)) problems.push('url must be an http(s) URL');
+    for (const field of ['costPerToken', 'avgTokensPerSolution', 'minimumMargin', 'contextWindow'] as const) {
+      if (typeof agent[field] !== 'number' || !Number.isFinite(agent[field]) || agent[field] < 0) {
+        problems.push(`${field} must be a non-negative number`);
+      }
+    }
+    if (typeof agent.enabled !== 'boolean') problems.push('enabled must be a boolean');
+    if (agent.languages !== undefined && (!Array.isArray(agent.languages) || agent.languages.some((l) => typeof l !== 'string'))) {
+      problems.push('languages must be a list of strings');
+    }
+    for (const route of ['solve', 'review'] as const) {
+      const price = agent.callPrices?.[route];
+      if (price !== undefined && (typeof price !== 'number' || !Number.isFinite(price) || price < 0)) {
+        problems.push(`callPrices.${route} must be a non-negative number`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new AgentRegistryError(`Invalid agent: ${problems.join('; ')}`, 'invalid');
+    }
+
+    // Only known fields are stored (request bodies may carry anything)
+    return {
+      id: agent.id,
+      name: agent.name,
+      model: agent.model,
+      provider: agent.provider,
+      url: agent.url,
+      port: agent.port,
+      ...(agent.walletAddress ? { walletAddress: agent.walletAddress } : {}),
+      ...(agent.languages ? { languages: agent.languages.map((l) => l.toLowerCase()) } : {}),
+      contextWindow: agent.contextWindow,
+      costPerToken: agent.costPerToken,
+      avgTokensPerSolution: agent.avgTokensPerSolution,
+      minimumMargin: agent.minimumMargin,
+      ...(agent.callPrices ? { callPrices: { solve: agent.callPrices.solve, review: agent.callPrices.review } } : {}),
+      enabled: agent.enabled,
+      ...(agent.selfRegistered ? { selfRegistered: true } : {}),
+      ...(agent.lastSeenAt ? { lastSeenAt: agent.lastSeenAt } : {}),
+      ...(agent.providerStatus ? { providerStatus: agent.providerStatus } : {}),
+      createdAt: agent.createdAt,
+      updatedAt: agent.updatedAt,
+    };
+  }
+}
+
+/**
+ * Mark an agent online if a health check or announcement saw it recently and its provider isn't down
+ */
+function withLiveness(agent: RegisteredAgent): RegisteredAgent {
+  const online = agent.lastSeenAt !== undefined && Date.now() - agent.lastSeenAt <= config.agentRegistry.staleAfterMs &&
+    agent.providerStatus?.circuit !== 'open';
+  return { ...agent, online };
+}
+
+function portFromUrl(url: string | undefined): number {
+  try {
+    const parsed = new URL(url ?? '');
+    if (parsed.port) return parseInt(parsed.port, 10);
+    return parsed.protocol === 'https:' ? 443 : 80;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Bounty Pricing
+ * Suggests a starting bounty for an issue. A base price is scaled by how hard
+ * the issue looks (labels, how much the reporter had to write, how much code
+ * the retrieved context spans) and then pulled toward what similar past
+ * competitions actually settled at. The suggestion comes with a range that
+ * narrows as more evidence is available, and a one-line explanation.
+ */
+
+import { config } from '../config.js';
+import type { IBountyPricer, IRAGService, IStateStore, CodeChunk } from '../types/services.js';
+import type { Issue, Competition, BountyEstimate, BountyFactor } from '../types/index.js';
+import { estimateTokens } from './rag/context-assembler.js';
+
+// Bounds on each difficulty factor, so one signal can't dominate the price
+const LABEL_RANGE: [number, number] = [0.25, 4];
+const DESCRIPTION_RANGE: [number, number] = [0.85, 1.5];
+const CODE_RANGE: [number, number] = [0.8, 2];
+// History takes over from the model as similar issues accumulate: weight = n / (n + HISTORY_PRIOR)
+const HISTORY_PRIOR = 3;
+// A competition every agent declined says the price was too low, not what it should have been
+const DECLINED_PRICE_BUMP = 1.25;
+const MIN_TITLE_SIMILARITY = 0.25;
+
+interface PastOutcome {
+  price: number;
+  weight: number;
+  declined: boolean;
+}
+
+export class BountyPricer implements IBountyPricer {
+  constructor(
+    private state: IStateStore,
+    private rag?: IRAGService
+  ) {}
+
+  async estimate(issue: Issue, chunks?: CodeChunk[]): Promise<BountyEstimate> {
+    const limits = repoLimits(issue.repoUrl);
+    const factors: BountyFactor[] = [];
+
+    const labels = labelFactor(issue);
+    if (labels) factors.push(labels);
+    factors.push(descriptionFactor(issue));
+
+    const code = codeFactor(chunks ?? (await this.retrieveChunks(issue)));
+    if (code) factors.push(code);
+
+    const difficulty = factors.reduce((product, f) => product * f.multiplier, 1);
+    const modelPrice = config.pricing.basePrice * difficulty;
+
+    const outcomes = await this.pastOutcomes(issue);
+    let price = modelPrice;
+    if (outcomes.length > 0) {
+      const historical = weightedMedian(outcomes);
+      const weight = outcomes.length / (outcomes.length + HISTORY_PRIOR);
+      price = modelPrice * (1 - weight) + historical * weight;
+      const declined = outcomes.filter((o) => o.declined).length;
+      factors.push({
+        name: 'history',
+        multiplier: price / modelPrice,
+        detail:
+          `${outcomes.length} similar issue${outcomes.length === 1 ? '' : 's'} settled around $${formatPrice(historical)}` +
+          `${declined > 0 ? ` (${declined} with no takers)` : ''}, weighted ${Math.round(weight * 100)}%`,
+      });
+    }
+
+    // Evidence: labels and retrieved code each say something; history says the most
+    const confidence = Math.min(
+      0.95,
+      0.3 + (labels ? 0.1 : 0) + (code ? 0.2 : 0) + Math.min(0.35, outcomes.length * 0.07)
+    );
+    const spread = (1 - confidence) * 0.6;
+    const amount = clamp(roundPrice(price), limits.min, limits.max);
+    const low = clamp(roundPrice(amount * (1 - spread)), limits.min, amount);
+    const high = clamp(roundPrice(amount * (1 + spread)), amount, limits.max);
+
+    const clamped = amount !== roundPrice(price) ? ` (held to the repo's $${formatPrice(limits.min)}-$${formatPrice(limits.max)} limits)` : '';
+    return {
+      amount,
+      low,
+      high,
+      confidence: Math.round(confidence * 100) / 100,
+      difficulty: Math.round(difficulty * 100) / 100,
+      factors: factors.map((f) => ({ ...f, multiplier: Math.round(f.multiplier * 100) / 100 })),
+      similarIssues: outcomes.length,
+      explanation:
+        `$${formatPrice(config.pricing.basePrice)} base` +
+        factors.map((f) => `, ${f.detail} ×${f.multiplier.toFixed(2)}`).join('') +
+        clamped,
+    };
+  }
+
+  /**
+   * Relevant code from the repo's latest index; none if the repo isn't indexed yet
+   */
+  private async retrieveChunks(issue: Issue): Promise<CodeChunk[] | undefined> {
+    if (!this.rag) return undefined;
+    try {
+      const indexed = await this.rag.listIndexedRepos();
+      if (!indexed.some((entry) => entry.repoUrl === issue.repoUrl)) {
+        return undefined;
+      }
+      return await this.rag.queryRelevantCode(issue, config.rag.chunkLimit);
+    } catch (error) {
+      console.warn('[BountyPricer] Could not retrieve code for pricing:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Settled prices of finished competitions for the same or similar issues
+   * (shared labels or a similar title), weighted by how similar they are
+   */
+  private async pastOutcomes(issue: Issue): Promise<PastOutcome[]> {
+    const competitions = (await this.state.listCompetitions())
+      .filter((c) => c.status === 'completed')
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, config.pricing.historyLimit);
+
+    const labels = new Set(issue.labels.map((l) => l.toLowerCase()));
+    const titleWords = words(issue.title);
+    const outcomes: PastOutcome[] = [];
+
+    for (const past of competitions) {
+      const sameRepo = past.issue.repoUrl === issue.repoUrl;
+      const sameIssue = sameRepo && past.issue.number === issue.number;
+      const sharedLabels = past.issue.labels.filter((l) => labels.has(l.toLowerCase())).length;
+      const titleSimilarity = jaccard(titleWords, words(past.issue.title));
+      if (!sameIssue && !sharedLabels && titleSimilarity < MIN_TITLE_SIMILARITY) continue;
+
+      const outcome = settledPrice(past);
+      if (outcome === null) continue;
+      outcomes.push({
+        ...outcome,
+        // An earlier run of the same issue is the best evidence there is
+        weight: sameIssue ? 4 : (sameRepo ? 1 : 0.5) + Math.min(sharedLabels, 2) * 0.5 + titleSimilarity,
+      });
+    }
+    return outcomes;
+  }
+}
+
+/**
+ * What a finished competition says the issue was worth: the winner's payout,
+ * or - when every agent declined - a bit more than the last ceiling offered
+ */
+function settledPrice(competition: Competition): { price: number; declined: boolean } | null {
+  if (competition.winner) {
+    return { price: competition.bountyAmount, declined: false };
+  }
+  const declined = competition.agents.length > 0 && competition.agents.every((a) => a.status === 'declined');
+  if (declined) {
+    return { price: competition.bountyAmount * DECLINED_PRICE_BUMP, declined: true };
+  }
+  // Agents took it but nobody produced a winner: says little about the price
+  return null;
+}
+
+function labelFactor(issue: Issue): BountyFactor | null {
+  const matched = issue.labels
+    .map((label) => label.toLowerCase())
+    .filter((label) => config.pricing.labelMultipliers[label] !== undefined);
+  if (matched.length === 0) return null;
+
+  const product = matched.reduce((p, label) => p * config.pricing.labelMultipliers[label], 1);
+  return {
+    name: 'labels',
+    multiplier: clamp(product, ...LABEL_RANGE),
+    detail: `labels ${matched.join(', ')}`,
+  };
+}
+
+/**
+ * Longer write-ups (repro steps, stack traces, acceptance criteria) tend to mean more work
+ */
+function descriptionFactor(issue: Issue): BountyFactor {
+  const length = issue.title.length + issue.body.length;
+  const codeBlocks = Math.floor((issue.body.match(/```/g) ?? []).length / 2);
+  const multiplier = clamp(1 + 0.15 * Math.log2(Math.max(length, 1) / 600) + 0.05 * Math.min(codeBlocks, 3), ...DESCRIPTION_RANGE);
+  return {
+    name: 'description',
+    multiplier,
+    detail: `${length.toLocaleString('en-US')}-char description${codeBlocks > 0 ? ` with ${codeBlocks} code block${codeBlocks === 1 ? '' : 's'}` : ''}`,
+  };
+}
+
+/**
+ * Fixes whose relevant code spans many files or a lot of code cost agents more
+ */
+function codeFactor(chunks: CodeChunk[] | undefined): BountyFactor | null {
+  if (!chunks || chunks.length === 0) return null;
+
+  const files = new Set(chunks.map((c) => c.filePath)).size;
+  const tokens = chunks.reduce((sum, c) => sum + estimateTokens(c.code), 0);
+  const multiplier = clamp(0.9 + Math.min(0.6, 0.12 * (files - 1)) + Math.min(0.4, tokens / 25000), ...CODE_RANGE);
+  return {
+    name: 'code',
+    multiplier,
+    detail: `relevant code in ${files} file${files === 1 ? '' : 's'} (~${Math.round(tokens / 100) / 10}k tokens)`,
+  };
+}
+
+function repoLimits(repoUrl: string): { min: number; max: number } {
+  const key = repoUrl.replace(/^https?:\/\/github\.com\//, '').replace(/\/+$/, '').toLowerCase();
+  const entry = Object.entries(config.pricing.repoLimits).find(([repo]) => repo.toLowerCase() === key);
+  const min = entry?.[1].min ?? config.pricing.minPrice;
+  const max = entry?.[1].max ?? config.pricing.maxPrice;
+  return { min, max: Math.max(min, max) };
+}
+
+function weightedMedian(outcomes: PastOutcome[]): number {
+  const sorted = [...outcomes].sort((a, b) => a.price - b.price);
+  const half = sorted.reduce((sum, o) => sum + o.weight, 0) / 2;
+  let seen = 0;
+  for (const outcome of sorted) {
+    seen += outcome.weight;
+    if (seen >= half) return outcome.price;
+  }
+  return sorted[sorted.length - 1].price;
+}
+
+function words(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Bounties are quoted to a tenth of a cent
+function roundPrice(price: number): number {
+  return Math.round(price * 1000) / 1000;
+}
+
+function formatPrice(price: number): string {
+  return price.toFixed(3);
+}
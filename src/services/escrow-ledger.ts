@@ -0,0 +1,230 @@
+/**
+ * Escrow Ledger
+ * Bounties are reserved against the orchestrator wallet when a competition is
+ * created, and the reservation follows the competition to the end: released
+ * once the payouts are confirmed, refunded to the available pool when nobody wins or
+ * the run fails. A new reservation only succeeds if the wallet balance minus
+ * everything already reserved covers it, so concurrent competitions can never
+ * promise more than the wallet holds. The check and the reservation are one
+ * atomic update of the store's reserved total, so this holds across every
+ * process sharing the store (the TUI and the WS server), not just within one.
+ */
+
+import type { IEscrowLedger, IPaymentService, IStateStore } from '../types/services.js';
+import type { Competition, EscrowHold, EscrowSummary } from '../types/index.js';
+import { isOutstanding } from './payment-worker.js';
+
+export type EscrowErrorCode = 'insufficient_funds' | 'invalid_amount' | 'not_found' | 'settled';
+
+/**
+ * Thrown when a bounty cannot be reserved or a hold cannot be changed
+ */
+export class EscrowError extends Error {
+  constructor(
+    message: string,
+    public readonly code: EscrowErrorCode
+  ) {
+    super(message);
+    this.name = 'EscrowError';
+  }
+}
+
+export class EscrowLedger implements IEscrowLedger {
+  // Changes to a hold are applied one at a time within this process
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private state: IStateStore,
+    private payment: IPaymentService
+  ) {}
+
+  reserve(competitionId: string, amount: number): Promise<EscrowHold> {
+    return this.exclusive(async () => {
+      checkAmount(amount);
+      const existing = await this.state.getEscrowHold(competitionId);
+      if (existing) {
+        throw new EscrowError(`Bounty for ${competitionId} is already in escrow (${existing.status})`, 'settled');
+      }
+
+      if (!(await this.state.changeEscrowReserved(amount, await this.balance()))) {
+        const { available } = await this.totals();
+        throw new EscrowError(
+          `Insufficient funds for a $${formatAmount(amount)} bounty: $${formatAmount(available)} available`,
+          'insufficient_funds'
+        );
+      }
+
+      const now = Date.now();
+      const hold: EscrowHold = {
+        competitionId,
+        amount: roundAmount(amount),
+        status: 'reserved',
+        createdAt: now,
+        updatedAt: now,
+      };
+      try {
+        await this.state.saveEscrowHold(hold);
+      } catch (error) {
+        await this.state.changeEscrowReserved(-amount, Infinity);
+        throw error;
+      }
+      console.log(`[Escrow] Reserved $${formatAmount(amount)} for ${competitionId}`);
+      return hold;
+    });
+  }
+
+  adjust(competitionId: string, amount: number): Promise<EscrowHold> {
+    return this.exclusive(async () => {
+      checkAmount(amount);
+      const hold = await this.activeHold(competitionId);
+      const increase = roundAmount(amount - hold.amount);
+      if (!(await this.state.changeEscrowReserved(increase, await this.balance()))) {
+        const { available } = await this.totals();
+        throw new EscrowError(
+          `Insufficient funds to raise the bounty to $${formatAmount(amount)}: $${formatAmount(available)} available`,
+          'insufficient_funds'
+        );
+      }
+
+      const updated: EscrowHold = { ...hold, amount: roundAmount(amount), updatedAt: Date.now() };
+      if (!(await this.state.replaceEscrowHold(updated, 'reserved'))) {
+        await this.state.changeEscrowReserved(-increase, Infinity);
+        throw new EscrowError(`Bounty for ${competitionId} was settled while being adjusted`, 'settled');
+      }
+      console.log(`[Escrow] ${competitionId} now holds $${formatAmount(amount)} (was $${formatAmount(hold.amount)})`);
+      return updated;
+    });
+  }
+
+  release(competitionId: string, payouts: Array<{ agentId: string; amount: number; txHash: string }>): Promise<EscrowHold> {
+    return this.exclusive(async () => {
+      const hold = await this.activeHold(competitionId);
+      const now = Date.now();
+      const paidAmount = roundAmount(payouts.reduce((sum, p) => sum + p.amount, 0));
+      const released: EscrowHold = {
+        ...hold,
+        status: 'released',
+        payouts: payouts.map((p) => ({ ...p, amount: roundAmount(p.amount) })),
+        paidAmount,
+        updatedAt: now,
+        settledAt: now,
+      };
+      await this.unreserve(released, hold);
+
+      const leftover = hold.amount - paidAmount;
+      console.log(
+        `[Escrow] Released $${formatAmount(paidAmount)} to ${payouts.map((p) => p.agentId).join(', ')} for ${competitionId}` +
+          (leftover > 0 ? ` ($${formatAmount(leftover)} back to the pool)` : '')
+      );
+      return released;
+    });
+  }
+
+  refund(competitionId: string, reason: string): Promise<EscrowHold> {
+    return this.exclusive(async () => {
+      const hold = await this.activeHold(competitionId);
+      const now = Date.now();
+      const refunded: EscrowHold = { ...hold, status: 'refunded', reason, updatedAt: now, settledAt: now };
+      await this.unreserve(refunded, hold);
+      console.log(`[Escrow] Refunded $${formatAmount(hold.amount)} for ${competitionId}: ${reason}`);
+      return refunded;
+    });
+  }
+
+  async settle(competition: Competition, failure?: string): Promise<void> {
+    try {
+      const hold = await this.state.getEscrowHold(competition.id);
+      if (!hold || hold.status !== 'reserved') {
+        return;
+      }
+
+      const records = competition.paymentRecords ?? (competition.paymentRecord ? [competition.paymentRecord] : []);
+      // Payouts still awaiting a receipt or a retry keep the bounty reserved; the payment worker settles later
+      const outstanding = records.filter(isOutstanding).length;
+      if (outstanding > 0) {
+        console.log(`[Escrow] Holding $${formatAmount(hold.amount)} for ${competition.id}: ${outstanding} payout${outstanding === 1 ? '' : 's'} not final yet`);
+        return;
+      }
+
+      const sent = records.filter((r) => r.status === 'confirmed');
+      if (sent.length > 0) {
+        await this.release(competition.id, sent.map((r) => ({ agentId: r.agentId, amount: r.amount, txHash: r.txHash })));
+        return;
+      }
+
+      const error = records.find((r) => r.error)?.error;
+      const reason =
+        failure ??
+        (competition.winner
+          ? `Payment to ${competition.winner} was not sent${error ? `: ${error}` : ''}`
+          : 'No winner');
+      await this.refund(competition.id, reason);
+    } catch (error) {
+      // The hold stays reserved; better to under-commit the wallet than to lose track of a payout
+      console.error(`[Escrow] Failed to settle ${competition.id}:`, error);
+    }
+  }
+
+  async summary(): Promise<EscrowSummary> {
+    const { balance, reserved, available, holds } = await this.totals();
+    return { balance, reserved, available, holds };
+  }
+
+  private async totals(): Promise<EscrowSummary> {
+    const holds = await this.state.listEscrowHolds('reserved');
+    const reserved = roundAmount(holds.reduce((sum, h) => sum + h.amount, 0));
+    const balance = await this.balance();
+    return { balance, reserved, available: Math.max(0, roundAmount(balance - reserved)), holds };
+  }
+
+  // Without a balance to check against, escrow only tracks what is reserved
+  private async balance(): Promise<number> {
+    return this.payment.getBalance ? await this.payment.getBalance() : Infinity;
+  }
+
+  /**
+   * Settle a reserved hold and return its amount to the pool. Only one process can settle
+   * a hold: if another already did, this throws and the pool is left alone.
+   */
+  private async unreserve(settled: EscrowHold, hold: EscrowHold): Promise<void> {
+    if (!(await this.state.replaceEscrowHold(settled, 'reserved'))) {
+      throw new EscrowError(`Bounty for ${hold.competitionId} was already settled`, 'settled');
+    }
+    await this.state.changeEscrowReserved(-hold.amount, Infinity);
+  }
+
+  private async activeHold(competitionId: string): Promise<EscrowHold> {
+    const hold = await this.state.getEscrowHold(competitionId);
+    if (!hold) {
+      throw new EscrowError(`No bounty in escrow for ${competitionId}`, 'not_found');
+    }
+    if (hold.status !== 'reserved') {
+      throw new EscrowError(`Bounty for ${competitionId} was already ${hold.status}`, 'settled');
+    }
+    return hold;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// USDC has 6 decimals
+/**
+ * A bounty must be a positive number of whole micro-USDC: anything else would corrupt the reserved total
+ */
+function checkAmount(amount: number): void {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || roundAmount(amount) <= 0) {
+    throw new EscrowError(`Invalid bounty amount: ${amount}`, 'invalid_amount');
+  }
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(4);
+}
@@ -155,7 +155,10 @@ The /api/users endpoint is slow when fetching large datasets.
     console.log(`[MockGitHub] Creating solution PR for issue #${issue.number}`);
     console.log(`[MockGitHub] Solution by: ${agentName}`);
     console.log(`[MockGitHub] Code only mode: ${codeOnly}`);
-    console.log(`[MockGitHub] Code preview: ${solution.code.slice(0, 100)}...`);
+    if (!solution.patch) {
+      throw new Error(`Solution by ${agentName} has no patch to apply`);
+    }
+    console.log(`[MockGitHub] Files: ${solution.patch.files.map((f) => `${f.path} (${f.status})`).join(', ')}`);
     await this.delay(800);
 
     const prNumber = Math.floor(Math.random() * 1000) + 100;
@@ -1,7 +1,7 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { homedir } from 'os';
+import { readFile, writeFile, mkdir, rm } from 'fs/promises';
+import { homedir, tmpdir } from 'os';
 import { join } from 'path';
 import type { IGitHubService } from '../../types/services.js';
 import type { Issue, Solution } from '../../types/index.js';
@@ -190,8 +190,8 @@ export class RealGitHubService implements IGitHubService {
   }
 
   /**
-   * Create a PR with the solution code
-   * @param codeOnly - If true, only include raw code without commentary/metadata
+   * Create a PR by applying the solution's patch on a fresh branch
+   * @param codeOnly - If true, keep the PR body to the issue reference and changed files
    */
   async createSolutionPR(
     issue: Issue,
@@ -199,13 +199,19 @@ export class RealGitHubService implements IGitHubService {
     agentName: string,
     codeOnly = false
   ): Promise<string> {
+    if (!solution.patch) {
+      throw new Error(`Solution by ${agentName} has no patch to apply`);
+    }
+
     const repo = this.extractRepoPath(issue.repoUrl);
     const branchName = `codebounty/fix-issue-${issue.number}`;
+    const patchFile = join(tmpdir(), `codebounty-issue-${issue.number}-${Date.now()}.patch`);
+    let originalBranch: string | null = null;
 
     try {
       // Get current branch to return to later
       const { stdout: currentBranch } = await execAsync('git branch --show-current');
-      const originalBranch = currentBranch.trim();
+      originalBranch = currentBranch.trim();
 
       // Fetch latest and create branch from main/master
       await execAsync('git fetch origin');
@@ -217,84 +223,42 @@ export class RealGitHubService implements IGitHubService {
         await execAsync(`git checkout -b ${branchName} origin/master`);
       }
 
-      let solutionFile: string;
-      let solutionContent: string;
-
-      if (codeOnly) {
-        // Code-only mode: Try to extract file path from solution or use a sensible default
-        const fileMatch = solution.code.match(/\/\/\s*File:\s*(.+)|\/\*\s*File:\s*(.+?)\s*\*\/|#\s*File:\s*(.+)/i);
-        const extractedPath = fileMatch?.[1] || fileMatch?.[2] || fileMatch?.[3];
-
-        if (extractedPath) {
-          // Use extracted file path
-          solutionFile = extractedPath.trim();
-        } else {
-          // Default to a code file based on detected language
-          const ext = this.detectExtension(solution.code);
-          solutionFile = `src/fix-issue-${issue.number}${ext}`;
-        }
-
-        // Strip any metadata comments from the code
-        solutionContent = this.stripMetadataComments(solution.code);
-
-        // Ensure parent directory exists
-        const dir = solutionFile.includes('/') ? solutionFile.substring(0, solutionFile.lastIndexOf('/')) : null;
-        if (dir) {
-          await mkdir(dir, { recursive: true });
-        }
-      } else {
-        // Full mode: Create markdown file with metadata
-        solutionFile = `solutions/issue-${issue.number}-solution.md`;
-        await mkdir('solutions', { recursive: true });
-
-        solutionContent = `# Solution for Issue #${issue.number}
-
-## Issue: ${issue.title}
-
-${issue.body}
-
----
-
-## Solution by ${agentName}
-
-**Completed in:** ${solution.timeMs}ms
-
-\`\`\`
-${solution.code}
-\`\`\`
-
----
-
-*Generated by Bounty Hunter - AI Agents Competing with X402 Payments*
-`;
+      // Apply the patch to the working tree and the index in one go
+      await writeFile(patchFile, solution.patch.diff);
+      try {
+        await execAsync(`git apply --index --whitespace=nowarn "${patchFile}"`);
+      } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(`Patch does not apply to the default branch: ${stderr || error}`);
       }
 
-      await writeFile(solutionFile, solutionContent);
-
-      // Stage, commit, and push
-      await execAsync(`git add ${solutionFile}`);
+      // Commit and push
       await execAsync(`git commit -m "Fix issue #${issue.number}: ${this.escapeShell(issue.title.slice(0, 50))}"`);
       await execAsync(`git push -u origin ${branchName}`);
 
       // Create PR
       const prTitle = `Fix #${issue.number}: ${issue.title}`;
+      const changedFiles = solution.patch.files
+        .map((f) => `- \`${f.oldPath ? `${f.oldPath} -> ${f.path}` : f.path}\` (${f.status}, +${f.additions}/-${f.deletions})`)
+        .join('\n');
       let prBody: string;
 
       if (codeOnly) {
         prBody = `Fixes #${issue.number}
 
-${solution.code.length > 500 ? 'See the changed files for the implementation.' : '```\n' + solution.code + '\n```'}`;
+## Changed files
+${changedFiles}`;
       } else {
         prBody = `## Summary
 Automated fix for issue #${issue.number} generated by **${agentName}** via Bounty Hunter.
 
-## Solution
-See \`${solutionFile}\` for the proposed fix.
+## Changed files
+${changedFiles}
 
 ## Details
 - **Agent:** ${agentName}
 - **Time to solve:** ${solution.timeMs}ms
-- **Issue:** #${issue.number}
+- **Issue:** #${issue.number}${solution.patch.baseCommit ? `\n- **Validated against:** ${solution.patch.baseCommit.slice(0, 8)}` : ''}
 
 ---
 *Created by [Bounty Hunter](https://github.com) - AI Agents Competing with X402 Payments*`;
@@ -310,67 +274,17 @@ See \`${solutionFile}\` for the proposed fix.
       return prUrl.trim();
     } catch (error) {
       console.error('Failed to create solution PR:', error);
-      throw new Error(`Failed to create PR for issue #${issue.number}`);
-    }
-  }
 
-  /**
-   * Detect file extension based on code content
-   */
-  private detectExtension(code: string): string {
-    if (code.includes('import React') || code.includes('from "react"') || code.includes("from 'react'")) {
-      return '.tsx';
-    }
-    if (code.includes(': string') || code.includes(': number') || code.includes('interface ') || code.includes('type ')) {
-      return '.ts';
-    }
-    if (code.includes('def ') || code.includes('import ') && code.includes(':') && !code.includes(';')) {
-      return '.py';
-    }
-    if (code.includes('func ') || code.includes('package ')) {
-      return '.go';
-    }
-    if (code.includes('fn ') || code.includes('let mut ')) {
-      return '.rs';
-    }
-    return '.ts'; // Default to TypeScript
-  }
-
-  /**
-   * Strip metadata/commentary comments from the beginning of code
-   */
-  private stripMetadataComments(code: string): string {
-    const lines = code.split('\n');
-    let startIndex = 0;
-
-    // Skip leading comments that look like metadata
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (
-        line.startsWith('//') ||
-        line.startsWith('/*') ||
-        line.startsWith('*') ||
-        line.startsWith('#') ||
-        line === ''
-      ) {
-        // Check if this looks like metadata vs actual code comment
-        if (
-          line.toLowerCase().includes('file:') ||
-          line.toLowerCase().includes('solution') ||
-          line.toLowerCase().includes('generated') ||
-          line.toLowerCase().includes('agent') ||
-          line === ''
-        ) {
-          startIndex = i + 1;
-        } else {
-          break; // Stop at first non-metadata comment
-        }
-      } else {
-        break;
+      // Don't leave the user stranded on the fix branch (git apply is atomic, nothing to undo)
+      if (originalBranch) {
+        await execAsync(`git checkout ${originalBranch}`).catch(() => {});
       }
-    }
 
-    return lines.slice(startIndex).join('\n').trim();
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to create PR for issue #${issue.number}: ${reason}`);
+    } finally {
+      await rm(patchFile, { force: true });
+    }
   }
 
   /**
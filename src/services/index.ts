@@ -1,5 +1,5 @@
 import { config } from '../config.js';
-import type { Services } from '../types/services.js';
+import type { Services, IAgentClient } from '../types/services.js';
 
 // Mock implementations
 import { MockGitHubService } from './github/mock.js';
@@ -8,6 +8,7 @@ import { MockStateStore } from './state/mock.js';
 import { MockPaymentService } from './payment/mock.js';
 import { MockAgentClient } from './agent-client/mock.js';
 import { MockReviewerService } from './reviewer/mock.js';
+import { MockVerifierService } from './verifier/mock.js';
 import { MockRAGService } from './rag/mock.js';
 import { MockEventEmitter } from './events/mock.js';
 
@@ -18,8 +19,15 @@ import { RealStateStore } from './state/real.js';
 import { RealPaymentService } from './payment/real.js';
 import { RealAgentClient } from './agent-client/real.js';
 import { RealReviewerService } from './reviewer/real.js';
+import { RealVerifierService } from './verifier/real.js';
 import { RealRAGService } from './rag/real.js';
 
+import { AgentRegistry } from './agent-registry.js';
+import { BountyPricer } from './bounty-pricing.js';
+import { EscrowLedger } from './escrow-ledger.js';
+import { PaymentWorker } from './payment-worker.js';
+import { X402Payer } from './x402-payer.js';
+
 /**
  * Creates and returns all services based on config.useMocks flags.
  *
@@ -30,6 +38,7 @@ import { RealRAGService } from './rag/real.js';
  * - Set MOCK_PAYMENT=false to use real payment service (X402)
  * - Set MOCK_AGENTS=false to use real agent client
  * - Set MOCK_REVIEWER=false to use real reviewer service
+ * - Set MOCK_VERIFIER=false to build and test solutions in a scratch checkout
  *
  * By default, all services are mocked for development.
  */
@@ -52,22 +61,43 @@ export function createServices(): Services {
     ? new MockPaymentService()
     : new RealPaymentService();
 
-  const agentClient = useMocks.agents
-    ? new MockAgentClient()
-    : new RealAgentClient();
+  // Agent registry persists wherever the state store does; agents are probed through the agent client
+  const agents = new AgentRegistry(state, (agentUrl) => agentClient.checkHealth(agentUrl));
+
+  // Agents that charge per call are paid from the orchestrator wallet (real payments only)
+  const payer = payment instanceof RealPaymentService
+    ? new X402Payer(state, () => payment.getWallet())
+    : undefined;
+
+  const agentClient: IAgentClient = useMocks.agents
+    ? new MockAgentClient(agents)
+    : new RealAgentClient(payer);
 
   const reviewer = useMocks.reviewer
     ? new MockReviewerService()
     : new RealReviewerService();
 
+  const verifier = useMocks.verifier
+    ? new MockVerifierService()
+    : new RealVerifierService();
+
   const rag = useMocks.rag
     ? new MockRAGService()
     : new RealRAGService();
 
+  // Pricing reads past competitions from the state store and relevant code from the index
+  const pricing = new BountyPricer(state, rag);
+
+  // Bounties are reserved against the payment wallet's balance; holds persist with the rest of the state
+  const escrow = new EscrowLedger(state, payment);
+
   // Events service - always use singleton for in-memory (shared across TUI/API)
   // For production Redis pub/sub, this can be configured separately
   const events = MockEventEmitter.getInstance();
 
+  // Follows sent payouts to a receipt and retries failed ones (started by the app, see start())
+  const paymentWorker = new PaymentWorker({ state, payment, agents, escrow, events });
+
   console.log('[Services] Initialized with:');
   console.log(`  - GitHub: ${useMocks.github ? 'MOCK' : 'REAL'}`);
   console.log(`  - LLM: ${useMocks.llm ? 'MOCK' : 'REAL'}`);
@@ -75,6 +105,7 @@ export function createServices(): Services {
   console.log(`  - Payment: ${useMocks.payment ? 'MOCK' : 'REAL'}`);
   console.log(`  - Agents: ${useMocks.agents ? 'MOCK' : 'REAL'}`);
   console.log(`  - Reviewer: ${useMocks.reviewer ? 'MOCK' : 'REAL'}`);
+  console.log(`  - Verifier: ${useMocks.verifier ? 'MOCK' : 'REAL'}`);
   console.log(`  - RAG: ${useMocks.rag ? 'MOCK' : 'REAL'}`);
   console.log(`  - Events: IN-MEMORY`);
 
@@ -84,7 +115,12 @@ export function createServices(): Services {
     state,
     payment,
     agentClient,
+    agents,
+    pricing,
+    escrow,
+    paymentWorker,
     reviewer,
+    verifier,
     rag,
     events,
   };
@@ -100,5 +136,14 @@ export { MockStateStore } from './state/mock.js';
 export { MockPaymentService } from './payment/mock.js';
 export { MockAgentClient } from './agent-client/mock.js';
 export { MockReviewerService } from './reviewer/mock.js';
+export { MockVerifierService } from './verifier/mock.js';
 export { MockRAGService } from './rag/mock.js';
 export { MockEventEmitter } from './events/mock.js';
+
+export { AgentRegistry, AgentRegistryError } from './agent-registry.js';
+export { BountyPricer } from './bounty-pricing.js';
+export { EscrowLedger, EscrowError } from './escrow-ledger.js';
+export { PaymentWorker } from './payment-worker.js';
+export { NonceStore } from './nonce-store.js';
+export { X402Verifier } from './x402-verifier.js';
+export { X402Payer, X402PaymentError } from './x402-payer.js';
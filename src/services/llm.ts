@@ -1,11 +1,12 @@
-import type { ILLMService } from '../types/services.js';
+import type { ILLMService, LLMCompletion } from '../types/services.js';
+import { estimateTokens } from './rag/context-assembler.js';
 
 /**
  * Mock LLM Service for development/testing
  * Returns simulated solutions with artificial delay
  */
 export class MockLLMService implements ILLMService {
-  async generateSolution(prompt: string, model: string): Promise<string> {
+  async generateSolution(prompt: string, model: string): Promise<LLMCompletion> {
     // Simulate varying response times based on model
     const delays: Record<string, number> = {
       'accounts/fireworks/models/llama-v3p1-70b-instruct': 1500,
@@ -22,7 +23,7 @@ export class MockLLMService implements ILLMService {
     // Extract model name for the mock response
     const modelName = model.split('/').pop() || 'unknown';
 
-    return `// Solution generated by ${modelName}
+    const text = `// Solution generated by ${modelName}
 // Prompt: ${prompt.substring(0, 50)}...
 
 function fixIssue() {
@@ -33,6 +34,9 @@ function fixIssue() {
 
 export { fixIssue };
 `;
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(text);
+    return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true } };
   }
 }
 
@@ -46,7 +50,7 @@ export class FireworksLLMService implements ILLMService {
     }
   }
 
-  async generateSolution(prompt: string, model: string): Promise<string> {
+  async generateSolution(prompt: string, model: string): Promise<LLMCompletion> {
     const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -77,8 +81,20 @@ export class FireworksLLMService implements ILLMService {
 
     const data = await response.json() as {
       choices: Array<{ message: { content: string } }>;
+      usage?: { prompt_tokens: number; completion_tokens: number };
     };
 
-    return data.choices[0]?.message?.content || '';
+    const text = data.choices[0]?.message?.content || '';
+    const promptTokens = data.usage?.prompt_tokens ?? estimateTokens(prompt);
+    const completionTokens = data.usage?.completion_tokens ?? estimateTokens(text);
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        ...(data.usage ? {} : { estimated: true }),
+      },
+    };
   }
 }
@@ -1,9 +1,11 @@
-import type { ILLMService, StreamCallback } from '../../types/services.js';
+import type { ILLMService, LLMCompletion, StreamCallback } from '../../types/services.js';
 import type { LLMProvider } from '../../types/index.js';
+import { formatNewFilePatch } from '../../utils/patch.js';
+import { estimateTokens } from '../rag/context-assembler.js';
 
-// Different mock solutions for variety
-const MOCK_SOLUTIONS = [
-  `// Solution using functional approach
+// Different mock solutions for variety (target file + contents)
+const MOCK_SOLUTIONS: Array<{ path: string; code: string }> = [
+  { path: 'src/auth/credentials.ts', code: `// Solution using functional approach
 export function sanitizePassword(password: string): string {
   // FIXED: Preserve special characters in passwords
   return password.trim();
@@ -14,8 +16,8 @@ export function validateCredentials(email: string, password: string): boolean {
   if (!emailRegex.test(email)) return false;
   if (password.length < 8) return false;
   return true;
-}`,
-  `// Solution with enhanced validation
+}` },
+  { path: 'src/auth/validation.ts', code: `// Solution with enhanced validation
 function isValidEmail(email: string): boolean {
   return /^[\\w.-]+@[\\w.-]+\\.\\w+$/.test(email);
 }
@@ -31,8 +33,8 @@ function isStrongPassword(password: string): boolean {
 
 export function authenticate(email: string, password: string): boolean {
   return isValidEmail(email) && isStrongPassword(password);
-}`,
-  `// Object-oriented solution
+}` },
+  { path: 'src/auth/password-validator.ts', code: `// Object-oriented solution
 class PasswordValidator {
   private minLength = 8;
 
@@ -48,31 +50,33 @@ class PasswordValidator {
   }
 }
 
-export const validator = new PasswordValidator();`,
+export const validator = new PasswordValidator();` },
 ];
 
 export class MockLLMService implements ILLMService {
-  async generateSolution(prompt: string, model: string, provider?: LLMProvider): Promise<string> {
-    return this.generateSolutionStreaming(prompt, model, () => {}, provider);
+  async generateSolution(prompt: string, model: string, provider?: LLMProvider, signal?: AbortSignal): Promise<LLMCompletion> {
+    return this.generateSolutionStreaming(prompt, model, () => {}, provider, signal);
   }
 
   async generateSolutionStreaming(
     prompt: string,
     model: string,
     onChunk: StreamCallback,
-    provider?: LLMProvider
-  ): Promise<string> {
+    provider?: LLMProvider,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
     console.log(`[MockLLM] Streaming solution with model: ${model} (provider: ${provider || 'default'})`);
 
-    // Pick a random solution and add model info
-    const solutionIndex = Math.floor(Math.random() * MOCK_SOLUTIONS.length);
-    const solution = `// Model: ${model}\n${MOCK_SOLUTIONS[solutionIndex]}`;
+    // Pick a random solution and wrap it in the unified diff format agents are asked for
+    const { path, code } = MOCK_SOLUTIONS[Math.floor(Math.random() * MOCK_SOLUTIONS.length)];
+    const solution = `\`\`\`diff\n${formatNewFilePatch(path, code)}\`\`\`\n\nAdded ${path} (model: ${model}).`;
 
     // Stream character by character with small delays
     let accumulated = '';
     const chunkSize = 3 + Math.floor(Math.random() * 5); // 3-7 chars at a time
 
     for (let i = 0; i < solution.length; i += chunkSize) {
+      signal?.throwIfAborted();
       const chunk = solution.slice(i, i + chunkSize);
       accumulated += chunk;
       onChunk(chunk, accumulated);
@@ -82,7 +86,13 @@ export class MockLLMService implements ILLMService {
     }
 
     console.log(`[MockLLM] Finished streaming ${solution.length} chars`);
-    return solution;
+    // Usage as a real provider would report it, counted from the text
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(solution);
+    return {
+      text: solution,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true },
+    };
   }
 
   private delay(ms: number): Promise<void> {
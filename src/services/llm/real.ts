@@ -1,6 +1,15 @@
-import type { ILLMService } from '../../types/services.js';
-import type { LLMProvider } from '../../types/index.js';
+import type { ILLMService, LLMCompletion } from '../../types/services.js';
+import type { LLMProvider, ProviderStatus, TokenUsage } from '../../types/index.js';
 import { config } from '../../config.js';
+import { estimateTokens } from '../rag/context-assembler.js';
+import { ProviderGuard } from './resilience.js';
+
+// Usage as returned by OpenAI-compatible APIs (Fireworks, OpenAI, xAI)
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+}
 
 const SYSTEM_PROMPT = `You are an expert software engineer. Your task is to fix the issue described by the user.
 
@@ -14,45 +23,62 @@ Format your response as code that can be directly applied.`;
 /**
  * Multi-provider LLM Service
  * Supports: Fireworks, OpenAI, Anthropic, Google, xAI
+ * Every request goes through a ProviderGuard: rate limited, retried on 429/5xx,
+ * and failed fast while the provider's circuit is open.
  */
 export class RealLLMService implements ILLMService {
-  async generateSolution(prompt: string, model: string, provider: LLMProvider = 'fireworks'): Promise<string> {
+  constructor(private guard = new ProviderGuard()) {}
+
+  async generateSolution(
+    prompt: string,
+    model: string,
+    provider: LLMProvider = 'fireworks',
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
     console.log(`[LLM] Calling ${provider} with model: ${model}`);
     const startTime = Date.now();
 
-    let result: string;
+    let result: LLMCompletion;
 
     switch (provider) {
       case 'fireworks':
-        result = await this.callFireworks(prompt, model);
+        result = await this.callFireworks(prompt, model, signal);
         break;
       case 'openai':
-        result = await this.callOpenAI(prompt, model);
+        result = await this.callOpenAI(prompt, model, signal);
         break;
       case 'anthropic':
-        result = await this.callAnthropic(prompt, model);
+        result = await this.callAnthropic(prompt, model, signal);
         break;
       case 'google':
-        result = await this.callGoogle(prompt, model);
+        result = await this.callGoogle(prompt, model, signal);
         break;
       case 'xai':
-        result = await this.callXAI(prompt, model);
+        result = await this.callXAI(prompt, model, signal);
         break;
       default:
         throw new Error(`Unknown provider: ${provider}`);
     }
 
     const elapsed = Date.now() - startTime;
-    console.log(`[LLM] Response received in ${elapsed}ms`);
+    const { usage } = result;
+    console.log(
+      `[LLM] Response received in ${elapsed}ms (${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens` +
+      `${usage.estimated ? ', estimated' : ''})`
+    );
 
     return result;
   }
 
-  private async callFireworks(prompt: string, model: string): Promise<string> {
+  providerStatus(provider: LLMProvider): ProviderStatus {
+    return this.guard.status(provider);
+  }
+
+  private async callFireworks(prompt: string, model: string, signal?: AbortSignal): Promise<LLMCompletion> {
     const apiKey = config.fireworks.apiKey;
     if (!apiKey) throw new Error('FIREWORKS_API_KEY not set');
 
-    const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
+    const response = await this.guard.fetch('fireworks', () => fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -67,22 +93,24 @@ export class RealLLMService implements ILLMService {
         max_tokens: 4096,
         temperature: 0.7,
       }),
-    });
+      signal,
+    }), signal);
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`Fireworks API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json() as { choices: Array<{ message: { content: string } }> };
-    return data.choices[0]?.message?.content || '';
+    const data = await response.json() as { choices: Array<{ message: { content: string } }>; usage?: OpenAIUsage };
+    const text = data.choices[0]?.message?.content || '';
+    return { text, usage: openAIUsage(data.usage, prompt, text) };
   }
 
-  private async callOpenAI(prompt: string, model: string): Promise<string> {
+  private async callOpenAI(prompt: string, model: string, signal?: AbortSignal): Promise<LLMCompletion> {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) throw new Error('OPENAI_API_KEY not set');
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await this.guard.fetch('openai', () => fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -97,22 +125,24 @@ export class RealLLMService implements ILLMService {
         max_tokens: 4096,
         temperature: 0.7,
       }),
-    });
+      signal,
+    }), signal);
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json() as { choices: Array<{ message: { content: string } }> };
-    return data.choices[0]?.message?.content || '';
+    const data = await response.json() as { choices: Array<{ message: { content: string } }>; usage?: OpenAIUsage };
+    const text = data.choices[0]?.message?.content || '';
+    return { text, usage: openAIUsage(data.usage, prompt, text) };
   }
 
-  private async callAnthropic(prompt: string, model: string): Promise<string> {
+  private async callAnthropic(prompt: string, model: string, signal?: AbortSignal): Promise<LLMCompletion> {
     const apiKey = process.env.ANTHROPIC_API_KEY;
     if (!apiKey) throw new Error('ANTHROPIC_API_KEY not set');
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
+    const response = await this.guard.fetch('anthropic', () => fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -127,22 +157,32 @@ export class RealLLMService implements ILLMService {
           { role: 'user', content: prompt },
         ],
       }),
-    });
+      signal,
+    }), signal);
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json() as { content: Array<{ text: string }> };
-    return data.content[0]?.text || '';
+    const data = await response.json() as {
+      content: Array<{ text: string }>;
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+    const text = data.content[0]?.text || '';
+    return {
+      text,
+      usage: data.usage
+        ? toUsage(data.usage.input_tokens, data.usage.output_tokens)
+        : estimateUsage(prompt, text),
+    };
   }
 
-  private async callGoogle(prompt: string, model: string): Promise<string> {
+  private async callGoogle(prompt: string, model: string, signal?: AbortSignal): Promise<LLMCompletion> {
     const apiKey = process.env.GOOGLE_API_KEY;
     if (!apiKey) throw new Error('GOOGLE_API_KEY not set');
 
-    const response = await fetch(
+    const response = await this.guard.fetch('google', () => fetch(
       `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
       {
         method: 'POST',
@@ -156,8 +196,9 @@ export class RealLLMService implements ILLMService {
             temperature: 0.7,
           },
         }),
+        signal,
       }
-    );
+    ), signal);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -166,16 +207,24 @@ export class RealLLMService implements ILLMService {
 
     const data = await response.json() as {
       candidates: Array<{ content: { parts: Array<{ text: string }> } }>;
+      usageMetadata?: { promptTokenCount: number; candidatesTokenCount?: number; totalTokenCount?: number };
+    };
+    const text = data.candidates[0]?.content?.parts[0]?.text || '';
+    const meta = data.usageMetadata;
+    return {
+      text,
+      usage: meta
+        ? toUsage(meta.promptTokenCount, meta.candidatesTokenCount ?? (meta.totalTokenCount ?? 0) - meta.promptTokenCount)
+        : estimateUsage(prompt, text),
     };
-    return data.candidates[0]?.content?.parts[0]?.text || '';
   }
 
-  private async callXAI(prompt: string, model: string): Promise<string> {
+  private async callXAI(prompt: string, model: string, signal?: AbortSignal): Promise<LLMCompletion> {
     const apiKey = process.env.XAI_API_KEY;
     if (!apiKey) throw new Error('XAI_API_KEY not set');
 
     // xAI uses OpenAI-compatible API
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
+    const response = await this.guard.fetch('xai', () => fetch('https://api.x.ai/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -190,14 +239,31 @@ export class RealLLMService implements ILLMService {
         max_tokens: 4096,
         temperature: 0.7,
       }),
-    });
+      signal,
+    }), signal);
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`xAI API error: ${response.status} - ${errorText}`);
     }
 
-    const data = await response.json() as { choices: Array<{ message: { content: string } }> };
-    return data.choices[0]?.message?.content || '';
+    const data = await response.json() as { choices: Array<{ message: { content: string } }>; usage?: OpenAIUsage };
+    const text = data.choices[0]?.message?.content || '';
+    return { text, usage: openAIUsage(data.usage, prompt, text) };
   }
 }
+
+function toUsage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function openAIUsage(usage: OpenAIUsage | undefined, prompt: string, text: string): TokenUsage {
+  return usage ? toUsage(usage.prompt_tokens, usage.completion_tokens) : estimateUsage(prompt, text);
+}
+
+/**
+ * Fallback when a response carries no usage: count from text length (the system prompt is sent too)
+ */
+function estimateUsage(prompt: string, text: string): TokenUsage {
+  return { ...toUsage(estimateTokens(`${SYSTEM_PROMPT}\n${prompt}`), estimateTokens(text)), estimated: true };
+}
@@ -0,0 +1,271 @@
+import type { LLMProvider, ProviderCircuitState, ProviderStatus } from '../../types/index.js';
+import { config } from '../../config.js';
+
+/**
+ * Resilience layer shared by every provider RealLLMService calls:
+ * - a token bucket per provider keeps requests under its rate limit
+ * - 429s, 5xx responses and network errors are retried with jittered exponential
+ *   backoff, or after Retry-After when the provider sends one
+ * - a circuit breaker per provider opens after consecutive failed requests (a request
+ *   fails once its retries are used up); while open, calls fail fast with
+ *   ProviderUnavailableError until the cooldown has passed, then a single trial
+ *   request decides whether it closes again
+ */
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;           // Cap on backoff; a longer Retry-After is not waited out
+  breakerThreshold: number;     // Consecutive failed requests that open the circuit
+  breakerCooldownMs: number;
+  rateLimit(provider: LLMProvider): { burst: number; perMinute: number };
+}
+
+/**
+ * Thrown without calling the provider while its circuit is open
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(
+    public readonly provider: LLMProvider,
+    public readonly retryAt: number
+  ) {
+    super(`${provider} is unavailable (circuit open), retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * Requests allowed in a burst, refilled continuously at the sustained rate
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private readonly perMs: number;
+
+  constructor(private readonly burst: number, perMinute: number) {
+    this.tokens = burst;
+    this.perMs = perMinute / 60_000;
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Wait until a request is allowed, then spend it
+   */
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.perMs), signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) * this.perMs);
+    this.updatedAt = now;
+  }
+}
+
+export class CircuitBreaker {
+  private state: ProviderCircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  /**
+   * Whether a request may go out now. Once the cooldown has passed one trial request is let through.
+   */
+  allow(): boolean {
+    const state = this.current();
+    if (state === 'open') return false;
+    if (state === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.state = 'half_open';
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  success(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.failures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * The request was given up before it finished (aborted): nothing learned about the provider
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * When a request may be let through again. While a trial is in flight the cooldown is
+   * past, so callers are told to wait another cooldown: that is how long it stays open if the trial fails.
+   */
+  retryAt(): number {
+    const reopensAt = this.openedAt + this.cooldownMs;
+    return this.trialInFlight ? Math.max(reopensAt, Date.now() + this.cooldownMs) : reopensAt;
+  }
+
+  status(): { circuit: ProviderCircuitState; failures: number; retryAt?: number } {
+    const circuit = this.current();
+    return { circuit, failures: this.failures, ...(circuit === 'open' ? { retryAt: this.retryAt() } : {}) };
+  }
+
+  private current(): ProviderCircuitState {
+    return this.state === 'open' && Date.now() >= this.retryAt() ? 'half_open' : this.state;
+  }
+}
+
+/**
+ * Rate limit, retries and circuit breaker for each provider, created on first use
+ */
+export class ProviderGuard {
+  private readonly guards = new Map<LLMProvider, { bucket: TokenBucket; breaker: CircuitBreaker }>();
+
+  constructor(private readonly options: ResilienceOptions = defaultOptions()) {}
+
+  /**
+   * Send a request to a provider. Returns the last response when retrying stops, so
+   * the caller reports the provider's error as before, or rethrows what send() threw;
+   * throws ProviderUnavailableError without sending while the circuit is open.
+   * The breaker hears once per request: a failure only when its retries are used up.
+   */
+  async fetch(provider: LLMProvider, send: () => Promise<Response>, signal?: AbortSignal): Promise<Response> {
+    const { bucket, breaker } = this.guard(provider);
+    const { maxRetries } = this.options;
+
+    if (!breaker.allow()) {
+      throw new ProviderUnavailableError(provider, breaker.retryAt());
+    }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await bucket.take(signal);
+      } catch (error) {
+        breaker.release();
+        throw error;
+      }
+
+      let response: Response | undefined;
+      let failure: unknown;
+      try {
+        response = await send();
+      } catch (error) {
+        if (signal?.aborted) {
+          breaker.release();
+          throw error;
+        }
+        failure = error;
+      }
+
+      // Anything but a 429 or 5xx means the provider is up, even a 4xx
+      if (response && !isRetryable(response.status)) {
+        breaker.success();
+        return response;
+      }
+
+      // Give up with the provider's own error once retries run out, it asks for too long a wait,
+      // or other requests' failures opened the circuit meanwhile
+      const retryAfter = response ? retryAfterMs(response) : null;
+      if (
+        attempt >= maxRetries ||
+        (retryAfter !== null && retryAfter > this.options.retryMaxMs) ||
+        breaker.status().circuit === 'open'
+      ) {
+        breaker.failure();
+        if (response) return response;
+        throw failure;
+      }
+
+      const delay = retryAfter ?? backoffMs(attempt, this.options);
+      const reason = response ? `HTTP ${response.status}` : `request failed (${failure instanceof Error ? failure.message : String(failure)})`;
+      console.warn(`[LLM] ${provider} ${reason}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+      // Free the connection before waiting
+      await response?.body?.cancel().catch(() => {});
+      try {
+        await sleep(delay, signal);
+      } catch (error) {
+        breaker.release();
+        throw error;
+      }
+    }
+  }
+
+  status(provider: LLMProvider): ProviderStatus {
+    const { bucket, breaker } = this.guard(provider);
+    return { provider, ...breaker.status(), tokens: bucket.available() };
+  }
+
+  private guard(provider: LLMProvider): { bucket: TokenBucket; breaker: CircuitBreaker } {
+    let guard = this.guards.get(provider);
+    if (!guard) {
+      const { burst, perMinute } = this.options.rateLimit(provider);
+      guard = {
+        bucket: new TokenBucket(burst, perMinute),
+        breaker: new CircuitBreaker(this.options.breakerThreshold, this.options.breakerCooldownMs),
+      };
+      this.guards.set(provider, guard);
+    }
+    return guard;
+  }
+}
+
+function defaultOptions(): ResilienceOptions {
+  const { rateLimit, providerRateLimits, ...options } = config.llmResilience;
+  return { ...options, rateLimit: (provider) => ({ ...rateLimit, ...providerRateLimits[provider] }) };
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date; null when absent or unreadable
+ */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Full jitter: anywhere up to the exponential step, so agents hitting one provider spread out
+function backoffMs(attempt: number, options: ResilienceOptions): number {
+  return Math.round(Math.random() * Math.min(options.retryMaxMs, options.retryBaseMs * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Nonce Store
+ * Remembers which EIP-3009 authorization nonces a payee has already accepted,
+ * so a signed payment can't be presented twice. Nonces are kept until the
+ * authorization expires (after that the contract would reject it anyway) and
+ * saved to one JSON file per payee, re-read before every claim so servers
+ * sharing a payee see each other's payments. A claim holds an exclusive lock
+ * file next to the payee's file while it reads and writes it, so servers can't
+ * both accept the same nonce.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { INonceStore } from '../types/services.js';
+
+// payer:nonce -> validBefore (unix seconds)
+type NonceFile = Record<string, number>;
+
+// A lock file this old was left by a process that died mid-claim
+const LOCK_STALE_MS = 10000;
+// Longest a claim waits for another process's lock; refusing a payment beats accepting a replay
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 20;
+
+export class NonceStore implements INonceStore {
+  private memory = new Map<string, NonceFile>();
+  // Claims are checked and written one at a time
+  private lock: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param dir - Directory for the nonce files; empty keeps nonces in memory only
+   */
+  constructor(private dir: string) {}
+
+  claim(payee: string, payer: string, nonce: string, validBefore: number): Promise<boolean> {
+    return this.exclusive(payee, async () => {
+      const used = this.load(payee);
+      const key = `${payer.toLowerCase()}:${nonce.toLowerCase()}`;
+      if (key in used) {
+        return false;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      for (const [entry, expiresAt] of Object.entries(used)) {
+        if (expiresAt < now) delete used[entry];
+      }
+      used[key] = validBefore;
+      this.save(payee, used);
+      return true;
+    });
+  }
+
+  private load(payee: string): NonceFile {
+    const filePath = this.filePath(payee);
+    if (!filePath) {
+      const used = this.memory.get(payee.toLowerCase()) ?? {};
+      this.memory.set(payee.toLowerCase(), used);
+      return used;
+    }
+
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as NonceFile;
+    } catch (error) {
+      // Refusing every payment beats accepting replays
+      throw new Error(`Unreadable nonce file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private save(payee: string, used: NonceFile): void {
+    const filePath = this.filePath(payee);
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpFile = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(used));
+    fs.renameSync(tmpFile, filePath);
+  }
+
+  private filePath(payee: string): string | null {
+    return this.dir ? path.join(this.dir, `${payee.toLowerCase()}.json`) : null;
+  }
+
+  /**
+   * One claim at a time in this process, and for a payee's file across processes
+   */
+  private exclusive<T>(payee: string, task: () => Promise<T>): Promise<T> {
+    const locked = async () => {
+      const filePath = this.filePath(payee);
+      if (!filePath) {
+        return task();
+      }
+      const lockPath = `${filePath}.lock`;
+      await acquireLock(lockPath);
+      try {
+        return await task();
+      } finally {
+        fs.rmSync(lockPath, { force: true });
+      }
+    };
+    const run = this.lock.then(locked, locked);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Create the lock file, failing if it exists; waits for another holder, and takes over a stale lock
+ */
+async function acquireLock(lockPath: string): Promise<void> {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const heldSince = fs.statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs;
+    if (heldSince !== undefined && Date.now() - heldSince > LOCK_STALE_MS) {
+      console.warn(`[NonceStore] Removing stale lock ${lockPath}`);
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for nonce lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
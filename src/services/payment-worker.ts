@@ -0,0 +1,287 @@
+/**
+ * Payment Worker
+ * Payouts are broadcast without waiting for the chain. The worker follows each
+ * pending transfer until it has a receipt (filling blockNumber and confirmedAt),
+ * marks reverted and dropped transfers failed, and re-sends failed payouts with
+ * exponential backoff. A payout is one payment record, keyed by competition and
+ * agent, so a recipient is never paid twice:
+ * - every earlier transaction of it is re-checked before a retry
+ * - a retry reuses the payout's wallet nonce, replacing the earlier transfer, so
+ *   only one of them can ever be mined; a new nonce is taken only once the old one
+ *   was used by a transaction that is known not to be this payout's
+ * - a retry is claimed with a conditional update, so when several processes run a
+ *   worker against the same store only one of them sends it
+ */
+
+import { config } from '../config.js';
+import type { IPaymentWorker, Services } from '../types/services.js';
+import type { PaymentRecord } from '../types/index.js';
+
+export class PaymentWorker implements IPaymentWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(private services: Pick<Services, 'state' | 'payment' | 'agents' | 'escrow' | 'events'>) {}
+
+  process(): Promise<void> {
+    // The timer and a caller asking for an immediate pass share one sweep
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    const { pollIntervalMs } = config.paymentWorker;
+    this.timer = setInterval(() => {
+      this.process().catch((error) => {
+        console.error('[PaymentWorker] Sweep failed:', error);
+      });
+    }, pollIntervalMs);
+    this.timer.unref();
+    console.log(`[PaymentWorker] Checking payments every ${pollIntervalMs / 1000}s`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    // Call fees are settled by the agents that were paid, not by us
+    const records = (await this.services.state.getPaymentsByStatus(['pending', 'failed'])).filter((r) => r.kind !== 'call');
+    const now = Date.now();
+    const changed = new Set<string>();
+
+    for (const record of records) {
+      try {
+        let updated: PaymentRecord | null = null;
+        if (record.status === 'pending') {
+          updated = await this.checkPending(record, now);
+        } else if (typeof record.nextAttemptAt === 'number' && record.nextAttemptAt <= now) {
+          updated = await this.retry(record);
+        }
+        if (updated) {
+          await this.publish(updated);
+          changed.add(updated.competitionId);
+        }
+      } catch (error) {
+        console.error(`[PaymentWorker] Failed to process payment ${record.id}:`, error);
+      }
+    }
+
+    // Competitions whose payouts are all final can let go of their escrow
+    for (const competitionId of changed) {
+      const competition = await this.services.state.getCompetition(competitionId);
+      if (competition?.status === 'completed') {
+        await this.services.escrow.settle(competition);
+      }
+    }
+  }
+
+  /**
+   * Follow a sent transfer: confirmed, reverted, dropped, or still waiting
+   */
+  private async checkPending(record: PaymentRecord, now: number): Promise<PaymentRecord | null> {
+    const sentAt = record.submittedAt ?? record.createdAt;
+    if (!record.txHash) {
+      // Saved before sending, never updated: the process stopped mid-transfer.
+      // Whether it went out is unknown, so it is left for an operator rather than re-sent.
+      if (now - sentAt < config.paymentWorker.droppedAfterMs) return null;
+      return this.update(record, {
+        status: 'failed',
+        error: 'Interrupted while sending; check the wallet before paying again',
+        nextAttemptAt: undefined,
+      });
+    }
+
+    const { getTransactionStatus } = this.services.payment;
+    if (!getTransactionStatus) return null;
+
+    const status = await getTransactionStatus.call(this.services.payment, record.txHash);
+    switch (status.state) {
+      case 'confirmed': {
+        const updates: Partial<PaymentRecord> = { status: 'confirmed', blockNumber: status.blockNumber, confirmedAt: now, error: undefined };
+        await this.services.state.updatePaymentByTxHash(record.txHash, updates);
+        console.log(`[PaymentWorker] ${record.agentId} payment confirmed in block ${status.blockNumber}: ${record.txHash}`);
+        return { ...record, ...updates };
+      }
+      case 'reverted':
+        // The reverted transfer used up the nonce: the next attempt takes a new one
+        return this.fail(
+          { ...record, nonce: undefined, unknownTx: undefined },
+          `Transaction reverted in block ${status.blockNumber}`
+        );
+      case 'not_found':
+        if (now - sentAt < config.paymentWorker.droppedAfterMs) return null;
+        return this.fail(record, `Transaction dropped: not seen for ${Math.round((now - sentAt) / 1000)}s`);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Send a failed payout again, unless an earlier transaction of it made it after all
+   */
+  private async retry(record: PaymentRecord): Promise<PaymentRecord | null> {
+    const earlier = [...(record.previousTxHashes ?? []), record.txHash].filter((hash) => hash);
+    const { getTransactionStatus, getConfirmedNonce } = this.services.payment;
+
+    // Read before the transactions are: once the nonce is used, none of them can still be mined
+    let nonce = typeof record.nonce === 'number' ? record.nonce : undefined;
+    const nonceUsed = nonce !== undefined && getConfirmedNonce
+      ? (await getConfirmedNonce.call(this.services.payment)) > nonce
+      : false;
+
+    if (getTransactionStatus) {
+      for (const txHash of earlier) {
+        const status = await getTransactionStatus.call(this.services.payment, txHash);
+        if (status.state === 'confirmed' || status.state === 'pending') {
+          console.log(`[PaymentWorker] Not re-sending ${record.agentId}'s payout: ${txHash} is ${status.state}`);
+          return this.update(record, {
+            status: status.state,
+            txHash,
+            previousTxHashes: earlier.filter((hash) => hash !== txHash),
+            error: undefined,
+            nextAttemptAt: undefined,
+            ...(status.state === 'confirmed' ? { blockNumber: status.blockNumber, confirmedAt: Date.now() } : {}),
+          });
+        }
+      }
+    }
+
+    if (nonceUsed) {
+      // None of this payout's known transfers was mined with the nonce, but one sent unseen might have been
+      if (record.unknownTx) {
+        console.error(`[PaymentWorker] Not re-sending ${record.agentId}'s payout: nonce ${nonce} was used and a send with it failed mid-way`);
+        return this.update(record, {
+          error: `Nonce ${nonce} was used by an unknown transaction; check the wallet before paying again`,
+          nextAttemptAt: undefined,
+        });
+      }
+      nonce = undefined;
+    }
+
+    const attempts = (record.attempts ?? 1) + 1;
+    // The agent may have registered a wallet since
+    const agent = await this.services.agents.get(record.agentId);
+    const walletAddress = agent?.walletAddress ?? record.walletAddress;
+    if (!walletAddress) {
+      return this.fail({ ...record, attempts }, 'No wallet address configured');
+    }
+
+    // Claimed in flight first: another worker that read the same failed record leaves it alone,
+    // and a crash mid-send is never mistaken for a failure to retry
+    const claim: Partial<PaymentRecord> = {
+      status: 'pending',
+      txHash: '',
+      walletAddress,
+      attempts,
+      previousTxHashes: earlier,
+      nextAttemptAt: undefined,
+      submittedAt: Date.now(),
+      ...(nonce === undefined ? { nonce: undefined, unknownTx: undefined } : {}),
+    };
+    if (!(await this.services.state.claimPaymentRecord(record.id, { status: 'failed', attempts: record.attempts }, claim))) {
+      console.log(`[PaymentWorker] ${record.agentId}'s payout is being retried elsewhere`);
+      return null;
+    }
+    let inFlight: PaymentRecord = { ...record, ...claim };
+    console.log(
+      `[PaymentWorker] Retrying $${record.amount} to ${record.agentId} (attempt ${attempts}/${config.paymentWorker.maxAttempts})` +
+        (nonce === undefined ? '' : `, replacing nonce ${nonce}`)
+    );
+
+    let nonceTaken = false;
+    try {
+      const txHash = await this.services.payment.sendBonus(walletAddress, record.amount, {
+        nonce,
+        onNonce: async (taken) => {
+          nonceTaken = true;
+          if (taken !== nonce) inFlight = await this.update(inFlight, { nonce: taken });
+        },
+      });
+      return this.update(inFlight, {
+        txHash,
+        submittedAt: Date.now(),
+        error: undefined,
+        // Without receipt tracking a sent transfer is as good as it gets
+        ...(getTransactionStatus ? {} : { status: 'confirmed' as const, confirmedAt: Date.now() }),
+      });
+    } catch (error) {
+      // Thrown after the nonce was taken: the transfer may have gone out all the same
+      const unknownTx = nonceTaken || inFlight.unknownTx;
+      return this.fail({ ...inFlight, unknownTx }, error instanceof Error ? error.message : 'Payment failed');
+    }
+  }
+
+  private fail(record: PaymentRecord, error: string): Promise<PaymentRecord> {
+    const nextAttemptAt = retryAt(record.attempts ?? 1);
+    console.error(
+      `[PaymentWorker] Payment to ${record.agentId} failed: ${error}` +
+        (nextAttemptAt ? `, retrying in ${Math.round((nextAttemptAt - Date.now()) / 1000)}s` : ', giving up')
+    );
+    return this.update(record, {
+      status: 'failed',
+      error,
+      attempts: record.attempts,
+      nextAttemptAt,
+      nonce: record.nonce,
+      unknownTx: record.unknownTx,
+    });
+  }
+
+  private async update(record: PaymentRecord, updates: Partial<PaymentRecord>): Promise<PaymentRecord> {
+    await this.services.state.updatePaymentRecord(record.id, updates);
+    return { ...record, ...updates };
+  }
+
+  /**
+   * Mirror the record onto its competition and tell anyone watching
+   */
+  private async publish(record: PaymentRecord): Promise<void> {
+    const competition = await this.services.state.getCompetition(record.competitionId);
+    if (competition) {
+      const paymentRecords = (competition.paymentRecords ?? []).map((r) => (r.id === record.id ? record : r));
+      const isWinner = competition.paymentRecord?.id === record.id;
+      await this.services.state.updateCompetition(competition.id, {
+        paymentRecords,
+        ...(isWinner
+          ? {
+              paymentRecord: record,
+              paymentTxHash: record.status === 'failed' ? undefined : record.txHash || undefined,
+              paymentError: record.status === 'failed' ? record.error : undefined,
+            }
+          : {}),
+      });
+    }
+
+    await this.services.events.emit({
+      type: 'payment:updated',
+      competitionId: record.competitionId,
+      timestamp: Date.now(),
+      payload: { record },
+    });
+  }
+}
+
+/**
+ * When to try a payout again after this many attempts (undefined = give up)
+ */
+export function retryAt(attempts: number): number | undefined {
+  const { maxAttempts, retryBaseMs, retryMaxMs } = config.paymentWorker;
+  if (attempts >= maxAttempts) return undefined;
+  return Date.now() + Math.min(retryMaxMs, retryBaseMs * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Not final yet: waiting for a receipt, or failed with another attempt queued
+ */
+export function isOutstanding(record: PaymentRecord): boolean {
+  return record.status === 'pending' || (record.status === 'failed' && typeof record.nextAttemptAt === 'number');
+}
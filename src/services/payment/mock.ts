@@ -1,8 +1,17 @@
+import { config } from '../../config.js';
 import type { IPaymentService } from '../../types/services.js';
-import type { PaymentRequest } from '../../types/index.js';
+import type { PaymentRequest, PaymentRequirement, PaymentVerification, TransactionStatus } from '../../types/index.js';
+
+// Simulated time for a transfer to be mined
+const MOCK_CONFIRMATION_MS = 2000;
 
 export class MockPaymentService implements IPaymentService {
   private paymentCounter = 0;
+  // Simulated orchestrator wallet, so escrow has a balance to reserve against
+  private balance = config.escrow.mockBalance;
+  // Sent transfers: when they were sent and the block they land in
+  private transactions = new Map<string, { sentAt: number; blockNumber: number }>();
+  private blockNumber = 1_000_000;
 
   async requestPayment(
     agentId: string,
@@ -25,12 +34,17 @@ export class MockPaymentService implements IPaymentService {
     };
   }
 
-  async verifyPayment(signature: string): Promise<boolean> {
-    console.log(`[MockPayment] Verifying payment signature: ${signature.slice(0, 20)}...`);
+  async verifyPayment(paymentHeader: string, requirement: PaymentRequirement): Promise<PaymentVerification> {
+    console.log(`[MockPayment] Verifying payment header: ${paymentHeader.slice(0, 20)}...`);
     await this.delay(50);
 
-    // Always return true for mock
-    return true;
+    // Always valid for mock
+    return {
+      valid: true,
+      payer: '0xMockPayer',
+      amount: Number(requirement.maxAmountRequired) / 10 ** requirement.asset.decimals,
+      nonce: `mock_${Date.now()}`,
+    };
   }
 
   async sendBonus(walletAddress: string, amount: number): Promise<string> {
@@ -40,13 +54,34 @@ export class MockPaymentService implements IPaymentService {
 
     await this.delay(200);
 
+    if (amount > this.balance) {
+      throw new Error(`Insufficient USDC balance: ${this.balance} < ${amount}`);
+    }
+    this.balance -= amount;
+
     // Generate a fake transaction hash
     const txHash = `0x${this.randomHex(64)}`;
     console.log(`[MockPayment] Transaction hash: ${txHash}`);
+    this.transactions.set(txHash, { sentAt: Date.now(), blockNumber: ++this.blockNumber });
 
     return txHash;
   }
 
+  async getBalance(): Promise<number> {
+    return this.balance;
+  }
+
+  async getTransactionStatus(txHash: string): Promise<TransactionStatus> {
+    const tx = this.transactions.get(txHash);
+    if (!tx) {
+      return { state: 'not_found' };
+    }
+    if (Date.now() - tx.sentAt < MOCK_CONFIRMATION_MS) {
+      return { state: 'pending' };
+    }
+    return { state: 'confirmed', blockNumber: tx.blockNumber };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -4,14 +4,17 @@
  * Uses the wallet service layer for signing and sending transactions
  */
 
-import type { IPaymentService } from '../../types/services.js';
-import type { PaymentRequest } from '../../types/index.js';
+import type { IPaymentService, TransferOptions } from '../../types/services.js';
+import type { PaymentRequest, PaymentRequirement, PaymentVerification, TransactionStatus } from '../../types/index.js';
 import { config } from '../../config.js';
 import { createWalletService, type IWalletService } from '../wallet/index.js';
+import { NonceStore } from '../nonce-store.js';
+import { X402Verifier } from '../x402-verifier.js';
 
 export class RealPaymentService implements IPaymentService {
   private walletService: IWalletService | null = null;
   private initialized = false;
+  private verifier = new X402Verifier(new NonceStore(config.x402.nonceDir));
 
   /**
    * Initialize the payment service with a wallet
@@ -72,49 +75,24 @@ export class RealPaymentService implements IPaymentService {
   }
 
   /**
-   * Verify a payment signature
-   * Used to validate x402 payment headers
+   * Verify an x402 payment header against a requirement
+   * Checked locally (signature, payee, amount, window, nonce), then settled; see X402Verifier
    */
-  async verifyPayment(signature: string): Promise<boolean> {
-    await this.ensureInitialized();
-
-    console.log(`[RealPayment] Verifying payment signature...`);
-
-    try {
-      // For now, we'll verify against the x402 facilitator
-      // In production, this validates the payment was actually made
-      const response = await fetch(`${config.x402.facilitatorUrl}/verify`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ signature }),
-      });
+  async verifyPayment(paymentHeader: string, requirement: PaymentRequirement): Promise<PaymentVerification> {
+    console.log(`[RealPayment] Verifying payment to ${requirement.payee}...`);
 
-      if (!response.ok) {
-        console.log(`[RealPayment] Facilitator returned ${response.status}`);
-        return false;
-      }
-
-      const result = await response.json();
-      const valid = result.valid === true;
-
-      console.log(`[RealPayment] Payment verification: ${valid ? 'VALID' : 'INVALID'}`);
-      return valid;
-    } catch (error) {
-      // If facilitator is unavailable, log but don't fail
-      // This allows testing without the full x402 infrastructure
-      console.warn('[RealPayment] Facilitator verification failed:', error);
-      console.warn('[RealPayment] Falling back to signature presence check');
-
-      // Basic check: signature exists and has reasonable length
-      return signature.length > 20;
-    }
+    const result = await this.verifier.verify(paymentHeader, requirement);
+    console.log(`[RealPayment] Payment verification: ${result.valid ? 'VALID' : `INVALID (${result.reason})`}`);
+    return result;
   }
 
   /**
    * Send USDC bonus payment to a wallet address
-   * This is the main method used by the orchestrator to pay winners
+   * This is the main method used by the orchestrator to pay winners.
+   * The nonce is taken (and handed to onNonce) only once nothing stands in the way of
+   * broadcasting, so a failure before then never leaves a nonce behind.
    */
-  async sendBonus(walletAddress: string, amount: number): Promise<string> {
+  async sendBonus(walletAddress: string, amount: number, options: TransferOptions = {}): Promise<string> {
     await this.ensureInitialized();
 
     if (!this.walletService) {
@@ -137,18 +115,18 @@ export class RealPaymentService implements IPaymentService {
       );
     }
 
+    const nonce = options.nonce ?? (await this.walletService.getNonce('pending'));
+    await options.onNonce?.(nonce);
+
     try {
       // Send the USDC
-      const txHash = await this.walletService.sendUSDC(walletAddress, amount);
+      const txHash = await this.walletService.sendUSDC(walletAddress, amount, nonce);
 
       console.log(`[RealPayment] ====== PAYMENT SENT ======`);
       console.log(`[RealPayment] TX Hash: ${txHash}`);
       console.log(`[RealPayment] Explorer: https://${config.x402.network === 'base' ? '' : 'sepolia.'}basescan.org/tx/${txHash}`);
 
-      // Check new balance
-      const newBalance = await this.walletService.getBalance();
-      console.log(`[RealPayment] New balance: ${newBalance} USDC`);
-
+      // Broadcast only: the payment worker waits for the receipt
       return txHash;
     } catch (error) {
       console.error(`[RealPayment] ====== PAYMENT FAILED ======`);
@@ -157,6 +135,32 @@ export class RealPaymentService implements IPaymentService {
     }
   }
 
+  /**
+   * Receipt status of a sent payment
+   */
+  async getTransactionStatus(txHash: string): Promise<TransactionStatus> {
+    await this.ensureInitialized();
+
+    if (!this.walletService) {
+      throw new Error('Wallet service not initialized');
+    }
+
+    return this.walletService.getTransactionStatus(txHash);
+  }
+
+  /**
+   * Nonce of the wallet's next transaction to be mined
+   */
+  async getConfirmedNonce(): Promise<number> {
+    await this.ensureInitialized();
+
+    if (!this.walletService) {
+      throw new Error('Wallet service not initialized');
+    }
+
+    return this.walletService.getNonce('latest');
+  }
+
   /**
    * Get current USDC balance
    */
@@ -170,6 +174,19 @@ export class RealPaymentService implements IPaymentService {
     return this.walletService.getBalance();
   }
 
+  /**
+   * The orchestrator wallet, e.g. to sign x402 payments to agents
+   */
+  async getWallet(): Promise<IWalletService> {
+    await this.ensureInitialized();
+
+    if (!this.walletService) {
+      throw new Error('Wallet service not initialized');
+    }
+
+    return this.walletService;
+  }
+
   /**
    * Get the wallet address
    */
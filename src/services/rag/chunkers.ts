@@ -0,0 +1,502 @@
+/**
+ * Chunker registry for the RAG indexer.
+ * Each chunker splits one language's source into named chunks; files with
+ * no registered chunker fall back to overlapping line windows.
+ */
+
+import * as parser from '@babel/parser';
+import _traverse from '@babel/traverse';
+import * as path from 'path';
+import type { ChunkType } from '../../types/services.js';
+
+// Handle @babel/traverse ESM/CJS compatibility
+const traverse = (_traverse as any).default || _traverse;
+
+/**
+ * A chunk as produced by a chunker (file path and language are added by chunkFile)
+ */
+export interface RawChunk {
+  chunkType: ChunkType;
+  chunkName: string;
+  code: string;
+}
+
+export interface Chunker {
+  language: string;
+  chunk(code: string, filePath: string): RawChunk[];
+}
+
+/**
+ * Chunk with the fields the indexer stores alongside the embedding
+ */
+export interface FileChunk extends RawChunk {
+  filePath: string;
+  language: string;
+}
+
+// Line-window fallback settings
+const WINDOW_LINES = 60;
+const WINDOW_OVERLAP = 10;
+
+// Sections longer than this are split into windows so embeddings stay focused
+const MAX_SECTION_LINES = 200;
+
+// Fence labels for files without a dedicated chunker
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.swift': 'swift',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.scala': 'scala',
+  '.sh': 'bash',
+  '.sql': 'sql',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.html': 'html',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+};
+
+const registry = new Map<string, Chunker>();
+
+/**
+ * Register a chunker for one or more file extensions (e.g. ['.py', '.pyi'])
+ */
+export function registerChunker(extensions: string[], chunker: Chunker): void {
+  for (const ext of extensions) {
+    registry.set(ext.toLowerCase(), chunker);
+  }
+}
+
+/**
+ * Chunker for a file, falling back to line windows
+ */
+export function getChunker(filePath: string): Chunker {
+  return registry.get(path.extname(filePath).toLowerCase()) ?? lineWindowChunker(languageForPath(filePath));
+}
+
+/**
+ * Language name for fenced code blocks
+ */
+export function languageForPath(filePath: string): string {
+  const ext = path.extname(filePath).toLowerCase();
+  return registry.get(ext)?.language ?? LANGUAGE_BY_EXTENSION[ext] ?? 'text';
+}
+
+/**
+ * Split a file into chunks using the chunker registered for its extension.
+ * A chunker that throws (e.g. on a syntax error) degrades to line windows.
+ */
+export function chunkFile(filePath: string, code: string): FileChunk[] {
+  const chunker = getChunker(filePath);
+  let chunks: RawChunk[];
+
+  try {
+    chunks = chunker.chunk(code, filePath);
+  } catch (error) {
+    console.warn(`[Chunker] ${chunker.language} chunker failed on ${filePath}, using line windows:`, (error as Error).message);
+    chunks = lineWindowChunker(chunker.language).chunk(code, filePath);
+  }
+
+  return chunks
+    .filter((chunk) => chunk.code.trim().length > 0)
+    .map((chunk) => ({ ...chunk, filePath, language: chunker.language }));
+}
+
+// ============ Helpers ============
+
+/**
+ * Split lines into overlapping windows
+ */
+function windows(
+  lines: string[],
+  firstLine: number,
+  chunkType: ChunkType,
+  namePrefix: string
+): RawChunk[] {
+  const chunks: RawChunk[] = [];
+  const step = WINDOW_LINES - WINDOW_OVERLAP;
+
+  for (let start = 0; start < lines.length; start += step) {
+    const end = Math.min(start + WINDOW_LINES, lines.length);
+    chunks.push({
+      chunkType,
+      chunkName: `${namePrefix}:${firstLine + start}-${firstLine + end - 1}`,
+      code: lines.slice(start, end).join('\n'),
+    });
+    if (end === lines.length) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Emit a section as one chunk, or as windows if it is too long
+ */
+function section(lines: string[], firstLine: number, chunkType: ChunkType, chunkName: string): RawChunk[] {
+  if (lines.length <= MAX_SECTION_LINES) {
+    return [{ chunkType, chunkName, code: lines.join('\n') }];
+  }
+  return windows(lines, firstLine, chunkType, chunkName);
+}
+
+/**
+ * Collect lines not covered by any extracted chunk into a module-level chunk
+ */
+function moduleRemainder(lines: string[], covered: boolean[], filePath: string): RawChunk[] {
+  const rest = lines.filter((line, i) => !covered[i] && line.trim() !== '');
+  if (rest.length === 0) return [];
+  return section(rest, 1, 'module', path.basename(filePath));
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// ============ Line windows (fallback) ============
+
+function lineWindowChunker(language: string): Chunker {
+  return {
+    language,
+    chunk(code, filePath) {
+      return windows(code.split('\n'), 1, 'block', path.basename(filePath));
+    },
+  };
+}
+
+// ============ TypeScript / JavaScript ============
+
+const typescriptChunker: Chunker = {
+  language: 'typescript',
+  chunk(code) {
+    const chunks: RawChunk[] = [];
+
+    const ast = parser.parse(code, {
+      sourceType: 'module',
+      plugins: ['typescript', 'jsx'],
+    });
+
+    const push = (chunkType: ChunkType, name: string, node: any) => {
+      if (node.start !== null && node.end !== null) {
+        chunks.push({ chunkType, chunkName: name, code: code.slice(node.start, node.end) });
+      }
+    };
+
+    traverse(ast, {
+      FunctionDeclaration(nodePath: any) {
+        const node = nodePath.node;
+        if (node.id) push('function', node.id.name, node);
+      },
+      ClassDeclaration(nodePath: any) {
+        const node = nodePath.node;
+        if (node.id) push('class', node.id.name, node);
+      },
+      ClassMethod(nodePath: any) {
+        const node = nodePath.node;
+        if (node.key.type === 'Identifier') push('method', node.key.name, node);
+      },
+      TSInterfaceDeclaration(nodePath: any) {
+        const node = nodePath.node;
+        push('interface', node.id.name, node);
+      },
+      TSTypeAliasDeclaration(nodePath: any) {
+        const node = nodePath.node;
+        push('type', node.id.name, node);
+      },
+    });
+
+    return chunks;
+  },
+};
+
+// JavaScript shares the Babel parser but gets its own fence label
+const javascriptChunker: Chunker = { ...typescriptChunker, language: 'javascript' };
+
+// ============ Python ============
+
+const pythonChunker: Chunker = {
+  language: 'python',
+  chunk(code, filePath) {
+    const lines = code.split('\n');
+    const covered = new Array<boolean>(lines.length).fill(false);
+    const chunks: RawChunk[] = [];
+    const defPattern = /^(\s*)(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/;
+
+    // Stack of enclosing classes so nested defs become methods
+    const classStack: Array<{ indent: number; name: string }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(defPattern);
+      if (!match) continue;
+
+      const indent = match[1].length;
+      while (classStack.length > 0 && classStack[classStack.length - 1].indent >= indent) {
+        classStack.pop();
+      }
+
+      // Include decorators directly above
+      let start = i;
+      while (start > 0 && lines[start - 1].trim().startsWith('@') && indentOf(lines[start - 1]) === indent) {
+        start--;
+      }
+
+      // Block ends before the next non-blank, non-comment line at the same or lower indent
+      // after the header, which may span lines (e.g. one parameter per line)
+      const headerEnd = pythonHeaderEnd(lines, i);
+      let end = headerEnd + 1;
+      let last = headerEnd;
+      while (end < lines.length) {
+        const line = lines[end];
+        const trimmed = line.trim();
+        if (trimmed !== '' && !trimmed.startsWith('#') && indentOf(line) <= indent) break;
+        if (trimmed !== '') last = end;
+        end++;
+      }
+
+      const [, , keyword, name] = match;
+      const parent = classStack[classStack.length - 1];
+      const chunkType: ChunkType = keyword === 'class' ? 'class' : parent ? 'method' : 'function';
+      const chunkName = parent && keyword === 'def' ? `${parent.name}.${name}` : name;
+
+      chunks.push({ chunkType, chunkName, code: lines.slice(start, last + 1).join('\n') });
+      if (indent === 0) {
+        for (let j = start; j <= last; j++) covered[j] = true;
+      }
+
+      if (keyword === 'class') {
+        classStack.push({ indent, name });
+      }
+    }
+
+    return [...moduleRemainder(lines, covered, filePath), ...chunks];
+  },
+};
+
+/**
+ * Line of the colon that ends the def/class header starting at line `start`,
+ * the first one outside brackets (skipping strings and comments)
+ */
+function pythonHeaderEnd(lines: string[], start: number): number {
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    for (let j = 0; j < line.length; j++) {
+      const c = line[j];
+      if (c === '#') break;
+      if (c === '"' || c === "'") {
+        for (j++; j < line.length && line[j] !== c; j++) {
+          if (line[j] === '\\') j++;
+        }
+      } else if (c === '(' || c === '[' || c === '{') {
+        depth++;
+      } else if (c === ')' || c === ']' || c === '}') {
+        depth--;
+      } else if (c === ':' && depth <= 0) {
+        return i;
+      }
+    }
+  }
+  return start;
+}
+
+// ============ Go ============
+
+/**
+ * Index just past the bracket that closes the one at `open`,
+ * skipping strings, runes and comments
+ */
+function matchBracket(code: string, open: number): number {
+  const openChar = code[open];
+  const closeChar = openChar === '{' ? '}' : openChar === '[' ? ']' : ')';
+  let depth = 0;
+
+  for (let i = open; i < code.length; i++) {
+    const c = code[i];
+    if (c === '/' && code[i + 1] === '/') {
+      i = code.indexOf('\n', i);
+      if (i === -1) return code.length;
+    } else if (c === '/' && code[i + 1] === '*') {
+      i = code.indexOf('*/', i + 2);
+      if (i === -1) return code.length;
+      i++;
+    } else if (c === '"' || c === "'") {
+      for (i++; i < code.length && code[i] !== c && code[i] !== '\n'; i++) {
+        if (code[i] === '\\') i++;
+      }
+    } else if (c === '`') {
+      i = code.indexOf('`', i + 1);
+      if (i === -1) return code.length;
+    } else if (c === openChar) {
+      depth++;
+    } else if (c === closeChar) {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return code.length;
+}
+
+/**
+ * Index of the { opening a func's body: the first one outside its parameter,
+ * result and type parameter lists. -1 if the declaration ends without a body.
+ */
+function goFuncBody(code: string, start: number): number {
+  for (let i = start; i < code.length; i++) {
+    const c = code[i];
+    if (c === '(' || c === '[') {
+      i = matchBracket(code, i) - 1;
+    } else if (c === '{') {
+      return i;
+    } else if (c === '\n' || (c === '/' && code[i + 1] === '/')) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+const goChunker: Chunker = {
+  language: 'go',
+  chunk(code, filePath) {
+    const chunks: RawChunk[] = [];
+    const lines = code.split('\n');
+    const covered = new Array<boolean>(lines.length).fill(false);
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+    }
+    const lineAt = (index: number) => {
+      let lo = 0;
+      let hi = lineStarts.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (lineStarts[mid] <= index) lo = mid;
+        else hi = mid - 1;
+      }
+      return lo;
+    };
+
+    const declPattern = /^(func|type)\b[^\n]*/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = declPattern.exec(code)) !== null) {
+      const header = match[0];
+      const startLine = lineAt(match.index);
+      if (covered[startLine]) continue;
+
+      let chunkType: ChunkType;
+      let chunkName: string;
+      let grouped = false;
+
+      if (match[1] === 'func') {
+        const method = header.match(/^func\s*\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*(\w+)/);
+        const fn = header.match(/^func\s+(\w+)/);
+        if (method) {
+          chunkType = 'method';
+          chunkName = `${method[1]}.${method[2]}`;
+        } else if (fn) {
+          chunkType = 'function';
+          chunkName = fn[1];
+        } else {
+          continue;
+        }
+      } else if (/^type\s*\(/.test(header)) {
+        chunkType = 'type';
+        chunkName = 'types';
+        grouped = true;
+      } else {
+        const typeDecl = header.match(/^type\s+(\w+)(?:\[[^\]]*\])?\s+(\w+)?/);
+        if (!typeDecl) continue;
+        chunkName = typeDecl[1];
+        chunkType = typeDecl[2] === 'interface' ? 'interface' : typeDecl[2] === 'struct' ? 'class' : 'type';
+      }
+
+      // Body: the { after a func's signature, which may span lines, or
+      // the first { (or the ( of a grouped type block) on a type declaration
+      let body: number;
+      if (match[1] === 'func') {
+        body = goFuncBody(code, match.index);
+      } else {
+        const bracket = header.search(grouped ? /\(/ : /\{/);
+        body = bracket === -1 ? -1 : match.index + bracket;
+      }
+      const end = body === -1
+        ? match.index + header.length
+        : matchBracket(code, body);
+
+      // Pull in the doc comment directly above
+      let firstLine = startLine;
+      while (firstLine > 0 && lines[firstLine - 1].trimStart().startsWith('//')) {
+        firstLine--;
+      }
+      const lastLine = lineAt(Math.max(end - 1, match.index));
+
+      chunks.push({
+        chunkType,
+        chunkName,
+        code: lines.slice(firstLine, lastLine + 1).join('\n'),
+      });
+      for (let j = firstLine; j <= lastLine; j++) covered[j] = true;
+
+      declPattern.lastIndex = Math.max(declPattern.lastIndex, end);
+    }
+
+    return [...moduleRemainder(lines, covered, filePath), ...chunks];
+  },
+};
+
+// ============ Markdown ============
+
+const markdownChunker: Chunker = {
+  language: 'markdown',
+  chunk(code, filePath) {
+    const lines = code.split('\n');
+    const chunks: RawChunk[] = [];
+    let title = path.basename(filePath);
+    let start = 0;
+    let inFence = false;
+
+    const flush = (end: number) => {
+      const body = lines.slice(start, end);
+      if (body.some((line) => line.trim() !== '')) {
+        chunks.push(...section(body, start + 1, 'doc', title));
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*(```|~~~)/.test(lines[i])) {
+        inFence = !inFence;
+        continue;
+      }
+      const heading = !inFence && lines[i].match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+      if (heading) {
+        flush(i);
+        title = heading[1];
+        start = i;
+      }
+    }
+    flush(lines.length);
+
+    return chunks;
+  },
+};
+
+registerChunker(['.ts', '.tsx', '.mts', '.cts'], typescriptChunker);
+registerChunker(['.js', '.jsx', '.mjs', '.cjs'], javascriptChunker);
+registerChunker(['.py', '.pyi'], pythonChunker);
+registerChunker(['.go'], goChunker);
+registerChunker(['.md', '.mdx', '.markdown'], markdownChunker);
@@ -0,0 +1,249 @@
+/**
+ * Token-budgeted prompt context.
+ * Fills an agent's context window with retrieved chunks in rank order,
+ * trims oversized chunks down to their signatures and the lines relevant to
+ * the issue, prepends a file tree outline, and records what didn't fit.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { posix } from 'path';
+import { config } from '../../config.js';
+import type { CodeChunk } from '../../types/services.js';
+import type { Issue, AgentConfig } from '../../types/index.js';
+import { languageForPath } from './chunkers.js';
+import { extractQueryTerms } from './hybrid.js';
+
+const execAsync = promisify(exec);
+
+// Output tokens requested from every provider (max_tokens in RealLLMService)
+export const OUTPUT_TOKENS_RESERVED = 4096;
+// System prompt, issue framing and patch format instructions
+const PROMPT_OVERHEAD_TOKENS = 1500;
+// A single chunk may use at most this share of the budget before it is trimmed
+const MAX_CHUNK_SHARE = 0.35;
+// The file tree outline may use at most this share of the budget
+const MAX_OUTLINE_SHARE = 0.1;
+const MAX_OUTLINE_DEPTH = 3;
+const RELEVANT_LINE_CONTEXT = 2;
+// Kept free for the "Context Notes" section listing trimmed/dropped chunks
+const NOTES_RESERVE_TOKENS = 150;
+
+export interface AssembledContext {
+  text: string;
+  tokens: number; // Estimated tokens used by text
+  budget: number; // Tokens that were available for context
+  included: string[]; // "path:name" of chunks included whole
+  trimmed: string[]; // ... included as signatures + relevant lines
+  dropped: string[]; // ... left out
+}
+
+/**
+ * Rough token count (code averages ~3.5 characters per token across tokenizers)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+/**
+ * Tokens available for code context in a prompt to this agent
+ */
+export function contextBudget(agent: Pick<AgentConfig, 'contextWindow'>, issue: Issue): number {
+  const available =
+    agent.contextWindow - OUTPUT_TOKENS_RESERVED - PROMPT_OVERHEAD_TOKENS - estimateTokens(`${issue.title}\n${issue.body}`);
+  return Math.max(0, Math.min(available, config.rag.maxContextTokens));
+}
+
+/**
+ * Tracked files of a checkout (empty if it isn't a git repo)
+ */
+export async function listRepoFiles(repoPath: string): Promise<string[]> {
+  try {
+    const { stdout } = await execAsync('git ls-files', { cwd: repoPath, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Directory outline with file counts, e.g. "src/services/rag/ (6 files)".
+ * Directories holding retrieved chunks are marked with *.
+ */
+export function buildFileTreeOutline(files: string[], highlight: string[] = [], maxLines = 60): string {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const dir = posix.dirname(file);
+    const parts = dir === '.' ? [] : dir.split('/');
+    const key = parts.slice(0, MAX_OUTLINE_DEPTH).join('/') || '.';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const marked = highlight.map((file) => {
+    const parts = posix.dirname(file).split('/');
+    return parts.slice(0, MAX_OUTLINE_DEPTH).join('/') || '.';
+  });
+
+  const dirs = [...counts.keys()].sort();
+  const lines = dirs.slice(0, maxLines).map((dir) => {
+    const depth = dir === '.' ? 0 : dir.split('/').length - 1;
+    const label = dir === '.' ? './' : `${posix.basename(dir)}/`;
+    const n = counts.get(dir)!;
+    return `${'  '.repeat(depth)}${label} (${n} file${n === 1 ? '' : 's'})${marked.includes(dir) ? ' *' : ''}`;
+  });
+  if (dirs.length > maxLines) {
+    lines.push(`... ${dirs.length - maxLines} more directories`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Assemble the code context section of a prompt within a token budget.
+ * Chunks are taken in score order; one that doesn't fit whole is trimmed,
+ * and one that doesn't fit trimmed is dropped. Trimming and dropping are
+ * listed at the end so the agent knows it is not seeing everything.
+ */
+export function assembleContext(
+  chunks: CodeChunk[],
+  options: { issue: Issue; budget: number; repoFiles?: string[] }
+): AssembledContext {
+  const { issue, budget } = options;
+  const result: AssembledContext = { text: '', tokens: 0, budget, included: [], trimmed: [], dropped: [] };
+  if (chunks.length === 0) {
+    return result;
+  }
+
+  const ranked = [...chunks].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const issueTerms = extractQueryTerms(issue).map((t) => t.text.toLowerCase());
+  let used = NOTES_RESERVE_TOKENS;
+
+  let outline = '';
+  if (options.repoFiles && options.repoFiles.length > 0) {
+    const tree = buildFileTreeOutline(options.repoFiles, ranked.map((c) => c.filePath));
+    const section = `## Repository Layout\n\n\`\`\`\n${tree}\n\`\`\`\n\n`;
+    if (estimateTokens(section) <= budget * MAX_OUTLINE_SHARE) {
+      outline = section;
+      used += estimateTokens(section);
+    }
+  }
+
+  const header = `## Relevant Code Context
+
+The following code snippets from the codebase may be relevant to this issue:
+
+`;
+  used += estimateTokens(header);
+
+  const sections: string[] = [];
+  const maxChunkTokens = budget * MAX_CHUNK_SHARE;
+  for (const chunk of ranked) {
+    const label = `${chunk.filePath}:${chunk.chunkName}`;
+    const remaining = budget - used;
+
+    const full = formatChunk(chunk, chunk.code);
+    const fullTokens = estimateTokens(full);
+    const terms = [...issueTerms, ...(chunk.match?.matchedTerms ?? []).map((t) => t.toLowerCase())];
+    const trimmedCode = fullTokens <= remaining && fullTokens <= maxChunkTokens ? null : trimChunk(chunk, terms);
+
+    // Whole chunk when it fits its share, or when trimming wouldn't remove anything
+    if (fullTokens <= remaining && (fullTokens <= maxChunkTokens || trimmedCode === null)) {
+      sections.push(full);
+      used += fullTokens;
+      result.included.push(label);
+      continue;
+    }
+
+    const trimmed = trimmedCode === null ? null : formatChunk(chunk, trimmedCode, true);
+    if (trimmed && estimateTokens(trimmed) <= remaining) {
+      sections.push(trimmed);
+      used += estimateTokens(trimmed);
+      result.trimmed.push(label);
+      continue;
+    }
+
+    result.dropped.push(label);
+  }
+
+  let text = outline + header + sections.join('');
+  if (result.trimmed.length > 0 || result.dropped.length > 0) {
+    text += `## Context Notes
+
+Code context was cut to fit a ${budget}-token budget.
+`;
+    if (result.trimmed.length > 0) {
+      text += `- Shown as signatures and relevant lines only (omitted lines are marked): ${result.trimmed.join(', ')}\n`;
+    }
+    if (result.dropped.length > 0) {
+      text += `- Left out entirely: ${result.dropped.join(', ')}\n`;
+    }
+    text += `Do not assume omitted code is empty; keep your diff context lines to code you can see.\n\n`;
+  }
+
+  result.text = text;
+  result.tokens = estimateTokens(text);
+  return result;
+}
+
+function formatChunk(chunk: CodeChunk, code: string, trimmed = false): string {
+  const relevance = chunk.score !== undefined ? ` (relevance ${(chunk.score * 100).toFixed(0)}%)` : '';
+  return `### ${chunk.filePath} - ${chunk.chunkType}: ${chunk.chunkName}${relevance}${trimmed ? ' [trimmed]' : ''}
+\`\`\`${chunk.language ?? languageForPath(chunk.filePath)}
+${code}
+\`\`\`
+
+`;
+}
+
+// Lines that declare something: functions, classes, methods, types, exports
+// (a call followed by "{" counts as a method definition unless it is an if/for/while block)
+const SIGNATURE_LINE =
+  /^\s*(export\s+|public\s+|private\s+|protected\s+|static\s+|async\s+|abstract\s+|pub\s+)*((function|class|interface|type|enum|def|func|fn|struct|impl)\b|const\s+\w+\s*=\s*(async\s*)?\(|(?!(if|for|while|switch|catch|return)\b)[A-Za-z_$][\w$]*\s*\([^)]*\)\s*(:\s*[^{=]+)?\{)/;
+
+/**
+ * Reduce a chunk to its signature lines plus the lines mentioning issue terms
+ * (with a little context). Returns null if nothing would be removed.
+ */
+function trimChunk(chunk: CodeChunk, terms: string[]): string | null {
+  const lines = chunk.code.split('\n');
+  const keep = new Array<boolean>(lines.length).fill(false);
+  keep[0] = true;
+  keep[lines.length - 1] = true;
+
+  lines.forEach((line, i) => {
+    if (SIGNATURE_LINE.test(line)) {
+      keep[i] = true;
+    }
+    const lower = line.toLowerCase();
+    if (terms.some((term) => lower.includes(term))) {
+      for (let j = Math.max(0, i - RELEVANT_LINE_CONTEXT); j <= Math.min(lines.length - 1, i + RELEVANT_LINE_CONTEXT); j++) {
+        keep[j] = true;
+      }
+    }
+  });
+
+  if (keep.every(Boolean)) {
+    return null;
+  }
+
+  const marker = omittedMarker(chunk.language ?? languageForPath(chunk.filePath));
+  const out: string[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (skipped > 0) {
+        out.push(marker(skipped, line.match(/^\s*/)?.[0] ?? ''));
+        skipped = 0;
+      }
+      out.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  return out.join('\n');
+}
+
+function omittedMarker(language: string): (count: number, indent: string) => string {
+  const hashComments = ['python', 'ruby', 'bash', 'yaml', 'toml'];
+  const prefix = hashComments.includes(language) ? '#' : language === 'markdown' || language === 'text' ? '' : '//';
+  return (count, indent) => `${indent}${prefix ? `${prefix} ` : ''}... ${count} line${count === 1 ? '' : 's'} omitted`;
+}
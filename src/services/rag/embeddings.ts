@@ -0,0 +1,155 @@
+/**
+ * Embedding providers for the RAG indexer.
+ * Voyage AI is used when a key is configured; the local provider hashes
+ * identifier tokens and character n-grams into a fixed-size vector so
+ * indexing and search work offline and give identical results on every run.
+ */
+
+import { createHash } from 'crypto';
+import { config } from '../../config.js';
+
+export interface EmbeddingProvider {
+  /** Stored with each chunk so vectors from different providers are never compared */
+  readonly name: string;
+  /** Max texts per embed() call */
+  readonly batchSize: number;
+  /** Length of every vector it returns */
+  readonly dimensions: number;
+  /** Rejects with the signal's reason once it is aborted */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * Voyage AI embeddings (simple fetch wrapper since voyageai package may not have types)
+ */
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly batchSize = 128; // Voyage AI supports up to 128 texts per request
+  readonly dimensions: number;
+  private apiKey: string;
+  private model: string;
+  private baseUrl = 'https://api.voyageai.com/v1';
+
+  constructor(options: { apiKey: string; model: string; dimensions: number }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.name = `voyage:${options.model}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      signal,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        input: texts,
+        model: this.model,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Voyage AI API error: ${response.status} - ${error}`);
+    }
+
+    const data = (await response.json()) as { data: Array<{ embedding: number[] }> };
+    return data.data.map((d) => d.embedding);
+  }
+}
+
+// Keywords that appear in nearly every file and carry no signal about what the code does
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'this', 'that', 'with', 'from', 'return', 'const', 'let', 'var', 'function',
+  'import', 'export', 'default', 'new', 'true', 'false', 'null', 'undefined', 'void', 'string',
+  'number', 'boolean', 'async', 'await', 'def', 'self', 'func', 'type', 'interface', 'class',
+  'public', 'private', 'protected', 'static', 'else', 'if', 'is', 'in', 'of', 'to', 'a', 'an',
+]);
+
+/**
+ * Split text into lowercase word tokens, breaking identifiers on
+ * camelCase, PascalCase, snake_case and kebab-case boundaries.
+ * The whole identifier is kept too, so exact names still match strongly.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map((p) => p.toLowerCase())
+      .filter((p) => p.length > 1 && !STOP_WORDS.has(p));
+    tokens.push(...parts);
+    const whole = word.toLowerCase();
+    if (parts.length > 1 && !STOP_WORDS.has(whole)) {
+      tokens.push(whole);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Deterministic offline embeddings: signed feature hashing of word tokens,
+ * word bigrams and character trigrams, log-scaled feature weights, L2-normalized.
+ * Cosine similarity between two vectors approximates weighted term overlap.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly batchSize = 256;
+  readonly dimensions: number;
+
+  constructor(dimensions: number) {
+    this.dimensions = dimensions;
+    this.name = `local:hash-${dimensions}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    signal?.throwIfAborted();
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+      add(`w:${tokens[i]}`, 1);
+      if (i + 1 < tokens.length) {
+        add(`b:${tokens[i]} ${tokens[i + 1]}`, 0.5);
+      }
+      // Trigrams let "authenticate" and "authentication" land near each other
+      const padded = `^${tokens[i]}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign * Math.log1p(count);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * Build the provider selected by config.rag.embeddingProvider
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  if (config.rag.embeddingProvider === 'local') {
+    return new LocalEmbeddingProvider(config.rag.localDimensions);
+  }
+  return new VoyageEmbeddingProvider({ apiKey: config.voyage.apiKey, model: config.voyage.model, dimensions: config.voyage.dimension });
+}
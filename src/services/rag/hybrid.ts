@@ -0,0 +1,239 @@
+/**
+ * Hybrid retrieval helpers: pull the identifiers, paths and quoted strings an
+ * issue names literally, score keyword candidates with BM25, and fuse keyword
+ * and vector rankings with reciprocal rank fusion (RRF).
+ */
+
+import type { CodeChunk } from '../../types/services.js';
+import type { Issue } from '../../types/index.js';
+
+export type QueryTermKind = 'path' | 'identifier' | 'phrase' | 'word';
+
+export interface QueryTerm {
+  text: string; // As written in the issue
+  kind: QueryTermKind;
+  weight: number;
+}
+
+// Exact names beat prose: a path or identifier in the issue is a much stronger signal than a word
+const TERM_WEIGHTS: Record<QueryTermKind, number> = {
+  path: 3,
+  identifier: 2.5,
+  phrase: 2,
+  word: 0.5,
+};
+
+const MAX_TERMS = 24;
+const RRF_K = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const COMMON_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'before', 'being', 'between', 'could', 'does', 'doesn',
+  'error', 'every', 'expected', 'false', 'from', 'have', 'into', 'issue', 'just', 'like', 'more', 'need',
+  'never', 'only', 'other', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'true', 'when', 'where', 'which', 'while', 'will', 'with', 'without', 'would',
+  'work', 'works', 'working', 'instead', 'still', 'using', 'used', 'make', 'want', 'what',
+]);
+
+/**
+ * Extract search terms from an issue: file paths, code identifiers
+ * (camelCase, snake_case, dotted.names, calls), quoted strings such as error
+ * messages, and - with a low weight - the remaining title words
+ */
+export function extractQueryTerms(issue: Pick<Issue, 'title' | 'body'>): QueryTerm[] {
+  const text = `${issue.title}\n${issue.body}`;
+  const terms = new Map<string, QueryTerm>();
+  const add = (raw: string, kind: QueryTermKind) => {
+    const value = raw.trim();
+    const key = value.toLowerCase();
+    if (value.length < 3 || COMMON_WORDS.has(key)) return;
+    const existing = terms.get(key);
+    if (!existing || TERM_WEIGHTS[kind] > existing.weight) {
+      terms.set(key, { text: value, kind, weight: TERM_WEIGHTS[kind] });
+    }
+  };
+
+  // Quoted strings: error messages and literal values
+  // (single quotes must not touch a letter, so apostrophes in "doesn't" are left alone)
+  for (const m of text.matchAll(/"([^"\n]+)"|(?<!\w)'([^'\n]+)'(?!\w)/g)) {
+    const phrase = m[1] ?? m[2];
+    if (phrase.length >= 6 && phrase.length <= 120) add(phrase, 'phrase');
+  }
+
+  // Backticked code spans: a path, a call, or an identifier
+  for (const m of text.matchAll(/`([^`\n]{2,120})`/g)) {
+    const span = m[1].replace(/\(.*\)$/, '');
+    if (/^[\w.@/-]+\.[A-Za-z]{1,5}$/.test(span) && span.includes('/')) add(span, 'path');
+    else if (/^[A-Za-z_$][\w$.]*$/.test(span)) add(span, 'identifier');
+    else add(span, 'phrase');
+  }
+
+  // Paths written inline (src/foo/bar.ts, lib/utils.py)
+  for (const m of text.matchAll(/(?:^|[\s(])((?:[\w.@-]+\/)+[\w.-]+\.[A-Za-z]{1,5})\b/g)) {
+    add(m[1], 'path');
+  }
+
+  // Identifiers that look like code rather than prose
+  for (const m of text.matchAll(/\b[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*\b(\()?/g)) {
+    const word = m[0].replace(/\($/, '');
+    const looksLikeCode =
+      /[a-z][A-Z]/.test(word) || // camelCase
+      /^[A-Z][a-z]+[A-Z]/.test(word) || // PascalCase with 2+ words
+      word.includes('_') ||
+      (/^[\w$]{2,}(\.[\w$]{2,})+$/.test(word) && !/\.(com|org|io|net|md)$/.test(word)) ||
+      m[1] === '(';
+    if (looksLikeCode) add(word, 'identifier');
+  }
+
+  // Remaining title words, weakly
+  for (const word of issue.title.match(/[A-Za-z]{4,}/g) ?? []) {
+    add(word, 'word');
+  }
+
+  return [...terms.values()]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_TERMS);
+}
+
+/**
+ * Rank keyword candidates with BM25. Chunk names and file paths count as
+ * extra occurrences so a chunk *named* after a term outranks one that merely uses it.
+ * `totalChunks` is the size of the searched collection (for IDF).
+ */
+export function rankByKeywords(
+  candidates: CodeChunk[],
+  terms: QueryTerm[],
+  totalChunks: number
+): Array<{ chunk: CodeChunk; score: number; matchedTerms: string[] }> {
+  if (candidates.length === 0 || terms.length === 0) return [];
+
+  const docs = candidates.map((chunk) => ({
+    chunk,
+    code: chunk.code.toLowerCase(),
+    name: chunk.chunkName.toLowerCase(),
+    path: chunk.filePath.toLowerCase(),
+    length: chunk.code.length,
+  }));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const total = Math.max(totalChunks, candidates.length);
+
+  const termFrequencies = terms.map((term) => {
+    const needle = term.text.toLowerCase();
+    return docs.map((doc) => {
+      let tf = countOccurrences(doc.code, needle);
+      if (doc.name === needle || doc.name.endsWith(`.${needle}`)) tf += 3;
+      else if (doc.name.includes(needle)) tf += 1;
+      if (doc.path.endsWith(needle) || (term.kind === 'path' && needle.endsWith(doc.path))) tf += 3;
+      else if (doc.path.includes(needle)) tf += 1;
+      return tf;
+    });
+  });
+
+  return docs
+    .map((doc, i) => {
+      let score = 0;
+      const matchedTerms: string[] = [];
+      terms.forEach((term, t) => {
+        const tf = termFrequencies[t][i];
+        if (tf === 0) return;
+        const df = termFrequencies[t].filter((f) => f > 0).length;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+        score += term.weight * idf * ((tf * (BM25_K1 + 1)) / norm);
+        matchedTerms.push(term.text);
+      });
+      return { chunk: doc.chunk, score, matchedTerms };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Fuse vector and keyword rankings with RRF, drop chunks that overlap a
+ * better-ranked chunk from the same file, and attach a match explanation.
+ * The fused score is scaled so a chunk ranked first in both lists scores 1.
+ */
+export function fuseRankings(
+  vectorHits: CodeChunk[],
+  keywordHits: Array<{ chunk: CodeChunk; matchedTerms: string[] }>,
+  limit: number
+): CodeChunk[] {
+  const fused = new Map<string, { chunk: CodeChunk; rrf: number; vectorRank?: number; keywordRank?: number; matchedTerms: string[] }>();
+  const entry = (chunk: CodeChunk) => {
+    const key = `${chunk.filePath}\0${chunk.chunkName}\0${chunk.code.length}`;
+    let e = fused.get(key);
+    if (!e) {
+      e = { chunk, rrf: 0, matchedTerms: [] };
+      fused.set(key, e);
+    }
+    return e;
+  };
+
+  vectorHits.forEach((chunk, i) => {
+    const e = entry(chunk);
+    e.vectorRank = i + 1;
+    e.rrf += 1 / (RRF_K + i + 1);
+  });
+  keywordHits.forEach(({ chunk, matchedTerms }, i) => {
+    const e = entry(chunk);
+    e.keywordRank = i + 1;
+    e.rrf += 1 / (RRF_K + i + 1);
+    e.matchedTerms = matchedTerms;
+  });
+
+  const ranked = [...fused.values()].sort((a, b) => b.rrf - a.rrf);
+  const kept: typeof ranked = [];
+  for (const candidate of ranked) {
+    if (kept.length >= limit) break;
+    const overlapping = kept.find(
+      (k) =>
+        k.chunk.filePath === candidate.chunk.filePath &&
+        (k.chunk.code.includes(candidate.chunk.code) || candidate.chunk.code.includes(k.chunk.code))
+    );
+    if (overlapping) {
+      // The better-ranked chunk already covers this code; keep its evidence
+      overlapping.vectorRank ??= candidate.vectorRank;
+      overlapping.keywordRank ??= candidate.keywordRank;
+      for (const term of candidate.matchedTerms) {
+        if (!overlapping.matchedTerms.includes(term)) overlapping.matchedTerms.push(term);
+      }
+      continue;
+    }
+    kept.push(candidate);
+  }
+
+  const maxRrf = 2 / (RRF_K + 1);
+  return kept.map(({ chunk, rrf, vectorRank, keywordRank, matchedTerms }) => ({
+    ...chunk,
+    score: rrf / maxRrf,
+    match: {
+      vectorRank,
+      keywordRank,
+      matchedTerms,
+      reason: explainMatch(vectorRank, keywordRank, matchedTerms),
+    },
+  }));
+}
+
+function explainMatch(vectorRank: number | undefined, keywordRank: number | undefined, matchedTerms: string[]): string {
+  const parts: string[] = [];
+  if (keywordRank !== undefined) {
+    const terms = matchedTerms.slice(0, 3).join(', ');
+    parts.push(`keyword #${keywordRank}${terms ? ` (${terms}${matchedTerms.length > 3 ? ', ...' : ''})` : ''}`);
+  }
+  if (vectorRank !== undefined) {
+    parts.push(`vector #${vectorRank}`);
+  }
+  return parts.join(', ');
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
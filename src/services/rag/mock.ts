@@ -1,4 +1,4 @@
-import type { IRAGService, CodeChunk, RAGProgressCallback } from '../../types/services.js';
+import type { IRAGService, CodeChunk, IndexedRepo, RAGProgressCallback } from '../../types/services.js';
 import type { Issue } from '../../types/index.js';
 
 /**
@@ -6,13 +6,14 @@ import type { Issue } from '../../types/index.js';
  * Simulates code indexing and retrieval with progress streaming
  */
 export class MockRAGService implements IRAGService {
-  private indexedRepos = new Map<string, { commitId: string; chunks: number }>(); // repoUrl -> index info
+  private indexedRepos = new Map<string, IndexedRepo>(); // "repoUrl@commitId" -> index info
 
   async indexRepo(
     repoPath: string,
     repoUrl: string,
-    onProgress?: RAGProgressCallback
-  ): Promise<{ commitId: string; chunksIndexed: number }> {
+    onProgress?: RAGProgressCallback,
+    signal?: AbortSignal
+  ): Promise<{ commitId: string; chunksIndexed: number; chunksReused?: number; chunksEmbedded?: number }> {
     console.log(`[MockRAG] Indexing repo at ${repoPath}`);
 
     const mockCommitId = 'abc123mock';
@@ -21,73 +22,87 @@ export class MockRAGService implements IRAGService {
 
     // Stage 1: Scanning
     onProgress?.('scanning', `Scanning repository ${repoUrl}...`);
-    await this.delay(400);
-    onProgress?.('scanning', `Found ${mockFileCount} source files (.ts, .tsx, .js, .jsx)`);
-    await this.delay(300);
+    await this.delay(400, signal);
+    onProgress?.('scanning', `Found ${mockFileCount} source and text files`);
+    await this.delay(300, signal);
 
     // Stage 2: Parsing
     onProgress?.('parsing', `Parsing source files with AST analyzer...`);
     for (let i = 0; i < mockFileCount; i += Math.ceil(mockFileCount / 6)) {
-      await this.delay(150);
+      await this.delay(150, signal);
       const current = Math.min(i + Math.ceil(mockFileCount / 6), mockFileCount);
       onProgress?.('parsing', `Extracting functions, classes, and methods...`, current, mockFileCount);
     }
-    await this.delay(200);
+    await this.delay(200, signal);
     onProgress?.('parsing', `Extracted ${mockChunkCount} code chunks (functions, classes, methods)`);
-    await this.delay(300);
+    await this.delay(300, signal);
 
     // Stage 3: Embedding
     const batchCount = Math.ceil(mockChunkCount / 20);
     onProgress?.('embedding', `Generating vector embeddings for ${mockChunkCount} code chunks...`);
-    await this.delay(200);
+    await this.delay(200, signal);
 
     for (let i = 0; i < batchCount; i++) {
-      await this.delay(250);
+      await this.delay(250, signal);
       onProgress?.('embedding', `Processing batch ${i + 1}/${batchCount} with Voyage AI...`, i + 1, batchCount);
     }
-    await this.delay(200);
+    await this.delay(200, signal);
     onProgress?.('embedding', `Stored ${mockChunkCount} embeddings in vector database`);
-    await this.delay(200);
+    await this.delay(200, signal);
 
-    this.indexedRepos.set(repoUrl, { commitId: mockCommitId, chunks: mockChunkCount });
+    this.indexedRepos.set(`${repoUrl}@${mockCommitId}`, {
+      repoUrl,
+      commitId: mockCommitId,
+      chunks: mockChunkCount,
+      indexedAt: Date.now(),
+    });
 
     console.log(`[MockRAG] Indexed ${mockChunkCount} chunks (commit: ${mockCommitId})`);
-    return { commitId: mockCommitId, chunksIndexed: mockChunkCount };
+    return { commitId: mockCommitId, chunksIndexed: mockChunkCount, chunksReused: 0, chunksEmbedded: mockChunkCount };
   }
 
   async queryRelevantCode(
     issue: Issue,
     limit = 10,
-    onProgress?: RAGProgressCallback
+    onProgress?: RAGProgressCallback,
+    commitId?: string,
+    signal?: AbortSignal
   ): Promise<CodeChunk[]> {
     console.log(`[MockRAG] Querying relevant code for issue #${issue.number}`);
 
-    // Check if repo is indexed, if not simulate indexing first
+    // Only this repo's snapshots are searched - if none match, simulate indexing first
     const repoUrl = issue.repoUrl;
-    if (!this.indexedRepos.has(repoUrl)) {
-      console.log(`[MockRAG] Repo not indexed, indexing first...`);
-      await this.indexRepo('.', repoUrl, onProgress);
+    let scope = this.findIndex(repoUrl, commitId);
+    if (!scope) {
+      console.log(`[MockRAG] ${repoUrl}${commitId ? `@${commitId}` : ''} not indexed, indexing first...`);
+      await this.indexRepo('.', repoUrl, onProgress, signal);
+      scope = this.findIndex(repoUrl, commitId);
+    }
+    if (!scope) {
+      onProgress?.('querying', `${repoUrl}@${commitId} has not been indexed`);
+      return [];
     }
 
     // Stage: Querying
-    onProgress?.('querying', `Searching for code relevant to: "${issue.title.slice(0, 50)}..."`);
-    await this.delay(300);
+    onProgress?.('querying', `Searching ${repoUrl}@${scope.commitId.slice(0, 8)} for code relevant to: "${issue.title.slice(0, 50)}..."`);
+    await this.delay(300, signal);
     onProgress?.('querying', `Generating query embedding from issue description...`);
-    await this.delay(400);
-    onProgress?.('querying', `Running vector similarity search in MongoDB Atlas...`);
-    await this.delay(350);
+    await this.delay(400, signal);
+    onProgress?.('querying', `Running vector similarity and keyword search...`);
+    await this.delay(350, signal);
 
     // Generate mock chunks
     const chunks: CodeChunk[] = [];
     const chunkCount = Math.min(limit, 5); // Return 5 mock chunks max
 
     for (let i = 0; i < chunkCount; i++) {
+      const chunkName = ['handleLogin', 'UserService', 'authenticate', 'validateInput', 'processRequest'][i % 5];
       chunks.push({
         filePath: `src/services/${['user', 'auth', 'api', 'utils', 'db'][i % 5]}.ts`,
         chunkType: i % 3 === 0 ? 'function' : i % 3 === 1 ? 'class' : 'method',
-        chunkName: ['handleLogin', 'UserService', 'authenticate', 'validateInput', 'processRequest'][i % 5],
+        chunkName,
         code: `// Relevant code chunk ${i + 1}
-export ${i % 2 === 0 ? 'function' : 'class'} ${['handleLogin', 'UserService', 'authenticate', 'validateInput', 'processRequest'][i % 5]}${i % 2 === 1 ? '' : '()'}${i % 2 === 1 ? ' {' : ' {'}
+export ${i % 2 === 0 ? 'function' : 'class'} ${chunkName}${i % 2 === 1 ? '' : '()'}${i % 2 === 1 ? ' {' : ' {'}
   // This code is relevant to: ${issue.title.slice(0, 30)}
   ${i % 2 === 0 ? `const result = processInput();
   if (!result) {
@@ -103,7 +118,14 @@ export ${i % 2 === 0 ? 'function' : 'class'} ${['handleLogin', 'UserService', 'a
     return this.data;
   }`}
 }`,
+        language: 'typescript',
         score: 0.95 - i * 0.08, // Decreasing relevance scores
+        match: {
+          vectorRank: i + 1,
+          keywordRank: i % 2 === 0 ? i / 2 + 1 : undefined,
+          matchedTerms: i % 2 === 0 ? [chunkName] : [],
+          reason: i % 2 === 0 ? `keyword #${i / 2 + 1} (${chunkName}), vector #${i + 1}` : `vector #${i + 1}`,
+        },
       });
     }
 
@@ -113,12 +135,39 @@ export ${i % 2 === 0 ? 'function' : 'class'} ${['handleLogin', 'UserService', 'a
   }
 
   async isRepoIndexed(repoUrl: string, commitId: string): Promise<boolean> {
-    const indexed = this.indexedRepos.get(repoUrl)?.commitId === commitId;
+    const indexed = this.indexedRepos.has(`${repoUrl}@${commitId}`);
     console.log(`[MockRAG] Checking if ${repoUrl}@${commitId} is indexed: ${indexed}`);
     return indexed;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async listIndexedRepos(): Promise<IndexedRepo[]> {
+    return [...this.indexedRepos.values()].sort((a, b) => b.indexedAt - a.indexedAt);
+  }
+
+  /**
+   * Find the index entry for a repo - a specific commit, or the latest one
+   */
+  private findIndex(repoUrl: string, commitId?: string): IndexedRepo | undefined {
+    if (commitId) {
+      return this.indexedRepos.get(`${repoUrl}@${commitId}`);
+    }
+    return [...this.indexedRepos.values()]
+      .filter((entry) => entry.repoUrl === repoUrl)
+      .sort((a, b) => b.indexedAt - a.indexedAt)[0];
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
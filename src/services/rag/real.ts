@@ -1,89 +1,60 @@
-import { Collection, Db } from 'mongodb';
-import * as parser from '@babel/parser';
-import _traverse from '@babel/traverse';
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import { config } from '../../config.js';
-import { SharedMongoClient } from '../mongodb-client.js';
-import type { IRAGService, CodeChunk, RAGProgressCallback } from '../../types/services.js';
+import type { IRAGService, CodeChunk, IndexedRepo, RAGProgressCallback } from '../../types/services.js';
 import type { Issue } from '../../types/index.js';
-
-// Handle @babel/traverse ESM/CJS compatibility
-const traverse = (_traverse as any).default || _traverse;
+import { chunkFile } from './chunkers.js';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embeddings.js';
+import { createVectorStore, type CodeChunkDocument, type VectorStore } from './vector-store.js';
+import { extractQueryTerms, rankByKeywords, fuseRankings } from './hybrid.js';
 
 /**
- * Voyage AI Client (simple wrapper since voyageai package may not have types)
+ * Chunk fields produced by the parser, before embedding
  */
-class VoyageAIClient {
-  private apiKey: string;
-  private baseUrl = 'https://api.voyageai.com/v1';
+type ParsedChunk = Omit<CodeChunkDocument, 'embedding' | 'embeddingModel' | 'indexedAt' | 'repoUrl' | 'commitId'>;
 
-  constructor(options: { apiKey: string }) {
-    this.apiKey = options.apiKey;
-  }
+type IndexRepoResult = Awaited<ReturnType<IRAGService['indexRepo']>>;
 
-  async embed(options: { input: string[]; model: string }): Promise<{ data: Array<{ embedding: number[] }> }> {
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        input: options.input,
-        model: options.model,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Voyage AI API error: ${response.status} - ${error}`);
-    }
+const EXCLUDE_DIRS = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage', 'out', 'vendor', 'target', '__pycache__'];
 
-    return await response.json();
-  }
-}
-
-/**
- * MongoDB document structure for code chunks
- */
-interface CodeChunkDocument {
-  repoUrl: string;
-  commitId: string;
-  filePath: string;
-  chunkType: 'function' | 'class' | 'method';
-  chunkName: string;
-  code: string;
-  embedding: number[];
-  indexedAt: Date;
-}
+// Files that are never worth embedding: binaries, media, archives, lockfiles, minified bundles
+const SKIP_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp', '.bmp', '.pdf', '.zip', '.gz', '.tgz', '.tar',
+  '.jar', '.class', '.exe', '.dll', '.so', '.dylib', '.o', '.a', '.wasm', '.pyc', '.woff', '.woff2',
+  '.ttf', '.eot', '.mp3', '.mp4', '.mov', '.svg', '.lock', '.map', '.db', '.sqlite', '.bin',
+];
+const SKIP_FILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'go.sum', 'bun.lockb'];
+const MAX_FILE_BYTES = 512 * 1024;
+// Upper bound on chunks pulled from the store for BM25 scoring
+const KEYWORD_CANDIDATES = 500;
 
 /**
- * Real RAG service using Voyage AI and MongoDB Atlas
- * Implements AST-based code chunking and vector search
+ * Real RAG service: chunk-level embeddings plus vector search.
+ * Embeddings come from Voyage AI or the offline local provider, and chunks are
+ * stored in MongoDB Atlas or a local vector store, per config.rag.
  */
 export class RealRAGService implements IRAGService {
-  private voyageClient: VoyageAIClient | null = null;
-  private db: Db | null = null;
-  private chunksCollection: Collection<CodeChunkDocument> | null = null;
-  private connected = false;
+  private embeddings: EmbeddingProvider | null = null;
+  private store: VectorStore | null = null;
   private configError: string | null = null;
 
   constructor() {
-    if (!config.voyage?.apiKey) {
-      this.configError = 'VOYAGE_API_KEY not configured';
+    if (config.rag.embeddingProvider !== 'local' && !config.voyage?.apiKey) {
+      this.configError = 'VOYAGE_API_KEY not configured (set RAG_EMBEDDINGS=local to embed offline)';
       console.warn(`[RealRAG] Warning: ${this.configError}`);
       return;
     }
 
-    if (!config.mongodb?.uri) {
-      this.configError = 'MONGODB_URI not configured';
+    if (config.rag.vectorStore === 'atlas' && !config.mongodb?.uri) {
+      this.configError = 'MONGODB_URI not configured (set RAG_VECTOR_STORE=file or memory to store locally)';
       console.warn(`[RealRAG] Warning: ${this.configError}`);
       return;
     }
 
-    this.voyageClient = new VoyageAIClient({ apiKey: config.voyage.apiKey });
+    this.embeddings = createEmbeddingProvider();
+    this.store = createVectorStore(this.embeddings);
+    console.log(`[RealRAG] Embeddings: ${this.embeddings.name}, vector store: ${this.store.name}`);
   }
 
   /**
@@ -96,60 +67,173 @@ export class RealRAGService implements IRAGService {
   }
 
   /**
-   * Connect to MongoDB Atlas using shared client
+   * Index a repository into the configured vector store.
+   * If an earlier commit of the same repo is indexed, only files changed since
+   * then are re-parsed and re-embedded; chunks of unchanged files are copied over.
+   * The commit is marked indexed only once all its chunks are stored; a run that
+   * fails or is stopped leaves nothing behind for it.
    */
-  private async connect(): Promise<void> {
+  async indexRepo(
+    repoPath: string,
+    repoUrl: string,
+    onProgress?: RAGProgressCallback,
+    signal?: AbortSignal
+  ): Promise<IndexRepoResult> {
     this.checkConfig();
 
-    if (this.connected && this.db && this.chunksCollection) {
-      return;
+    // Get commit SHA
+    const commitId = this.getCommitSHA(repoPath);
+    console.log(`[RealRAG] Indexing ${repoUrl} (commit: ${commitId})`);
+    onProgress?.('scanning', `Starting index for ${repoUrl} (commit: ${commitId.slice(0, 8)})`);
+
+    // Check if already indexed
+    const indexed = await this.store!.indexedCommit(repoUrl, commitId);
+    if (indexed) {
+      console.log(`[RealRAG] Repo already indexed (${indexed.chunks} chunks found)`);
+      onProgress?.('scanning', `Repository already indexed (${indexed.chunks} chunks in database)`);
+      return { commitId, chunksIndexed: indexed.chunks, chunksReused: indexed.chunks, chunksEmbedded: 0 };
     }
 
+    // Chunks an earlier run stored before it failed would be duplicated
+    await this.store!.deleteCommit(repoUrl, commitId);
     try {
-      const { db } = await SharedMongoClient.getClient();
-      this.db = db;
-      this.chunksCollection = this.db.collection<CodeChunkDocument>(config.mongodb.collections.chunks);
-      this.connected = true;
-      console.log('[RealRAG] ✓ Connected to MongoDB');
+      const result = await this.buildIndex(repoPath, repoUrl, commitId, onProgress, signal);
+      await this.store!.markIndexed(repoUrl, commitId, result.chunksIndexed);
+      return result;
     } catch (error) {
-      console.error('[RealRAG] ✗ Failed to connect:', error);
+      await this.store!.deleteCommit(repoUrl, commitId).catch((cleanupError) => {
+        console.warn(`[RealRAG] Failed to remove the partial index of ${commitId.slice(0, 8)}:`, cleanupError);
+      });
       throw error;
     }
   }
 
   /**
-   * Index a repository into MongoDB Atlas
+   * Store every chunk of a commit: incrementally from the last indexed commit when possible, in full otherwise
    */
-  async indexRepo(
+  private async buildIndex(
     repoPath: string,
     repoUrl: string,
-    onProgress?: RAGProgressCallback
-  ): Promise<{ commitId: string; chunksIndexed: number }> {
-    await this.connect();
-
-    // Get commit SHA
-    const commitId = this.getCommitSHA(repoPath);
-    console.log(`[RealRAG] Indexing ${repoUrl} (commit: ${commitId})`);
-    onProgress?.('scanning', `Starting index for ${repoUrl} (commit: ${commitId.slice(0, 8)})`);
-
-    // Check if already indexed
-    const alreadyIndexed = await this.isRepoIndexed(repoUrl, commitId);
-    if (alreadyIndexed) {
-      const count = await this.chunksCollection!.countDocuments({ repoUrl, commitId });
-      console.log(`[RealRAG] Repo already indexed (${count} chunks found)`);
-      onProgress?.('scanning', `Repository already indexed (${count} chunks in database)`);
-      return { commitId, chunksIndexed: count };
+    commitId: string,
+    onProgress?: RAGProgressCallback,
+    signal?: AbortSignal
+  ): Promise<IndexRepoResult> {
+    // Try to build on the last indexed commit of this repo
+    const previousCommit = await this.store!.latestCommit(repoUrl);
+    if (previousCommit) {
+      const changes = this.getChangedFiles(repoPath, previousCommit, commitId);
+      if (changes) {
+        return this.indexIncrementally(repoPath, repoUrl, previousCommit, commitId, changes, onProgress, signal);
+      }
+      console.log(`[RealRAG] Cannot diff against ${previousCommit.slice(0, 8)}, falling back to a full index`);
+      onProgress?.('scanning', `Previous index ${previousCommit.slice(0, 8)} not in local history, doing a full index`);
     }
 
     // Find all source files
     onProgress?.('scanning', `Scanning repository for source files...`);
     const files = this.findSourceFiles(repoPath);
     console.log(`[RealRAG] Found ${files.length} source files`);
-    onProgress?.('scanning', `Found ${files.length} source files (.ts, .tsx, .js, .jsx)`);
+    onProgress?.('scanning', `Found ${files.length} source and text files`);
+
+    const allChunks = this.parseFiles(files, repoPath, onProgress);
+    signal?.throwIfAborted();
+
+    if (allChunks.length === 0) {
+      console.log('[RealRAG] No chunks extracted, skipping embedding');
+      onProgress?.('embedding', `No code chunks found to embed`);
+      return { commitId, chunksIndexed: 0, chunksReused: 0, chunksEmbedded: 0 };
+    }
+
+    const embedded = await this.embedAndStore(allChunks, repoUrl, commitId, onProgress, signal);
+    return { commitId, chunksIndexed: embedded, chunksReused: 0, chunksEmbedded: embedded };
+  }
+
+  /**
+   * Index a new commit from a previous one: copy chunks of unchanged files,
+   * re-embed changed files, and leave deleted files out
+   */
+  private async indexIncrementally(
+    repoPath: string,
+    repoUrl: string,
+    previousCommit: string,
+    commitId: string,
+    changes: { changed: string[]; deleted: string[] },
+    onProgress?: RAGProgressCallback,
+    signal?: AbortSignal
+  ): Promise<IndexRepoResult> {
+    const changedSources = changes.changed.filter((file) => this.isSourceFile(file));
+    const skipPaths = [...changes.changed, ...changes.deleted];
+
+    console.log(
+      `[RealRAG] Incremental index from ${previousCommit.slice(0, 8)}: ` +
+      `${changedSources.length} changed source files, ${changes.deleted.length} deleted`
+    );
+    onProgress?.(
+      'scanning',
+      `Diffing ${previousCommit.slice(0, 8)}..${commitId.slice(0, 8)}: ${changedSources.length} changed source files, ${changes.deleted.length} deleted`
+    );
+
+    // Copy chunks from files untouched since the previous commit
+    const reused = await this.store!.copyChunks(repoUrl, previousCommit, commitId, skipPaths);
+    console.log(`[RealRAG] Reused ${reused} chunks from unchanged files`);
+    onProgress?.('scanning', `Reused ${reused} chunks from unchanged files`);
+
+    // Re-parse and re-embed only what changed
+    const files = changedSources
+      .map((file) => path.join(repoPath, file))
+      .filter((file) => fs.existsSync(file));
+    const chunks = this.parseFiles(files, repoPath, onProgress);
+    signal?.throwIfAborted();
+
+    let embedded = 0;
+    if (chunks.length > 0) {
+      embedded = await this.embedAndStore(chunks, repoUrl, commitId, onProgress, signal);
+    } else {
+      onProgress?.('embedding', `No changed code chunks to embed`);
+    }
+
+    console.log(`[RealRAG] ✓ Incremental index done: ${reused} reused, ${embedded} re-embedded`);
+    onProgress?.('embedding', `✓ Indexed ${reused + embedded} chunks (${reused} reused, ${embedded} re-embedded)`);
+
+    return { commitId, chunksIndexed: reused + embedded, chunksReused: reused, chunksEmbedded: embedded };
+  }
+
+  /**
+   * Files changed or deleted between two commits (paths relative to the repo root).
+   * Returns null when the diff cannot be computed, e.g. the old commit is not in a shallow clone.
+   */
+  private getChangedFiles(
+    repoPath: string,
+    fromCommit: string,
+    toCommit: string
+  ): { changed: string[]; deleted: string[] } | null {
+    try {
+      const output = execSync(`git diff --name-status -z --no-renames ${fromCommit} ${toCommit}`, {
+        cwd: repoPath,
+        encoding: 'utf-8',
+        maxBuffer: 64 * 1024 * 1024,
+      });
+
+      // -z output alternates status and path: "M\0src/a.ts\0D\0src/b.ts\0"
+      const fields = output.split('\0').filter(Boolean);
+      const changed: string[] = [];
+      const deleted: string[] = [];
+      for (let i = 0; i + 1 < fields.length; i += 2) {
+        (fields[i] === 'D' ? deleted : changed).push(fields[i + 1]);
+      }
+      return { changed, deleted };
+    } catch (error) {
+      console.warn(`[RealRAG] git diff ${fromCommit.slice(0, 8)}..${toCommit.slice(0, 8)} failed:`, error);
+      return null;
+    }
+  }
 
-    // Parse and chunk
-    onProgress?.('parsing', `Parsing ${files.length} files with AST...`);
-    const allChunks: Array<Omit<CodeChunkDocument, 'embedding' | 'indexedAt' | 'repoUrl' | 'commitId'>> = [];
+  /**
+   * Parse files into chunks, reporting progress
+   */
+  private parseFiles(files: string[], repoPath: string, onProgress?: RAGProgressCallback): ParsedChunk[] {
+    onProgress?.('parsing', `Chunking ${files.length} files...`);
+    const allChunks: ParsedChunk[] = [];
     for (let i = 0; i < files.length; i++) {
       const chunks = this.parseFile(files[i], repoPath);
       allChunks.push(...chunks);
@@ -158,16 +242,33 @@ export class RealRAGService implements IRAGService {
       }
     }
     console.log(`[RealRAG] Extracted ${allChunks.length} code chunks`);
-    onProgress?.('parsing', `Extracted ${allChunks.length} code chunks (functions, classes, methods)`);
+    onProgress?.('parsing', `Extracted ${allChunks.length} chunks (${this.summarizeChunkTypes(allChunks)})`);
+    return allChunks;
+  }
 
-    if (allChunks.length === 0) {
-      console.log('[RealRAG] No chunks extracted, skipping embedding');
-      onProgress?.('embedding', `No code chunks found to embed`);
-      return { commitId, chunksIndexed: 0 };
+  /**
+   * "12 function, 3 class, 5 doc" style breakdown for progress messages
+   */
+  private summarizeChunkTypes(chunks: ParsedChunk[]): string {
+    const counts = new Map<string, number>();
+    for (const chunk of chunks) {
+      counts.set(chunk.chunkType, (counts.get(chunk.chunkType) ?? 0) + 1);
     }
+    return [...counts.entries()].map(([type, count]) => `${count} ${type}`).join(', ');
+  }
 
+  /**
+   * Embed chunks in batches and store them under the given commit
+   */
+  private async embedAndStore(
+    allChunks: ParsedChunk[],
+    repoUrl: string,
+    commitId: string,
+    onProgress?: RAGProgressCallback,
+    signal?: AbortSignal
+  ): Promise<number> {
     // Generate embeddings in batches
-    const batchSize = 128; // Voyage AI supports up to 128 texts per request
+    const batchSize = this.embeddings!.batchSize;
     const totalBatches = Math.ceil(allChunks.length / batchSize);
     const documents: CodeChunkDocument[] = [];
 
@@ -182,10 +283,7 @@ export class RealRAGService implements IRAGService {
       onProgress?.('embedding', `Embedding batch ${batchNum}/${totalBatches}...`, batchNum, totalBatches);
 
       try {
-        const response = await this.voyageClient!.embed({
-          input: texts,
-          model: config.voyage.model,
-        });
+        const vectors = await this.embeddings!.embed(texts, signal);
 
         // Combine chunks with embeddings
         for (let j = 0; j < batch.length; j++) {
@@ -193,94 +291,114 @@ export class RealRAGService implements IRAGService {
             repoUrl,
             commitId,
             ...batch[j],
-            embedding: response.data[j].embedding,
+            embedding: vectors[j],
+            embeddingModel: this.embeddings!.name,
             indexedAt: new Date(),
           });
         }
       } catch (error) {
+        if (signal?.aborted) throw signal.reason;
         console.error(`[RealRAG] Failed to embed batch ${batchNum}:`, error);
         throw error;
       }
     }
 
-    // Insert into MongoDB
+    // Nothing is stored for a commit whose indexing was stopped
+    signal?.throwIfAborted();
     if (documents.length > 0) {
       onProgress?.('embedding', `Storing ${documents.length} chunks in vector database...`);
-      await this.chunksCollection!.insertMany(documents);
-      console.log(`[RealRAG] ✓ Indexed ${documents.length} chunks to MongoDB Atlas`);
-      onProgress?.('embedding', `✓ Indexed ${documents.length} chunks to MongoDB Atlas`);
+      await this.store!.insertMany(documents);
+      console.log(`[RealRAG] ✓ Indexed ${documents.length} chunks to ${this.store!.name}`);
+      onProgress?.('embedding', `✓ Embedded ${documents.length} chunks to ${this.store!.name}`);
     }
 
-    return { commitId, chunksIndexed: documents.length };
+    return documents.length;
   }
 
   /**
-   * Query relevant code chunks using vector search
+   * Query relevant code chunks with hybrid search, scoped to the issue's repo
+   * and a single indexed commit so context never mixes across repositories.
+   * Vector hits and BM25 hits on identifiers/paths named in the issue are
+   * fused with reciprocal rank fusion; each result explains why it matched.
    */
   async queryRelevantCode(
     issue: Issue,
     limit = 10,
-    onProgress?: RAGProgressCallback
+    onProgress?: RAGProgressCallback,
+    commitId?: string,
+    signal?: AbortSignal
   ): Promise<CodeChunk[]> {
-    await this.connect();
+    this.checkConfig();
+    signal?.throwIfAborted();
+
+    const repoUrl = issue.repoUrl;
+    const scopeCommit = commitId ?? (await this.store!.latestCommit(repoUrl));
+    if (!scopeCommit) {
+      console.warn(`[RealRAG] ${repoUrl} has not been indexed, no context available`);
+      onProgress?.('querying', `${repoUrl} has not been indexed yet`);
+      return [];
+    }
 
     // Create query text from issue
     const queryText = `${issue.title}\n\n${issue.body}`;
-    console.log(`[RealRAG] Querying for issue: ${issue.title.slice(0, 50)}...`);
-    onProgress?.('querying', `Searching for code relevant to: "${issue.title.slice(0, 50)}..."`);
+    console.log(`[RealRAG] Querying ${repoUrl}@${scopeCommit.slice(0, 8)} for issue: ${issue.title.slice(0, 50)}...`);
+    onProgress?.('querying', `Searching ${repoUrl}@${scopeCommit.slice(0, 8)} for code relevant to: "${issue.title.slice(0, 50)}..."`);
+
+    const scope = { repoUrl, commitId: scopeCommit };
+    const poolSize = limit * 3;
 
+    // Vector and keyword searches run independently so one failing still leaves context
+    let vectorHits: CodeChunk[] = [];
     try {
-      // Generate query embedding
       onProgress?.('querying', `Generating query embedding...`);
-      const response = await this.voyageClient!.embed({
-        input: [queryText],
-        model: config.voyage.model,
-      });
-      const queryEmbedding = response.data[0].embedding;
+      const [queryEmbedding] = await this.embeddings!.embed([queryText], signal);
 
-      // Vector search in MongoDB Atlas
+      // Cosine top-k within this repo/commit
       onProgress?.('querying', `Running vector similarity search...`);
-      const pipeline = [
-        {
-          $vectorSearch: {
-            index: 'vector_index',
-            path: 'embedding',
-            queryVector: queryEmbedding,
-            numCandidates: 100,
-            limit: limit,
-          },
-        },
-        {
-          $project: {
-            _id: 0,
-            filePath: 1,
-            chunkType: 1,
-            chunkName: 1,
-            code: 1,
-            score: { $meta: 'vectorSearchScore' },
-          },
-        },
-      ];
-
-      const results = await this.chunksCollection!.aggregate(pipeline).toArray();
-      console.log(`[RealRAG] Found ${results.length} relevant chunks`);
-      onProgress?.('querying', `Found ${results.length} relevant code chunks`);
-
-      return results as CodeChunk[];
+      vectorHits = await this.store!.search(queryEmbedding, scope, poolSize);
     } catch (error) {
-      console.warn('[RealRAG] Vector search failed, continuing without context:', error);
+      if (signal?.aborted) throw signal.reason;
+      console.warn('[RealRAG] Vector search failed, continuing with keyword search only:', error);
       onProgress?.('querying', `Vector search failed: ${error}`);
-      return [];
     }
+
+    let keywordHits: ReturnType<typeof rankByKeywords> = [];
+    const terms = extractQueryTerms(issue);
+    if (terms.length > 0) {
+      try {
+        onProgress?.('querying', `Keyword search for ${terms.slice(0, 5).map((t) => t.text).join(', ')}${terms.length > 5 ? ', ...' : ''}`);
+        // Terms are strongest first, which keywordCandidates shares its limit by
+        const candidates = await this.store!.keywordCandidates(terms.map((t) => t.text), scope, KEYWORD_CANDIDATES);
+        const total = await this.store!.count(repoUrl, scopeCommit);
+        keywordHits = rankByKeywords(candidates, terms, total).slice(0, poolSize);
+      } catch (error) {
+        console.warn('[RealRAG] Keyword search failed, continuing with vector search only:', error);
+        onProgress?.('querying', `Keyword search failed: ${error}`);
+      }
+    }
+
+    signal?.throwIfAborted();
+    const results = fuseRankings(vectorHits, keywordHits, limit);
+    console.log(`[RealRAG] Found ${results.length} relevant chunks (${vectorHits.length} vector, ${keywordHits.length} keyword candidates)`);
+    onProgress?.('querying', `Found ${results.length} relevant code chunks (${vectorHits.length} vector, ${keywordHits.length} keyword hits)`);
+
+    return results;
   }
 
   /**
    * Check if a repo is already indexed
    */
   async isRepoIndexed(repoUrl: string, commitId: string): Promise<boolean> {
-    await this.connect();
-    const count = await this.chunksCollection!.countDocuments({ repoUrl, commitId });
-    return count > 0;
+    this.checkConfig();
+    return (await this.store!.indexedCommit(repoUrl, commitId)) !== null;
+  }
+
+  /**
+   * List indexed repo/commit pairs with their chunk counts
+   */
+  async listIndexedRepos(): Promise<IndexedRepo[]> {
+    this.checkConfig();
+    return this.store!.listIndexed();
   }
 
   /**
@@ -296,12 +414,34 @@ export class RealRAGService implements IRAGService {
   }
 
   /**
-   * Find all source files in repository
+   * Whether a repo-relative path would be picked up by findSourceFiles
+   */
+  private isSourceFile(relativePath: string): boolean {
+    const parts = relativePath.split('/');
+    const dirs = parts.slice(0, -1);
+    if (dirs.some(dir => EXCLUDE_DIRS.includes(dir) || dir.startsWith('.'))) {
+      return false;
+    }
+    return this.isIndexableName(parts[parts.length - 1]);
+  }
+
+  private isIndexableName(fileName: string): boolean {
+    const lower = fileName.toLowerCase();
+    return (
+      // Dotfiles are skipped - they are config at best and secrets (.env) at worst
+      !lower.startsWith('.') &&
+      !SKIP_FILES.includes(lower) &&
+      !lower.endsWith('.min.js') &&
+      !SKIP_EXTENSIONS.includes(path.extname(lower))
+    );
+  }
+
+  /**
+   * Find all indexable text files in repository
    */
   private findSourceFiles(repoPath: string): string[] {
     const files: string[] = [];
-    const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-    const excludeDirs = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage', 'out'];
+    const excludeDirs = EXCLUDE_DIRS;
 
     const walk = (dir: string) => {
       try {
@@ -314,7 +454,7 @@ export class RealRAGService implements IRAGService {
             if (!excludeDirs.includes(entry.name) && !entry.name.startsWith('.')) {
               walk(fullPath);
             }
-          } else if (extensions.some(ext => entry.name.endsWith(ext))) {
+          } else if (entry.isFile() && this.isIndexableName(entry.name)) {
             files.push(fullPath);
           }
         }
@@ -328,72 +468,34 @@ export class RealRAGService implements IRAGService {
   }
 
   /**
-   * Parse a file and extract code chunks using AST
+   * Read a file and split it with the chunker registered for its language
    */
   private parseFile(
     filePath: string,
     repoPath: string
-  ): Array<Omit<CodeChunkDocument, 'embedding' | 'indexedAt' | 'repoUrl' | 'commitId'>> {
-    const chunks: Array<Omit<CodeChunkDocument, 'embedding' | 'indexedAt' | 'repoUrl' | 'commitId'>> = [];
-
+  ): ParsedChunk[] {
     try {
-      const code = fs.readFileSync(filePath, 'utf-8');
-      const relativePath = path.relative(repoPath, filePath);
+      if (fs.statSync(filePath).size > MAX_FILE_BYTES) {
+        return [];
+      }
 
-      // Parse with Babel
-      const ast = parser.parse(code, {
-        sourceType: 'module',
-        plugins: ['typescript', 'jsx'],
-      });
+      const code = fs.readFileSync(filePath, 'utf-8');
+      // Binary content that slipped past the extension filter
+      if (code.slice(0, 8000).includes('\0')) {
+        return [];
+      }
 
-      // Traverse AST and extract chunks
-      traverse(ast, {
-        FunctionDeclaration(nodePath: any) {
-          const node = nodePath.node;
-          if (node.id && node.start !== null && node.end !== null) {
-            chunks.push({
-              filePath: relativePath,
-              chunkType: 'function',
-              chunkName: node.id.name,
-              code: code.slice(node.start, node.end),
-            });
-          }
-        },
-        ClassDeclaration(nodePath: any) {
-          const node = nodePath.node;
-          if (node.id && node.start !== null && node.end !== null) {
-            chunks.push({
-              filePath: relativePath,
-              chunkType: 'class',
-              chunkName: node.id.name,
-              code: code.slice(node.start, node.end),
-            });
-          }
-        },
-        ClassMethod(nodePath: any) {
-          const node = nodePath.node;
-          if (node.key.type === 'Identifier' && node.start !== null && node.end !== null) {
-            chunks.push({
-              filePath: relativePath,
-              chunkType: 'method',
-              chunkName: node.key.name,
-              code: code.slice(node.start, node.end),
-            });
-          }
-        },
-      });
+      return chunkFile(path.relative(repoPath, filePath), code);
     } catch (error) {
       console.warn(`[RealRAG] Failed to parse ${filePath}:`, (error as Error).message);
+      return [];
     }
-
-    return chunks;
   }
 
   /**
-   * Close MongoDB connection (uses shared client, so just mark disconnected)
+   * Close the service (the Mongo store uses the shared client, so nothing to release)
    */
   async close(): Promise<void> {
-    this.connected = false;
-    console.log('[RealRAG] Disconnected from MongoDB');
+    console.log('[RealRAG] Closed');
   }
 }
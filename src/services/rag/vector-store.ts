@@ -0,0 +1,446 @@
+/**
+ * Storage backends for embedded code chunks.
+ * MongoVectorStore uses Atlas $vectorSearch; LocalVectorStore keeps chunks in
+ * memory (optionally persisted to a JSON file) and runs the same cosine top-k
+ * search in-process, so the RAG pipeline can run without a database.
+ * Both only see chunks embedded by the active embedding provider, so switching
+ * providers triggers a fresh index instead of comparing incompatible vectors.
+ * A commit counts as indexed once markIndexed() records it: chunks written by a
+ * run that failed or was stopped never pass for a complete index.
+ */
+
+import { Collection, ObjectId } from 'mongodb';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../../config.js';
+import { SharedMongoClient } from '../mongodb-client.js';
+import type { CodeChunk, ChunkType, IndexedRepo } from '../../types/services.js';
+import type { EmbeddingProvider } from './embeddings.js';
+
+/**
+ * Stored document structure for code chunks
+ */
+export interface CodeChunkDocument {
+  repoUrl: string;
+  commitId: string;
+  filePath: string;
+  chunkType: ChunkType;
+  chunkName: string;
+  code: string;
+  language: string;
+  embedding: number[];
+  embeddingModel?: string; // EmbeddingProvider.name (older indexes don't store it)
+  indexedAt: Date;
+}
+
+/**
+ * Completion marker of an indexed repo/commit
+ */
+export interface IndexedCommitDocument {
+  repoUrl: string;
+  commitId: string;
+  embeddingModel: string;
+  chunks: number;
+  indexedAt: Date;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  /** Number of chunks stored for a repo at a commit */
+  count(repoUrl: string, commitId: string): Promise<number>;
+  /** A repo/commit whose indexing finished, or null (never indexed, or still being indexed) */
+  indexedCommit(repoUrl: string, commitId: string): Promise<IndexedRepo | null>;
+  /** Most recently indexed commit for a repo whose indexing finished, if any */
+  latestCommit(repoUrl: string): Promise<string | null>;
+  /** Record that every chunk of a repo/commit is stored */
+  markIndexed(repoUrl: string, commitId: string, chunks: number): Promise<void>;
+  /** Remove a repo/commit's chunks and its marker */
+  deleteCommit(repoUrl: string, commitId: string): Promise<void>;
+  insertMany(documents: CodeChunkDocument[]): Promise<void>;
+  /** Copy a commit's chunks to another commit, skipping the given file paths; returns the number copied */
+  copyChunks(repoUrl: string, fromCommit: string, toCommit: string, skipPaths: string[]): Promise<number>;
+  /** Cosine top-k over the chunks of one repo/commit */
+  search(vector: number[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]>;
+  /**
+   * Chunks of one repo/commit whose code, name or path contains any of the terms (case-insensitive).
+   * Terms come strongest first; each gets a fair share of the limit in that order (its unused
+   * share passes to the rest), so a common term can't crowd out rarer, more telling ones.
+   */
+  keywordCandidates(terms: string[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]>;
+  listIndexed(): Promise<IndexedRepo[]>;
+}
+
+/**
+ * MongoDB Atlas vector store (requires the `vector_index` search index, with
+ * numDimensions matching the embedding provider)
+ */
+export class MongoVectorStore implements VectorStore {
+  readonly name = 'MongoDB Atlas';
+  private collection: Collection<CodeChunkDocument> | null = null;
+  private markers: Collection<IndexedCommitDocument> | null = null;
+
+  constructor(
+    private embeddingModel: string,
+    private dimensions: number
+  ) {}
+
+  /**
+   * Connect to MongoDB Atlas using shared client
+   */
+  private async getCollection(): Promise<Collection<CodeChunkDocument>> {
+    if (this.collection) {
+      return this.collection;
+    }
+    if (this.dimensions !== config.rag.atlasDimensions) {
+      throw new Error(
+        `${this.embeddingModel} produces ${this.dimensions}-dimension vectors but the Atlas vector_index ` +
+        `has ${config.rag.atlasDimensions} (RAG_ATLAS_DIMENSIONS)`
+      );
+    }
+
+    try {
+      const { db } = await SharedMongoClient.getClient();
+      this.markers = db.collection<IndexedCommitDocument>(config.mongodb.collections.indexedCommits);
+      await this.markers.createIndex({ repoUrl: 1, commitId: 1, embeddingModel: 1 }, { unique: true });
+      this.collection = db.collection<CodeChunkDocument>(config.mongodb.collections.chunks);
+      console.log('[RealRAG] ✓ Connected to MongoDB');
+      return this.collection;
+    } catch (error) {
+      console.error('[RealRAG] ✗ Failed to connect:', error);
+      throw error;
+    }
+  }
+
+  async count(repoUrl: string, commitId: string): Promise<number> {
+    const collection = await this.getCollection();
+    return collection.countDocuments({ repoUrl, commitId, embeddingModel: this.embeddingModel });
+  }
+
+  async indexedCommit(repoUrl: string, commitId: string): Promise<IndexedRepo | null> {
+    await this.getCollection();
+    const marker = await this.markers!.findOne({ repoUrl, commitId, embeddingModel: this.embeddingModel });
+    return marker ? toIndexedRepo(marker) : null;
+  }
+
+  async latestCommit(repoUrl: string): Promise<string | null> {
+    await this.getCollection();
+    const latest = await this.markers!.findOne(
+      { repoUrl, embeddingModel: this.embeddingModel },
+      { sort: { indexedAt: -1 }, projection: { commitId: 1 } }
+    );
+    return latest?.commitId ?? null;
+  }
+
+  async markIndexed(repoUrl: string, commitId: string, chunks: number): Promise<void> {
+    await this.getCollection();
+    await this.markers!.updateOne(
+      { repoUrl, commitId, embeddingModel: this.embeddingModel },
+      { $set: { chunks, indexedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  async deleteCommit(repoUrl: string, commitId: string): Promise<void> {
+    const collection = await this.getCollection();
+    // Marker first: chunks without one are never taken for an index
+    await this.markers!.deleteOne({ repoUrl, commitId, embeddingModel: this.embeddingModel });
+    await collection.deleteMany({ repoUrl, commitId, embeddingModel: this.embeddingModel });
+  }
+
+  async insertMany(documents: CodeChunkDocument[]): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.insertMany(documents);
+  }
+
+  async copyChunks(repoUrl: string, fromCommit: string, toCommit: string, skipPaths: string[]): Promise<number> {
+    const collection = await this.getCollection();
+    const batchSize = 500;
+    const indexedAt = new Date();
+    let batch: CodeChunkDocument[] = [];
+    let copied = 0;
+
+    const cursor = collection.find(
+      { repoUrl, commitId: fromCommit, embeddingModel: this.embeddingModel, filePath: { $nin: skipPaths } },
+      { projection: { _id: 0 } }
+    );
+
+    for await (const doc of cursor) {
+      batch.push({ ...doc, commitId: toCommit, indexedAt });
+      if (batch.length >= batchSize) {
+        await collection.insertMany(batch);
+        copied += batch.length;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await collection.insertMany(batch);
+      copied += batch.length;
+    }
+
+    return copied;
+  }
+
+  async search(vector: number[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]> {
+    const collection = await this.getCollection();
+    const pipeline = [
+      {
+        $vectorSearch: {
+          index: 'vector_index',
+          path: 'embedding',
+          queryVector: vector,
+          // Atlas recommends 10-20x the limit; a fixed pool would cut recall for large limits
+          numCandidates: Math.max(100, limit * 10),
+          limit: limit,
+          // repoUrl, commitId and embeddingModel must be declared as "filter" fields in the Atlas index
+          filter: {
+            repoUrl: { $eq: scope.repoUrl },
+            commitId: { $eq: scope.commitId },
+            embeddingModel: { $eq: this.embeddingModel },
+          },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          filePath: 1,
+          chunkType: 1,
+          chunkName: 1,
+          code: 1,
+          language: 1,
+          score: { $meta: 'vectorSearchScore' },
+        },
+      },
+    ];
+
+    const results = await collection.aggregate(pipeline).toArray();
+    return results as CodeChunk[];
+  }
+
+  async keywordCandidates(terms: string[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]> {
+    const collection = await this.getCollection();
+    const seen: ObjectId[] = [];
+    const results: CodeChunk[] = [];
+
+    for (const [index, term] of terms.entries()) {
+      const share = Math.ceil((limit - results.length) / (terms.length - index));
+      if (share <= 0) break;
+      const pattern = new RegExp(escapeRegExp(term), 'i');
+      const matches = await collection
+        .find(
+          {
+            repoUrl: scope.repoUrl,
+            commitId: scope.commitId,
+            embeddingModel: this.embeddingModel,
+            _id: { $nin: seen },
+            $or: [{ code: pattern }, { chunkName: pattern }, { filePath: pattern }],
+          },
+          { projection: { _id: 1, filePath: 1, chunkType: 1, chunkName: 1, code: 1, language: 1 } }
+        )
+        .limit(share)
+        .toArray();
+      for (const { _id, ...chunk } of matches) {
+        seen.push(_id);
+        results.push(chunk as CodeChunk);
+      }
+    }
+    return results;
+  }
+
+  async listIndexed(): Promise<IndexedRepo[]> {
+    await this.getCollection();
+    const markers = await this.markers!.find({ embeddingModel: this.embeddingModel }).sort({ indexedAt: -1 }).toArray();
+    return markers.map(toIndexedRepo);
+  }
+}
+
+/**
+ * In-process vector store. Exhaustive cosine search is fine at the scale of a
+ * few repositories; pass a file path to keep the index across runs.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name: string;
+  private documents: CodeChunkDocument[] | null = null;
+  private commits: IndexedCommitDocument[] = [];
+
+  constructor(
+    private embeddingModel: string,
+    private filePath: string | null = null
+  ) {
+    this.name = filePath ? `local file (${filePath})` : 'in-memory';
+  }
+
+  async count(repoUrl: string, commitId: string): Promise<number> {
+    return this.scoped(repoUrl, commitId).length;
+  }
+
+  async indexedCommit(repoUrl: string, commitId: string): Promise<IndexedRepo | null> {
+    this.load();
+    const marker = this.commits.find(
+      (c) => c.repoUrl === repoUrl && c.commitId === commitId && c.embeddingModel === this.embeddingModel
+    );
+    return marker ? toIndexedRepo(marker) : null;
+  }
+
+  async latestCommit(repoUrl: string): Promise<string | null> {
+    const [latest] = (await this.listIndexed()).filter((entry) => entry.repoUrl === repoUrl);
+    return latest?.commitId ?? null;
+  }
+
+  async markIndexed(repoUrl: string, commitId: string, chunks: number): Promise<void> {
+    this.load();
+    this.commits = this.commits
+      .filter((c) => !(c.repoUrl === repoUrl && c.commitId === commitId && c.embeddingModel === this.embeddingModel))
+      .concat({ repoUrl, commitId, embeddingModel: this.embeddingModel, chunks, indexedAt: new Date() });
+    this.save();
+  }
+
+  async deleteCommit(repoUrl: string, commitId: string): Promise<void> {
+    const matches = (doc: { repoUrl: string; commitId: string; embeddingModel?: string }) =>
+      doc.repoUrl === repoUrl && doc.commitId === commitId && doc.embeddingModel === this.embeddingModel;
+    this.documents = this.load().filter((doc) => !matches(doc));
+    this.commits = this.commits.filter((c) => !matches(c));
+    this.save();
+  }
+
+  async insertMany(documents: CodeChunkDocument[]): Promise<void> {
+    this.documents = this.load().concat(documents);
+    this.save();
+  }
+
+  async copyChunks(repoUrl: string, fromCommit: string, toCommit: string, skipPaths: string[]): Promise<number> {
+    const skip = new Set(skipPaths);
+    const indexedAt = new Date();
+    const copies = this.scoped(repoUrl, fromCommit)
+      .filter((doc) => !skip.has(doc.filePath))
+      .map((doc) => ({ ...doc, commitId: toCommit, indexedAt }));
+    this.documents = this.load().concat(copies);
+    this.save();
+    return copies.length;
+  }
+
+  async search(vector: number[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]> {
+    return this.scoped(scope.repoUrl, scope.commitId)
+      .filter((doc) => doc.embedding.length === vector.length)
+      // Same scale as Atlas vectorSearchScore for cosine: (1 + cosine) / 2
+      .map((doc) => ({ doc, score: (1 + cosineSimilarity(vector, doc.embedding)) / 2 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ doc, score }) => ({ ...toCodeChunk(doc), score }));
+  }
+
+  async keywordCandidates(terms: string[], scope: { repoUrl: string; commitId: string }, limit: number): Promise<CodeChunk[]> {
+    const docs = this.scoped(scope.repoUrl, scope.commitId);
+    const haystacks = docs.map((doc) => `${doc.filePath}\n${doc.chunkName}\n${doc.code}`.toLowerCase());
+    const taken = new Set<number>();
+
+    for (const [index, term] of terms.entries()) {
+      let share = Math.ceil((limit - taken.size) / (terms.length - index));
+      const needle = term.toLowerCase();
+      for (let i = 0; i < docs.length && share > 0; i++) {
+        if (!taken.has(i) && haystacks[i].includes(needle)) {
+          taken.add(i);
+          share--;
+        }
+      }
+    }
+    return [...taken].map((i) => toCodeChunk(docs[i]));
+  }
+
+  async listIndexed(): Promise<IndexedRepo[]> {
+    this.load();
+    return this.commits
+      .filter((c) => c.embeddingModel === this.embeddingModel)
+      .map(toIndexedRepo)
+      .sort((a, b) => b.indexedAt - a.indexedAt);
+  }
+
+  private scoped(repoUrl: string, commitId: string): CodeChunkDocument[] {
+    return this.load().filter(
+      (doc) => doc.repoUrl === repoUrl && doc.commitId === commitId && doc.embeddingModel === this.embeddingModel
+    );
+  }
+
+  /**
+   * Lazily read the index file on first use. A file from before completion markers
+   * (a bare array of chunks) has none, so its commits are indexed again.
+   */
+  private load(): CodeChunkDocument[] {
+    if (this.documents) {
+      return this.documents;
+    }
+
+    this.documents = [];
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      try {
+        type Stored<T> = Array<Omit<T, 'indexedAt'> & { indexedAt: string }>;
+        const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as
+          | Stored<CodeChunkDocument>
+          | { chunks: Stored<CodeChunkDocument>; commits: Stored<IndexedCommitDocument> };
+        const { chunks, commits } = Array.isArray(stored) ? { chunks: stored, commits: [] } : stored;
+        this.documents = chunks.map((doc) => ({ ...doc, indexedAt: new Date(doc.indexedAt) }));
+        this.commits = commits.map((c) => ({ ...c, indexedAt: new Date(c.indexedAt) }));
+        console.log(`[RealRAG] Loaded ${this.documents.length} chunks from ${this.filePath}`);
+      } catch (error) {
+        console.warn(`[RealRAG] Failed to read ${this.filePath}, starting with an empty index:`, error);
+      }
+    }
+    return this.documents;
+  }
+
+  /**
+   * Write the whole index to disk (via a temp file so a crash never leaves it half-written)
+   */
+  private save(): void {
+    if (!this.filePath || !this.documents) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpFile = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify({ chunks: this.documents, commits: this.commits }));
+    fs.renameSync(tmpFile, this.filePath);
+  }
+}
+
+function toCodeChunk(doc: CodeChunkDocument): CodeChunk {
+  return {
+    filePath: doc.filePath,
+    chunkType: doc.chunkType,
+    chunkName: doc.chunkName,
+    code: doc.code,
+    language: doc.language,
+  };
+}
+
+function toIndexedRepo(marker: IndexedCommitDocument): IndexedRepo {
+  return { repoUrl: marker.repoUrl, commitId: marker.commitId, chunks: marker.chunks, indexedAt: marker.indexedAt.getTime() };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Build the store selected by config.rag.vectorStore
+ */
+export function createVectorStore(embeddings: Pick<EmbeddingProvider, 'name' | 'dimensions'>): VectorStore {
+  switch (config.rag.vectorStore) {
+    case 'memory':
+      return new LocalVectorStore(embeddings.name);
+    case 'file':
+      return new LocalVectorStore(embeddings.name, config.rag.storePath);
+    default:
+      return new MongoVectorStore(embeddings.name, embeddings.dimensions);
+  }
+}
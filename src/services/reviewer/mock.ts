@@ -1,28 +1,36 @@
 import type { IReviewerService, StreamCallback } from '../../types/services.js';
-import type { Issue, Solution, ReviewResult, ReviewScore } from '../../types/index.js';
+import type { Issue, Solution, ReviewResult, ReviewScore, VerificationResult } from '../../types/index.js';
 
 /**
  * Mock Reviewer Service
  * Simulates an AI code reviewer that evaluates solutions
  */
 export class MockReviewerService implements IReviewerService {
-  async reviewSolutions(issue: Issue, solutions: Solution[]): Promise<ReviewResult> {
-    return this.reviewSolutionsStreaming(issue, solutions, () => {});
+  async reviewSolutions(
+    issue: Issue,
+    solutions: Solution[],
+    verifications?: Record<string, VerificationResult>,
+    signal?: AbortSignal
+  ): Promise<ReviewResult> {
+    return this.reviewSolutionsStreaming(issue, solutions, () => {}, verifications, signal);
   }
 
   async reviewSolutionsStreaming(
     issue: Issue,
     solutions: Solution[],
-    onChunk: StreamCallback
+    onChunk: StreamCallback,
+    verifications: Record<string, VerificationResult> = {},
+    signal?: AbortSignal
   ): Promise<ReviewResult> {
     const startTime = Date.now();
 
-    // Filter to only successful solutions
-    const successfulSolutions = solutions.filter(s => s.success);
+    // Only successful solutions that built are eligible
+    const isEligible = (s: Solution) => s.success && verifications[s.agentId]?.buildPassed !== false;
+    const successfulSolutions = solutions.filter(isEligible);
 
     if (successfulSolutions.length === 0) {
       const noSolutionThinking = `Analyzing submissions for "${issue.title}"...\n\nNo successful solutions were submitted. All agents failed to produce working code.\n\nConclusion: No winner can be determined.`;
-      await this.streamText(noSolutionThinking, onChunk);
+      await this.streamText(noSolutionThinking, onChunk, signal);
 
       return {
         winnerId: null,
@@ -38,11 +46,19 @@ export class MockReviewerService implements IReviewerService {
 
     // Stream the thinking process
     const intro = `🔍 Analyzing ${successfulSolutions.length} solutions for: "${issue.title}"\n\n`;
-    await this.streamText(intro, onChunk);
+    await this.streamText(intro, onChunk, signal);
     thinkingAccumulated += intro;
 
     for (const solution of solutions) {
-      const score = this.generateScore(solution, solution.success);
+      const score = this.generateScore(solution, isEligible(solution));
+      const verification = verifications[solution.agentId];
+      if (verification?.buildPassed === false) {
+        score.reasoning = 'Solution failed to build in the scratch checkout.';
+      } else if (verification?.testsPassed === false) {
+        score.correctness = Math.round(score.correctness * 0.6);
+        score.score = Math.round(score.correctness * 0.5 + score.codeQuality * 0.3 + score.completeness * 0.2);
+        score.reasoning = `Tests failed. ${score.reasoning}`;
+      }
       scores.push(score);
 
       const agentThinking = `📋 ${solution.agentId.toUpperCase()}:\n` +
@@ -55,7 +71,7 @@ export class MockReviewerService implements IReviewerService {
       await this.streamText(agentThinking, (chunk, acc) => {
         thinkingAccumulated += chunk;
         onChunk(chunk, thinkingAccumulated);
-      });
+      }, signal);
     }
 
     // Sort by score descending
@@ -70,7 +86,7 @@ export class MockReviewerService implements IReviewerService {
     await this.streamText(decision, (chunk, acc) => {
       thinkingAccumulated += chunk;
       onChunk(chunk, thinkingAccumulated);
-    });
+    }, signal);
 
     // Generate summary
     const summary = this.generateSummary(issue, winner, scores);
@@ -83,11 +99,12 @@ export class MockReviewerService implements IReviewerService {
     };
   }
 
-  private async streamText(text: string, onChunk: StreamCallback): Promise<void> {
+  private async streamText(text: string, onChunk: StreamCallback, signal?: AbortSignal): Promise<void> {
     let accumulated = '';
     const chunkSize = 2 + Math.floor(Math.random() * 4); // 2-5 chars
 
     for (let i = 0; i < text.length; i += chunkSize) {
+      signal?.throwIfAborted();
       const chunk = text.slice(i, i + chunkSize);
       accumulated += chunk;
       onChunk(chunk, accumulated);
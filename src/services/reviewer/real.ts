@@ -1,5 +1,5 @@
 import type { IReviewerService } from '../../types/services.js';
-import type { Issue, Solution, ReviewResult, ReviewScore } from '../../types/index.js';
+import type { Issue, Solution, ReviewResult, ReviewScore, VerificationResult } from '../../types/index.js';
 import { config } from '../../config.js';
 import { log } from '../../utils/logger.js';
 
@@ -20,8 +20,14 @@ export class RealReviewerService implements IReviewerService {
     }
   }
 
-  async reviewSolutions(issue: Issue, solutions: Solution[]): Promise<ReviewResult> {
+  async reviewSolutions(
+    issue: Issue,
+    solutions: Solution[],
+    verifications: Record<string, VerificationResult> = {},
+    signal?: AbortSignal
+  ): Promise<ReviewResult> {
     const startTime = Date.now();
+    signal?.throwIfAborted();
 
     if (!this.apiKey) {
       throw new Error('FIREWORKS_API_KEY environment variable is required');
@@ -53,7 +59,7 @@ export class RealReviewerService implements IReviewerService {
     log('info', 'Reviewer', `Shuffled order: ${shuffledSolutions.map(s => s.agentId).join(', ')}`);
 
     // Build the review prompt with shuffled solutions
-    const prompt = this.buildReviewPrompt(issue, shuffledSolutions);
+    const prompt = this.buildReviewPrompt(issue, shuffledSolutions, verifications);
 
     try {
       const response = await fetch('https://api.fireworks.ai/inference/v1/chat/completions', {
@@ -93,7 +99,11 @@ Score each criterion from 0-100:
 - completeness: Does it handle edge cases and provide a complete solution? (20% weight)
 - score: Weighted average of the above
 
-Use the EXACT agentId strings provided (e.g., "llama", "qwen", "deepseek"). The winnerId MUST match one of these exactly.`,
+Use the EXACT agentId strings provided (e.g., "llama", "qwen", "deepseek"). The winnerId MUST match one of these exactly.
+
+Each solution includes BUILD and TEST results from running it against the real repository. Treat them as hard evidence:
+- A solution whose build FAILED cannot be the winner and must score 0 correctness.
+- Failing tests should heavily reduce correctness.`,
             },
             {
               role: 'user',
@@ -103,6 +113,7 @@ Use the EXACT agentId strings provided (e.g., "llama", "qwen", "deepseek"). The
           max_tokens: 2048,
           temperature: 0.3,
         }),
+        signal: AbortSignal.any([AbortSignal.timeout(config.timeouts.reviewMs), ...(signal ? [signal] : [])]),
       });
 
       if (!response.ok) {
@@ -119,19 +130,55 @@ Use the EXACT agentId strings provided (e.g., "llama", "qwen", "deepseek"). The
       log('debug', 'Reviewer', `Raw response: ${content.slice(0, 500)}...`);
 
       // Parse the JSON response
-      const result = this.parseReviewResponse(content, solutions, startTime);
+      const result = this.enforceVerification(
+        this.parseReviewResponse(content, solutions, startTime),
+        verifications
+      );
       log('info', 'Reviewer', `Winner: ${result.winnerId}`);
       log('info', 'Reviewer', `Scores: ${result.scores.map(s => `${s.agentId}=${s.score}`).join(', ')}`);
 
       return result;
 
     } catch (error) {
+      // Stopped by the caller: no fallback verdict for a run that is going away
+      if (signal?.aborted) throw signal.reason;
       log('error', 'Reviewer', `LLM review failed: ${error}`);
       // Fallback to simple scoring based on solution time
-      return this.fallbackReview(solutions, startTime);
+      return this.enforceVerification(this.fallbackReview(solutions, startTime), verifications);
     }
   }
 
+  /**
+   * Zero out solutions that failed to build and make sure one of them never wins
+   */
+  private enforceVerification(
+    result: ReviewResult,
+    verifications: Record<string, VerificationResult>
+  ): ReviewResult {
+    const failedBuild = (agentId: string) => verifications[agentId]?.buildPassed === false;
+
+    const scores = result.scores.map(s => failedBuild(s.agentId)
+      ? {
+          ...s,
+          score: 0,
+          correctness: 0,
+          reasoning: `Build failed: ${verifications[s.agentId].error || 'see build logs'}. ${s.reasoning}`,
+        }
+      : s
+    );
+
+    let winnerId = result.winnerId;
+    if (winnerId && failedBuild(winnerId)) {
+      const best = [...scores]
+        .filter(s => !failedBuild(s.agentId) && s.score > 0)
+        .sort((a, b) => b.score - a.score)[0];
+      log('warn', 'Reviewer', `Winner ${winnerId} failed to build, falling back to ${best?.agentId ?? 'no winner'}`);
+      winnerId = best?.agentId ?? null;
+    }
+
+    return { ...result, scores, winnerId };
+  }
+
   /**
    * Fisher-Yates shuffle to randomize solution order
    */
@@ -143,7 +190,11 @@ Use the EXACT agentId strings provided (e.g., "llama", "qwen", "deepseek"). The
     return array;
   }
 
-  private buildReviewPrompt(issue: Issue, solutions: Solution[]): string {
+  private buildReviewPrompt(
+    issue: Issue,
+    solutions: Solution[],
+    verifications: Record<string, VerificationResult>
+  ): string {
     let prompt = `## GitHub Issue to Fix
 
 **Title:** ${issue.title}
@@ -160,7 +211,7 @@ ${issue.body}
     for (const solution of solutions) {
       prompt += `### Solution by ${solution.agentId}
 **Time to complete:** ${solution.timeMs}ms
-
+${this.formatVerification(verifications[solution.agentId])}
 \`\`\`
 ${solution.code.slice(0, 3000)}${solution.code.length > 3000 ? '\n... (truncated)' : ''}
 \`\`\`
@@ -176,6 +227,29 @@ Please evaluate each solution and determine the winner. Return your assessment a
     return prompt;
   }
 
+  /**
+   * Summarize build/test evidence for the prompt, with a short log tail on failure
+   */
+  private formatVerification(verification?: VerificationResult): string {
+    if (!verification) {
+      return '**Verification:** not run\n';
+    }
+
+    if (!verification.applied) {
+      return `**Verification:** patch did not apply (${verification.error || 'unknown error'}) - BUILD FAILED\n`;
+    }
+
+    let text = `**Build:** ${verification.buildPassed ? 'PASSED' : 'FAILED'}`;
+    text += ` | **Tests:** ${verification.testsPassed === null ? 'not run' : verification.testsPassed ? 'PASSED' : 'FAILED'}\n`;
+
+    const failed = !verification.buildPassed ? verification.build : verification.testsPassed === false ? verification.test : undefined;
+    if (failed?.logs) {
+      text += `\n\`${failed.command}\` output (tail):\n\`\`\`\n${failed.logs.slice(-1000)}\n\`\`\`\n`;
+    }
+
+    return text;
+  }
+
   private parseReviewResponse(content: string, solutions: Solution[], startTime: number): ReviewResult {
     try {
       // Try to extract JSON from the response
@@ -1,9 +1,12 @@
 import type { IStateStore } from '../../types/services.js';
-import type { Competition, AgentStatus, PaymentRecord } from '../../types/index.js';
+import type { Competition, AgentStatus, PaymentRecord, RegisteredAgent, EscrowHold } from '../../types/index.js';
 
 export class MockStateStore implements IStateStore {
   private competitions: Map<string, Competition> = new Map();
   private payments: Map<string, PaymentRecord> = new Map();
+  private agents: Map<string, RegisteredAgent> = new Map();
+  private escrow: Map<string, EscrowHold> = new Map();
+  private reservedMicros: number | null = null;
 
   async saveCompetition(competition: Competition): Promise<void> {
     console.log(`[MockState] Saving competition: ${competition.id}`);
@@ -58,6 +61,30 @@ export class MockStateStore implements IStateStore {
     return Array.from(this.competitions.values()).map((c) => ({ ...c }));
   }
 
+  async getCompetitionsByStatus(status: Competition['status']): Promise<Competition[]> {
+    return Array.from(this.competitions.values())
+      .filter((c) => c.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((c) => ({ ...c }));
+  }
+
+  async claimCompetition(id: string, owner: string, expiresAt: number): Promise<boolean> {
+    const existing = this.competitions.get(id);
+    if (!existing) return false;
+    if (existing.lease && existing.lease.owner !== owner && existing.lease.expiresAt > Date.now()) {
+      return false;
+    }
+    this.competitions.set(id, { ...existing, lease: { owner, expiresAt } });
+    return true;
+  }
+
+  async releaseCompetition(id: string, owner: string): Promise<boolean> {
+    const existing = this.competitions.get(id);
+    if (!existing || existing.lease?.owner !== owner) return false;
+    this.competitions.set(id, { ...existing, lease: null });
+    return true;
+  }
+
   async savePaymentRecord(record: PaymentRecord): Promise<void> {
     console.log(`[MockState] Saving payment record: ${record.id}`);
     this.payments.set(record.id, { ...record });
@@ -69,9 +96,108 @@ export class MockStateStore implements IStateStore {
     return record ? { ...record } : null;
   }
 
+  async updatePaymentRecord(id: string, updates: Partial<PaymentRecord>): Promise<void> {
+    const existing = this.payments.get(id);
+    if (existing) {
+      this.payments.set(id, { ...existing, ...updates });
+    }
+  }
+
+  async claimPaymentRecord(
+    id: string,
+    expected: Pick<PaymentRecord, 'status' | 'attempts'>,
+    updates: Partial<PaymentRecord>
+  ): Promise<boolean> {
+    const existing = this.payments.get(id);
+    if (!existing || existing.status !== expected.status || existing.attempts !== expected.attempts) {
+      return false;
+    }
+    this.payments.set(id, { ...existing, ...updates });
+    return true;
+  }
+
+  async updatePaymentByTxHash(txHash: string, updates: Partial<PaymentRecord>): Promise<void> {
+    const existing = Array.from(this.payments.values()).find((r) => r.txHash === txHash);
+    if (existing) {
+      this.payments.set(existing.id, { ...existing, ...updates });
+    }
+  }
+
+  async getPaymentByIdempotencyKey(key: string): Promise<PaymentRecord | null> {
+    const record = Array.from(this.payments.values()).find((r) => r.idempotencyKey === key);
+    return record ? { ...record } : null;
+  }
+
+  async getPaymentsByCompetition(competitionId: string): Promise<PaymentRecord[]> {
+    return Array.from(this.payments.values())
+      .filter((r) => r.competitionId === competitionId)
+      .map((r) => ({ ...r }));
+  }
+
+  async getPaymentsByStatus(statuses: PaymentRecord['status'][]): Promise<PaymentRecord[]> {
+    return Array.from(this.payments.values())
+      .filter((r) => statuses.includes(r.status))
+      .map((r) => ({ ...r }));
+  }
+
+  async saveAgent(agent: RegisteredAgent): Promise<void> {
+    console.log(`[MockState] Saving agent: ${agent.id}`);
+    this.agents.set(agent.id, { ...agent });
+  }
+
+  async getAgent(id: string): Promise<RegisteredAgent | null> {
+    const agent = this.agents.get(id);
+    return agent ? { ...agent } : null;
+  }
+
+  async listAgents(): Promise<RegisteredAgent[]> {
+    return Array.from(this.agents.values()).map((a) => ({ ...a }));
+  }
+
+  async deleteAgent(id: string): Promise<boolean> {
+    console.log(`[MockState] Deleting agent: ${id}`);
+    return this.agents.delete(id);
+  }
+
+  async saveEscrowHold(hold: EscrowHold): Promise<void> {
+    console.log(`[MockState] Saving escrow hold: ${hold.competitionId} (${hold.status})`);
+    this.escrow.set(hold.competitionId, { ...hold });
+  }
+
+  async getEscrowHold(competitionId: string): Promise<EscrowHold | null> {
+    const hold = this.escrow.get(competitionId);
+    return hold ? { ...hold } : null;
+  }
+
+  async listEscrowHolds(status?: EscrowHold['status']): Promise<EscrowHold[]> {
+    return Array.from(this.escrow.values())
+      .filter((h) => !status || h.status === status)
+      .map((h) => ({ ...h }));
+  }
+
+  async replaceEscrowHold(hold: EscrowHold, expectedStatus: EscrowHold['status']): Promise<boolean> {
+    if (this.escrow.get(hold.competitionId)?.status !== expectedStatus) return false;
+    await this.saveEscrowHold(hold);
+    return true;
+  }
+
+  async changeEscrowReserved(delta: number, limit: number): Promise<boolean> {
+    if (!Number.isFinite(delta)) throw new Error(`Invalid escrow change: ${delta}`);
+    this.reservedMicros ??= Array.from(this.escrow.values())
+      .filter((h) => h.status === 'reserved')
+      .reduce((sum, h) => sum + Math.round(h.amount * 1e6), 0);
+    const next = this.reservedMicros + Math.round(delta * 1e6);
+    if (delta > 0 && next > Math.round(limit * 1e6)) return false;
+    this.reservedMicros = next;
+    return true;
+  }
+
   // Helper for testing - clears all data
   clear(): void {
     this.competitions.clear();
     this.payments.clear();
+    this.agents.clear();
+    this.escrow.clear();
+    this.reservedMicros = null;
   }
 }
@@ -1,17 +1,27 @@
 /**
  * MongoDB State Store
- * Persists competitions and payment records to MongoDB
+ * Persists competitions, payment records, the agent registry and escrow holds to MongoDB
  */
 
 import { type Db, type Collection } from 'mongodb';
 import type { IStateStore } from '../../types/services.js';
-import type { Competition, PaymentRecord, AgentStatus } from '../../types/index.js';
+import type { Competition, PaymentRecord, AgentStatus, RegisteredAgent, EscrowHold } from '../../types/index.js';
 import { SharedMongoClient } from '../mongodb-client.js';
 
+// Running total of reserved bounties, in micro-USDC so repeated increments stay exact.
+// Every process checks and changes it in one atomic update, so together they never reserve past the balance.
+interface EscrowTotal {
+  _id: 'reserved';
+  micros: number;
+}
+
 export class RealStateStore implements IStateStore {
   private db: Db | null = null;
   private competitions: Collection<Competition> | null = null;
   private payments: Collection<PaymentRecord> | null = null;
+  private agents: Collection<RegisteredAgent> | null = null;
+  private escrow: Collection<EscrowHold> | null = null;
+  private escrowTotals: Collection<EscrowTotal> | null = null;
   private connected = false;
 
   /**
@@ -25,6 +35,9 @@ export class RealStateStore implements IStateStore {
       this.db = db;
       this.competitions = this.db.collection<Competition>('competitions');
       this.payments = this.db.collection<PaymentRecord>('payments');
+      this.agents = this.db.collection<RegisteredAgent>('agents');
+      this.escrow = this.db.collection<EscrowHold>('escrow');
+      this.escrowTotals = this.db.collection<EscrowTotal>('escrow_totals');
 
       // Create indexes
       await this.createIndexes();
@@ -41,7 +54,7 @@ export class RealStateStore implements IStateStore {
    * Create database indexes for efficient queries
    */
   private async createIndexes(): Promise<void> {
-    if (!this.competitions || !this.payments) return;
+    if (!this.competitions || !this.payments || !this.agents || !this.escrow) return;
 
     // Competition indexes
     await this.competitions.createIndex({ id: 1 }, { unique: true });
@@ -53,10 +66,25 @@ export class RealStateStore implements IStateStore {
     await this.payments.createIndex({ id: 1 }, { unique: true });
     await this.payments.createIndex({ competitionId: 1 });
     await this.payments.createIndex({ agentId: 1 });
-    await this.payments.createIndex({ txHash: 1 }, { unique: true, sparse: true });
+    // Payments not sent yet have an empty hash, so only real hashes must be unique
+    // (replaces the older sparse index, which rejected a second unsent payment)
+    const txHashIndex = (await this.payments.indexes()).find((index) => index.name === 'txHash_1');
+    if (txHashIndex && !txHashIndex.partialFilterExpression) {
+      await this.payments.dropIndex('txHash_1');
+    }
+    await this.payments.createIndex({ txHash: 1 }, { unique: true, partialFilterExpression: { txHash: { $gt: '' } } });
     await this.payments.createIndex({ status: 1 });
+    await this.payments.createIndex({ idempotencyKey: 1 }, { unique: true, sparse: true });
     await this.payments.createIndex({ createdAt: -1 });
 
+    // Agent registry indexes
+    await this.agents.createIndex({ id: 1 }, { unique: true });
+    await this.agents.createIndex({ enabled: 1 });
+
+    // Escrow indexes
+    await this.escrow.createIndex({ competitionId: 1 }, { unique: true });
+    await this.escrow.createIndex({ status: 1 });
+
     console.log('[MongoDB] Indexes created');
   }
 
@@ -144,6 +172,28 @@ export class RealStateStore implements IStateStore {
       .toArray();
   }
 
+  /**
+   * Take or renew a competition's lease: succeeds if it has none, it expired, or it is already ours
+   */
+  async claimCompetition(id: string, owner: string, expiresAt: number): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.competitions) throw new Error('Not connected');
+
+    const result = await this.competitions.updateOne(
+      { id, $or: [{ 'lease.owner': owner }, { 'lease.expiresAt': { $not: { $gt: Date.now() } } }] },
+      { $set: { lease: { owner, expiresAt } } }
+    );
+    return result.matchedCount === 1;
+  }
+
+  async releaseCompetition(id: string, owner: string): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.competitions) throw new Error('Not connected');
+
+    const result = await this.competitions.updateOne({ id, 'lease.owner': owner }, { $set: { lease: null } });
+    return result.matchedCount === 1;
+  }
+
   // ==================== Payment Methods ====================
 
   /**
@@ -171,6 +221,21 @@ export class RealStateStore implements IStateStore {
     console.log(`[MongoDB] Payment record updated: ${id}`);
   }
 
+  async claimPaymentRecord(
+    id: string,
+    expected: Pick<PaymentRecord, 'status' | 'attempts'>,
+    updates: Partial<PaymentRecord>
+  ): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.payments) throw new Error('Not connected');
+
+    const result = await this.payments.updateOne(
+      { id, status: expected.status, attempts: expected.attempts ?? { $exists: false } },
+      { $set: updates }
+    );
+    return result.matchedCount === 1;
+  }
+
   /**
    * Update a payment record by transaction hash
    */
@@ -184,6 +249,29 @@ export class RealStateStore implements IStateStore {
     await this.payments.updateOne({ txHash }, { $set: updates });
   }
 
+  /**
+   * Get the payment record for an idempotency key (competitionId:agentId)
+   */
+  async getPaymentByIdempotencyKey(key: string): Promise<PaymentRecord | null> {
+    await this.ensureConnected();
+    if (!this.payments) throw new Error('Not connected');
+
+    return this.payments.findOne({ idempotencyKey: key }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * Get payments in any of these states (oldest first)
+   */
+  async getPaymentsByStatus(statuses: PaymentRecord['status'][]): Promise<PaymentRecord[]> {
+    await this.ensureConnected();
+    if (!this.payments) throw new Error('Not connected');
+
+    return this.payments
+      .find({ status: { $in: statuses } }, { projection: { _id: 0 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+  }
+
   /**
    * Get payment record by ID
    */
@@ -306,6 +394,114 @@ export class RealStateStore implements IStateStore {
       .limit(limit)
       .toArray();
   }
+
+  // ==================== Agent Registry Methods ====================
+
+  /**
+   * Insert or replace an agent by ID
+   */
+  async saveAgent(agent: RegisteredAgent): Promise<void> {
+    await this.ensureConnected();
+    if (!this.agents) throw new Error('Not connected');
+
+    await this.agents.replaceOne({ id: agent.id }, agent, { upsert: true });
+    console.log(`[MongoDB] Agent saved: ${agent.id}`);
+  }
+
+  async getAgent(id: string): Promise<RegisteredAgent | null> {
+    await this.ensureConnected();
+    if (!this.agents) throw new Error('Not connected');
+
+    return this.agents.findOne({ id }, { projection: { _id: 0 } });
+  }
+
+  async listAgents(): Promise<RegisteredAgent[]> {
+    await this.ensureConnected();
+    if (!this.agents) throw new Error('Not connected');
+
+    return this.agents.find({}, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async deleteAgent(id: string): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.agents) throw new Error('Not connected');
+
+    const result = await this.agents.deleteOne({ id });
+    console.log(`[MongoDB] Agent deleted: ${id}`);
+    return result.deletedCount > 0;
+  }
+
+  // ==================== Escrow Methods ====================
+
+  /**
+   * Insert or replace a competition's escrow hold
+   */
+  async saveEscrowHold(hold: EscrowHold): Promise<void> {
+    await this.ensureConnected();
+    if (!this.escrow) throw new Error('Not connected');
+
+    await this.escrow.replaceOne({ competitionId: hold.competitionId }, hold, { upsert: true });
+    console.log(`[MongoDB] Escrow hold saved: ${hold.competitionId} (${hold.status})`);
+  }
+
+  async getEscrowHold(competitionId: string): Promise<EscrowHold | null> {
+    await this.ensureConnected();
+    if (!this.escrow) throw new Error('Not connected');
+
+    return this.escrow.findOne({ competitionId }, { projection: { _id: 0 } });
+  }
+
+  async listEscrowHolds(status?: EscrowHold['status']): Promise<EscrowHold[]> {
+    await this.ensureConnected();
+    if (!this.escrow) throw new Error('Not connected');
+
+    return this.escrow
+      .find(status ? { status } : {}, { projection: { _id: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  async replaceEscrowHold(hold: EscrowHold, expectedStatus: EscrowHold['status']): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.escrow) throw new Error('Not connected');
+
+    const result = await this.escrow.replaceOne({ competitionId: hold.competitionId, status: expectedStatus }, hold);
+    if (result.matchedCount === 1) {
+      console.log(`[MongoDB] Escrow hold saved: ${hold.competitionId} (${hold.status})`);
+    }
+    return result.matchedCount === 1;
+  }
+
+  async changeEscrowReserved(delta: number, limit: number): Promise<boolean> {
+    await this.ensureConnected();
+    if (!this.escrowTotals) throw new Error('Not connected');
+    await this.ensureEscrowTotal();
+    if (!Number.isFinite(delta)) throw new Error(`Invalid escrow change: ${delta}`);
+
+    const deltaMicros = Math.round(delta * 1e6);
+    const guard = deltaMicros > 0 && Number.isFinite(limit)
+      ? { $expr: { $lte: [{ $add: ['$micros', deltaMicros] }, Math.round(limit * 1e6)] } }
+      : {};
+    const result = await this.escrowTotals.updateOne({ _id: 'reserved', ...guard }, { $inc: { micros: deltaMicros } });
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * Create the reserved total from the holds already reserved (stores from before it existed)
+   */
+  private async ensureEscrowTotal(): Promise<void> {
+    if (!this.escrow || !this.escrowTotals) throw new Error('Not connected');
+    if (await this.escrowTotals.findOne({ _id: 'reserved' })) return;
+
+    const holds = await this.escrow.find({ status: 'reserved' }).toArray();
+    const micros = holds.reduce((sum, h) => sum + Math.round(h.amount * 1e6), 0);
+    try {
+      await this.escrowTotals.updateOne({ _id: 'reserved' }, { $setOnInsert: { micros } }, { upsert: true });
+    } catch (error) {
+      // Another process created it at the same moment
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
 }
 
 // Also export as MongoStateStore for those who prefer that name
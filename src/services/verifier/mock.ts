@@ -0,0 +1,87 @@
+import type { IVerifierService } from '../../types/services.js';
+import type { Solution, VerificationResult } from '../../types/index.js';
+
+/**
+ * Mock Verifier Service
+ * Simulates building and testing a solution in a scratch checkout
+ */
+export class MockVerifierService implements IVerifierService {
+  // 85% of solutions build, 75% of those pass tests
+  private readonly buildPassRate = 0.85;
+  private readonly testPassRate = 0.75;
+
+  async verifySolution(repoPath: string, solution: Solution, signal?: AbortSignal): Promise<VerificationResult> {
+    const startTime = Date.now();
+    console.log(`[MockVerifier] Verifying ${solution.agentId} against ${repoPath}`);
+
+    if (!solution.success || !solution.patch) {
+      return {
+        agentId: solution.agentId,
+        applied: false,
+        buildPassed: false,
+        testsPassed: null,
+        durationMs: 0,
+        error: 'Solution has no patch to verify',
+      };
+    }
+
+    const buildTime = 400 + Math.random() * 800;
+    await this.delay(buildTime, signal);
+    const buildPassed = Math.random() < this.buildPassRate;
+
+    const result: VerificationResult = {
+      agentId: solution.agentId,
+      applied: true,
+      buildPassed,
+      testsPassed: null,
+      build: {
+        command: 'npm run typecheck',
+        passed: buildPassed,
+        exitCode: buildPassed ? 0 : 2,
+        timedOut: false,
+        durationMs: Math.round(buildTime),
+        logs: buildPassed
+          ? '> tsc --noEmit\n'
+          : `> tsc --noEmit\nsrc/fix.ts(12,5): error TS2304: Cannot find name 'validateCredentials'.\n`,
+      },
+      durationMs: 0,
+    };
+
+    if (buildPassed) {
+      const testTime = 300 + Math.random() * 700;
+      await this.delay(testTime, signal);
+      const testsPassed = Math.random() < this.testPassRate;
+
+      result.testsPassed = testsPassed;
+      result.test = {
+        command: 'npm test',
+        passed: testsPassed,
+        exitCode: testsPassed ? 0 : 1,
+        timedOut: false,
+        durationMs: Math.round(testTime),
+        logs: testsPassed
+          ? 'Tests: 24 passed, 24 total\n'
+          : 'Tests: 1 failed, 23 passed, 24 total\n  ✕ should handle special characters\n',
+      };
+    }
+
+    result.durationMs = Date.now() - startTime;
+    console.log(`[MockVerifier] ${solution.agentId}: build=${buildPassed}, tests=${result.testsPassed}`);
+    return result;
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Real Verifier Service
+ * Applies each solution to a scratch git worktree and runs the project's
+ * build and test commands with time and memory limits. The commands come from
+ * config or the base commit, never the patched tree, and see none of this
+ * process's environment (wallet keys, API keys) - only what they need to run.
+ */
+
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, writeFile, symlink, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { IVerifierService } from '../../types/services.js';
+import type { Solution, VerificationResult, CommandResult } from '../../types/index.js';
+import { config } from '../../config.js';
+import { log } from '../../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+// The only variables build and test commands inherit; PATH gets node_modules/.bin in front
+const ENV_ALLOWLIST = ['PATH', 'HOME', 'CI', 'FORCE_COLOR', 'NODE_OPTIONS'] as const;
+
+// Keep only the tail of command output - the end is where errors are
+const MAX_LOG_CHARS = 8000;
+
+export class RealVerifierService implements IVerifierService {
+  async verifySolution(repoPath: string, solution: Solution, signal?: AbortSignal): Promise<VerificationResult> {
+    const startTime = Date.now();
+    const result: VerificationResult = {
+      agentId: solution.agentId,
+      applied: false,
+      buildPassed: false,
+      testsPassed: null,
+      durationMs: 0,
+    };
+
+    if (!solution.success || !solution.patch) {
+      result.error = 'Solution has no patch to verify';
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    let workdir: string | null = null;
+    const baseCommit = solution.patch.baseCommit ?? 'HEAD';
+    if (!/^([0-9a-f]{40}|HEAD)$/.test(baseCommit)) {
+      result.error = `Not a commit SHA: ${baseCommit}`;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    try {
+      workdir = await this.createScratchCheckout(repoPath, solution.agentId, baseCommit, signal);
+      log('info', 'Verifier', `${solution.agentId}: scratch checkout at ${workdir}`);
+
+      try {
+        await this.applyPatch(workdir, solution.patch.diff, signal);
+        result.applied = true;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        result.error = `Failed to apply solution: ${error instanceof Error ? error.message : String(error)}`;
+        log('warn', 'Verifier', `${solution.agentId}: ${result.error}`);
+        return result;
+      }
+
+      const { buildCommand, testCommand } = await this.resolveCommands(repoPath, baseCommit);
+
+      if (buildCommand) {
+        result.build = await this.runCommand(buildCommand, workdir, signal);
+        signal?.throwIfAborted();
+        result.buildPassed = result.build.passed;
+        log('info', 'Verifier', `${solution.agentId}: build ${result.build.passed ? 'PASSED' : 'FAILED'} in ${result.build.durationMs}ms`);
+      } else {
+        // Nothing to build - a cleanly applied patch counts as buildable
+        result.buildPassed = true;
+      }
+
+      if (result.buildPassed && testCommand) {
+        result.test = await this.runCommand(testCommand, workdir, signal);
+        signal?.throwIfAborted();
+        result.testsPassed = result.test.passed;
+        log('info', 'Verifier', `${solution.agentId}: tests ${result.test.passed ? 'PASSED' : 'FAILED'} in ${result.test.durationMs}ms`);
+      }
+
+      return result;
+    } catch (error) {
+      // Stopped by the caller: a half-run verification is no result
+      if (signal?.aborted) throw signal.reason;
+      result.error = error instanceof Error ? error.message : String(error);
+      log('error', 'Verifier', `${solution.agentId}: verification error: ${result.error}`);
+      return result;
+    } finally {
+      if (workdir) {
+        await this.removeScratchCheckout(repoPath, workdir);
+      }
+      result.durationMs = Date.now() - startTime;
+    }
+  }
+
+  /**
+   * Create a detached git worktree at the patch's base commit so the real checkout is never touched
+   */
+  private async createScratchCheckout(repoPath: string, agentId: string, commit: string, signal?: AbortSignal): Promise<string> {
+    const workdir = await mkdtemp(join(tmpdir(), `codebounty-verify-${agentId.replace(/[^\w-]/g, '_')}-`));
+    // git worktree add refuses a non-empty directory, mkdtemp gives us an empty one
+    await execFileAsync('git', ['worktree', 'add', '--detach', workdir, commit], { cwd: repoPath, signal });
+
+    // Reuse installed dependencies instead of installing per solution
+    const nodeModules = join(repoPath, 'node_modules');
+    if (existsSync(nodeModules)) {
+      await symlink(nodeModules, join(workdir, 'node_modules'), 'dir');
+    }
+
+    return workdir;
+  }
+
+  private async removeScratchCheckout(repoPath: string, workdir: string): Promise<void> {
+    try {
+      await execFileAsync('git', ['worktree', 'remove', '--force', workdir], { cwd: repoPath });
+    } catch (error) {
+      log('warn', 'Verifier', `Failed to remove worktree ${workdir}: ${error}`);
+      await rm(workdir, { recursive: true, force: true }).catch(() => {});
+      await execFileAsync('git', ['worktree', 'prune'], { cwd: repoPath }).catch(() => {});
+    }
+  }
+
+  /**
+   * Apply the solution's unified diff to the scratch checkout
+   */
+  private async applyPatch(workdir: string, diff: string, signal?: AbortSignal): Promise<void> {
+    const patchFile = join(workdir, '.codebounty.patch');
+    await writeFile(patchFile, diff);
+    try {
+      await execFileAsync('git', ['apply', '--whitespace=nowarn', patchFile], { cwd: workdir, signal });
+    } finally {
+      await rm(patchFile, { force: true });
+    }
+  }
+
+  /**
+   * Resolve build/test commands from config, falling back to the package.json scripts of the
+   * base commit. The script itself is run rather than `npm run`, which would read the patched
+   * package.json - a patch must not choose what runs.
+   */
+  private async resolveCommands(repoPath: string, commit: string): Promise<{
+    buildCommand: string | null;
+    testCommand: string | null;
+  }> {
+    let buildCommand: string | null = config.verification.buildCommand || null;
+    let testCommand: string | null = config.verification.testCommand || null;
+
+    if (buildCommand && testCommand) {
+      return { buildCommand, testCommand };
+    }
+
+    try {
+      const { stdout } = await execFileAsync('git', ['show', `${commit}:package.json`], { cwd: repoPath });
+      const scripts: Record<string, string> = JSON.parse(stdout).scripts || {};
+
+      if (!buildCommand) {
+        buildCommand = scripts.typecheck || scripts.build || null;
+      }
+      // Skip npm's placeholder "no test specified" script
+      if (!testCommand && scripts.test && !scripts.test.includes('no test specified')) {
+        testCommand = scripts.test;
+      }
+    } catch {
+      // No package.json - only explicitly configured commands apply
+    }
+
+    return { buildCommand, testCommand };
+  }
+
+  /**
+   * Run a shell command in its own process group with a wall-clock timeout, an allowlisted
+   * environment and a memory cap. The cap is the OS data segment limit (ulimit -d), so it
+   * holds for every process the command starts, Node or not, each on its own; Node processes
+   * also get a matching heap cap so they fail with a readable error. A virtual memory cap
+   * (ulimit -v) can't be used: V8 reserves far more address space than it uses and fails to
+   * start under it. Aborting the signal kills it too.
+   */
+  private runCommand(command: string, cwd: string, signal?: AbortSignal): Promise<CommandResult> {
+    const { timeoutMs, maxMemoryMb } = config.verification;
+    const startTime = Date.now();
+
+    return new Promise((resolvePromise) => {
+      let output = '';
+      let timedOut = false;
+
+      const env: Record<string, string> = {};
+      for (const name of ENV_ALLOWLIST) {
+        const value = process.env[name];
+        if (value !== undefined) env[name] = value;
+      }
+      env.PATH = [join(cwd, 'node_modules', '.bin'), env.PATH].filter(Boolean).join(':');
+      env.CI = '1';
+      env.FORCE_COLOR = '0';
+      env.NODE_OPTIONS = [env.NODE_OPTIONS, `--max-old-space-size=${maxMemoryMb}`].filter(Boolean).join(' ');
+
+      // The command is passed as an argument so the limit is set before any of it runs
+      const child = spawn('sh', ['-c', 'ulimit -d "$1" && exec sh -c "$2"', 'sh', String(maxMemoryMb * 1024), command], {
+        cwd,
+        detached: true,
+        env,
+      });
+
+      const append = (data: Buffer) => {
+        output += data.toString();
+        if (output.length > MAX_LOG_CHARS * 2) {
+          output = output.slice(-MAX_LOG_CHARS);
+        }
+      };
+      child.stdout.on('data', append);
+      child.stderr.on('data', append);
+
+      const killGroup = () => {
+        try {
+          // Negative pid kills the whole process group
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, timeoutMs);
+      signal?.addEventListener('abort', killGroup, { once: true });
+
+      const finish = (exitCode: number | null) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', killGroup);
+        resolvePromise({
+          command,
+          passed: !timedOut && exitCode === 0,
+          exitCode,
+          timedOut,
+          durationMs: Date.now() - startTime,
+          logs: (timedOut ? `${output}\n[timed out after ${timeoutMs}ms]` : output).slice(-MAX_LOG_CHARS),
+        });
+      };
+
+      child.on('error', (error) => {
+        output += `\n${error.message}`;
+        finish(null);
+      });
+      child.on('close', (code) => finish(code));
+    });
+  }
+}
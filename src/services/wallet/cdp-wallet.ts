@@ -12,11 +12,14 @@ import {
   encodeFunctionData,
   parseUnits,
   formatUnits,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
   type PublicClient,
   type Chain,
 } from 'viem';
 import { base, baseSepolia } from 'viem/chains';
 import type { IWalletService, TransactionRequest, TypedData } from './types.js';
+import type { TransactionStatus } from '../../types/index.js';
 import { config } from '../../config.js';
 
 // Minimal ERC20 ABI for USDC operations
@@ -125,9 +128,9 @@ export class CDPWalletService implements IWalletService {
     }
   }
 
-  async sendUSDC(to: string, amount: number): Promise<string> {
+  async sendUSDC(to: string, amount: number, nonce?: number): Promise<string> {
     await this.ensureInitialized();
-    console.log(`[CDPWallet] Sending ${amount} USDC to ${to}`);
+    console.log(`[CDPWallet] Sending ${amount} USDC to ${to}${nonce === undefined ? '' : ` (nonce ${nonce})`}`);
 
     try {
       // Convert amount to USDC units (6 decimals)
@@ -148,26 +151,45 @@ export class CDPWalletService implements IWalletService {
           to: this.usdcAddress,
           data,
           value: 0n,
+          nonce,
         },
         network: this.network,
       });
 
       const hash = transactionResult.transactionHash;
+      // Confirmation is followed up by the payment worker (getTransactionStatus)
       console.log(`[CDPWallet] Transaction sent: ${hash}`);
+      return hash;
+    } catch (error) {
+      console.error('[CDPWallet] Failed to send USDC:', error);
+      throw error;
+    }
+  }
 
-      // Wait for confirmation using public client
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash: hash as `0x${string}`,
-      });
+  async getNonce(blockTag: 'pending' | 'latest'): Promise<number> {
+    await this.ensureInitialized();
+    return this.publicClient.getTransactionCount({ address: this.account.address as `0x${string}`, blockTag });
+  }
 
-      if (receipt.status === 'success') {
-        console.log(`[CDPWallet] Transaction confirmed in block ${receipt.blockNumber}`);
-        return hash;
-      } else {
-        throw new Error('Transaction reverted');
-      }
+  async getTransactionStatus(hash: string): Promise<TransactionStatus> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+      return {
+        state: receipt.status === 'success' ? 'confirmed' : 'reverted',
+        blockNumber: Number(receipt.blockNumber),
+      };
     } catch (error) {
-      console.error('[CDPWallet] Failed to send USDC:', error);
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+    }
+
+    // Not mined yet: still in the mempool, or dropped
+    try {
+      await this.publicClient.getTransaction({ hash: hash as `0x${string}` });
+      return { state: 'pending' };
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) {
+        return { state: 'not_found' };
+      }
       throw error;
     }
   }
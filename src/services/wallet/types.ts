@@ -3,6 +3,8 @@
  * Abstracts wallet operations for x402 payments
  */
 
+import type { TransactionStatus } from '../../types/index.js';
+
 export interface IWalletService {
   /**
    * Get the wallet's public address
@@ -18,9 +20,20 @@ export interface IWalletService {
    * Send USDC to a recipient
    * @param to - Recipient address
    * @param amount - Amount in USDC (human-readable, e.g., 10.5)
-   * @returns Transaction hash
+   * @param nonce - Wallet nonce to send with (default: the next one, counting pending transactions)
+   * @returns Transaction hash, as soon as it is broadcast (see getTransactionStatus)
+   */
+  sendUSDC(to: string, amount: number, nonce?: number): Promise<string>;
+
+  /**
+   * The wallet's next nonce: counting transactions still pending, or only mined ones
+   */
+  getNonce(blockTag: 'pending' | 'latest'): Promise<number>;
+
+  /**
+   * Look up a sent transaction: mined (and whether it succeeded), still pending, or unknown to the node
    */
-  sendUSDC(to: string, amount: number): Promise<string>;
+  getTransactionStatus(hash: string): Promise<TransactionStatus>;
 
   /**
    * Send a raw transaction
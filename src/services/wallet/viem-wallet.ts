@@ -11,6 +11,8 @@ import {
   encodeFunctionData,
   parseUnits,
   formatUnits,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
   type WalletClient,
   type PublicClient,
   type Account,
@@ -19,6 +21,7 @@ import {
 import { privateKeyToAccount } from 'viem/accounts';
 import { base, baseSepolia } from 'viem/chains';
 import type { IWalletService, TransactionRequest, TypedData } from './types.js';
+import type { TransactionStatus } from '../../types/index.js';
 import { config } from '../../config.js';
 
 // Minimal ERC20 ABI for USDC operations
@@ -105,8 +108,8 @@ export class ViemWalletService implements IWalletService {
     }
   }
 
-  async sendUSDC(to: string, amount: number): Promise<string> {
-    console.log(`[ViemWallet] Sending ${amount} USDC to ${to}`);
+  async sendUSDC(to: string, amount: number, nonce?: number): Promise<string> {
+    console.log(`[ViemWallet] Sending ${amount} USDC to ${to}${nonce === undefined ? '' : ` (nonce ${nonce})`}`);
 
     try {
       // Convert amount to USDC units (6 decimals)
@@ -123,23 +126,43 @@ export class ViemWalletService implements IWalletService {
       const hash = await this.walletClient.sendTransaction({
         to: this.usdcAddress,
         data,
+        nonce,
         chain: this.chain,
         account: this.account,
       });
 
+      // Confirmation is followed up by the payment worker (getTransactionStatus)
       console.log(`[ViemWallet] Transaction sent: ${hash}`);
+      return hash;
+    } catch (error) {
+      console.error('[ViemWallet] Failed to send USDC:', error);
+      throw error;
+    }
+  }
 
-      // Wait for confirmation
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+  async getNonce(blockTag: 'pending' | 'latest'): Promise<number> {
+    return this.publicClient.getTransactionCount({ address: this.account.address, blockTag });
+  }
 
-      if (receipt.status === 'success') {
-        console.log(`[ViemWallet] Transaction confirmed in block ${receipt.blockNumber}`);
-        return hash;
-      } else {
-        throw new Error('Transaction reverted');
-      }
+  async getTransactionStatus(hash: string): Promise<TransactionStatus> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+      return {
+        state: receipt.status === 'success' ? 'confirmed' : 'reverted',
+        blockNumber: Number(receipt.blockNumber),
+      };
     } catch (error) {
-      console.error('[ViemWallet] Failed to send USDC:', error);
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+    }
+
+    // Not mined yet: still in the mempool, or dropped
+    try {
+      await this.publicClient.getTransaction({ hash: hash as `0x${string}` });
+      return { state: 'pending' };
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) {
+        return { state: 'not_found' };
+      }
       throw error;
     }
   }
@@ -0,0 +1,221 @@
+/**
+ * X402 Payer
+ * The paying side of x402, for agents that charge per call. When an agent
+ * answers 402, the agent client hands its PaymentRequirement here: the
+ * orchestrator wallet signs an EIP-3009 transferWithAuthorization for exactly
+ * the asked amount, which the agent can submit to the USDC contract. Every
+ * authorization is a 'call' payment record of its competition, and the
+ * competition's call fees never add up to more than its cap.
+ */
+
+import { randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+import { config } from '../config.js';
+import type { CallPayment, IStateStore, IX402Payer } from '../types/services.js';
+import type { PaymentRecord, PaymentRequirement, TransferAuthorization } from '../types/index.js';
+import type { IWalletService } from './wallet/types.js';
+import { CHAIN_IDS, TRANSFER_WITH_AUTHORIZATION_TYPES, X402_VERSION, encodePaymentHeader } from './x402-verifier.js';
+
+export type X402PaymentErrorCode = 'cap_exceeded' | 'unsupported' | 'no_wallet';
+
+/**
+ * Thrown when a call can't be paid for
+ */
+export class X402PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: X402PaymentErrorCode
+  ) {
+    super(message);
+    this.name = 'X402PaymentError';
+  }
+}
+
+// Tolerates some clock skew between us and the agent
+const VALID_AFTER_SKEW_SECONDS = 60;
+
+export class X402Payer implements IX402Payer {
+  // Budget checks and the records they count are written one at a time,
+  // so agents called in parallel can't overspend the cap together
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private state: IStateStore,
+    private wallet: () => Promise<IWalletService>
+  ) {}
+
+  authorize(requirement: PaymentRequirement, context: { competitionId: string; agentId: string; cap: number }): Promise<CallPayment> {
+    const problem = unsupported(requirement);
+    if (problem) {
+      return Promise.reject(new X402PaymentError(problem, 'unsupported'));
+    }
+    const amount = Number(requirement.maxAmountRequired) / 10 ** requirement.asset.decimals;
+
+    return this.exclusive(async () => {
+      const spent = await this.spent(context.competitionId);
+      if (spent + amount > context.cap + 1e-9) {
+        throw new X402PaymentError(
+          `${context.agentId} asks $${formatAmount(amount)} per call; that would take call fees for ${context.competitionId} ` +
+            `past the $${formatAmount(context.cap)} cap ($${formatAmount(spent)} spent)`,
+          'cap_exceeded'
+        );
+      }
+
+      let wallet: IWalletService;
+      try {
+        wallet = await this.wallet();
+      } catch (error) {
+        throw new X402PaymentError(`No wallet to pay ${context.agentId} with: ${error instanceof Error ? error.message : error}`, 'no_wallet');
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const authorization: TransferAuthorization = {
+        from: await wallet.getAddress(),
+        to: requirement.payee,
+        value: requirement.maxAmountRequired,
+        validAfter: String(now - VALID_AFTER_SKEW_SECONDS),
+        validBefore: String(now + (requirement.maxTimeoutSeconds ?? config.x402.maxTimeoutSeconds)),
+        nonce: `0x${randomBytes(32).toString('hex')}`,
+      };
+      const signature = await wallet.signTypedData({
+        domain: {
+          name: requirement.extra?.name ?? config.x402.usdcName,
+          version: requirement.extra?.version ?? config.x402.usdcVersion,
+          chainId: CHAIN_IDS[requirement.network],
+          verifyingContract: requirement.asset.address,
+        },
+        types: { TransferWithAuthorization: [...TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization] },
+        primaryType: 'TransferWithAuthorization',
+        message: {
+          ...authorization,
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+        },
+      });
+
+      // Saved before the agent sees it, so it counts against the cap from now on
+      const record: PaymentRecord = {
+        id: nanoid(),
+        competitionId: context.competitionId,
+        agentId: context.agentId,
+        walletAddress: requirement.payee,
+        amount,
+        txHash: '',
+        status: 'pending',
+        network: requirement.network,
+        createdAt: Date.now(),
+        kind: 'call',
+        reason: requirement.description || `Call fee for ${requirement.resource}`,
+      };
+      await this.state.savePaymentRecord(record);
+      console.log(`[X402Payer] Authorized $${formatAmount(amount)} to ${context.agentId} for ${requirement.resource}`);
+
+      const header = encodePaymentHeader({
+        x402Version: X402_VERSION,
+        scheme: 'exact',
+        network: requirement.network,
+        payload: { signature, authorization },
+      });
+      return { header, record };
+    });
+  }
+
+  async complete(payment: CallPayment, outcome: { status?: number; paymentResponse?: string; error?: string }): Promise<PaymentRecord> {
+    let updates: Partial<PaymentRecord>;
+    if (outcome.status === undefined) {
+      // The agent may have the authorization even without answering; it stays counted against the cap
+      updates = { error: `No answer after paying: ${outcome.error ?? 'unknown error'}` };
+    } else if (outcome.status === 402) {
+      updates = { status: 'failed', error: outcome.error ?? 'Payment refused' };
+      console.warn(`[X402Payer] ${payment.record.agentId} refused the payment: ${updates.error}`);
+    } else {
+      const txHash = settledTransaction(outcome.paymentResponse);
+      if (txHash && outcome.status >= 200 && outcome.status < 300) {
+        updates = { status: 'confirmed', confirmedAt: Date.now(), txHash };
+      } else {
+        // Not known to be paid or refused: it stays pending, counted against the cap
+        updates = {
+          txHash: txHash ?? '',
+          error: txHash ? `Settled, but the call failed with HTTP ${outcome.status}` : `No settlement transaction (HTTP ${outcome.status})`,
+        };
+        console.warn(`[X402Payer] Payment to ${payment.record.agentId} left pending: ${updates.error}`);
+      }
+    }
+
+    await this.state.updatePaymentRecord(payment.record.id, updates);
+    return { ...payment.record, ...updates };
+  }
+
+  /**
+   * Call fees of a competition that may have been paid (refused ones don't count)
+   */
+  private async spent(competitionId: string): Promise<number> {
+    const records = await this.state.getPaymentsByCompetition(competitionId);
+    return records
+      .filter((r) => r.kind === 'call' && r.status !== 'failed')
+      .reduce((sum, r) => sum + r.amount, 0);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Read the PaymentRequirement from a 402 response: the X-Payment-Required header, or the JSON body
+ */
+export async function readPaymentRequirement(response: Response): Promise<PaymentRequirement> {
+  const header = response.headers.get('x-payment-required');
+  if (header) {
+    try {
+      return JSON.parse(Buffer.from(header, 'base64').toString('utf-8')) as PaymentRequirement;
+    } catch {
+      // Fall back to the body
+    }
+  }
+
+  const body = (await response.json().catch(() => null)) as { paymentRequirement?: PaymentRequirement } | null;
+  if (!body?.paymentRequirement) {
+    throw new X402PaymentError('402 response without a payment requirement', 'unsupported');
+  }
+  return body.paymentRequirement;
+}
+
+/**
+ * Only USDC on our own network is paid for
+ */
+function unsupported(requirement: PaymentRequirement): string | null {
+  if (requirement.scheme !== 'exact') {
+    return `Unsupported payment scheme ${requirement.scheme}`;
+  }
+  if (requirement.network !== config.x402.network) {
+    return `Payment asked on ${requirement.network}, wallet is on ${config.x402.network}`;
+  }
+  if (requirement.asset?.address?.toLowerCase() !== config.x402.usdcAddress.toLowerCase()) {
+    return `Payment asked in ${requirement.asset?.symbol ?? 'an unknown token'} (${requirement.asset?.address}), not USDC`;
+  }
+  if (!/^\d+$/.test(requirement.maxAmountRequired ?? '')) {
+    return `Unreadable amount ${requirement.maxAmountRequired}`;
+  }
+  return null;
+}
+
+/**
+ * Transaction hash from an X-PAYMENT-RESPONSE header, if the agent settled right away
+ */
+function settledTransaction(paymentResponse?: string): string | undefined {
+  if (!paymentResponse) return undefined;
+  try {
+    const settlement = JSON.parse(Buffer.from(paymentResponse, 'base64').toString('utf-8')) as { transaction?: string };
+    return settlement.transaction || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(4);
+}
@@ -0,0 +1,353 @@
+/**
+ * X402 Verifier
+ * Checks an x402 "exact" payment locally: the X-PAYMENT header carries an
+ * EIP-3009 transferWithAuthorization signed by the payer, which the payee can
+ * submit to the USDC contract. The signer is recovered from the EIP-712 typed
+ * data and the authorization is matched against the PaymentRequirement
+ * (payee, amount, asset, validity window), then its nonce is claimed so the
+ * same payment is never accepted twice. A facilitator, if configured, is asked
+ * as well, but an unreachable one never turns a failed check into a pass.
+ * A payment is only accepted once it is settled: by the facilitator, or by
+ * submitting the authorization from the settler wallet. With neither, the
+ * payer's USDC balance must cover it and the authorization is left unsettled.
+ */
+
+import {
+  createPublicClient,
+  encodeFunctionData,
+  getAddress,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  parseSignature,
+  recoverTypedDataAddress,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+import { config } from '../config.js';
+import type { INonceStore } from '../types/services.js';
+import type { ExactPaymentPayload, PaymentRequirement, PaymentVerification, TransferAuthorization } from '../types/index.js';
+import { ViemWalletService } from './wallet/viem-wallet.js';
+import type { IWalletService } from './wallet/types.js';
+
+export const X402_VERSION = 1;
+
+// EIP-3009 typed data, as signed by the payer's wallet
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+export const CHAIN_IDS: Record<string, number> = {
+  base: 8453,
+  'base-sepolia': 84532,
+};
+
+// What settling an authorization needs from the USDC contract
+const USDC_SETTLEMENT_ABI = [
+  {
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+// An authorization about to expire could lapse before the payee submits it
+const EXPIRY_MARGIN_SECONDS = 6;
+
+// A settlement waits for the transfer to be mined
+const SETTLE_TIMEOUT_MS = 60000;
+
+export class X402Verifier {
+  private clients = new Map<string, PublicClient>();
+
+  constructor(
+    private nonces: INonceStore,
+    private facilitatorUrl: string = config.x402.facilitatorUrl,
+    private settler: IWalletService | null = config.x402.settlerPrivateKey
+      ? new ViemWalletService(config.x402.settlerPrivateKey, config.x402.network)
+      : null
+  ) {}
+
+  async verify(paymentHeader: string, requirement: PaymentRequirement): Promise<PaymentVerification> {
+    let payment: ExactPaymentPayload;
+    try {
+      payment = decodePaymentHeader(paymentHeader);
+    } catch (error) {
+      return invalid(error instanceof Error ? error.message : 'Malformed payment header');
+    }
+
+    const checked = await checkAuthorization(payment, requirement);
+    if (!checked.valid) {
+      return checked;
+    }
+
+    if (this.facilitatorUrl) {
+      const rejection = await this.askFacilitator(payment, requirement);
+      if (rejection) {
+        return invalid(rejection);
+      }
+    }
+
+    const { authorization } = payment.payload;
+    const fresh = await this.nonces.claim(requirement.payee, authorization.from, authorization.nonce, Number(authorization.validBefore));
+    if (!fresh) {
+      return invalid(`Authorization ${authorization.nonce.slice(0, 10)}... from ${authorization.from} was already used`);
+    }
+
+    const settlement = await this.settle(payment, requirement);
+    if (settlement.problem) {
+      return invalid(settlement.problem);
+    }
+    return { ...checked, transaction: settlement.transaction };
+  }
+
+  /**
+   * Move the authorized funds: through the facilitator's /settle, or by submitting
+   * transferWithAuthorization from the settler wallet. With neither, only the payer's
+   * balance is checked, and the authorization is left for the payee to submit.
+   */
+  private async settle(payment: ExactPaymentPayload, requirement: PaymentRequirement): Promise<{ transaction?: string; problem?: string }> {
+    const { authorization, signature } = payment.payload;
+    try {
+      if (this.facilitatorUrl) {
+        const response = await fetch(`${this.facilitatorUrl}/settle`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ x402Version: payment.x402Version, paymentPayload: payment, paymentRequirements: requirement }),
+          signal: AbortSignal.timeout(SETTLE_TIMEOUT_MS),
+        });
+        const result = (await response.json().catch(() => null)) as { success?: boolean; transaction?: string; errorReason?: string } | null;
+        if (!response.ok || !result?.success || !result.transaction) {
+          return { problem: `Facilitator did not settle the payment: ${result?.errorReason ?? `HTTP ${response.status}`}` };
+        }
+        console.log(`[X402] Settled by the facilitator: ${result.transaction}`);
+        return { transaction: result.transaction };
+      }
+
+      if (this.settler) {
+        const { r, s, v, yParity } = parseSignature(signature as Hex);
+        // Sent and mined, or it throws
+        const transaction = await this.settler.sendTransaction({
+          to: getAddress(requirement.asset.address),
+          data: encodeFunctionData({
+            abi: USDC_SETTLEMENT_ABI,
+            functionName: 'transferWithAuthorization',
+            args: [
+              authorization.from as Hex,
+              authorization.to as Hex,
+              BigInt(authorization.value),
+              BigInt(authorization.validAfter),
+              BigInt(authorization.validBefore),
+              authorization.nonce as Hex,
+              v !== undefined ? Number(v) : yParity + 27,
+              r,
+              s,
+            ],
+          }),
+        });
+        console.log(`[X402] Settled: ${transaction}`);
+        return { transaction };
+      }
+
+      const balance = await this.client(requirement.network).readContract({
+        address: getAddress(requirement.asset.address),
+        abi: USDC_SETTLEMENT_ABI,
+        functionName: 'balanceOf',
+        args: [authorization.from as Hex],
+      });
+      if (balance < BigInt(authorization.value)) {
+        return { problem: `Payer ${authorization.from} holds ${balance}, less than the ${authorization.value} authorized` };
+      }
+      return {};
+    } catch (error) {
+      return { problem: `Payment could not be settled: ${error instanceof Error ? error.message.split('\n')[0] : error}` };
+    }
+  }
+
+  private client(network: string): PublicClient {
+    let client = this.clients.get(network);
+    if (!client) {
+      client = createPublicClient({ chain: network === 'base' ? base : baseSepolia, transport: http() }) as PublicClient;
+      this.clients.set(network, client);
+    }
+    return client;
+  }
+
+  /**
+   * The facilitator's objection, if it has one
+   */
+  private async askFacilitator(payment: ExactPaymentPayload, requirement: PaymentRequirement): Promise<string | null> {
+    try {
+      const response = await fetch(`${this.facilitatorUrl}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ x402Version: payment.x402Version, paymentPayload: payment, paymentRequirements: requirement }),
+        signal: AbortSignal.timeout(10000),
+      });
+      if (!response.ok) {
+        // A facilitator that can't answer is not a reason to refuse a payment we verified ourselves
+        console.warn(`[X402] Facilitator returned ${response.status}, relying on local verification`);
+        return null;
+      }
+
+      const result = (await response.json()) as { isValid?: boolean; invalidReason?: string };
+      return result.isValid === false ? `Facilitator rejected payment: ${result.invalidReason ?? 'no reason given'}` : null;
+    } catch (error) {
+      console.warn('[X402] Facilitator unavailable, relying on local verification:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Everything about the payment except whether its nonce is fresh
+ */
+export async function checkAuthorization(payment: ExactPaymentPayload, requirement: PaymentRequirement): Promise<PaymentVerification> {
+  if (payment.scheme !== 'exact' || requirement.scheme !== 'exact') {
+    return invalid(`Unsupported scheme ${payment.scheme}`);
+  }
+  if (payment.network !== requirement.network) {
+    return invalid(`Payment is for ${payment.network}, expected ${requirement.network}`);
+  }
+  const chainId = CHAIN_IDS[requirement.network];
+  if (!chainId) {
+    return invalid(`Unsupported network ${requirement.network}`);
+  }
+
+  const { signature, authorization } = payment.payload;
+  const shape = authorizationProblem(authorization);
+  if (shape || !isHex(signature)) {
+    return invalid(shape ?? 'Signature is not hex');
+  }
+
+  if (!isAddress(requirement.payee) || !isAddressEqual(authorization.to as Hex, requirement.payee)) {
+    return invalid(`Payment is to ${authorization.to}, expected ${requirement.payee}`);
+  }
+
+  const value = BigInt(authorization.value);
+  const required = BigInt(requirement.maxAmountRequired);
+  if (value < required) {
+    return invalid(`Payment of ${value} is less than the required ${required}`);
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const validAfter = BigInt(authorization.validAfter);
+  const validBefore = BigInt(authorization.validBefore);
+  if (validAfter > now) {
+    return invalid('Authorization is not valid yet');
+  }
+  if (validBefore < now + BigInt(EXPIRY_MARGIN_SECONDS)) {
+    return invalid('Authorization has expired');
+  }
+  const maxTimeout = requirement.maxTimeoutSeconds ?? config.x402.maxTimeoutSeconds;
+  if (validBefore - now > BigInt(maxTimeout) + BigInt(EXPIRY_MARGIN_SECONDS)) {
+    return invalid(`Authorization is valid for longer than ${maxTimeout}s`);
+  }
+
+  // The asset is the verifying contract, so a signature for any other token recovers someone else
+  let signer: string;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain: {
+        name: requirement.extra?.name ?? config.x402.usdcName,
+        version: requirement.extra?.version ?? config.x402.usdcVersion,
+        chainId,
+        verifyingContract: getAddress(requirement.asset.address),
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: authorization.from as Hex,
+        to: authorization.to as Hex,
+        value,
+        validAfter,
+        validBefore,
+        nonce: authorization.nonce as Hex,
+      },
+      signature,
+    });
+  } catch (error) {
+    return invalid(`Invalid signature: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+  if (!isAddressEqual(signer as Hex, authorization.from as Hex)) {
+    return invalid(`Signature is from ${signer}, not the payer ${authorization.from}`);
+  }
+
+  return {
+    valid: true,
+    payer: getAddress(authorization.from),
+    amount: Number(value) / 10 ** requirement.asset.decimals,
+    nonce: authorization.nonce,
+  };
+}
+
+/**
+ * Decode a base64 X-PAYMENT header. Throws if it isn't an x402 payment.
+ */
+export function decodePaymentHeader(paymentHeader: string): ExactPaymentPayload {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf-8'));
+  } catch {
+    throw new Error('Payment header is not base64-encoded JSON');
+  }
+
+  const payment = decoded as Partial<ExactPaymentPayload> | null;
+  if (!payment || typeof payment !== 'object' || !payment.payload?.authorization || typeof payment.payload.signature !== 'string') {
+    throw new Error('Payment header has no signed authorization');
+  }
+  return payment as ExactPaymentPayload;
+}
+
+export function encodePaymentHeader(payment: ExactPaymentPayload): string {
+  return Buffer.from(JSON.stringify(payment)).toString('base64');
+}
+
+function authorizationProblem(authorization: TransferAuthorization): string | null {
+  for (const field of ['from', 'to'] as const) {
+    if (typeof authorization[field] !== 'string' || !isAddress(authorization[field])) {
+      return `Authorization ${field} is not an address`;
+    }
+  }
+  for (const field of ['value', 'validAfter', 'validBefore'] as const) {
+    if (typeof authorization[field] !== 'string' || !/^\d+$/.test(authorization[field])) {
+      return `Authorization ${field} is not an integer`;
+    }
+  }
+  if (typeof authorization.nonce !== 'string' || !isHex(authorization.nonce) || authorization.nonce.length !== 66) {
+    return 'Authorization nonce is not 32 bytes of hex';
+  }
+  return null;
+}
+
+function invalid(reason: string): PaymentVerification {
+  return { valid: false, reason };
+}
@@ -8,7 +8,8 @@ import { Leaderboard } from './components/Leaderboard.js';
 import { useCompetition } from './hooks/useCompetition.js';
 import { createServices } from '../services/index.js';
 import { Orchestrator } from '../orchestrator/orchestrator.js';
-import type { Competition, Issue } from '../types/index.js';
+import { CompetitionQueue } from '../orchestrator/queue.js';
+import type { Competition, Issue, AuctionMode } from '../types/index.js';
 
 type ViewState = 'menu' | 'competition' | 'results' | 'history' | 'leaderboard';
 
@@ -17,9 +18,30 @@ export function App() {
   const { competition, setCompetition } = useCompetition();
   const [competitionId, setCompetitionId] = useState<string | null>(null);
 
-  // Initialize services and orchestrator once
+  // Initialize services, orchestrator and queue once
   const services = useMemo(() => createServices(), []);
   const orchestrator = useMemo(() => new Orchestrator(services), [services]);
+  const queue = useMemo(() => new CompetitionQueue(services, orchestrator), [services, orchestrator]);
+
+  // Confirm sent payouts and retry failed ones while the TUI is open
+  useEffect(() => {
+    services.paymentWorker.start();
+    return () => services.paymentWorker.stop();
+  }, [services]);
+
+  // Pick up competitions a crashed process left unfinished, then start queued ones in the slots left
+  useEffect(() => {
+    orchestrator.resumeInterrupted()
+      .catch((err) => {
+        console.error('[TUI] Failed to resume interrupted competitions:', err);
+      })
+      .then(() => queue.process())
+      .catch((err) => {
+        console.error('[TUI] Queue pass failed:', err);
+      });
+    queue.start();
+    return () => queue.stop();
+  }, [orchestrator, queue]);
 
   // Poll MongoDB for competition updates
   useEffect(() => {
@@ -41,7 +63,7 @@ export function App() {
 
   // Handle starting a new competition with an Issue
   const handleStartCompetition = useCallback(
-    async (issue: Issue) => {
+    async (issue: Issue, auctionMode: AuctionMode) => {
       console.log('[TUI] ========================================');
       console.log('[TUI] handleStartCompetition INVOKED');
       console.log('[TUI] Issue:', issue.repoUrl, '#', issue.number);
@@ -49,21 +71,15 @@ export function App() {
       try {
         console.log('[TUI] Setting view to competition...');
         setCurrentView('competition');
-        console.log('[TUI] Starting competition via Orchestrator...');
-
-        // Call orchestrator which handles:
-        // 1. RAG indexing
-        // 2. Agent execution
-        // 3. Review
-        // 4. Payment
-        const completedCompetition = await orchestrator.startCompetition(
-          issue.repoUrl,
-          issue.number
-        );
-
-        console.log('[TUI] Competition completed:', completedCompetition.id);
-        setCompetitionId(completedCompetition.id);
-        setCompetition(completedCompetition);
+        console.log('[TUI] Queueing competition...');
+
+        // The queue starts it once the concurrency limits allow, and polling follows it
+        // while the orchestrator indexes, auctions, solves, verifies, judges and pays
+        const queued = await queue.enqueue(issue, { auction: { mode: auctionMode } });
+
+        console.log(`[TUI] Competition ${queued.status}:`, queued.id);
+        setCompetitionId(queued.id);
+        setCompetition(queued);
       } catch (err) {
         console.error('[TUI] Competition failed:', err);
         console.error('[TUI] Error details:', err instanceof Error ? err.message : String(err));
@@ -73,14 +89,19 @@ export function App() {
         // For now, just log and stay on current view
       }
     },
-    [orchestrator, setCompetition]
+    [queue, setCompetition]
   );
 
-  // Handle transitioning from competition to results
+  // Handle transitioning from competition to results, or cancelling it while it runs
   useInput(
     (input, key) => {
-      if (currentView === 'competition' && competition?.status === 'completed') {
+      if (currentView !== 'competition' || !competition) return;
+      if (competition.status === 'completed' || competition.status === 'cancelled') {
         setCurrentView('results');
+      } else if (input === 'c') {
+        orchestrator.cancel(competition.id, 'Cancelled from the TUI').catch((err) => {
+          console.error('[TUI] Failed to cancel competition:', err instanceof Error ? err.message : err);
+        });
       }
     },
     { isActive: currentView === 'competition' }
@@ -118,6 +139,8 @@ export function App() {
       {currentView === 'menu' && (
         <MainMenu
           githubService={services.github}
+          ragService={services.rag}
+          pricingService={services.pricing}
           onStartCompetition={handleStartCompetition}
           onViewHistory={handleViewHistory}
           onViewLeaderboard={handleViewLeaderboard}
@@ -147,6 +170,7 @@ export function App() {
       {currentView === 'leaderboard' && (
         <Leaderboard
           stateService={services.state}
+          agentRegistry={services.agents}
           onBack={handleBackToMenu}
         />
       )}
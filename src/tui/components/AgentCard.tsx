@@ -23,6 +23,7 @@ function getStatusColor(status: AgentStatus['status']): string {
     case 'done':
       return 'green';
     case 'failed':
+    case 'timed_out':
       return 'red';
     default:
       return 'white';
@@ -39,6 +40,8 @@ function getStatusText(status: AgentStatus['status']): string {
       return 'Complete';
     case 'failed':
       return 'Failed';
+    case 'timed_out':
+      return 'Timed Out';
     default:
       return 'Unknown';
   }
@@ -97,10 +100,24 @@ export function AgentCard({ agent, isWinner = false }: AgentCardProps) {
         </Box>
       )}
 
+      {/* Build/test verification */}
+      {agent.verification && (
+        <Box marginTop={1}>
+          <Text dimColor>Build: </Text>
+          <Text color={agent.verification.buildPassed ? 'green' : 'red'}>
+            {agent.verification.buildPassed ? 'pass' : 'fail'}
+          </Text>
+          <Text dimColor> Tests: </Text>
+          <Text color={agent.verification.testsPassed === null ? 'gray' : agent.verification.testsPassed ? 'green' : 'red'}>
+            {agent.verification.testsPassed === null ? 'n/a' : agent.verification.testsPassed ? 'pass' : 'fail'}
+          </Text>
+        </Box>
+      )}
+
       {/* Error indicator for failed status */}
-      {agent.status === 'failed' && (
+      {(agent.status === 'failed' || agent.status === 'timed_out') && (
         <Box marginTop={1}>
-          <Text color="red">Error occurred</Text>
+          <Text color="red">{agent.error ? agent.error.slice(0, 80) : 'Error occurred'}</Text>
         </Box>
       )}
     </Box>
@@ -10,16 +10,22 @@ interface CompetitionViewProps {
 
 function getStatusDisplay(status: Competition['status']): { text: string; color: string } {
   switch (status) {
+    case 'queued':
+      return { text: 'Queued', color: 'gray' };
     case 'pending':
       return { text: 'Initializing', color: 'gray' };
     case 'running':
       return { text: 'Agents Racing', color: 'yellow' };
+    case 'verifying':
+      return { text: 'Building & Testing Solutions', color: 'blue' };
     case 'judging':
       return { text: 'Reviewing Solutions', color: 'cyan' };
     case 'paying':
       return { text: 'Processing Payment', color: 'magenta' };
     case 'completed':
       return { text: 'Competition Complete', color: 'green' };
+    case 'cancelled':
+      return { text: 'Cancelled', color: 'red' };
     default:
       return { text: 'Unknown', color: 'white' };
   }
@@ -32,8 +38,9 @@ function truncateText(text: string, maxLength: number): string {
 
 export function CompetitionView({ competition }: CompetitionViewProps) {
   const statusDisplay = getStatusDisplay(competition.status);
-  const isRunning = competition.status === 'running' || competition.status === 'judging' || competition.status === 'paying';
-  const completedAgents = competition.agents.filter((a) => a.status === 'done' || a.status === 'failed').length;
+  const isRunning = competition.status === 'running' || competition.status === 'verifying' || competition.status === 'judging' || competition.status === 'paying';
+  const completedAgents = competition.agents.filter((a) => a.status === 'done' || a.status === 'failed' || a.status === 'timed_out').length;
+  const isFinished = competition.status === 'completed' || competition.status === 'cancelled';
   const totalAgents = competition.agents.length;
 
   return (
@@ -72,6 +79,20 @@ export function CompetitionView({ competition }: CompetitionViewProps) {
             ${competition.bountyAmount} USDC
           </Text>
         </Box>
+        {competition.auction && (
+          <Box>
+            <Text dimColor>Auction: </Text>
+            <Text color="magenta">{competition.auction.config.mode}</Text>
+            <Text dimColor> - {competition.auction.summary}</Text>
+          </Box>
+        )}
+        {competition.escalations?.map((e) => (
+          <Box key={e.round}>
+            <Text dimColor>Escalated: </Text>
+            <Text color="yellow">${e.fromPrice} → ${e.toPrice}</Text>
+            <Text dimColor> - {e.reason}</Text>
+          </Box>
+        ))}
       </Box>
 
       {/* Competition Status */}
@@ -121,12 +142,21 @@ export function CompetitionView({ competition }: CompetitionViewProps) {
         </Box>
       )}
 
+      {/* Why it was cancelled */}
+      {competition.status === 'cancelled' && competition.error && (
+        <Box marginTop={2} justifyContent="center">
+          <Text color="red">{competition.error} - bounty refunded</Text>
+        </Box>
+      )}
+
       {/* Instructions */}
       <Box marginTop={2} justifyContent="center">
         <Text dimColor>
-          {competition.status === 'completed'
+          {isFinished
             ? 'Press any key to view detailed results'
-            : 'Competition in progress...'}
+            : competition.status === 'paying'
+              ? 'Competition in progress...'
+              : 'Competition in progress... (c to cancel)'}
         </Text>
       </Box>
     </Box>
@@ -96,7 +96,7 @@ export function HistoryView({ stateService, onBack, onSelectCompetition }: Histo
                   <Text color={isSelected ? 'cyan' : 'gray'}>{isSelected ? '>' : ' '}</Text>
                 </Box>
                 <Box width={20}>
-                  <Text color={comp.status === 'completed' ? 'green' : 'yellow'}>
+                  <Text color={comp.status === 'completed' ? 'green' : comp.status === 'cancelled' ? 'red' : 'yellow'}>
                     {comp.status === 'completed' ? 'Done' : comp.status}
                   </Text>
                 </Box>
@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import type { Competition } from '../../types/index.js';
-import type { IStateStore } from '../../types/services.js';
-import { config } from '../../config.js';
+import type { IStateStore, IAgentRegistry } from '../../types/services.js';
 
 interface LeaderboardProps {
   stateService: IStateStore;
+  agentRegistry: IAgentRegistry;
   onBack: () => void;
 }
 
@@ -19,7 +19,7 @@ interface AgentStats {
   competitions: number;
 }
 
-export function Leaderboard({ stateService, onBack }: LeaderboardProps) {
+export function Leaderboard({ stateService, agentRegistry, onBack }: LeaderboardProps) {
   const [stats, setStats] = useState<AgentStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,9 +32,9 @@ export function Leaderboard({ stateService, onBack }: LeaderboardProps) {
         const competitions = await stateService.listCompetitions();
         const completedComps = competitions.filter((c) => c.status === 'completed');
 
-        // Initialize stats for all configured agents
+        // Initialize stats for all registered agents
         const agentStats: Record<string, AgentStats> = {};
-        for (const agent of config.agents) {
+        for (const agent of await agentRegistry.list()) {
           agentStats[agent.id] = {
             id: agent.id,
             name: agent.name,
@@ -94,7 +94,7 @@ export function Leaderboard({ stateService, onBack }: LeaderboardProps) {
       }
     }
     loadStats();
-  }, [stateService]);
+  }, [stateService, agentRegistry]);
 
   useInput((input, key) => {
     if (key.escape || input === 'q') {
@@ -2,26 +2,35 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
-import type { Issue } from '../../types/index.js';
-import type { IGitHubService } from '../../types/services.js';
+import type { Issue, AuctionMode, BountyEstimate } from '../../types/index.js';
+import type { IGitHubService, IRAGService, IBountyPricer, IndexedRepo } from '../../types/services.js';
+import { config } from '../../config.js';
+
+const AUCTION_MODES: AuctionMode[] = ['sealed-bid', 'reverse-dutch', 'vickrey'];
 
 interface MainMenuProps {
   githubService: IGitHubService;
-  onStartCompetition: (issue: Issue) => void | Promise<void>;
+  ragService?: IRAGService;
+  pricingService?: IBountyPricer;
+  onStartCompetition: (issue: Issue, auctionMode: AuctionMode) => void | Promise<void>;
   onViewHistory?: () => void;
   onViewLeaderboard?: () => void;
 }
 
 type Screen = 'loading' | 'repo' | 'issues' | 'create-issue';
 
-export function MainMenu({ githubService, onStartCompetition, onViewHistory, onViewLeaderboard }: MainMenuProps) {
+export function MainMenu({ githubService, ragService, pricingService, onStartCompetition, onViewHistory, onViewLeaderboard }: MainMenuProps) {
   const [screen, setScreen] = useState<Screen>('loading');
   const [repoUrl, setRepoUrl] = useState('');
   const [recentRepos, setRecentRepos] = useState<string[]>([]);
+  const [indexedRepos, setIndexedRepos] = useState<IndexedRepo[]>([]);
   const [issues, setIssues] = useState<Issue[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [auctionMode, setAuctionMode] = useState<AuctionMode>(config.auction.mode);
+  // Suggested bounties by issue number, priced as the cursor reaches each issue
+  const [estimates, setEstimates] = useState<Record<number, BountyEstimate | null>>({});
 
   // New issue form
   const [newIssueTitle, setNewIssueTitle] = useState('');
@@ -31,12 +40,15 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
   // Load current repo on mount
   useEffect(() => {
     async function init() {
-      const [currentRepo, recent] = await Promise.all([
+      const [currentRepo, recent, indexed] = await Promise.all([
         githubService.getCurrentRepo(),
         githubService.getRecentRepos(),
+        // The index listing is informational - never block the menu on it
+        ragService?.listIndexedRepos().catch(() => []) ?? Promise.resolve([]),
       ]);
 
       setRecentRepos(recent);
+      setIndexedRepos(indexed);
 
       if (currentRepo) {
         setRepoUrl(currentRepo);
@@ -51,12 +63,30 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
     init();
   }, []);
 
+  // Price the highlighted issue once (null while pricing); a failed estimate just isn't shown
+  const highlightedIssue = screen === 'issues' ? issues[selectedIndex] : undefined;
+  useEffect(() => {
+    if (!pricingService || !highlightedIssue || highlightedIssue.number in estimates) return;
+    const { number } = highlightedIssue;
+    setEstimates((prev) => ({ ...prev, [number]: null }));
+    pricingService
+      .estimate(highlightedIssue)
+      .then((estimate) => setEstimates((prev) => ({ ...prev, [number]: estimate })))
+      .catch(() =>
+        setEstimates((prev) => {
+          const { [number]: _failed, ...rest } = prev;
+          return rest;
+        })
+      );
+  }, [highlightedIssue]);
+
   const loadIssues = async (repo: string) => {
     setIsLoading(true);
     setError(null);
     try {
       const fetchedIssues = await githubService.listIssues(repo, 10);
       setIssues(fetchedIssues);
+      setEstimates({});
       setScreen('issues');
       await githubService.addRecentRepo(repo);
     } catch (err) {
@@ -83,7 +113,7 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
       );
       console.log('[MainMenu] Issue created:', issue.number);
       console.log('[MainMenu] Calling onStartCompetition for new issue...');
-      onStartCompetition(issue);
+      onStartCompetition(issue, auctionMode);
       console.log('[MainMenu] onStartCompetition called for new issue');
     } catch (err) {
       console.error('[MainMenu] Failed to create issue:', err);
@@ -113,9 +143,11 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
         } else if (issues[selectedIndex]) {
           console.log('[MainMenu] User selected issue:', issues[selectedIndex].number);
           console.log('[MainMenu] Calling onStartCompetition...');
-          onStartCompetition(issues[selectedIndex]);
+          onStartCompetition(issues[selectedIndex], auctionMode);
           console.log('[MainMenu] onStartCompetition called');
         }
+      } else if (input === 'a' || input === 'A') {
+        setAuctionMode(AUCTION_MODES[(AUCTION_MODES.indexOf(auctionMode) + 1) % AUCTION_MODES.length]);
       } else if (input === 'r' || input === 'R') {
         setScreen('repo');
       } else if (input === 'n' || input === 'N') {
@@ -178,6 +210,17 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
           </Box>
         )}
 
+        {indexedRepos.length > 0 && (
+          <Box flexDirection="column" marginTop={2}>
+            <Text dimColor>Indexed:</Text>
+            {indexedRepos.slice(0, 5).map((entry) => (
+              <Text key={`${entry.repoUrl}@${entry.commitId}`} dimColor>
+                {'  '}{entry.repoUrl} @ {entry.commitId.slice(0, 8)} ({entry.chunks} chunks)
+              </Text>
+            ))}
+          </Box>
+        )}
+
         {error && (
           <Box marginTop={1}>
             <Text color="red">{error}</Text>
@@ -193,6 +236,10 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
 
   // Issue selection screen
   if (screen === 'issues') {
+    // Listing is newest first, so the first match is the latest indexed commit
+    const currentIndex = indexedRepos.find((entry) => entry.repoUrl === repoUrl);
+    const estimate = highlightedIssue ? estimates[highlightedIssue.number] : undefined;
+
     return (
       <Box flexDirection="column" padding={2}>
         <Header />
@@ -203,6 +250,23 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
           <Text dimColor> (press 'r' to change)</Text>
         </Box>
 
+        <Box>
+          <Text dimColor>Index: </Text>
+          {currentIndex ? (
+            <Text color="green">
+              {currentIndex.commitId.slice(0, 8)} ({currentIndex.chunks} chunks)
+            </Text>
+          ) : (
+            <Text color="yellow">not indexed yet</Text>
+          )}
+        </Box>
+
+        <Box>
+          <Text dimColor>Auction: </Text>
+          <Text color="magenta">{auctionMode}</Text>
+          <Text dimColor> (press 'a' to change)</Text>
+        </Box>
+
         <Box flexDirection="column" marginTop={2}>
           <Text bold>Select an issue or create new:</Text>
 
@@ -221,6 +285,27 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
               ))
             )}
 
+            {/* Suggested bounty for the highlighted issue */}
+            {estimate && (
+              <Box flexDirection="column" marginTop={1} marginLeft={2}>
+                <Box>
+                  <Text dimColor>Suggested bounty: </Text>
+                  <Text color="green" bold>${estimate.amount}</Text>
+                  <Text dimColor>
+                    {' '}(${estimate.low}-${estimate.high}, {Math.round(estimate.confidence * 100)}% confidence)
+                  </Text>
+                </Box>
+                <Text dimColor wrap="truncate-end">{estimate.explanation}</Text>
+              </Box>
+            )}
+            {estimate === null && (
+              <Box marginTop={1} marginLeft={2}>
+                <Text dimColor>
+                  <Spinner type="dots" /> Pricing issue...
+                </Text>
+              </Box>
+            )}
+
             {/* Create new issue option */}
             <Box marginTop={1}>
               <Text color={selectedIndex === issues.length ? 'cyan' : 'yellow'}>
@@ -233,7 +318,7 @@ export function MainMenu({ githubService, onStartCompetition, onViewHistory, onV
 
         <Box marginTop={2} flexDirection="column">
           <Text dimColor>↑↓ select | ENTER confirm | N new issue | R change repo</Text>
-          <Text dimColor>H history | L leaderboard</Text>
+          <Text dimColor>A auction mode | H history | L leaderboard</Text>
         </Box>
       </Box>
     );
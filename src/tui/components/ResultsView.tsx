@@ -81,7 +81,7 @@ export function ResultsView({ competition, githubService, onNewCompetition }: Re
       );
       setPrUrl(url);
     } catch (err) {
-      setPrError('Failed to create PR');
+      setPrError(err instanceof Error ? err.message : 'Failed to create PR');
     } finally {
       setIsCreatingPR(false);
     }
@@ -206,6 +206,23 @@ export function ResultsView({ competition, githubService, onNewCompetition }: Re
             <Text color="cyan">{competition.paymentTxHash.slice(0, 20)}...</Text>
           </Box>
         )}
+        {competition.paymentRecords && competition.paymentRecords.length > 1 && (
+          <Box flexDirection="column" marginTop={1}>
+            <Text dimColor>Split ({competition.payoutPolicy?.kind ?? 'payout'}):</Text>
+            {competition.paymentRecords.map((record) => (
+              <Box key={record.id}>
+                <Text>  {record.agentId} </Text>
+                <Text dimColor>({record.role ?? 'winner'}) </Text>
+                <Text color="green">${record.amount.toFixed(4)} </Text>
+                {record.status === 'failed' ? (
+                  <Text color="red">{record.error ?? 'failed'}</Text>
+                ) : (
+                  <Text color="cyan">{record.txHash.slice(0, 14)}...</Text>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
       </Box>
 
       {/* PR Status */}
@@ -246,6 +263,19 @@ export function ResultsView({ competition, githubService, onNewCompetition }: Re
           <Text color="yellow" bold>
             Winning Solution
           </Text>
+          {winner.solution.patch && (
+            <Box marginTop={1} flexDirection="column">
+              {winner.solution.patch.files.map((file) => (
+                <Box key={file.path}>
+                  <Text color="cyan">{file.path}</Text>
+                  <Text dimColor> ({file.status}) </Text>
+                  <Text color="green">+{file.additions}</Text>
+                  <Text> </Text>
+                  <Text color="red">-{file.deletions}</Text>
+                </Box>
+              ))}
+            </Box>
+          )}
           <Box marginTop={1} flexDirection="column">
             <Text dimColor>
               {winner.solution.code.slice(0, 500)}
@@ -355,9 +385,18 @@ export function ResultsView({ competition, githubService, onNewCompetition }: Re
                 </Box>
                 <Box gap={2}>
                   <Text dimColor>{time}</Text>
+                  {agent.verification && (
+                    <Text color={agent.verification.buildPassed ? (agent.verification.testsPassed === false ? 'yellow' : 'green') : 'red'}>
+                      {!agent.verification.buildPassed
+                        ? 'BUILD FAILED'
+                        : agent.verification.testsPassed === false
+                          ? 'TESTS FAILED'
+                          : 'VERIFIED'}
+                    </Text>
+                  )}
                   {score && <Text color="cyan">Score: {score.score}</Text>}
-                  <Text color={success ? 'green' : agent.status === 'failed' ? 'red' : 'yellow'}>
-                    {success ? 'SUCCESS' : agent.status === 'failed' ? 'FAILED' : 'NO SOLUTION'}
+                  <Text color={success ? 'green' : agent.status === 'failed' || agent.status === 'timed_out' ? 'red' : 'yellow'}>
+                    {success ? 'SUCCESS' : agent.status === 'failed' ? 'FAILED' : agent.status === 'timed_out' ? 'TIMED OUT' : 'NO SOLUTION'}
                   </Text>
                 </Box>
               </Box>
@@ -1,4 +1,5 @@
-import type { Competition, Solution, AgentStatus, ReviewResult, PaymentRecord } from './index.js';
+import type { Competition, Solution, AgentStatus, ReviewResult, PaymentRecord, VerificationResult, BountyEscalation, AuctionResult, CompetitionPhase } from './index.js';
+import type { RetrievedChunkSummary } from './services.js';
 
 /**
  * Event types for real-time competition updates
@@ -6,7 +7,11 @@ import type { Competition, Solution, AgentStatus, ReviewResult, PaymentRecord }
  */
 export type CompetitionEventType =
   | 'competition:created'
+  | 'competition:queued'
   | 'competition:started'
+  | 'competition:resumed'
+  | 'auction:settled'
+  | 'bounty:escalated'
   | 'rag:indexing'
   | 'rag:progress'
   | 'rag:complete'
@@ -14,10 +19,15 @@ export type CompetitionEventType =
   | 'agent:streaming'
   | 'agent:done'
   | 'agent:failed'
+  | 'agent:timed_out'
+  | 'competition:verifying'
+  | 'agent:verified'
   | 'competition:judging'
   | 'judging:streaming'
   | 'competition:paying'
   | 'competition:completed'
+  | 'competition:cancelled'
+  | 'payment:updated'
   | 'competition:sync';
 
 /**
@@ -49,6 +59,18 @@ export interface CompetitionCreatedEvent extends CompetitionEventBase {
   };
 }
 
+/**
+ * Waiting for a free slot (sent when queued, and again whenever its place in the queue changes)
+ */
+export interface CompetitionQueuedEvent extends CompetitionEventBase {
+  type: 'competition:queued';
+  payload: {
+    position: number;           // 1 = next to start
+    priority: number;
+    running: number;            // Competitions holding a slot right now
+  };
+}
+
 /**
  * Competition started, agents beginning work
  */
@@ -59,6 +81,41 @@ export interface CompetitionStartedEvent extends CompetitionEventBase {
   };
 }
 
+/**
+ * Picked up again after the process running it died; phases up to the checkpoint are not repeated
+ */
+export interface CompetitionResumedEvent extends CompetitionEventBase {
+  type: 'competition:resumed';
+  payload: {
+    phase: CompetitionPhase | null; // Last phase that finished before the interruption
+    resumes: number;
+  };
+}
+
+/**
+ * An auction round settled: who bid what, and who will solve
+ */
+export interface AuctionSettledEvent extends CompetitionEventBase {
+  type: 'auction:settled';
+  payload: {
+    auction: AuctionResult;
+    agents: AgentStatus[];
+    bountyAmount: number;
+  };
+}
+
+/**
+ * Every agent declined, so the bounty ceiling was raised and the work re-offered
+ */
+export interface BountyEscalatedEvent extends CompetitionEventBase {
+  type: 'bounty:escalated';
+  payload: {
+    escalation: BountyEscalation;
+    cap: number;
+    roundsLeft: number;
+  };
+}
+
 /**
  * RAG indexing started
  */
@@ -91,6 +148,7 @@ export interface RAGCompleteEvent extends CompetitionEventBase {
   payload: {
     chunksIndexed?: number;
     chunksFound?: number;
+    chunks?: RetrievedChunkSummary[];
     message: string;
   };
 }
@@ -144,7 +202,39 @@ export interface AgentFailedEvent extends CompetitionEventBase {
 }
 
 /**
- * All agents done, judging phase started
+ * Agent didn't answer within the solve timeout; its call was aborted
+ */
+export interface AgentTimedOutEvent extends CompetitionEventBase {
+  type: 'agent:timed_out';
+  payload: {
+    agentId: string;
+    agentName: string;
+    timeoutMs: number;
+  };
+}
+
+/**
+ * All agents done, verification (build + test) phase started
+ */
+export interface CompetitionVerifyingEvent extends CompetitionEventBase {
+  type: 'competition:verifying';
+  payload: Record<string, never>;
+}
+
+/**
+ * Agent's solution was built and tested in a scratch checkout
+ */
+export interface AgentVerifiedEvent extends CompetitionEventBase {
+  type: 'agent:verified';
+  payload: {
+    agentId: string;
+    agentName: string;
+    verification: VerificationResult;
+  };
+}
+
+/**
+ * All solutions verified, judging phase started
  */
 export interface CompetitionJudgingEvent extends CompetitionEventBase {
   type: 'competition:judging';
@@ -186,13 +276,38 @@ export interface CompetitionCompletedEvent extends CompetitionEventBase {
   };
 }
 
+/**
+ * Stopped before paying out, on request or at its deadline; the bounty is refunded
+ */
+export interface CompetitionCancelledEvent extends CompetitionEventBase {
+  type: 'competition:cancelled';
+  payload: {
+    competition: Competition;
+    reason: string;
+  };
+}
+
+/**
+ * A payout was confirmed on chain, failed, or re-sent (may arrive after competition:completed)
+ */
+export interface PaymentUpdatedEvent extends CompetitionEventBase {
+  type: 'payment:updated';
+  payload: {
+    record: PaymentRecord;
+  };
+}
+
 /**
  * Union type for all competition events
  */
 export type CompetitionEvent =
   | CompetitionSyncEvent
   | CompetitionCreatedEvent
+  | CompetitionQueuedEvent
   | CompetitionStartedEvent
+  | CompetitionResumedEvent
+  | AuctionSettledEvent
+  | BountyEscalatedEvent
   | RAGIndexingEvent
   | RAGProgressEvent
   | RAGCompleteEvent
@@ -200,10 +315,15 @@ export type CompetitionEvent =
   | AgentStreamingEvent
   | AgentDoneEvent
   | AgentFailedEvent
+  | AgentTimedOutEvent
+  | CompetitionVerifyingEvent
+  | AgentVerifiedEvent
   | CompetitionJudgingEvent
   | JudgingStreamingEvent
   | CompetitionPayingEvent
-  | CompetitionCompletedEvent;
+  | CompetitionCompletedEvent
+  | CompetitionCancelledEvent
+  | PaymentUpdatedEvent;
 
 /**
  * WebSocket client messages
@@ -8,15 +8,78 @@ export interface Issue {
   labels: string[];
 }
 
+export type PatchFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+/**
+ * One file touched by a solution patch
+ */
+export interface PatchFile {
+  path: string;
+  oldPath?: string; // Set for renames
+  status: PatchFileStatus;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Validated unified diff produced by an agent
+ */
+export interface SolutionPatch {
+  diff: string;
+  files: PatchFile[];
+  baseCommit?: string; // Commit the patch was checked against
+}
+
 export interface Solution {
   agentId: string;
-  code: string;
+  code: string;       // Raw agent response (diff + explanation)
+  patch?: SolutionPatch;
   timeMs: number;
   success: boolean;
+  error?: string;     // Failure reason, e.g. a malformed patch
+  usage?: TokenUsage; // Tokens the LLM call consumed
+  cost?: number;      // Actual USD spent producing it (usage at the agent's costPerToken)
+}
+
+// An agent's opinion of someone else's fix (POST /review on an agent server)
+export interface SolutionReview {
+  agentId: string;              // The reviewing agent
+  score: number;                // 0-100
+  feedback: string;
+  timeMs: number;
+  success: boolean;
+  error?: string;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+// Tokens consumed by one LLM call, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean; // Provider didn't report usage; counted from text length
 }
 
 export type LLMProvider = 'fireworks' | 'openai' | 'anthropic' | 'google' | 'xai';
 
+export type ProviderCircuitState = 'closed' | 'open' | 'half_open';
+
+// An LLM provider's health as one process sees it (see ProviderGuard)
+export interface ProviderStatus {
+  provider: LLMProvider;
+  circuit: ProviderCircuitState; // open = calls fail fast; half_open = next call is a trial
+  failures: number;             // Consecutive failed requests
+  retryAt?: number;             // While open: when a trial request is let through
+  tokens: number;               // Requests the rate limit allows right now
+}
+
+// What an agent's /health route said
+export interface AgentHealth {
+  reachable: boolean;
+  provider?: ProviderStatus;    // Its LLM provider, when the agent's LLM service tracks it
+}
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -24,26 +87,170 @@ export interface AgentConfig {
   provider: LLMProvider;
   port: number;
   walletAddress?: string;
+  contextWindow: number;        // Model context limit in tokens (prompt + output)
+  languages?: string[];         // Languages the agent takes issues in (e.g. ['typescript', 'python']); all if unset
   // Economics
   costPerToken: number;         // USD cost per token for this model
-  avgTokensPerSolution: number; // Estimated tokens to solve an issue
+  avgTokensPerSolution: number; // Estimated tokens to solve an issue (until the agent has measured its own)
   minimumMargin: number;        // Minimum profit margin (e.g., 0.3 = 30%)
+  callPrices?: CallPrices;      // Per-call fees, charged through x402 when the agent has a wallet
+}
+
+// What an agent charges per call, in USDC (0 = free); bidding through /evaluate is always free
+export interface CallPrices {
+  solve?: number;
+  review?: number;
 }
 
+// Agent entry in the registry: how to reach it and whether it may be invited to bid
+export interface RegisteredAgent extends AgentConfig {
+  url: string;                  // Base URL of the agent server, e.g. http://localhost:3001
+  enabled: boolean;             // Disabled agents stay registered but are never invited
+  selfRegistered?: boolean;     // Announced by the agent itself (evicted when it stops answering /health)
+  lastSeenAt?: number;          // Last successful /health check or announcement
+  providerStatus?: ProviderStatus; // As reported on its last /health; offline while the circuit is open
+  online?: boolean;             // Derived from lastSeenAt and providerStatus when read, never stored
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields accepted when registering or updating an agent
+export type AgentRegistration = Omit<
+  RegisteredAgent,
+  'port' | 'contextWindow' | 'enabled' | 'selfRegistered' | 'lastSeenAt' | 'providerStatus' | 'online' | 'createdAt' | 'updatedAt'
+> & {
+  port?: number;                // Derived from url when omitted
+  contextWindow?: number;       // Defaults to 128k tokens
+  enabled?: boolean;
+};
+
 export interface TaskEvaluation {
   accept: boolean;
   minPrice: number;
   estimatedCost: number;
   reason: string;
+  bidPrice?: number;            // Price the agent asks to solve the issue (its sealed bid)
+  etaMs?: number;               // Estimated time to a solution
+}
+
+// Bidding phase rules, chosen per competition
+// - sealed-bid: every agent submits one price; the lowest bids win and are paid their own bid
+// - reverse-dutch: the offered price rises each round until enough agents accept; all are paid the final price
+// - vickrey: lowest bids win, and all are paid the lowest losing bid (second price)
+export type AuctionMode = 'sealed-bid' | 'reverse-dutch' | 'vickrey';
+
+export interface AuctionConfig {
+  mode: AuctionMode;
+  maxPrice: number;             // Budget ceiling: nothing above this is ever paid
+  maxParticipants: number;      // Agents invited to solve
+  // Reverse Dutch only
+  startPrice?: number;          // First offer (default: a share of maxPrice)
+  stepPercent?: number;         // Price increase per round (0.2 = +20%)
+  minParticipants?: number;     // Stop raising once this many agents accept
+}
+
+// One entry in the bid book
+export interface AuctionBid {
+  agentId: string;
+  round: number;                // Always 1 for sealed modes
+  offeredPrice: number;         // Price on the table when the agent answered
+  bidPrice: number | null;      // Agent's ask (null if it declined or didn't answer)
+  minPrice?: number;            // Agent's floor and cost estimate, as reported
+  estimatedCost?: number;
+  etaMs?: number;
+  accepted: boolean;            // Agent is willing to work at offeredPrice
+  reason: string;
+  at: number;
+}
+
+export interface AuctionResult {
+  config: AuctionConfig;
+  bids: AuctionBid[];           // Every bid from every round
+  participants: string[];       // Agent ids invited to solve, best bid first
+  payouts: Record<string, number>; // What each participant is paid if its solution wins
+  clearingPrice: number | null; // Vickrey: second price, Dutch: final offer, sealed-bid: lowest bid
+  rounds: number;
+  summary: string;
+}
+
+// One input to a bounty suggestion and how it moved the price
+export interface BountyFactor {
+  name: 'labels' | 'description' | 'code' | 'history';
+  multiplier: number;           // Applied to the price so far (1 = no effect)
+  detail: string;
+}
+
+// Suggested bounty for an issue, before any agent has bid
+export interface BountyEstimate {
+  amount: number;               // Suggested bounty (USDC), within the repo's min/max
+  low: number;                  // Confidence range around amount
+  high: number;
+  confidence: number;           // 0-1: how much evidence the estimate rests on
+  difficulty: number;           // Combined label/description/code multiplier (1 = typical issue)
+  factors: BountyFactor[];
+  similarIssues: number;        // Past competitions the history factor drew on
+  explanation: string;
+}
+
+// Raising the ceiling when every agent declines
+// - highest-min-price: re-offer at the highest minimum price an agent quoted
+// - step: raise the ceiling by a fixed percentage per round
+export type EscalationStrategy = 'highest-min-price' | 'step';
+
+export interface EscalationPolicy {
+  strategy: EscalationStrategy;
+  stepPercent: number;          // Raise per round for 'step' (0.5 = +50%), and the fallback when no agent quoted a minimum
+  maxRounds: number;            // Escalation rounds after the first auction
+  cap: number;                  // Highest ceiling ever offered for this issue
+}
+
+// One escalation round in a competition's history
+export interface BountyEscalation {
+  round: number;                // 1 = first re-offer
+  fromPrice: number;
+  toPrice: number;
+  strategy: EscalationStrategy;
+  reason: string;
+  participants: number;         // Agents the re-run auction invited to solve
+  summary: string;              // Auction summary at toPrice
+  at: number;
+}
+
+/**
+ * Outcome of a single build or test command run against a solution
+ */
+export interface CommandResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  logs: string;         // Tail of combined stdout/stderr
+}
+
+/**
+ * Result of applying a solution to a scratch checkout and running the project's checks
+ */
+export interface VerificationResult {
+  agentId: string;
+  applied: boolean;     // Patch applied cleanly to the scratch checkout
+  buildPassed: boolean; // False if the patch didn't apply or the build failed
+  testsPassed: boolean | null; // null when no test command is configured or build failed
+  build?: CommandResult;
+  test?: CommandResult;
+  durationMs: number;
+  error?: string;
 }
 
 export interface AgentStatus {
   id: string;
   name: string;
-  status: 'idle' | 'evaluating' | 'declined' | 'solving' | 'done' | 'failed';
+  status: 'idle' | 'evaluating' | 'declined' | 'solving' | 'done' | 'failed' | 'timed_out';
   solution?: Solution;
   evaluation?: TaskEvaluation;
+  verification?: VerificationResult;
   declineReason?: string;
+  error?: string;
   startedAt?: number;
   completedAt?: number;
 }
@@ -51,22 +258,95 @@ export interface AgentStatus {
 export interface Competition {
   id: string;
   issue: Issue;
-  bountyAmount: number;
-  status: 'pending' | 'running' | 'judging' | 'paying' | 'completed';
+  bountyAmount: number;         // Budget while bidding; the winner's payout once it is known
+  bountyEstimate?: BountyEstimate; // How the starting bounty was priced
+  status: 'queued' | 'pending' | 'running' | 'verifying' | 'judging' | 'paying' | 'completed' | 'cancelled';
   agents: AgentStatus[];
+  auction?: AuctionResult;
+  escalations?: BountyEscalation[]; // Ceiling raises after every agent declined, oldest first
   winner?: string;
   reviewResult?: ReviewResult;
-  paymentTxHash?: string;
+  paymentTxHash?: string;       // Winner's payment
   paymentError?: string;
-  paymentRecord?: PaymentRecord;
+  paymentRecord?: PaymentRecord; // Winner's payment record
+  payoutPolicy?: PayoutPolicy;
+  paymentRecords?: PaymentRecord[]; // Every payout of the bounty (winner first), one per recipient
+  options?: CompetitionOptions;  // As started, so a resumed run follows the same rules
+  checkpoint?: CompetitionCheckpoint;
+  lease?: CompetitionLease | null; // Held by the process running the competition
+  resumes?: number;             // Times it was picked up again after its process died
+  error?: string;               // Why it stopped before finishing its phases
+  deadline?: number;            // Cancelled if still running at this time (set when it first starts running)
+  cancelRequested?: string;     // Reason, for the process holding the lease to pick up on its next renewal
+  priority?: number;            // Queued competitions start highest priority first, then oldest first
+  queuedAt?: number;
+  queuePosition?: number | null; // 1-based while queued, null once started
   createdAt: number;
   completedAt?: number;
 }
 
+// How a competition is run; anything left out falls back to config
+export interface CompetitionOptions {
+  bountyAmount?: number;        // Fixed bounty; priced from the issue (and its code, once retrieved) when omitted
+  auction?: Partial<AuctionConfig>; // Defaults to config.auction with the bounty as ceiling
+  escalation?: Partial<EscalationPolicy>; // Defaults to config.escalation and the issue's cap label
+  payout?: Partial<PayoutPolicy>; // Defaults to config.payout
+  timeoutMs?: number;           // Whole run, defaults to config.timeouts.competitionMs
+  solveTimeoutMs?: number;      // Each agent's solve call, defaults to config.timeouts.solveMs
+}
+
+// Phases of a competition run, in order
+export type CompetitionPhase = 'index' | 'retrieve' | 'bid' | 'solve' | 'verify' | 'judge' | 'pay';
+
+/**
+ * How far a competition got, so an interrupted one resumes from the last phase that finished.
+ * Bids, solutions, verifications and the review are saved on the competition itself.
+ */
+export interface CompetitionCheckpoint {
+  phase: CompetitionPhase;      // Last phase that finished
+  commitId?: string;            // Commit the repo was indexed at
+  payoutPlan?: PayoutShare[];   // Payment intent: saved before any share is sent, and re-used on resume
+  updatedAt: number;
+}
+
+export interface CompetitionLease {
+  owner: string;                // Orchestrator instance (host:pid:id)
+  expiresAt: number;
+}
+
+/**
+ * How the bounty is split once the reviewer has scored the solutions. The winner is always
+ * paid its settled price; other shares come out of what is left of the bounty after it:
+ * - winner-take-all: only the winner is paid
+ * - top-n: the next topN - 1 passing solutions share the rest in proportion to their scores
+ * - consolation: every other passing solution gets a fixed amount out of the rest
+ * Only solutions that built (and didn't fail tests) are ever paid.
+ */
+export type PayoutPolicyKind = 'winner-take-all' | 'top-n' | 'consolation';
+
+export interface PayoutPolicy {
+  kind: PayoutPolicyKind;
+  topN: number;                 // top-n: how many solutions share the bounty
+  consolationAmount: number;    // consolation: USDC per runner-up (scaled down to fit what the winner left)
+}
+
+export type PayoutRole = 'winner' | 'contributor' | 'consolation';
+
+// One recipient's cut of the bounty
+export interface PayoutShare {
+  agentId: string;
+  role: PayoutRole;
+  amount: number;
+  score?: number;               // Reviewer score the share was based on
+  reason: string;
+}
+
 export interface SolveTask {
   agentId: string;
   issue: Issue;
   codeContext?: string;
+  competitionId?: string;       // Call fees are charged to this competition
+  callSpendCap?: number;        // Most the competition pays in call fees (default config.x402.callSpendCap)
 }
 
 export interface PaymentRequest {
@@ -79,6 +359,63 @@ export interface PaymentRequest {
   network?: string;
 }
 
+/**
+ * What a paywalled endpoint asks for in its 402 response (x402 "exact" scheme)
+ */
+export interface PaymentRequirement {
+  scheme: 'exact';
+  network: string;
+  asset: {
+    address: string;
+    decimals: number;
+    symbol: string;
+  };
+  payee: string;
+  maxAmountRequired: string;    // Base units (6 decimals for USDC)
+  description: string;
+  resource: string;
+  maxTimeoutSeconds?: number;   // How long a signed authorization may stay valid
+  facilitator?: string;
+  extra?: {
+    name: string;               // EIP-712 domain of the asset contract
+    version: string;
+  };
+}
+
+/**
+ * EIP-3009 transferWithAuthorization, signed by the payer
+ */
+export interface TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;                // Base units
+  validAfter: string;           // Unix seconds
+  validBefore: string;
+  nonce: string;                // 32-byte hex, single use
+}
+
+/**
+ * Decoded X-PAYMENT header
+ */
+export interface ExactPaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string;
+  payload: {
+    signature: string;
+    authorization: TransferAuthorization;
+  };
+}
+
+export type PaymentVerification =
+  | { valid: true; payer: string; amount: number; nonce: string; transaction?: string } // transaction: settlement, if it was settled
+  | { valid: false; reason: string };
+
+/**
+ * What a payment was for: part of the bounty, or an agent's per-call fee (x402)
+ */
+export type PaymentKind = 'payout' | 'call';
+
 /**
  * Payment record for tracking completed payments
  */
@@ -95,6 +432,50 @@ export interface PaymentRecord {
   confirmedAt?: number;
   blockNumber?: number;
   error?: string;
+  kind?: PaymentKind;           // Absent on older records: payout. A call fee is confirmed once the agent accepts its authorization
+  role?: PayoutRole;            // Part of a split payout (absent on older records: winner)
+  reason?: string;              // How the amount was arrived at
+  // Confirmation tracking and retries (see PaymentWorker)
+  idempotencyKey?: string;      // competitionId:agentId - one payout per agent per competition, however often it is retried
+  attempts?: number;            // Transfers sent so far
+  submittedAt?: number;         // When txHash was broadcast
+  nextAttemptAt?: number;       // Failed and queued for another attempt at this time
+  previousTxHashes?: string[];  // Earlier attempts that reverted or were dropped
+  nonce?: number;               // Wallet nonce of the transfer: a retry reuses it, so only one of its transfers can be mined
+  unknownTx?: boolean;          // A send with this nonce failed after taking it, so it may have been broadcast unseen
+}
+
+/**
+ * What the chain says about a sent transaction
+ */
+export interface TransactionStatus {
+  state: 'pending' | 'confirmed' | 'reverted' | 'not_found';
+  blockNumber?: number;
+}
+
+/**
+ * Bounty held against the orchestrator wallet for one competition.
+ * Reserved when the competition is created; released once the payout is sent,
+ * refunded to the available pool when there is no winner or the run fails.
+ */
+export interface EscrowHold {
+  competitionId: string;
+  amount: number;               // Currently reserved (raised when the bounty escalates)
+  status: 'reserved' | 'released' | 'refunded';
+  payouts?: Array<{ agentId: string; amount: number; txHash: string }>; // What was sent on release
+  paidAmount?: number;          // Total sent; anything left over returns to the pool
+  reason?: string;              // Why it was refunded
+  createdAt: number;
+  updatedAt: number;
+  settledAt?: number;
+}
+
+// Orchestrator wallet: balance on chain, and how much of it is promised to running competitions
+export interface EscrowSummary {
+  balance: number;
+  reserved: number;
+  available: number;            // balance - reserved: what new competitions can be funded from
+  holds: EscrowHold[];          // Active (reserved) holds
 }
 
 /**
@@ -1,4 +1,4 @@
-import type { Issue, Solution, Competition, SolveTask, PaymentRequest, PaymentRecord, ReviewResult, AgentStatus, TaskEvaluation, LLMProvider } from './index.js';
+import type { Issue, Solution, Competition, SolveTask, PaymentRequest, PaymentRecord, ReviewResult, AgentStatus, TaskEvaluation, LLMProvider, VerificationResult, RegisteredAgent, AgentRegistration, BountyEstimate, TokenUsage, EscrowHold, EscrowSummary, TransactionStatus, PaymentRequirement, PaymentVerification, ProviderStatus, AgentHealth } from './index.js';
 import type { CompetitionEvent } from './events.js';
 
 // GitHub operations
@@ -20,13 +20,23 @@ export type StreamCallback = (chunk: string, accumulated: string) => void;
 
 // AI/LLM for code generation
 export interface ILLMService {
-  generateSolution(prompt: string, model: string, provider?: LLMProvider): Promise<string>;
+  // signal aborts the request (competition cancelled, solve timed out, caller went away)
+  generateSolution(prompt: string, model: string, provider?: LLMProvider, signal?: AbortSignal): Promise<LLMCompletion>;
   generateSolutionStreaming?(
     prompt: string,
     model: string,
     onChunk: StreamCallback,
-    provider?: LLMProvider
-  ): Promise<string>;
+    provider?: LLMProvider,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion>;
+  // Rate limit and circuit breaker state, for services that guard their provider calls
+  providerStatus?(provider: LLMProvider): ProviderStatus;
+}
+
+// Generated text plus the tokens it took
+export interface LLMCompletion {
+  text: string;
+  usage: TokenUsage;
 }
 
 // State persistence
@@ -36,18 +46,89 @@ export interface IStateStore {
   updateCompetition(id: string, updates: Partial<Competition>): Promise<void>;
   updateAgentStatus(competitionId: string, agentStatus: AgentStatus): Promise<void>;
   listCompetitions(): Promise<Competition[]>;
+  getCompetitionsByStatus(status: Competition['status']): Promise<Competition[]>;
+  /**
+   * Take or renew a competition's lease until expiresAt. False if another owner holds an unexpired lease.
+   */
+  claimCompetition(id: string, owner: string, expiresAt: number): Promise<boolean>;
+  /**
+   * Clear the lease, only if this owner still holds it. False if another owner took it over.
+   */
+  releaseCompetition(id: string, owner: string): Promise<boolean>;
   // Payment records
   savePaymentRecord(record: PaymentRecord): Promise<void>;
   getPaymentRecord(id: string): Promise<PaymentRecord | null>;
+  updatePaymentRecord(id: string, updates: Partial<PaymentRecord>): Promise<void>;
+  // Applies the updates only if the record still has the expected status and attempts; false if another process changed it first
+  claimPaymentRecord(id: string, expected: Pick<PaymentRecord, 'status' | 'attempts'>, updates: Partial<PaymentRecord>): Promise<boolean>;
+  updatePaymentByTxHash(txHash: string, updates: Partial<PaymentRecord>): Promise<void>;
+  getPaymentByIdempotencyKey(key: string): Promise<PaymentRecord | null>;
+  getPaymentsByCompetition(competitionId: string): Promise<PaymentRecord[]>;
+  getPaymentsByStatus(statuses: PaymentRecord['status'][]): Promise<PaymentRecord[]>;
+  // Agent registry
+  saveAgent(agent: RegisteredAgent): Promise<void>; // Insert or replace by id
+  getAgent(id: string): Promise<RegisteredAgent | null>;
+  listAgents(): Promise<RegisteredAgent[]>;
+  deleteAgent(id: string): Promise<boolean>;
+  // Escrow holds (one per competition)
+  saveEscrowHold(hold: EscrowHold): Promise<void>; // Insert or replace by competitionId
+  getEscrowHold(competitionId: string): Promise<EscrowHold | null>;
+  listEscrowHolds(status?: EscrowHold['status']): Promise<EscrowHold[]>;
+  /**
+   * Replace a hold only if it is still in the expected status. False if it has moved on (settled elsewhere).
+   */
+  replaceEscrowHold(hold: EscrowHold, expectedStatus: EscrowHold['status']): Promise<boolean>;
+  /**
+   * Atomically change the total reserved across all holds by delta (USDC). An increase is only
+   * applied if the new total stays within limit; false if it wasn't. Starts from the reserved holds.
+   */
+  changeEscrowReserved(delta: number, limit: number): Promise<boolean>;
+}
+
+// Runtime registry of competing agents (persisted through IStateStore)
+export interface IAgentRegistry {
+  /**
+   * All registered agents, or only those that may be invited to bid
+   * (enabled, and for liveOnly: seen by a recent health check)
+   */
+  list(options?: { enabledOnly?: boolean; liveOnly?: boolean }): Promise<RegisteredAgent[]>;
+  get(id: string): Promise<RegisteredAgent | null>;
+  /**
+   * Register a new agent. Throws AgentRegistryError('conflict') if the id is taken.
+   */
+  register(agent: AgentRegistration): Promise<RegisteredAgent>;
+  update(id: string, updates: Partial<AgentRegistration>): Promise<RegisteredAgent>;
+  remove(id: string): Promise<void>;
+  /**
+   * Agent-initiated registration: registers the agent or refreshes its entry
+   * (keeping whether it is enabled), and marks it as seen. Throws a 'conflict'
+   * AgentRegistryError if it would move an operator-registered agent's URL or wallet.
+   */
+  announce(agent: AgentRegistration): Promise<RegisteredAgent>;
+  /**
+   * Health-check every agent, record who answered and evict self-registered
+   * agents that have been offline too long. Returns the agents now online.
+   */
+  checkHealth(): Promise<RegisteredAgent[]>;
+  /**
+   * Run checkHealth() periodically until stopHeartbeat()
+   */
+  startHeartbeat(): void;
+  stopHeartbeat(): void;
 }
 
 // Payment handling
 export interface IPaymentService {
   requestPayment(agentId: string, amount: number): Promise<PaymentRequest>;
-  verifyPayment(signature: string): Promise<boolean>;
-  sendBonus(walletAddress: string, amount: number): Promise<string>;
+  // Checks an X-PAYMENT header against what was asked for; each authorization is accepted once
+  verifyPayment(paymentHeader: string, requirement: PaymentRequirement): Promise<PaymentVerification>;
+  sendBonus(walletAddress: string, amount: number, options?: TransferOptions): Promise<string>;
   // Optional extended methods (implemented in RealPaymentService)
   getBalance?(): Promise<number>;
+  // Without it, a sent transfer is taken as confirmed
+  getTransactionStatus?(txHash: string): Promise<TransactionStatus>;
+  // Nonce of the wallet's next transaction to be mined: every lower nonce is used for good
+  getConfirmedNonce?(): Promise<number>;
   getWalletAddress?(): Promise<string>;
   healthCheck?(): Promise<{
     healthy: boolean;
@@ -58,22 +139,136 @@ export interface IPaymentService {
   }>;
 }
 
+export interface TransferOptions {
+  // Send with this wallet nonce, replacing any transfer still pending with it
+  nonce?: number;
+  // Called with the nonce the transfer will use, before it is broadcast
+  onNonce?(nonce: number): Promise<void>;
+}
+
+/**
+ * Escrow ledger
+ * Reserves bounties against the orchestrator wallet balance so concurrent
+ * competitions can never promise more than the wallet holds
+ */
+export interface IEscrowLedger {
+  /**
+   * Reserve a competition's bounty. Throws EscrowError('insufficient_funds') if the
+   * available balance (wallet balance minus active holds) can't cover it.
+   */
+  reserve(competitionId: string, amount: number): Promise<EscrowHold>;
+  /**
+   * Change the reserved amount (e.g. after the bounty escalates); raising it is checked like reserve
+   */
+  adjust(competitionId: string, amount: number): Promise<EscrowHold>;
+  /**
+   * Payouts were sent: the hold leaves the pool (and the wallet)
+   */
+  release(competitionId: string, payouts: Array<{ agentId: string; amount: number; txHash: string }>): Promise<EscrowHold>;
+  /**
+   * No payout: the reserved amount returns to the available pool
+   */
+  refund(competitionId: string, reason: string): Promise<EscrowHold>;
+  /**
+   * Release or refund a finished competition's hold based on its payment records.
+   * Safe to call more than once; never throws (failures are logged).
+   */
+  settle(competition: Competition, failure?: string): Promise<void>;
+  summary(): Promise<EscrowSummary>;
+}
+
+/**
+ * Payment authorization nonces already accepted, per payee (x402 replay protection)
+ */
+export interface INonceStore {
+  /**
+   * Mark a payer's nonce used; false if it already was
+   * @param validBefore - When the authorization expires (unix seconds); the nonce can be forgotten after
+   */
+  claim(payee: string, payer: string, nonce: string, validBefore: number): Promise<boolean>;
+}
+
+/**
+ * Pays agents that charge per call (x402): signs an EIP-3009 authorization
+ * with the orchestrator wallet, within each competition's call budget
+ */
+export interface IX402Payer {
+  /**
+   * Sign a payment for this requirement and record it against the competition.
+   * Throws X402PaymentError('cap_exceeded') if it would go over the budget.
+   */
+  authorize(requirement: PaymentRequirement, context: { competitionId: string; agentId: string; cap: number }): Promise<CallPayment>;
+  /**
+   * Record how the agent took the payment: confirmed once a 2xx answer carries the settlement
+   * transaction (X-PAYMENT-RESPONSE), failed when refused with another 402, otherwise left pending
+   */
+  complete(payment: CallPayment, outcome: { status?: number; paymentResponse?: string; error?: string }): Promise<PaymentRecord>;
+}
+
+export interface CallPayment {
+  header: string;               // X-PAYMENT value
+  record: PaymentRecord;
+}
+
+/**
+ * Payment worker
+ * Follows sent payouts until the chain confirms them, and re-sends failed,
+ * reverted or dropped ones with backoff (never twice for the same payout)
+ */
+export interface IPaymentWorker {
+  /**
+   * Check pending transactions and retry due payouts once
+   */
+  process(): Promise<void>;
+  /**
+   * Run process() periodically until stop()
+   */
+  start(): void;
+  stop(): void;
+}
+
 // Agent communication
 export interface IAgentClient {
-  evaluateAgent(agentUrl: string, issue: Issue, bountyAmount: number): Promise<TaskEvaluation & { agentId: string }>;
-  callAgent(agentUrl: string, task: SolveTask): Promise<Solution>;
+  // signal aborts the request; an agent server stops its LLM call when the caller goes away
+  evaluateAgent(agentUrl: string, issue: Issue, bountyAmount: number, signal?: AbortSignal): Promise<TaskEvaluation & { agentId: string }>;
+  callAgent(agentUrl: string, task: SolveTask, signal?: AbortSignal): Promise<Solution>;
+  /**
+   * Whether the agent at this base URL answers GET /health, and the state of its LLM provider
+   */
+  checkHealth(agentUrl: string): Promise<AgentHealth>;
 }
 
 // Code review service
+// Verification results (keyed by agentId) are hard evidence: solutions that failed to build can't win
 export interface IReviewerService {
-  reviewSolutions(issue: Issue, solutions: Solution[]): Promise<ReviewResult>;
+  // Both reject with the signal's reason once it is aborted
+  reviewSolutions(
+    issue: Issue,
+    solutions: Solution[],
+    verifications?: Record<string, VerificationResult>,
+    signal?: AbortSignal
+  ): Promise<ReviewResult>;
   reviewSolutionsStreaming?(
     issue: Issue,
     solutions: Solution[],
-    onChunk: StreamCallback
+    onChunk: StreamCallback,
+    verifications?: Record<string, VerificationResult>,
+    signal?: AbortSignal
   ): Promise<ReviewResult>;
 }
 
+// Sandboxed verification of solutions before judging
+export interface IVerifierService {
+  /**
+   * Apply a solution to a scratch checkout of the repo and run its build and test commands
+   * @param repoPath - Local filesystem path to the repo the solution targets
+   * @param solution - The agent's solution
+   * @param signal - Aborting it kills the running command and rejects with its reason
+   * @returns Pass/fail, logs and duration for each step
+   */
+  verifySolution(repoPath: string, solution: Solution, signal?: AbortSignal): Promise<VerificationResult>;
+}
+
 // RAG progress callback for streaming progress updates
 export type RAGProgressCallback = (
   stage: 'scanning' | 'parsing' | 'embedding' | 'querying',
@@ -89,21 +284,36 @@ export interface IRAGService {
    * @param repoPath - Local filesystem path to repo (e.g., "/Users/me/project")
    * @param repoUrl - GitHub URL (e.g., "https://github.com/owner/repo")
    * @param onProgress - Optional callback for progress updates
-   * @returns Commit ID and number of chunks indexed
+   * @param signal - Stops indexing (rejecting with its reason) once aborted
+   * @returns Commit ID, number of chunks indexed, and how many were reused from
+   *          the previous indexed commit vs. freshly embedded
    */
-  indexRepo(repoPath: string, repoUrl: string, onProgress?: RAGProgressCallback): Promise<{
+  indexRepo(repoPath: string, repoUrl: string, onProgress?: RAGProgressCallback, signal?: AbortSignal): Promise<{
     commitId: string;
     chunksIndexed: number;
+    chunksReused?: number;
+    chunksEmbedded?: number;
   }>;
 
   /**
    * Query relevant code chunks for an issue
+   * Only chunks from the issue's repository (issue.repoUrl) are searched.
+   * Real implementations combine vector similarity with keyword matches on
+   * identifiers/paths named in the issue, and explain each hit in chunk.match.
    * @param issue - The GitHub issue to find relevant code for
    * @param limit - Max number of chunks to return (default: 10)
    * @param onProgress - Optional callback for progress updates
+   * @param commitId - Commit to search; defaults to the most recently indexed commit of the repo
+   * @param signal - Stops the query (rejecting with its reason) once aborted
    * @returns Array of relevant code chunks, sorted by relevance score
    */
-  queryRelevantCode(issue: Issue, limit?: number, onProgress?: RAGProgressCallback): Promise<CodeChunk[]>;
+  queryRelevantCode(
+    issue: Issue,
+    limit?: number,
+    onProgress?: RAGProgressCallback,
+    commitId?: string,
+    signal?: AbortSignal
+  ): Promise<CodeChunk[]>;
 
   /**
    * Check if a repo is already indexed
@@ -112,17 +322,55 @@ export interface IRAGService {
    * @returns True if already indexed
    */
   isRepoIndexed(repoUrl: string, commitId: string): Promise<boolean>;
+
+  /**
+   * List every indexed repo/commit pair, most recently indexed first
+   */
+  listIndexedRepos(): Promise<IndexedRepo[]>;
 }
 
+// One indexed snapshot of a repository
+export interface IndexedRepo {
+  repoUrl: string;
+  commitId: string;
+  chunks: number;
+  indexedAt: number;
+}
+
+// Kind of code a chunk holds - 'module' is top-level code outside any declaration,
+// 'doc' a documentation section, 'block' a plain line window
+export type ChunkType =
+  | 'function'
+  | 'class'
+  | 'method'
+  | 'interface'
+  | 'type'
+  | 'module'
+  | 'doc'
+  | 'block';
+
 // Code chunk representation for RAG
 export interface CodeChunk {
   filePath: string;
-  chunkType: 'function' | 'class' | 'method';
+  chunkType: ChunkType;
   chunkName: string;
   code: string;
-  score?: number; // Relevance score from vector search
+  language?: string; // Fence label, e.g. "python" (older indexes don't store it)
+  score?: number; // Relevance score (fused vector + keyword rank for hybrid search)
+  match?: ChunkMatch; // Why this chunk was retrieved
 }
 
+// Explanation of a retrieval hit, for display in the UI
+export interface ChunkMatch {
+  vectorRank?: number; // 1-based rank in the vector search, if it was a hit there
+  keywordRank?: number; // 1-based rank in the keyword (BM25) search, if it was a hit there
+  matchedTerms: string[]; // Identifiers, paths or phrases from the issue found in the chunk
+  reason: string; // e.g. "keyword #1 (parseSolutionPatch), vector #3"
+}
+
+// Slim view of a retrieved chunk sent with rag:complete (no code, to keep events small)
+export type RetrievedChunkSummary = Pick<CodeChunk, 'filePath' | 'chunkType' | 'chunkName' | 'score' | 'match'>;
+
 // Event emitter for real-time updates
 export interface IEventEmitter {
   /**
@@ -137,6 +385,18 @@ export interface IEventEmitter {
   subscribe(handler: (event: CompetitionEvent) => void): () => void;
 }
 
+/**
+ * Bounty Pricing Interface
+ * Suggests a bounty from the issue itself, the code it touches and how similar issues went
+ */
+export interface IBountyPricer {
+  /**
+   * Suggest a bounty for an issue
+   * @param chunks - Code already retrieved for the issue; if omitted, the latest index of the repo is queried (when there is one)
+   */
+  estimate(issue: Issue, chunks?: CodeChunk[]): Promise<BountyEstimate>;
+}
+
 // All services bundled
 export interface Services {
   github: IGitHubService;
@@ -144,7 +404,12 @@ export interface Services {
   state: IStateStore;
   payment: IPaymentService;
   agentClient: IAgentClient;
+  agents: IAgentRegistry;
+  pricing: IBountyPricer;
+  escrow: IEscrowLedger;
+  paymentWorker: IPaymentWorker;
   reviewer: IReviewerService;
+  verifier: IVerifierService;
   rag: IRAGService;
   events: IEventEmitter;
 }
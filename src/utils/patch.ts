@@ -0,0 +1,286 @@
+/**
+ * Structured patch handling for agent solutions.
+ * Agents answer with a unified diff; this module extracts it from the raw
+ * LLM output, validates it, and checks that it applies to a given commit.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, posix } from 'path';
+import { nanoid } from 'nanoid';
+import type { SolutionPatch, PatchFile } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Thrown when an agent's answer does not contain a usable patch
+ */
+export class PatchFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchFormatError';
+  }
+}
+
+/**
+ * Prompt section telling agents exactly how to format their answer
+ */
+export const PATCH_FORMAT_INSTRUCTIONS = `## Response Format
+
+Return your changes as a single unified diff (the output of \`git diff\`) inside one \`\`\`diff code block:
+- Use paths relative to the repository root, prefixed with a/ and b/ (e.g. \`--- a/src/auth.ts\` / \`+++ b/src/auth.ts\`)
+- Use \`--- /dev/null\` for new files and \`+++ /dev/null\` for deleted files
+- Every hunk header must be \`@@ -start,count +start,count @@\` with counts that match the hunk body
+- Include at least 3 lines of unchanged context around each change, copied exactly from the existing code
+- You may change several files in the same diff
+
+After the diff block, briefly explain the fix in plain text.`;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Pull the diff text out of an LLM answer: every ```diff / ```patch block,
+ * or a raw diff starting at the first file header
+ */
+export function extractDiff(text: string): string | null {
+  const blocks = [...text.matchAll(/```(?:diff|patch)[^\n]*\n([\s\S]*?)```/g)].map((m) => m[1]);
+  const candidate = blocks.length > 0 ? blocks.join('\n') : text;
+  const start = candidate.search(/^(diff --git |--- (a\/|\/dev\/null))/m);
+  return start === -1 ? null : candidate.slice(start);
+}
+
+/**
+ * Parse and validate the patch in an agent's answer.
+ * Throws PatchFormatError with a reason suitable for showing to users.
+ */
+export function parseSolutionPatch(text: string): SolutionPatch {
+  const raw = extractDiff(text);
+  if (!raw) {
+    throw new PatchFormatError('No unified diff found in the response');
+  }
+
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+  const out: string[] = [];
+  const files: PatchFile[] = [];
+  // Cast keeps TS from narrowing to null - the helpers below reassign it
+  let current = null as (PatchFile & { hunks: number }) | null;
+  let i = 0;
+
+  const finishFile = () => {
+    if (!current) return;
+    const needsHunks = current.status === 'added' || current.status === 'modified';
+    if (needsHunks && current.hunks === 0) {
+      throw new PatchFormatError(`No hunks for ${current.path}`);
+    }
+    const { hunks: _hunks, ...file } = current;
+    files.push(file);
+    current = null;
+  };
+
+  const startFile = () => {
+    finishFile();
+    current = { path: '', status: 'modified', additions: 0, deletions: 0, hunks: 0 };
+    return current;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      const file = startFile();
+      const match = line.match(/^diff --git a\/(\S+) b\/(\S+)$/);
+      if (match) {
+        file.path = match[2];
+        if (match[1] !== match[2]) file.oldPath = match[1];
+      }
+      out.push(line);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // A bare ---/+++ pair without a diff --git line starts a new file too
+      const file: PatchFile & { hunks: number } = current && current.hunks === 0 ? current : startFile();
+      const oldPath = stripPrefix(line.slice(4));
+      const newPath = stripPrefix(lines[i + 1].slice(4));
+
+      if (oldPath === null && newPath === null) {
+        throw new PatchFormatError('File header has /dev/null on both sides');
+      }
+      if (oldPath === null) file.status = 'added';
+      else if (newPath === null) file.status = 'deleted';
+      else if (file.status !== 'renamed' && oldPath !== newPath) {
+        file.status = 'renamed';
+        file.oldPath = oldPath;
+      }
+      file.path = (newPath ?? oldPath)!;
+
+      out.push(line, lines[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (current && current.hunks === 0 && isExtendedHeader(line)) {
+      if (line.startsWith('new file mode')) current.status = 'added';
+      else if (line.startsWith('deleted file mode')) current.status = 'deleted';
+      else if (line.startsWith('rename from ')) {
+        current.status = 'renamed';
+        current.oldPath = line.slice('rename from '.length).trim();
+      } else if (line.startsWith('rename to ')) {
+        current.path = line.slice('rename to '.length).trim();
+      }
+      out.push(line);
+      i++;
+      continue;
+    }
+
+    const hunk = line.match(HUNK_HEADER);
+    if (hunk) {
+      if (!current || !current.path) {
+        throw new PatchFormatError(`Hunk "${line}" appears before any file header`);
+      }
+      const file: PatchFile & { hunks: number } = current;
+      file.hunks++;
+      const expectedOld = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      const expectedNew = hunk[4] === undefined ? 1 : parseInt(hunk[4], 10);
+      let oldSeen = 0;
+      let newSeen = 0;
+
+      out.push(line);
+      i++;
+
+      while (i < lines.length && (oldSeen < expectedOld || newSeen < expectedNew)) {
+        const body = lines[i];
+        if (body.startsWith('+')) {
+          newSeen++;
+          file.additions++;
+        } else if (body.startsWith('-')) {
+          oldSeen++;
+          file.deletions++;
+        } else if (body.startsWith(' ') || body === '') {
+          // Models often drop the leading space on blank context lines
+          oldSeen++;
+          newSeen++;
+          out.push(body === '' ? ' ' : body);
+          i++;
+          continue;
+        } else if (body.startsWith('\\')) {
+          // "\ No newline at end of file"
+        } else {
+          break;
+        }
+        out.push(body);
+        i++;
+      }
+
+      if (lines[i]?.startsWith('\\')) {
+        out.push(lines[i]);
+        i++;
+      }
+
+      if (oldSeen !== expectedOld || newSeen !== expectedNew) {
+        throw new PatchFormatError(
+          `Hunk ${file.hunks} in ${file.path} declares -${expectedOld}/+${expectedNew} lines but contains -${oldSeen}/+${newSeen}`
+        );
+      }
+      continue;
+    }
+
+    // Anything else outside a hunk (prose, index lines of unknown shape) is dropped
+    i++;
+  }
+
+  finishFile();
+
+  if (files.length === 0) {
+    throw new PatchFormatError('Diff contains no file changes');
+  }
+
+  for (const file of files) {
+    validatePath(file.path);
+    if (file.oldPath) validatePath(file.oldPath);
+  }
+
+  return {
+    diff: out.join('\n') + '\n',
+    files,
+  };
+}
+
+/**
+ * Check that a patch applies cleanly to a commit, without touching the
+ * working tree: the commit is read into a throwaway index and the patch
+ * is applied to that index only.
+ */
+export async function checkPatchApplies(repoPath: string, diff: string, commitId: string): Promise<void> {
+  const id = nanoid(8);
+  const indexFile = join(tmpdir(), `codebounty-index-${id}`);
+  const patchFile = join(tmpdir(), `codebounty-${id}.patch`);
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+
+  try {
+    await writeFile(patchFile, diff);
+    await execFileAsync('git', ['read-tree', commitId], { cwd: repoPath, env });
+    await execFileAsync('git', ['apply', '--check', '--cached', '--whitespace=nowarn', patchFile], { cwd: repoPath, env });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new PatchFormatError(
+      `Patch does not apply to ${commitId.slice(0, 8)}: ${stderr || (error instanceof Error ? error.message : String(error))}`
+    );
+  } finally {
+    await rm(indexFile, { force: true });
+    await rm(patchFile, { force: true });
+  }
+}
+
+/**
+ * Resolve a ref to a full commit SHA, or null if the repo doesn't have it
+ * (or isn't a git checkout at all)
+ */
+export async function resolveCommit(repoPath: string, ref = 'HEAD'): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd: repoPath });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a unified diff that creates a new file (used by mocks and fallbacks)
+ */
+export function formatNewFilePatch(path: string, content: string): string {
+  const body = content.replace(/\n$/, '').split('\n');
+  return [
+    `diff --git a/${path} b/${path}`,
+    'new file mode 100644',
+    '--- /dev/null',
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${body.length} @@`,
+    ...body.map((line) => `+${line}`),
+    '',
+  ].join('\n');
+}
+
+function stripPrefix(header: string): string | null {
+  // Drop a trailing timestamp ("--- a/file\t2024-01-01 ...")
+  const path = header.split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+function isExtendedHeader(line: string): boolean {
+  return /^(index |new file mode|deleted file mode|old mode|new mode|similarity index|dissimilarity index|rename from |rename to |copy from |copy to )/.test(line);
+}
+
+function validatePath(path: string): void {
+  if (!path) {
+    throw new PatchFormatError('Diff has a file header without a path');
+  }
+  const normalized = posix.normalize(path);
+  if (posix.isAbsolute(normalized) || normalized.startsWith('..')) {
+    throw new PatchFormatError(`Refusing to touch a path outside the repository: ${path}`);
+  }
+}
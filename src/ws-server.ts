@@ -3,19 +3,25 @@
  *
  * - Runs on port 4000 (or WS_PORT env var)
  * - Clients subscribe to specific competition IDs
- * - Broadcasts events from CompetitionRunner to connected clients
- * - HTTP endpoint to trigger competition runs
+ * - Broadcasts events from the Orchestrator to connected clients
+ * - HTTP endpoints to queue and cancel competition runs; queued runs start
+ *   as the concurrency limits allow (see CompetitionQueue)
+ * - HTTP endpoints to manage the agent registry; agents announce themselves
+ *   and are health-checked via their /health route
  *
  * Usage:
  *   bun run ws      # or: npx tsx src/ws-server.ts
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
-import { createServices } from './services/index.js';
-import { CompetitionRunner } from './services/competition-runner.js';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { createServices, AgentRegistryError, EscrowError } from './services/index.js';
+import { Orchestrator, CancelCompetitionError } from './orchestrator/orchestrator.js';
+import { CompetitionQueue } from './orchestrator/queue.js';
 import type { CompetitionEvent, WSClientMessage } from './types/events.js';
-import type { Issue } from './types/index.js';
+import type { Issue, AgentRegistration } from './types/index.js';
+import { config } from './config.js';
 import { log } from './utils/logger.js';
 import { enableFileLogging } from './utils/logger.js';
 
@@ -33,14 +39,15 @@ const clientRooms = new Map<WebSocket, Set<string>>();
 // Create services (to get event emitter)
 const services = createServices();
 
-// Create competition runner
-const competitionRunner = new CompetitionRunner(services);
+// Same competition engine as the TUI
+const orchestrator = new Orchestrator(services);
+const queue = new CompetitionQueue(services, orchestrator);
 
 // Create HTTP server for API endpoints
 const httpServer = createServer(async (req, res) => {
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
 
   if (req.method === 'OPTIONS') {
@@ -49,13 +56,13 @@ const httpServer = createServer(async (req, res) => {
     return;
   }
 
-  // POST /run - Start a new competition
+  // POST /run - Queue a new competition; it starts once a slot is free (higher priority first)
   if (req.method === 'POST' && req.url === '/run') {
     let body = '';
     req.on('data', chunk => body += chunk);
     req.on('end', async () => {
       try {
-        const { issue, bountyAmount } = JSON.parse(body) as { issue: Issue; bountyAmount?: number };
+        const { issue, bountyAmount, priority = 0 } = JSON.parse(body) as { issue: Issue; bountyAmount?: number; priority?: number };
 
         if (!issue || !issue.title || !issue.repoUrl) {
           res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -63,25 +70,39 @@ const httpServer = createServer(async (req, res) => {
           return;
         }
 
-        log('info', 'WS', `Starting competition for issue: ${issue.title}`);
+        if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'priority must be a number' }));
+          return;
+        }
+
+        if (bountyAmount !== undefined && (typeof bountyAmount !== 'number' || !Number.isFinite(bountyAmount) || bountyAmount <= 0)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'bountyAmount must be a positive number' }));
+          return;
+        }
 
-        // Create and run competition
-        const competition = await competitionRunner.createCompetition(issue, bountyAmount);
+        log('info', 'WS', `Queueing competition for issue: ${issue.title} (priority ${priority})`);
 
-        // Run in background (don't await)
-        competitionRunner.run(competition).catch(err => {
-          log('error', 'WS', `Competition ${competition.id} failed: ${err}`);
-        });
+        // Runs in the background once the queue starts it
+        const competition = await queue.enqueue(issue, bountyAmount === undefined ? {} : { bountyAmount }, priority);
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
           competitionId: competition.id,
           competition,
+          position: competition.status === 'queued' ? competition.queuePosition ?? null : null,
         }));
       } catch (err) {
+        if (err instanceof EscrowError) {
+          // The wallet can't cover the bounty on top of what running competitions have reserved
+          res.writeHead(err.code === 'invalid_amount' ? 400 : 402, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: err.message }));
+          return;
+        }
         log('error', 'WS', `Failed to start competition: ${err}`);
         res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Failed to start competition' }));
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : 'Failed to start competition' }));
       }
     });
     return;
@@ -147,6 +168,144 @@ const httpServer = createServer(async (req, res) => {
     return;
   }
 
+  // POST /competitions/:id/cancel - Stop a competition before it pays out; its bounty is refunded
+  const cancelMatch = req.url?.match(/^\/competitions\/([^/]+)\/cancel$/);
+  if (req.method === 'POST' && cancelMatch) {
+    const competitionId = cancelMatch[1];
+    try {
+      const { reason } = await readJsonBody<{ reason?: string }>(req);
+      log('info', 'WS', `Cancelling competition ${competitionId}${reason ? `: ${reason}` : ''}`);
+      await orchestrator.cancel(competitionId, reason || undefined);
+      // The competition:cancelled event follows once the run has stopped
+      sendJson(res, 202, { competitionId, cancelling: true });
+    } catch (err) {
+      if (err instanceof CancelCompetitionError) {
+        sendJson(res, err.code === 'not_found' ? 404 : 409, { error: err.message });
+        return;
+      }
+      if (err instanceof RequestError) {
+        sendJson(res, 400, { error: err.message });
+        return;
+      }
+      log('error', 'WS', `Failed to cancel competition: ${err}`);
+      sendJson(res, 500, { error: err instanceof Error ? err.message : 'Failed to cancel competition' });
+    }
+    return;
+  }
+
+  // POST /pricing/estimate - Suggested bounty for an issue, shown before a competition is launched
+  if (req.method === 'POST' && req.url === '/pricing/estimate') {
+    try {
+      const { issue } = await readJsonBody<{ issue: Issue }>(req);
+      if (!issue || !issue.title || !issue.repoUrl) {
+        sendJson(res, 400, { error: 'Issue with title and repoUrl is required' });
+        return;
+      }
+      sendJson(res, 200, await services.pricing.estimate({ ...issue, labels: issue.labels ?? [], body: issue.body ?? '' }));
+    } catch (err) {
+      if (err instanceof RequestError) {
+        sendJson(res, 400, { error: err.message });
+        return;
+      }
+      log('error', 'WS', `Failed to estimate bounty: ${err}`);
+      sendJson(res, 500, { error: err instanceof Error ? err.message : 'Failed to estimate bounty' });
+    }
+    return;
+  }
+
+  // GET /queue - Queued competitions in start order, what is running, and the concurrency limits
+  if (req.method === 'GET' && req.url === '/queue') {
+    try {
+      sendJson(res, 200, await queue.snapshot());
+    } catch (err) {
+      log('error', 'WS', `Failed to read queue: ${err}`);
+      sendJson(res, 500, { error: err instanceof Error ? err.message : 'Failed to read queue' });
+    }
+    return;
+  }
+
+  // GET /escrow - Orchestrator wallet balance, bounties reserved by running competitions, and what's left
+  if (req.method === 'GET' && req.url === '/escrow') {
+    try {
+      sendJson(res, 200, await services.escrow.summary());
+    } catch (err) {
+      log('error', 'WS', `Failed to read escrow: ${err}`);
+      sendJson(res, 500, { error: err instanceof Error ? err.message : 'Failed to read escrow' });
+    }
+    return;
+  }
+
+  // POST /agents/announce - Agent-facing: an agent server registers itself or refreshes its entry
+  // (requires the shared announce secret as a bearer token)
+  if (req.method === 'POST' && req.url === '/agents/announce') {
+    if (!config.agentRegistry.announceSecret) {
+      sendJson(res, 403, { error: 'Agent announcements are disabled (AGENT_ANNOUNCE_SECRET is not set)' });
+      return;
+    }
+    if (!hasBearerSecret(req, config.agentRegistry.announceSecret)) {
+      log('warn', 'WS', `Rejected agent announcement from ${req.socket.remoteAddress}: bad or missing secret`);
+      sendJson(res, 401, { error: 'Invalid announce secret' });
+      return;
+    }
+    try {
+      const announcement = await readJsonBody<AgentRegistration>(req);
+      const agent = await services.agents.announce(announcement);
+      sendJson(res, 200, { agent, heartbeatIntervalMs: config.agentRegistry.heartbeatIntervalMs });
+    } catch (err) {
+      sendRegistryError(res, err);
+    }
+    return;
+  }
+
+  // GET /agents - List registered agents
+  // POST /agents - Register an agent (operator only, see canChangeRegistry)
+  if (req.url === '/agents' && (req.method === 'GET' || req.method === 'POST')) {
+    try {
+      if (req.method === 'GET') {
+        sendJson(res, 200, { agents: await services.agents.list() });
+        return;
+      }
+      if (!canChangeRegistry(req, res)) return;
+      const registration = await readJsonBody<AgentRegistration>(req);
+      const agent = await services.agents.register(registration);
+      log('info', 'WS', `Registered agent ${agent.id} at ${agent.url}`);
+      sendJson(res, 201, { agent });
+    } catch (err) {
+      sendRegistryError(res, err);
+    }
+    return;
+  }
+
+  // GET/PATCH/DELETE /agents/:id - Inspect, update (incl. enable/disable) or remove an agent
+  // (PATCH and DELETE are operator only, see canChangeRegistry)
+  const agentMatch = req.url?.match(/^\/agents\/([^/]+)$/);
+  if (agentMatch && (req.method === 'GET' || req.method === 'PATCH' || req.method === 'DELETE')) {
+    const agentId = decodeURIComponent(agentMatch[1]);
+    if (req.method !== 'GET' && !canChangeRegistry(req, res)) return;
+    try {
+      if (req.method === 'GET') {
+        const agent = await services.agents.get(agentId);
+        if (!agent) {
+          sendJson(res, 404, { error: `Agent not found: ${agentId}` });
+          return;
+        }
+        sendJson(res, 200, { agent });
+      } else if (req.method === 'PATCH') {
+        const updates = await readJsonBody<Partial<AgentRegistration>>(req);
+        const agent = await services.agents.update(agentId, updates);
+        log('info', 'WS', `Updated agent ${agentId}`);
+        sendJson(res, 200, { agent });
+      } else {
+        await services.agents.remove(agentId);
+        log('info', 'WS', `Removed agent ${agentId}`);
+        sendJson(res, 200, { removed: agentId });
+      }
+    } catch (err) {
+      sendRegistryError(res, err);
+    }
+    return;
+  }
+
   // 404
   res.writeHead(404);
   res.end('Not Found');
@@ -238,6 +397,87 @@ wss.on('connection', (ws) => {
   });
 });
 
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * A request body the server can't read; every route answers it with a 400
+ */
+class RequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+function readJsonBody<T>(req: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      try {
+        const parsed = JSON.parse(body || '{}');
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          reject(new RequestError('Request body must be a JSON object'));
+          return;
+        }
+        resolve(parsed as T);
+      } catch {
+        reject(new RequestError('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Whether the request carries a secret as a bearer token (Authorization: Bearer <secret>), compared in constant time
+ */
+function hasBearerSecret(req: IncomingMessage, secret: string): boolean {
+  const presented = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(secret);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Whether a request may register, update or remove agents, answering it if not. Browsers are
+ * refused outright (they send an Origin header; the web app calls in from its server, which
+ * doesn't), and the admin secret is required as a bearer token when one is set.
+ */
+function canChangeRegistry(req: IncomingMessage, res: ServerResponse): boolean {
+  if (req.headers.origin) {
+    log('warn', 'WS', `Rejected registry change from origin ${req.headers.origin}`);
+    sendJson(res, 403, { error: 'Registry changes are not accepted from browsers' });
+    return false;
+  }
+  const { adminSecret } = config.agentRegistry;
+  if (adminSecret && !hasBearerSecret(req, adminSecret)) {
+    log('warn', 'WS', `Rejected registry change from ${req.socket.remoteAddress}: bad or missing admin secret`);
+    sendJson(res, 401, { error: 'Invalid admin secret' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Map registry errors to HTTP statuses (anything else is a 500)
+ */
+function sendRegistryError(res: ServerResponse, err: unknown): void {
+  if (err instanceof RequestError) {
+    sendJson(res, 400, { error: err.message });
+    return;
+  }
+  if (err instanceof AgentRegistryError) {
+    const status = err.code === 'not_found' ? 404 : err.code === 'conflict' ? 409 : 400;
+    sendJson(res, status, { error: err.message });
+    return;
+  }
+  log('error', 'WS', `Agent registry request failed: ${err}`);
+  sendJson(res, 500, { error: err instanceof Error ? err.message : 'Agent registry request failed' });
+}
+
 /**
  * Broadcast an event to all clients watching a specific competition
  */
@@ -260,7 +500,7 @@ function broadcast(competitionId: string, event: CompetitionEvent): void {
   log('info', 'WS', `Broadcast ${event.type} to ${sent} clients for competition ${competitionId}`);
 }
 
-// Subscribe to events from CompetitionRunner
+// Subscribe to events from the Orchestrator
 services.events.subscribe((event) => {
   broadcast(event.competitionId, event);
 });
@@ -276,11 +516,32 @@ httpServer.listen(PORT, () => {
 `);
 
   log('info', 'WS', `Server running on port ${PORT}`);
+
+  // Probe registered agents now and then periodically, so offline agents aren't invited
+  services.agents.checkHealth()
+    .then(live => log('info', 'WS', `${live.length} agents online`))
+    .catch(err => log('error', 'WS', `Agent health check failed: ${err}`));
+  services.agents.startHeartbeat();
+
+  // Pick up competitions a crashed process left unfinished, then start queued ones in the slots left
+  orchestrator.resumeInterrupted()
+    .then(resumed => resumed.length > 0 && log('info', 'WS', `Resuming ${resumed.length} interrupted competitions`))
+    .catch(err => log('error', 'WS', `Failed to resume interrupted competitions: ${err}`))
+    .then(() => queue.process())
+    .catch(err => log('error', 'WS', `Queue pass failed: ${err}`));
+  queue.start();
+
+  // Confirm sent payouts and retry failed ones (including any left over from before a restart)
+  services.paymentWorker.process()
+    .catch(err => log('error', 'WS', `Payment check failed: ${err}`));
+  services.paymentWorker.start();
 });
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   log('info', 'WS', 'Shutting down...');
+  services.agents.stopHeartbeat();
+  services.paymentWorker.stop();
   httpServer.close(() => {
     log('info', 'WS', 'Server closed');
     process.exit(0);
@@ -289,6 +550,8 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   log('info', 'WS', 'Shutting down...');
+  services.agents.stopHeartbeat();
+  services.paymentWorker.stop();
   httpServer.close(() => {
     log('info', 'WS', 'Server closed');
     process.exit(0);
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPaymentsByAgent, getAgentPaymentStats } from '@/lib/db';
 import { agents } from '@/lib/services';
+import type { AgentConfig } from '@/lib/services';
 
 export async function GET(
   request: NextRequest,
@@ -14,8 +15,8 @@ export async function GET(
   try {
     const { id } = await params;
     
-    // Find agent info
-    const agent = agents.find(a => a.id === id);
+    // Find agent info (agents registered at runtime are only known to the registry)
+    const agent = agents.find(a => a.id === id) ?? await getRegisteredAgent(id);
     if (!agent) {
       return NextResponse.json(
         { error: 'Agent not found' },
@@ -46,3 +47,15 @@ export async function GET(
     );
   }
 }
+
+async function getRegisteredAgent(id: string): Promise<AgentConfig | null> {
+  try {
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/agents/${encodeURIComponent(id)}`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const { agent } = await response.json();
+    return agent ?? null;
+  } catch {
+    return null;
+  }
+}
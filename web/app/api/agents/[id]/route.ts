@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registryAuthHeaders } from '@/lib/registry';
+
+/**
+ * PATCH /api/agents/[id]
+ * Update a registered agent (e.g. { enabled: false } to stop inviting it)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/agents/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...registryAuthHeaders() },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to update agent:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update agent' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/agents/[id]
+ * Remove an agent from the registry
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/agents/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: registryAuthHeaders(),
+    });
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to remove agent:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove agent' },
+      { status: 500 }
+    );
+  }
+}
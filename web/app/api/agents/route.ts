@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registryAuthHeaders } from '@/lib/registry';
+
+/**
+ * GET /api/agents
+ * List registered agents (from the WS server's agent registry)
+ */
+export async function GET() {
+  try {
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/agents`, { cache: 'no-store' });
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to list agents:', error);
+    return NextResponse.json(
+      { error: 'Failed to list agents' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agents
+ * Register a new agent
+ *
+ * Body: { id, name, url, provider, model, costPerToken, avgTokensPerSolution, minimumMargin, contextWindow?, walletAddress? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/agents`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...registryAuthHeaders() },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to register agent:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to register agent' },
+      { status: 500 }
+    );
+  }
+}
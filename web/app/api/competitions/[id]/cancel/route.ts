@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/competitions/[id]/cancel
+ * Stop a competition before it pays out; its bounty is refunded
+ *
+ * Body: { reason?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body as { reason?: string };
+
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/competitions/${encodeURIComponent(id)}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason }),
+    });
+    const result = await response.json();
+    return NextResponse.json(result, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to cancel competition:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel competition' },
+      { status: 500 }
+    );
+  }
+}
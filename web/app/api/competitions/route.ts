@@ -21,16 +21,17 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/competitions
- * Start a new competition by calling the WS server
+ * Queue a new competition on the WS server (it starts once a slot is free)
  *
- * Body: { issue: Issue, bountyAmount?: number }
+ * Body: { issue: Issue, bountyAmount?: number, priority?: number }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { issue, bountyAmount } = body as {
+    const { issue, bountyAmount, priority } = body as {
       issue: Issue;
       bountyAmount?: number;
+      priority?: number;
     };
 
     if (!issue || !issue.title || !issue.repoUrl) {
@@ -45,7 +46,7 @@ export async function POST(request: NextRequest) {
     const response = await fetch(`${wsServerUrl}/run`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ issue, bountyAmount }),
+      body: JSON.stringify({ issue, bountyAmount, priority }),
     });
 
     if (!response.ok) {
@@ -58,6 +59,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       competitionId: result.competitionId,
       competition: result.competition,
+      position: result.position,
       wsUrl: process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:4000',
     });
   } catch (error) {
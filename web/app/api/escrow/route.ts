@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/escrow
+ * Orchestrator wallet balance, bounties reserved by running competitions and
+ * what is left to fund new ones, from the WS server's escrow ledger
+ */
+export async function GET() {
+  try {
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/escrow`, { cache: 'no-store' });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to fetch escrow:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch escrow' },
+      { status: 500 }
+    );
+  }
+}
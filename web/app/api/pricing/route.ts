@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Issue } from '@/lib/services';
+
+/**
+ * POST /api/pricing
+ * Suggested bounty for an issue, from the WS server's pricing engine
+ *
+ * Body: { issue: Issue }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { issue } = (await request.json()) as { issue: Issue };
+
+    if (!issue || !issue.title || !issue.repoUrl) {
+      return NextResponse.json(
+        { error: 'Issue with title and repoUrl is required' },
+        { status: 400 }
+      );
+    }
+
+    const wsServerUrl = process.env.WS_SERVER_URL || 'http://localhost:4000';
+    const response = await fetch(`${wsServerUrl}/pricing/estimate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ issue }),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('[API] Failed to estimate bounty:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to estimate bounty' },
+      { status: 500 }
+    );
+  }
+}
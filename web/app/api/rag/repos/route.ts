@@ -0,0 +1,20 @@
+/**
+ * API endpoint listing indexed repositories and commits
+ * GET /api/rag/repos
+ */
+
+import { NextResponse } from 'next/server';
+import { listIndexedRepos } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const repos = await listIndexedRepos();
+    return NextResponse.json(repos);
+  } catch (error) {
+    console.error('[API] Failed to list indexed repos:', error);
+    return NextResponse.json(
+      { error: 'Failed to list indexed repos' },
+      { status: 500 }
+    );
+  }
+}
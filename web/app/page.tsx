@@ -5,9 +5,11 @@ import { IssueSelector } from '@/components/IssueSelector';
 import { CompetitionPanel } from '@/components/CompetitionPanel';
 import { HistoryList } from '@/components/HistoryList';
 import { Leaderboard } from '@/components/Leaderboard';
+import { AgentRegistry } from '@/components/AgentRegistry';
+import { EscrowBalance } from '@/components/EscrowBalance';
 import { useCompetitionSocket } from '@/hooks/useCompetitionSocket';
 import type { Competition, Issue } from '@/lib/services';
-import { ChevronDown, ChevronUp, Crosshair, Github, Trophy, History, Target } from 'lucide-react';
+import { ChevronDown, ChevronUp, Crosshair, Github, Trophy, History, Target, Users } from 'lucide-react';
 
 export default function Home() {
   // State
@@ -19,6 +21,7 @@ export default function Home() {
   // Collapsible sections
   const [historyOpen, setHistoryOpen] = useState(true);
   const [leaderboardOpen, setLeaderboardOpen] = useState(true);
+  const [agentsOpen, setAgentsOpen] = useState(false);
 
   // WebSocket connection for active competition
   const { competition: liveCompetition, connected, streaming } = useCompetitionSocket({
@@ -107,6 +110,7 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-2 text-sm">
+              <EscrowBalance refreshKey={`${activeCompetition?.id}:${activeCompetition?.status}`} />
               <span className="px-3 py-1 btn-leather rounded text-foreground">
                 MongoDB Atlas
               </span>
@@ -143,7 +147,7 @@ export default function Home() {
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                   <Target className="w-5 h-5 text-primary" />
-                  {activeCompetition.status === 'completed' ? 'Last Showdown' : 'Active Showdown'}
+                  {activeCompetition.status === 'completed' || activeCompetition.status === 'cancelled' ? 'Last Showdown' : 'Active Showdown'}
                 </h2>
                 <button
                   onClick={() => setActiveCompetition(null)}
@@ -213,6 +217,29 @@ export default function Home() {
             </div>
           )}
         </section>
+
+        {/* Agent Registry Section */}
+        <section className="border border-border rounded-lg overflow-hidden">
+          <button
+            onClick={() => setAgentsOpen(!agentsOpen)}
+            className="w-full flex items-center justify-between p-4 hover:bg-muted/50"
+          >
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Users className="w-5 h-5 text-muted-foreground" />
+              Hunters Registry
+            </h2>
+            {agentsOpen ? (
+              <ChevronUp className="w-5 h-5 text-muted-foreground" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-muted-foreground" />
+            )}
+          </button>
+          {agentsOpen && (
+            <div className="p-4 pt-0">
+              <AgentRegistry />
+            </div>
+          )}
+        </section>
       </main>
 
       {/* Footer */}
@@ -41,6 +41,7 @@ export function AgentCard({ agent, isWinner, streamingCode }: AgentCardProps) {
         agent.status === 'solving' && 'border-primary bg-primary/5 animate-solving',
         agent.status === 'done' && 'border-green-500/50 bg-green-500/5',
         agent.status === 'failed' && 'border-red-500/50 bg-red-500/5',
+        agent.status === 'timed_out' && 'border-orange-500/50 bg-orange-500/5',
         isWinner && 'ring-2 ring-yellow-500 border-yellow-500'
       )}
     >
@@ -62,8 +63,65 @@ export function AgentCard({ agent, isWinner, streamingCode }: AgentCardProps) {
       <div className="flex items-center gap-2 text-muted-foreground mb-3">
         <Clock className="w-4 h-4" />
         <span className="font-mono text-sm">{displayTime}</span>
+        {agent.solution?.usage && (
+          <span
+            className="ml-auto font-mono text-xs"
+            title={`${agent.solution.usage.promptTokens.toLocaleString()} prompt + ${agent.solution.usage.completionTokens.toLocaleString()} completion tokens${agent.solution.usage.estimated ? ' (estimated)' : ''}`}
+          >
+            {agent.solution.usage.totalTokens.toLocaleString()} tok
+            {agent.solution.cost !== undefined && ` · $${agent.solution.cost.toFixed(4)}`}
+          </span>
+        )}
       </div>
 
+      {/* Build/test verification */}
+      {agent.verification && (
+        <div className="flex items-center gap-2 mb-3 text-xs">
+          <span
+            className={cn(
+              'px-2 py-0.5 rounded font-medium',
+              agent.verification.buildPassed ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'
+            )}
+            title={agent.verification.error || agent.verification.build?.logs.slice(-500)}
+          >
+            BUILD {agent.verification.buildPassed ? 'PASS' : 'FAIL'}
+          </span>
+          {agent.verification.testsPassed !== null && (
+            <span
+              className={cn(
+                'px-2 py-0.5 rounded font-medium',
+                agent.verification.testsPassed ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'
+              )}
+              title={agent.verification.test?.logs.slice(-500)}
+            >
+              TESTS {agent.verification.testsPassed ? 'PASS' : 'FAIL'}
+            </span>
+          )}
+          <span className="text-muted-foreground font-mono">{formatTime(agent.verification.durationMs)}</span>
+        </div>
+      )}
+
+      {/* Failure reason (e.g. a rejected patch) */}
+      {agent.status === 'failed' && agent.error && (
+        <div className="mb-3 text-xs text-red-500 break-words">{agent.error}</div>
+      )}
+      {agent.status === 'timed_out' && agent.error && (
+        <div className="mb-3 text-xs text-orange-500 break-words">{agent.error}</div>
+      )}
+
+      {/* Files touched by the patch */}
+      {agent.solution?.patch && (
+        <div className="mb-3 space-y-0.5 text-xs font-mono">
+          {agent.solution.patch.files.map((file) => (
+            <div key={file.path} className="flex items-center gap-2">
+              <span className="truncate">{file.path}</span>
+              <span className="text-green-500">+{file.additions}</span>
+              <span className="text-red-500">-{file.deletions}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Solution preview - show streaming or final */}
       {(agent.solution || streamingCode) && (
         <div className="mt-3">
@@ -89,6 +147,9 @@ export function AgentCard({ agent, isWinner, streamingCode }: AgentCardProps) {
         {agent.status === 'failed' && (
           <X className="w-5 h-5 text-red-500" />
         )}
+        {agent.status === 'timed_out' && (
+          <Clock className="w-5 h-5 text-orange-500" />
+        )}
       </div>
     </div>
   );
@@ -102,10 +163,11 @@ function StatusBadge({ status }: { status: AgentStatus['status'] }) {
         status === 'idle' && 'bg-muted text-muted-foreground',
         status === 'solving' && 'bg-primary/20 text-primary',
         status === 'done' && 'bg-green-500/20 text-green-500',
-        status === 'failed' && 'bg-red-500/20 text-red-500'
+        status === 'failed' && 'bg-red-500/20 text-red-500',
+        status === 'timed_out' && 'bg-orange-500/20 text-orange-500'
       )}
     >
-      {status.toUpperCase()}
+      {status === 'timed_out' ? 'TIMED OUT' : status.toUpperCase()}
     </span>
   );
 }
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { RegisteredAgent } from '@/lib/services';
+import { Loader2, Plus, Power, Trash2 } from 'lucide-react';
+
+const PROVIDERS: RegisteredAgent['provider'][] = ['fireworks', 'openai', 'anthropic', 'google', 'xai'];
+
+const inputClass =
+  'w-full px-3 py-2 bg-muted border border-border rounded-md text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+
+const emptyForm = {
+  id: '',
+  name: '',
+  url: '',
+  provider: 'fireworks' as RegisteredAgent['provider'],
+  model: '',
+  costPerToken: '0.0000009',
+  avgTokensPerSolution: '100000',
+  minimumMargin: '0.3',
+  contextWindow: '128000',
+  walletAddress: '',
+};
+
+export function AgentRegistry() {
+  const [agents, setAgents] = useState<RegisteredAgent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Register form
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // Poll so online/offline status follows the registry's health checks
+  useEffect(() => {
+    loadAgents();
+    const timer = setInterval(loadAgents, 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadAgents = async () => {
+    try {
+      const res = await fetch('/api/agents');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load agents');
+      }
+      setAgents(data.agents);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateAgent = async (id: string, init: RequestInit) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/agents/${encodeURIComponent(id)}`, init);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      await loadAgents();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleAgent = (agent: RegisteredAgent) =>
+    updateAgent(agent.id, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !agent.enabled }),
+    });
+
+  const removeAgent = (agent: RegisteredAgent) => {
+    if (!confirm(`Remove ${agent.name} from the registry?`)) return;
+    updateAgent(agent.id, { method: 'DELETE' });
+  };
+
+  const registerAgent = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/agents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id.trim(),
+          name: form.name.trim(),
+          url: form.url.trim(),
+          provider: form.provider,
+          model: form.model.trim(),
+          costPerToken: Number(form.costPerToken),
+          avgTokensPerSolution: Number(form.avgTokensPerSolution),
+          minimumMargin: Number(form.minimumMargin),
+          contextWindow: Number(form.contextWindow),
+          walletAddress: form.walletAddress.trim() || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to register agent');
+      }
+      setForm(emptyForm);
+      setShowForm(false);
+      await loadAgents();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field = (key: keyof typeof emptyForm, placeholder: string) => (
+    <input
+      type="text"
+      value={form[key]}
+      onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-4 text-muted-foreground text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading agents...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Error */}
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-md text-red-500 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Agent List */}
+      <div className="border border-border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-8 gap-2 p-3 bg-muted/50 text-sm font-medium text-muted-foreground">
+          <div className="col-span-2">Agent</div>
+          <div className="col-span-3">Model</div>
+          <div className="text-right">Min Price</div>
+          <div className="col-span-2 text-right">Status</div>
+        </div>
+
+        {agents.length === 0 && (
+          <div className="p-4 text-center text-sm text-muted-foreground border-t border-border">
+            No agents registered.
+          </div>
+        )}
+
+        {agents.map((agent) => {
+          const minPrice = agent.avgTokensPerSolution * agent.costPerToken * (1 + agent.minimumMargin);
+          return (
+            <div
+              key={agent.id}
+              className={cn(
+                'grid grid-cols-8 gap-2 p-3 items-center border-t border-border text-sm',
+                !agent.enabled && 'opacity-60'
+              )}
+            >
+              <div className="col-span-2">
+                <div className="font-medium flex items-center gap-2">
+                  <span
+                    className={cn('w-2 h-2 rounded-full', agent.online ? 'bg-green-500' : 'bg-muted-foreground')}
+                    title={agent.online ? 'Online' : 'Offline'}
+                  />
+                  {agent.name}
+                  {agent.selfRegistered && (
+                    <span className="px-1.5 py-0.5 bg-muted rounded text-xs font-normal text-muted-foreground">remote</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono truncate">{agent.url}</div>
+                <div className="text-xs text-muted-foreground">
+                  {agent.online
+                    ? 'Online'
+                    : agent.providerStatus?.circuit === 'open'
+                      ? `Offline, ${agent.provider} unavailable`
+                      : agent.lastSeenAt ? `Offline, last seen ${formatRelativeTime(agent.lastSeenAt)}` : 'Offline, never seen'}
+                </div>
+              </div>
+              <div className="col-span-3">
+                <div className="font-mono text-xs truncate">{agent.model.split('/').pop()}</div>
+                <div className="text-xs text-muted-foreground">
+                  {agent.provider}
+                  {agent.languages && agent.languages.length > 0 && ` · ${agent.languages.join(', ')}`}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-mono text-green-500">${minPrice.toFixed(4)}</div>
+                {!!agent.callPrices?.solve && (
+                  <div className="text-xs text-muted-foreground" title="Charged per /solve call through x402">
+                    +${agent.callPrices.solve.toFixed(4)}/call
+                  </div>
+                )}
+              </div>
+              <div className="col-span-2 flex items-center justify-end gap-2">
+                <span className={cn('text-xs', agent.enabled ? 'text-green-500' : 'text-muted-foreground')}>
+                  {agent.enabled ? 'Enabled' : 'Disabled'}
+                </span>
+                <button
+                  onClick={() => toggleAgent(agent)}
+                  disabled={busyId === agent.id}
+                  title={agent.enabled ? 'Disable' : 'Enable'}
+                  className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  {busyId === agent.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Power className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => removeAgent(agent)}
+                  disabled={busyId === agent.id}
+                  title="Remove"
+                  className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-red-500 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Register Form */}
+      {showForm ? (
+        <div className="p-4 border border-border rounded-md space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {field('id', 'ID (e.g. mistral)')}
+            {field('name', 'Display name')}
+            {field('url', 'Agent URL (e.g. http://localhost:3010)')}
+            <select
+              value={form.provider}
+              onChange={(e) => setForm({ ...form, provider: e.target.value as RegisteredAgent['provider'] })}
+              className={inputClass}
+            >
+              {PROVIDERS.map((provider) => (
+                <option key={provider} value={provider}>{provider}</option>
+              ))}
+            </select>
+            {field('model', 'Model')}
+            {field('contextWindow', 'Context window (tokens)')}
+            {field('costPerToken', 'Cost per token (USD)')}
+            {field('avgTokensPerSolution', 'Avg tokens per solution')}
+            {field('minimumMargin', 'Minimum margin (0.3 = 30%)')}
+            {field('walletAddress', 'Wallet address (optional)')}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={registerAgent}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Register
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="text-sm text-primary hover:underline flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Register agent
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default AgentRegistry;
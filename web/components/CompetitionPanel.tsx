@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { AgentCard } from './AgentCard';
 import { cn } from '@/lib/utils';
-import type { Competition } from '@/lib/services';
+import type { Competition, RetrievedChunkSummary, AuctionResult, BountyEscalation, PaymentRecord } from '@/lib/services';
 import {
   Loader2,
   Gavel,
@@ -16,6 +16,10 @@ import {
   FileCode,
   Cpu,
   GitPullRequest,
+  Hammer,
+  TrendingUp,
+  Ban,
+  Hourglass,
 } from 'lucide-react';
 
 // RAG progress state
@@ -25,6 +29,7 @@ interface RAGProgress {
   current?: number;
   total?: number;
   chunksFound?: number;
+  chunks?: RetrievedChunkSummary[];
 }
 
 // Streaming state type
@@ -60,20 +65,28 @@ export function CompetitionPanel({ competition, connected, streaming }: Competit
             Bounty: <span className="text-green-500 font-semibold">${competition.bountyAmount} USDC</span>
           </p>
         </div>
-        {connected !== undefined && (
-          <div className={cn(
-            'flex items-center gap-2 text-xs',
-            connected ? 'text-green-500' : 'text-red-500'
-          )}>
-            <span className={cn(
-              'w-2 h-2 rounded-full',
-              connected ? 'bg-green-500' : 'bg-red-500'
-            )} />
-            {connected ? 'Live' : 'Disconnected'}
-          </div>
-        )}
+        <div className="flex items-center gap-4">
+          {CANCELLABLE.includes(competition.status) && <CancelButton competitionId={competition.id} />}
+          {connected !== undefined && (
+            <div className={cn(
+              'flex items-center gap-2 text-xs',
+              connected ? 'text-green-500' : 'text-red-500'
+            )}>
+              <span className={cn(
+                'w-2 h-2 rounded-full',
+                connected ? 'bg-green-500' : 'bg-red-500'
+              )} />
+              {connected ? 'Live' : 'Disconnected'}
+            </div>
+          )}
+        </div>
       </div>
 
+      {/* Auction outcome and bid book */}
+      {competition.auction && (
+        <AuctionPanel auction={competition.auction} agents={competition.agents} escalations={competition.escalations} />
+      )}
+
       {/* RAG Progress Panel */}
       {(showRagProgress || ragComplete) && (
         <RAGProgressPanel ragProgress={ragProgress!} />
@@ -109,6 +122,52 @@ export function CompetitionPanel({ competition, connected, streaming }: Competit
   );
 }
 
+// Statuses a competition can still be cancelled in (not once it pays out)
+const CANCELLABLE: Competition['status'][] = ['queued', 'pending', 'running', 'verifying', 'judging'];
+
+/**
+ * Stop the competition; the competition:cancelled event updates the panel once the run has stopped
+ */
+function CancelButton({ competitionId }: { competitionId: string }) {
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/competitions/${competitionId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Cancelled from the web UI' }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to cancel');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel');
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <button
+        onClick={handleCancel}
+        disabled={cancelling}
+        className="px-3 py-1 text-xs rounded-md border border-red-500/50 text-red-500 hover:bg-red-500/10 disabled:opacity-50 flex items-center gap-1"
+      >
+        {cancelling ? <Loader2 className="w-3 h-3 animate-spin" /> : <Ban className="w-3 h-3" />}
+        {cancelling ? 'Cancelling...' : 'Cancel'}
+      </button>
+    </div>
+  );
+}
+
 /**
  * RAG Progress Panel - Shows vector indexing/search progress
  */
@@ -165,6 +224,28 @@ function RAGProgressPanel({ ragProgress }: { ragProgress: RAGProgress }) {
         )}
       </div>
 
+      {/* Retrieved chunks and why they matched */}
+      {ragProgress.stage === 'complete' && ragProgress.chunks && ragProgress.chunks.length > 0 && (
+        <div className="mt-3 space-y-1 max-h-48 overflow-y-auto">
+          {ragProgress.chunks.map((chunk, i) => (
+            <div key={i} className="flex items-baseline gap-2 text-xs">
+              <span className="font-mono truncate max-w-[50%]" title={chunk.filePath}>
+                {chunk.filePath}
+                <span className="opacity-60"> · {chunk.chunkName}</span>
+              </span>
+              {chunk.match && (
+                <span className="opacity-70 truncate flex-1" title={chunk.match.reason}>
+                  {chunk.match.reason}
+                </span>
+              )}
+              {chunk.score !== undefined && (
+                <span className="opacity-70 flex-shrink-0">{(chunk.score * 100).toFixed(0)}%</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Progress bar for embedding stage */}
       {ragProgress.stage === 'embedding' && ragProgress.current && ragProgress.total && (
         <div className="mt-3">
@@ -180,6 +261,74 @@ function RAGProgressPanel({ ragProgress }: { ragProgress: RAGProgress }) {
   );
 }
 
+/**
+ * Auction Panel - Shows how the bidding phase settled and every bid placed
+ */
+function AuctionPanel({
+  auction,
+  agents,
+  escalations = [],
+}: {
+  auction: AuctionResult;
+  agents: Competition['agents'];
+  escalations?: BountyEscalation[];
+}) {
+  const [open, setOpen] = useState(false);
+  const nameOf = (id: string) => agents.find((a) => a.id === id)?.name ?? id;
+
+  return (
+    <div className="border border-border rounded-lg p-4">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-3 text-left">
+        <Gavel className="w-5 h-5 text-primary flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <span className="font-medium capitalize">{auction.config.mode.replace('-', ' ')} auction</span>
+          <p className="text-sm text-muted-foreground truncate">{auction.summary}</p>
+        </div>
+        <span className="text-xs text-muted-foreground flex-shrink-0">
+          {auction.bids.length} bids{auction.rounds > 1 ? `, ${auction.rounds} rounds` : ''}
+          {escalations.length > 0 && `, escalated ${escalations.length}x`}
+        </span>
+      </button>
+
+      {/* Ceiling raises after every agent declined */}
+      {escalations.length > 0 && (
+        <div className="mt-3 space-y-1 text-xs">
+          {escalations.map((e) => (
+            <div key={e.round} className="flex items-baseline gap-2">
+              <TrendingUp className="w-3 h-3 text-amber-500 flex-shrink-0 self-center" />
+              <span className="font-mono flex-shrink-0">
+                ${e.fromPrice.toFixed(4)} → ${e.toPrice.toFixed(4)}
+              </span>
+              <span className="opacity-70 truncate flex-1" title={e.summary}>
+                {e.reason}: {e.participants > 0 ? `${e.participants} agents bid` : 'still no bids'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-3 space-y-1 max-h-48 overflow-y-auto text-xs">
+          {auction.bids.map((bid, i) => (
+            <div key={i} className="flex items-baseline gap-2">
+              {auction.rounds > 1 && <span className="opacity-60 w-8 flex-shrink-0">R{bid.round}</span>}
+              <span className={cn('w-24 flex-shrink-0 truncate', auction.participants.includes(bid.agentId) && 'text-green-500 font-medium')}>
+                {nameOf(bid.agentId)}
+              </span>
+              <span className="font-mono w-32 flex-shrink-0">
+                {bid.bidPrice !== null ? `$${bid.bidPrice.toFixed(4)}` : 'declined'}
+                <span className="opacity-60"> @ ${bid.offeredPrice.toFixed(4)}</span>
+              </span>
+              {bid.etaMs !== undefined && <span className="opacity-60 w-12 flex-shrink-0">~{Math.round(bid.etaMs / 1000)}s</span>}
+              <span className="opacity-70 truncate flex-1" title={bid.reason}>{bid.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Judge Thinking Panel - Shows AI reasoning during judging
  */
@@ -275,11 +424,14 @@ function parseJudgeThinking(thinking: string): Array<{
 
 function StatusIndicator({ status }: { status: Competition['status'] }) {
   const config = {
+    queued: { icon: Hourglass, text: 'Queued', className: 'text-muted-foreground', spin: false },
     pending: { icon: Loader2, text: 'Pending', className: 'text-muted-foreground', spin: true },
     running: { icon: Zap, text: 'Racing', className: 'text-primary', spin: false },
+    verifying: { icon: Hammer, text: 'Verifying', className: 'text-blue-500', spin: false },
     judging: { icon: Gavel, text: 'Judging', className: 'text-yellow-500', spin: false },
     paying: { icon: CreditCard, text: 'Paying', className: 'text-cyan-500', spin: false },
     completed: { icon: CheckCircle, text: 'Completed', className: 'text-green-500', spin: false },
+    cancelled: { icon: Ban, text: 'Cancelled', className: 'text-red-500', spin: false },
   }[status];
 
   const Icon = config.icon;
@@ -301,6 +453,15 @@ function StatusMessage({
   ragComplete?: boolean;
   chunksFound?: number;
 }) {
+  if (competition.status === 'queued') {
+    return (
+      <div className="text-center py-4 text-muted-foreground flex items-center justify-center gap-2">
+        <Hourglass className="w-5 h-5" />
+        Queued{competition.queuePosition ? ` - #${competition.queuePosition} in line` : ''}, waiting for a free slot...
+      </div>
+    );
+  }
+
   if (competition.status === 'pending') {
     return (
       <div className="text-center py-4 text-muted-foreground">
@@ -325,6 +486,17 @@ function StatusMessage({
     );
   }
 
+  if (competition.status === 'verifying') {
+    const verified = competition.agents.filter((a) => a.verification).length;
+    const candidates = competition.agents.filter((a) => a.solution?.success).length;
+    return (
+      <div className="text-center py-4 text-blue-500 flex items-center justify-center gap-2">
+        <Hammer className="w-5 h-5" />
+        Building and testing solutions ({verified}/{candidates})...
+      </div>
+    );
+  }
+
   if (competition.status === 'judging') {
     return (
       <div className="text-center py-4 text-yellow-500 flex items-center justify-center gap-2">
@@ -343,9 +515,86 @@ function StatusMessage({
     );
   }
 
+  if (competition.status === 'cancelled') {
+    return (
+      <div className="text-center py-4 text-red-500 flex items-center justify-center gap-2">
+        <Ban className="w-5 h-5" />
+        {competition.error ?? 'Cancelled'} - bounty refunded
+      </div>
+    );
+  }
+
+  if (competition.status === 'completed' && competition.error) {
+    return (
+      <div className="text-center py-4 text-red-500 flex items-center justify-center gap-2">
+        <AlertCircle className="w-5 h-5" />
+        {competition.error}
+      </div>
+    );
+  }
+
   return null;
 }
 
+const PAYOUT_ROLE_LABELS: Record<NonNullable<PaymentRecord['role']>, string> = {
+  winner: 'Winner',
+  contributor: 'Contributor',
+  consolation: 'Consolation',
+};
+
+/**
+ * Split payout: one row per recipient with its own transfer status
+ */
+function PayoutList({ competition }: { competition: Competition }) {
+  const records = competition.paymentRecords ?? [];
+  const total = records.filter((r) => r.status !== 'failed').reduce((sum, r) => sum + r.amount, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Payouts:</span>
+        <span className="font-mono text-green-500">${total.toFixed(4)}</span>
+        <span className="text-muted-foreground">
+          to {records.length} agents{competition.payoutPolicy && ` (${competition.payoutPolicy.kind})`}
+        </span>
+      </div>
+      {records.map((record) => (
+        <div key={record.id} className="grid grid-cols-4 gap-2 items-center p-2 bg-muted/50 rounded text-sm">
+          <div>
+            <div className="font-medium">{competition.agents.find((a) => a.id === record.agentId)?.name ?? record.agentId}</div>
+            <div className="text-xs text-muted-foreground">{PAYOUT_ROLE_LABELS[record.role ?? 'winner']}</div>
+          </div>
+          <div className="font-mono text-green-500 text-right">${record.amount.toFixed(4)}</div>
+          <div className="col-span-2 text-right">
+            {record.status === 'failed' ? (
+              <span className="text-red-500 inline-flex items-center gap-1 text-xs">
+                <AlertCircle className="w-3 h-3" />
+                {record.error ?? 'Failed'}
+                {record.nextAttemptAt && <span className="text-muted-foreground">, retrying</span>}
+              </span>
+            ) : record.txHash ? (
+              <span className="inline-flex items-center gap-2">
+                {record.status === 'pending' && <span className="text-xs text-yellow-500">confirming</span>}
+                <a
+                  href={`https://sepolia.basescan.org/tx/${record.txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-cyan-500 hover:underline font-mono text-xs"
+                  title={record.reason}
+                >
+                  {record.txHash.slice(0, 10)}...{record.txHash.slice(-8)}
+                </a>
+              </span>
+            ) : (
+              <span className="text-muted-foreground text-xs">Pending</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function CompletionDetails({ competition }: { competition: Competition }) {
   const winner = competition.agents.find((a) => a.id === competition.winner);
   const [creatingPR, setCreatingPR] = useState(false);
@@ -393,26 +642,38 @@ function CompletionDetails({ competition }: { competition: Competition }) {
       )}
 
       {/* Payment status */}
-      <div className="flex items-center gap-2">
-        <span className="text-muted-foreground">Payment:</span>
-        {competition.paymentTxHash ? (
-          <a
-            href={`https://sepolia.basescan.org/tx/${competition.paymentTxHash}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-cyan-500 hover:underline font-mono text-sm"
-          >
-            {competition.paymentTxHash.slice(0, 10)}...{competition.paymentTxHash.slice(-8)}
-          </a>
-        ) : competition.paymentError ? (
-          <span className="text-red-500 flex items-center gap-1">
-            <AlertCircle className="w-4 h-4" />
-            {competition.paymentError}
-          </span>
-        ) : (
-          <span className="text-muted-foreground">Pending</span>
-        )}
-      </div>
+      {competition.paymentRecords && competition.paymentRecords.length > 1 ? (
+        <PayoutList competition={competition} />
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Payment:</span>
+          {competition.paymentTxHash ? (
+            <>
+              <a
+                href={`https://sepolia.basescan.org/tx/${competition.paymentTxHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-cyan-500 hover:underline font-mono text-sm"
+              >
+                {competition.paymentTxHash.slice(0, 10)}...{competition.paymentTxHash.slice(-8)}
+              </a>
+              {competition.paymentRecord?.status === 'pending' && (
+                <span className="text-xs text-yellow-500">confirming</span>
+              )}
+            </>
+          ) : competition.paymentError ? (
+            <span className="text-red-500 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {competition.paymentError}
+              {competition.paymentRecord?.nextAttemptAt && (
+                <span className="text-muted-foreground text-sm">(retrying)</span>
+              )}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Pending</span>
+          )}
+        </div>
+      )}
 
       {/* Review scores with reasoning */}
       {competition.reviewResult && (
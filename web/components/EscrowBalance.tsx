@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import type { EscrowSummary } from '@/lib/services';
+import { Lock, Wallet } from 'lucide-react';
+
+interface EscrowBalanceProps {
+  refreshKey?: string; // Changes when a competition starts or ends, to refresh right away
+}
+
+const formatUSDC = (amount: number | null) => (amount === null ? '—' : `$${amount.toFixed(4)}`);
+
+export function EscrowBalance({ refreshKey }: EscrowBalanceProps) {
+  const [escrow, setEscrow] = useState<EscrowSummary | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    loadEscrow();
+    const timer = setInterval(loadEscrow, 15000);
+    return () => clearInterval(timer);
+  }, [refreshKey]);
+
+  const loadEscrow = async () => {
+    try {
+      const res = await fetch('/api/escrow');
+      if (!res.ok) {
+        throw new Error('Failed to load escrow');
+      }
+      setEscrow(await res.json());
+      setError(false);
+    } catch {
+      setError(true);
+    }
+  };
+
+  if (!escrow) {
+    return error ? (
+      <span className="px-3 py-1 rounded text-sm text-muted-foreground">Wallet unavailable</span>
+    ) : null;
+  }
+
+  const low = escrow.available !== null && escrow.balance !== null && escrow.available < escrow.balance * 0.1;
+  const holds = escrow.holds
+    .map((h) => `${h.competitionId}: ${formatUSDC(h.amount)}`)
+    .join('\n');
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-1 border border-border rounded text-sm" title={holds || 'No bounties in escrow'}>
+      <span className="flex items-center gap-1.5">
+        <Wallet className="w-4 h-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Available</span>
+        <span className={cn('font-mono', low ? 'text-red-500' : 'text-green-500')}>{formatUSDC(escrow.available)}</span>
+      </span>
+      <span className="flex items-center gap-1.5">
+        <Lock className="w-4 h-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Reserved</span>
+        <span className="font-mono text-gold">{formatUSDC(escrow.reserved)}</span>
+        {escrow.holds.length > 0 && (
+          <span className="text-xs text-muted-foreground">({escrow.holds.length})</span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+export default EscrowBalance;
@@ -2,7 +2,7 @@
 
 import { cn, truncate, formatRelativeTime } from '@/lib/utils';
 import type { Competition } from '@/lib/services';
-import { CheckCircle, Clock, Loader2, Trophy } from 'lucide-react';
+import { Ban, CheckCircle, Clock, Hourglass, Loader2, Trophy } from 'lucide-react';
 
 interface HistoryListProps {
   competitions: Competition[];
@@ -38,7 +38,7 @@ export function HistoryList({ competitions, onSelect, loading }: HistoryListProp
             onClick={() => onSelect?.(comp)}
             className={cn(
               'w-full text-left p-3 rounded-md border border-border hover:border-muted-foreground transition-colors',
-              comp.status === 'completed' ? 'hover:bg-muted/50' : 'bg-primary/5'
+              comp.status === 'completed' || comp.status === 'cancelled' ? 'hover:bg-muted/50' : 'bg-primary/5'
             )}
           >
             <div className="flex items-center justify-between">
@@ -46,6 +46,10 @@ export function HistoryList({ competitions, onSelect, loading }: HistoryListProp
                 {/* Status icon */}
                 {comp.status === 'completed' ? (
                   <CheckCircle className="w-5 h-5 text-green-500" />
+                ) : comp.status === 'cancelled' ? (
+                  <Ban className="w-5 h-5 text-red-500" />
+                ) : comp.status === 'queued' ? (
+                  <Hourglass className="w-5 h-5 text-muted-foreground" />
                 ) : (
                   <Clock className="w-5 h-5 text-primary animate-pulse" />
                 )}
@@ -54,6 +58,11 @@ export function HistoryList({ competitions, onSelect, loading }: HistoryListProp
                 <div>
                   <span className="text-green-500 font-mono text-sm">#{comp.issue.number}</span>
                   <span className="ml-2">{truncate(comp.issue.title, 40)}</span>
+                  {comp.status === 'queued' && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground">
+                      Queued{comp.queuePosition ? ` #${comp.queuePosition}` : ''}
+                    </span>
+                  )}
                 </div>
               </div>
 
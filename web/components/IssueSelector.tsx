@@ -2,8 +2,8 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { cn, truncate } from '@/lib/utils';
-import type { Issue } from '@/lib/services';
-import { Loader2, Search, Plus, ExternalLink } from 'lucide-react';
+import type { Issue, IndexedRepo, BountyEstimate } from '@/lib/services';
+import { Loader2, Search, Plus, ExternalLink, Database, Coins } from 'lucide-react';
 
 interface IssueSelectorProps {
   onSelectIssue: (issue: Issue) => void;
@@ -36,6 +36,9 @@ export function IssueSelector({ onSelectIssue, disabled }: IssueSelectorProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  const [indexedRepos, setIndexedRepos] = useState<IndexedRepo[]>([]);
+  const [estimate, setEstimate] = useState<BountyEstimate | null>(null);
+  const [pricing, setPricing] = useState(false);
   const lastLoadedUrl = useRef<string>('');
 
   // Debounce repo URL by 800ms to avoid searching while typing
@@ -47,6 +50,43 @@ export function IssueSelector({ onSelectIssue, disabled }: IssueSelectorProps) {
   const [newBody, setNewBody] = useState('');
   const [creating, setCreating] = useState(false);
 
+  // Load indexed repos once - purely informational, failures are ignored
+  useEffect(() => {
+    fetch('/api/rag/repos')
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setIndexedRepos)
+      .catch(() => setIndexedRepos([]));
+  }, []);
+
+  // Suggested bounty for the selected issue - informational, failures just hide it
+  useEffect(() => {
+    setEstimate(null);
+    if (!selectedIssue) return;
+
+    let cancelled = false;
+    setPricing(true);
+    fetch('/api/pricing', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ issue: selectedIssue }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => !cancelled && setEstimate(data))
+      .catch(() => !cancelled && setEstimate(null))
+      .finally(() => !cancelled && setPricing(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIssue]);
+
+  // Latest indexed commit for the repo being typed (listing is newest first)
+  const currentIndex = indexedRepos.find(
+    (entry) => entry.repoUrl.replace(/\/$/, '') === repoUrl.trim().replace(/\/$/, '')
+  );
+  const otherIndexedRepos = indexedRepos
+    .map((entry) => entry.repoUrl)
+    .filter((url, i, all) => all.indexOf(url) === i && url !== currentIndex?.repoUrl);
+
   // Auto-load issues when a valid GitHub URL is entered (after debounce)
   useEffect(() => {
     if (
@@ -157,6 +197,36 @@ export function IssueSelector({ onSelectIssue, disabled }: IssueSelectorProps) {
             Load
           </button>
         </div>
+
+        {/* Index status for the entered repo */}
+        {repoUrl.trim() && (
+          <div className="mt-2 flex items-center gap-1.5 text-xs">
+            <Database className="w-3.5 h-3.5 text-muted-foreground" />
+            {currentIndex ? (
+              <span className="text-green-500">
+                Indexed at <span className="font-mono">{currentIndex.commitId.slice(0, 8)}</span> ({currentIndex.chunks} chunks)
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Not indexed yet - it will be indexed when the competition starts</span>
+            )}
+          </div>
+        )}
+
+        {/* Quick-pick from already indexed repos */}
+        {otherIndexedRepos.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {otherIndexedRepos.slice(0, 5).map((url) => (
+              <button
+                key={url}
+                onClick={() => setRepoUrl(url)}
+                disabled={disabled || loading}
+                className="px-2 py-0.5 bg-muted rounded text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                {url.replace('https://github.com/', '')}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Error */}
@@ -265,6 +335,37 @@ export function IssueSelector({ onSelectIssue, disabled }: IssueSelectorProps) {
         </div>
       )}
 
+      {/* Suggested Bounty */}
+      {selectedIssue && (pricing || estimate) && (
+        <div className="p-3 border border-border rounded-md text-sm">
+          {estimate ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Coins className="w-4 h-4 text-green-500" />
+                <span className="font-medium">Suggested bounty</span>
+                <span className="font-mono text-green-500">${estimate.amount.toFixed(3)}</span>
+                <span className="text-muted-foreground">
+                  (${estimate.low.toFixed(3)}-${estimate.high.toFixed(3)}, {Math.round(estimate.confidence * 100)}% confidence)
+                </span>
+              </div>
+              <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                {estimate.factors.map((factor) => (
+                  <li key={factor.name} className="flex justify-between gap-2">
+                    <span className="truncate">{factor.detail}</span>
+                    <span className="font-mono flex-shrink-0">×{factor.multiplier.toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Pricing issue...
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Start Button */}
       {selectedIssue && (
         <button
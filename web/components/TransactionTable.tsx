@@ -26,7 +26,7 @@ function truncateHash(hash: string): string {
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
 }
 
-function StatusBadge({ status }: { status: PaymentRecord['status'] }) {
+function StatusBadge({ status, retrying }: { status: PaymentRecord['status']; retrying?: boolean }) {
   const statusConfig = {
     confirmed: {
       icon: Check,
@@ -46,12 +46,12 @@ function StatusBadge({ status }: { status: PaymentRecord['status'] }) {
   };
 
   const config = statusConfig[status];
-  const Icon = config.icon;
+  const Icon = retrying ? Clock : config.icon;
 
   return (
     <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium', config.className)}>
       <Icon className="w-3 h-3" />
-      {config.label}
+      {retrying ? 'Retrying' : config.label}
     </span>
   );
 }
@@ -61,7 +61,7 @@ export function TransactionTable({ payments, network = 'Base Sepolia' }: Transac
     return (
       <div className="text-center py-12 text-muted-foreground">
         <p className="text-lg">No transactions yet</p>
-        <p className="text-sm mt-1">Payments will appear here when the agent wins competitions</p>
+        <p className="text-sm mt-1">Payments will appear here when the agent wins or shares a bounty</p>
       </div>
     );
   }
@@ -93,14 +93,19 @@ export function TransactionTable({ payments, network = 'Base Sepolia' }: Transac
             {truncateHash(payment.competitionId)}
           </div>
 
-          {/* Amount */}
-          <div className="text-right font-mono text-green-500 font-medium">
-            ${payment.amount.toFixed(2)}
+          {/* Amount (split payouts show the recipient's role, call fees say so) */}
+          <div className="text-right">
+            <div className="font-mono text-green-500 font-medium">${payment.amount.toFixed(2)}</div>
+            {payment.kind === 'call' ? (
+              <div className="text-xs text-muted-foreground" title={payment.reason}>Call fee</div>
+            ) : payment.role && payment.role !== 'winner' && (
+              <div className="text-xs text-muted-foreground capitalize" title={payment.reason}>{payment.role}</div>
+            )}
           </div>
 
           {/* Status */}
           <div className="text-center">
-            <StatusBadge status={payment.status} />
+            <StatusBadge status={payment.status} retrying={payment.status === 'failed' && !!payment.nextAttemptAt} />
           </div>
 
           {/* Transaction Hash */}
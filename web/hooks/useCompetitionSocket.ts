@@ -1,13 +1,17 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { Competition, Solution, AgentStatus } from '@/lib/services';
+import type { Competition, Solution, AgentStatus, VerificationResult, RetrievedChunkSummary, BountyEscalation, PaymentRecord, AuctionResult } from '@/lib/services';
 
 // Event types from the WebSocket server
 type CompetitionEventType =
   | 'competition:sync'
   | 'competition:created'
+  | 'competition:queued'
   | 'competition:started'
+  | 'competition:resumed'
+  | 'auction:settled'
+  | 'bounty:escalated'
   | 'rag:indexing'
   | 'rag:progress'
   | 'rag:complete'
@@ -15,10 +19,15 @@ type CompetitionEventType =
   | 'agent:streaming'
   | 'agent:done'
   | 'agent:failed'
+  | 'agent:timed_out'
+  | 'competition:verifying'
+  | 'agent:verified'
   | 'competition:judging'
   | 'judging:streaming'
   | 'competition:paying'
-  | 'competition:completed';
+  | 'competition:completed'
+  | 'competition:cancelled'
+  | 'payment:updated';
 
 interface CompetitionEvent {
   type: CompetitionEventType;
@@ -29,6 +38,7 @@ interface CompetitionEvent {
     agentId?: string;
     agentName?: string;
     solution?: Solution;
+    verification?: VerificationResult;
     winner?: string;
     txHash?: string;
     error?: string;
@@ -43,6 +53,22 @@ interface CompetitionEvent {
     total?: number;
     chunksIndexed?: number;
     chunksFound?: number;
+    chunks?: RetrievedChunkSummary[];
+    // Auction round settled
+    auction?: AuctionResult;
+    agents?: AgentStatus[];
+    bountyAmount?: number;
+    // Bounty escalation
+    escalation?: BountyEscalation;
+    // Payout confirmed, failed or re-sent
+    record?: PaymentRecord;
+    // Place in the competition queue
+    position?: number;
+    priority?: number;
+    running?: number;
+    // Solve timeout / cancellation
+    timeoutMs?: number;
+    reason?: string;
   };
 }
 
@@ -53,6 +79,7 @@ interface RAGProgress {
   current?: number;
   total?: number;
   chunksFound?: number;
+  chunks?: RetrievedChunkSummary[];
 }
 
 // Streaming state for agents, judge, and RAG
@@ -162,6 +189,7 @@ export function useCompetitionSocket({
                 stage: 'complete',
                 message: data.payload.message || 'Code analysis complete',
                 chunksFound: data.payload.chunksFound,
+                chunks: data.payload.chunks,
               },
             }));
             // Don't return - let it add to events
@@ -251,13 +279,38 @@ function applyEvent(
   if (!competition) return null;
 
   switch (event.type) {
+    case 'competition:queued':
+      return {
+        ...competition,
+        status: 'queued',
+        queuePosition: event.payload.position,
+      };
+
     case 'competition:started':
       return {
         ...competition,
         status: 'running',
+        queuePosition: null,
         ...(event.payload.competition ? { agents: event.payload.competition.agents } : {}),
       };
 
+    case 'auction:settled':
+      if (!event.payload.auction) return competition;
+      return {
+        ...competition,
+        auction: event.payload.auction,
+        ...(event.payload.agents ? { agents: event.payload.agents } : {}),
+        ...(event.payload.bountyAmount !== undefined ? { bountyAmount: event.payload.bountyAmount } : {}),
+      };
+
+    case 'bounty:escalated':
+      if (!event.payload.escalation) return competition;
+      return {
+        ...competition,
+        bountyAmount: event.payload.escalation.toPrice,
+        escalations: [...(competition.escalations ?? []), event.payload.escalation],
+      };
+
     case 'agent:solving':
       return {
         ...competition,
@@ -288,7 +341,35 @@ function applyEvent(
         ...competition,
         agents: competition.agents.map((a) =>
           a.id === event.payload.agentId
-            ? { ...a, status: 'failed' as const, completedAt: event.timestamp }
+            ? { ...a, status: 'failed' as const, error: event.payload.error, completedAt: event.timestamp }
+            : a
+        ),
+      };
+
+    case 'agent:timed_out':
+      return {
+        ...competition,
+        agents: competition.agents.map((a) =>
+          a.id === event.payload.agentId
+            ? {
+                ...a,
+                status: 'timed_out' as const,
+                error: `No solution within ${Math.round((event.payload.timeoutMs ?? 0) / 1000)}s`,
+                completedAt: event.timestamp,
+              }
+            : a
+        ),
+      };
+
+    case 'competition:verifying':
+      return { ...competition, status: 'verifying' };
+
+    case 'agent:verified':
+      return {
+        ...competition,
+        agents: competition.agents.map((a) =>
+          a.id === event.payload.agentId
+            ? { ...a, verification: event.payload.verification }
             : a
         ),
       };
@@ -315,6 +396,32 @@ function applyEvent(
         ...(event.payload.competition ? event.payload.competition : {}),
       };
 
+    case 'competition:cancelled':
+      return {
+        ...competition,
+        status: 'cancelled',
+        error: event.payload.reason,
+        completedAt: event.timestamp,
+        ...(event.payload.competition ? event.payload.competition : {}),
+      };
+
+    case 'payment:updated': {
+      const record = event.payload.record;
+      if (!record) return competition;
+      const isWinner = competition.paymentRecord?.id === record.id;
+      return {
+        ...competition,
+        paymentRecords: (competition.paymentRecords ?? []).map((r) => (r.id === record.id ? record : r)),
+        ...(isWinner
+          ? {
+              paymentRecord: record,
+              paymentTxHash: record.status === 'failed' ? undefined : record.txHash || undefined,
+              paymentError: record.status === 'failed' ? record.error : undefined,
+            }
+          : {}),
+      };
+    }
+
     default:
       return competition;
   }
@@ -4,7 +4,7 @@
  */
 
 import { MongoClient, Db, Collection } from 'mongodb';
-import type { Competition, PaymentRecord } from './services';
+import type { Competition, PaymentRecord, IndexedRepo } from './services';
 
 // Connection string from environment
 const MONGODB_URI = process.env.MONGODB_URI || '';
@@ -121,3 +121,22 @@ export async function getAgentPaymentStats(agentId: string): Promise<{
   };
 }
 
+/**
+ * List indexed repo/commit pairs from the RAG completion markers (most recent first).
+ * A commit still being indexed, or whose indexing failed, has chunks but no marker.
+ */
+export async function listIndexedRepos(): Promise<IndexedRepo[]> {
+  const database = await getDatabase();
+  const markers = await database
+    .collection<{ repoUrl: string; commitId: string; chunks: number; indexedAt: Date }>('indexed_commits')
+    .find({})
+    .sort({ indexedAt: -1 })
+    .toArray();
+
+  return markers.map((m) => ({
+    repoUrl: m.repoUrl,
+    commitId: m.commitId,
+    chunks: m.chunks,
+    indexedAt: new Date(m.indexedAt).getTime(),
+  }));
+}
@@ -0,0 +1,8 @@
+/**
+ * Authorization for registry changes forwarded to the WS server
+ * (AGENT_REGISTRY_ADMIN_SECRET, the same value the WS server is given)
+ */
+export function registryAuthHeaders(): Record<string, string> {
+  const secret = process.env.AGENT_REGISTRY_ADMIN_SECRET;
+  return secret ? { Authorization: `Bearer ${secret}` } : {};
+}
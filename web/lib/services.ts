@@ -27,18 +27,65 @@ export interface Issue {
   labels: string[];
 }
 
+export interface PatchFile {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  additions: number;
+  deletions: number;
+}
+
+export interface SolutionPatch {
+  diff: string;
+  files: PatchFile[];
+  baseCommit?: string;
+}
+
 export interface Solution {
   agentId: string;
   code: string;
+  patch?: SolutionPatch;
   timeMs: number;
   success: boolean;
+  error?: string;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean;
+}
+
+export interface CommandResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  logs: string;
+}
+
+export interface VerificationResult {
+  agentId: string;
+  applied: boolean;
+  buildPassed: boolean;
+  testsPassed: boolean | null;
+  build?: CommandResult;
+  test?: CommandResult;
+  durationMs: number;
+  error?: string;
 }
 
 export interface AgentStatus {
   id: string;
   name: string;
-  status: 'idle' | 'solving' | 'done' | 'failed';
+  status: 'idle' | 'evaluating' | 'declined' | 'solving' | 'done' | 'failed' | 'timed_out';
   solution?: Solution;
+  verification?: VerificationResult;
+  error?: string;
   startedAt?: number;
   completedAt?: number;
 }
@@ -71,23 +118,152 @@ export interface PaymentRecord {
   createdAt: number;
   confirmedAt?: number;
   error?: string;
+  kind?: 'payout' | 'call';     // call = an agent's per-call fee (x402)
+  role?: PayoutRole;
+  reason?: string;
+  blockNumber?: number;
+  attempts?: number;
+  nextAttemptAt?: number;       // Failed, another attempt queued
+  previousTxHashes?: string[];
+  nonce?: number;
+  unknownTx?: boolean;
+}
+
+export type PayoutRole = 'winner' | 'contributor' | 'consolation';
+
+export interface PayoutPolicy {
+  kind: 'winner-take-all' | 'top-n' | 'consolation';
+  topN: number;
+  consolationAmount: number;
 }
 
 export interface Competition {
   id: string;
   issue: Issue;
   bountyAmount: number;
-  status: 'pending' | 'running' | 'judging' | 'paying' | 'completed';
+  status: 'queued' | 'pending' | 'running' | 'verifying' | 'judging' | 'paying' | 'completed' | 'cancelled';
   agents: AgentStatus[];
   winner?: string;
   reviewResult?: ReviewResult;
   paymentTxHash?: string;
   paymentError?: string;
   paymentRecord?: PaymentRecord;
+  payoutPolicy?: PayoutPolicy;
+  paymentRecords?: PaymentRecord[];
+  bountyEstimate?: BountyEstimate;
+  auction?: AuctionResult;
+  escalations?: BountyEscalation[];
+  resumes?: number;             // Times it was resumed after a crash
+  error?: string;               // Why it stopped before finishing
+  deadline?: number;            // Cancelled if still running at this time
+  priority?: number;
+  queuedAt?: number;
+  queuePosition?: number | null; // 1-based while queued
   createdAt: number;
   completedAt?: number;
 }
 
+export type AuctionMode = 'sealed-bid' | 'reverse-dutch' | 'vickrey';
+
+export interface AuctionBid {
+  agentId: string;
+  round: number;
+  offeredPrice: number;
+  bidPrice: number | null;
+  minPrice?: number;
+  estimatedCost?: number;
+  etaMs?: number;
+  accepted: boolean;
+  reason: string;
+  at: number;
+}
+
+export interface AuctionResult {
+  config: {
+    mode: AuctionMode;
+    maxPrice: number;
+    maxParticipants: number;
+    startPrice?: number;
+    stepPercent?: number;
+    minParticipants?: number;
+  };
+  bids: AuctionBid[];
+  participants: string[];
+  payouts: Record<string, number>;
+  clearingPrice: number | null;
+  rounds: number;
+  summary: string;
+}
+
+export interface BountyEstimate {
+  amount: number;
+  low: number;
+  high: number;
+  confidence: number; // 0-1
+  difficulty: number;
+  factors: Array<{
+    name: 'labels' | 'description' | 'code' | 'history';
+    multiplier: number;
+    detail: string;
+  }>;
+  similarIssues: number;
+  explanation: string;
+}
+
+export interface BountyEscalation {
+  round: number;
+  fromPrice: number;
+  toPrice: number;
+  strategy: 'highest-min-price' | 'step';
+  reason: string;
+  participants: number;
+  summary: string;
+  at: number;
+}
+
+export interface EscrowHold {
+  competitionId: string;
+  amount: number;
+  status: 'reserved' | 'released' | 'refunded';
+  payouts?: Array<{ agentId: string; amount: number; txHash: string }>;
+  paidAmount?: number;
+  reason?: string;
+  createdAt: number;
+  updatedAt: number;
+  settledAt?: number;
+}
+
+// balance/available are null when the payment service can't report a balance
+export interface EscrowSummary {
+  balance: number | null;
+  reserved: number;
+  available: number | null;
+  holds: EscrowHold[];
+}
+
+export interface IndexedRepo {
+  repoUrl: string;
+  commitId: string;
+  chunks: number;
+  indexedAt: number;
+}
+
+export interface ChunkMatch {
+  vectorRank?: number;
+  keywordRank?: number;
+  matchedTerms: string[];
+  reason: string;
+}
+
+// Retrieved chunk as sent with rag:complete (code omitted)
+export interface RetrievedChunkSummary {
+  filePath: string;
+  chunkType: string;
+  chunkName: string;
+  score?: number;
+  match?: ChunkMatch;
+}
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -96,6 +272,34 @@ export interface AgentConfig {
   walletAddress?: string;
 }
 
+// An agent's LLM provider health (mirrors ProviderStatus in src/types)
+export interface ProviderStatus {
+  provider: RegisteredAgent['provider'];
+  circuit: 'closed' | 'open' | 'half_open';
+  failures: number;
+  retryAt?: number;
+  tokens: number;
+}
+
+// Agent registry entry (mirrors RegisteredAgent in src/types)
+export interface RegisteredAgent extends AgentConfig {
+  provider: 'fireworks' | 'openai' | 'anthropic' | 'google' | 'xai';
+  url: string;
+  enabled: boolean;
+  selfRegistered?: boolean;
+  lastSeenAt?: number;
+  providerStatus?: ProviderStatus; // As reported on the agent's last /health
+  online?: boolean;
+  languages?: string[];
+  contextWindow: number;
+  costPerToken: number;
+  avgTokensPerSolution: number;
+  minimumMargin: number;
+  callPrices?: { solve?: number; review?: number }; // Per-call fees (x402), USDC
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Agent configurations (same as parent config)
 export const agents: AgentConfig[] = [
   {